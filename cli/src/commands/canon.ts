@@ -7,6 +7,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs/promises';
 import path from 'path';
+import { postToApp } from '../utils/api.js';
 
 interface CanonEntry {
   id: string;
@@ -16,6 +17,26 @@ interface CanonEntry {
   data?: Record<string, unknown>;
 }
 
+type CanonImportFormat = 'json' | 'yaml' | 'csv';
+type CanonImportAction = 'create' | 'update' | 'unchanged' | 'skip';
+
+// Response of POST /api/projects/[projectId]/canon/import
+interface CanonImportResult {
+  success?: boolean;
+  dryRun?: boolean;
+  items?: Array<{
+    row: number;
+    action: CanonImportAction;
+    entityType: string | null;
+    name: string | null;
+    changes: Array<{ path: string }>;
+    warnings: string[];
+    error?: string;
+  }>;
+  summary?: Record<CanonImportAction, number> & { errors: number };
+  error?: string;
+}
+
 interface CanonFile {
   characters?: CanonEntry[];
   locations?: CanonEntry[];
@@ -40,6 +61,34 @@ async function saveCanonFile(type: string, entries: CanonEntry[]): Promise<void>
   await fs.writeFile(filePath, JSON.stringify({ [type]: entries }, null, 2));
 }
 
+async function loadProjectCloudId(): Promise<string | undefined> {
+  try {
+    const content = await fs.readFile(path.join(process.cwd(), 'storyforge.json'), 'utf-8');
+    return JSON.parse(content).cloudId;
+  } catch {
+    return undefined;
+  }
+}
+
+function detectImportFormat(file: string): CanonImportFormat | null {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === '.json') return 'json';
+  if (extension === '.yaml' || extension === '.yml') return 'yaml';
+  if (extension === '.csv') return 'csv';
+  return null;
+}
+
+// --map "Character Name=name" --map "Bio=backstory"
+function parseMappings(mappings: string[] = []): Record<string, string> | null {
+  const mapping: Record<string, string> = {};
+  for (const pair of mappings) {
+    const [from, to] = pair.split('=').map((part) => part.trim());
+    if (!from || !to) return null;
+    mapping[from] = to;
+  }
+  return mapping;
+}
+
 function generateId(): string {
   return Math.random().toString(36).substring(2, 15);
 }
@@ -182,4 +231,108 @@ export const canonCommand = {
 
     console.log(chalk.yellow(`Entry "${nameOrId}" not found`));
   },
+
+  async import(
+    file: string,
+    options: {
+      type?: string;
+      format?: string;
+      map?: string[];
+      project?: string;
+      dryRun?: boolean;
+      update?: boolean;
+    }
+  ): Promise<void> {
+    const format = (options.format as CanonImportFormat | undefined) || detectImportFormat(file);
+    if (!format || !['json', 'yaml', 'csv'].includes(format)) {
+      console.log(chalk.red('Unknown format. Use --format json, yaml or csv.'));
+      return;
+    }
+
+    const mapping = parseMappings(options.map);
+    if (!mapping) {
+      console.log(chalk.red('Mappings must look like "Source Column=field"'));
+      return;
+    }
+
+    const projectId = options.project || (await loadProjectCloudId());
+    if (!projectId) {
+      console.log(chalk.yellow('No project specified. Run from a synced project directory or pass --project.'));
+      return;
+    }
+
+    const spinner = ora(`Reading ${path.basename(file)}...`).start();
+
+    try {
+      const content = await fs.readFile(path.resolve(file), 'utf-8');
+
+      // The web app parses, validates and applies the import
+      spinner.text = 'Comparing with the canon vault...';
+      const response = await postToApp<CanonImportResult>(`/api/projects/${projectId}/canon/import`, {
+        format,
+        content,
+        defaultEntityType: options.type,
+        mapping,
+        updateExisting: options.update !== false,
+        dryRun: options.dryRun,
+      });
+      spinner.stop();
+      if (!response) return;
+
+      const result = response.data;
+      if (!result.items || !result.summary) {
+        console.log(chalk.red(`Import failed (${response.status}): ${result.error || 'unexpected response'}`));
+        return;
+      }
+
+      const actionColors: Record<CanonImportAction, (text: string) => string> = {
+        create: chalk.green,
+        update: chalk.yellow,
+        unchanged: chalk.gray,
+        skip: chalk.gray,
+      };
+
+      console.log(chalk.bold.cyan(`\n  Canon Import${options.dryRun ? ' (dry run)' : ''}\n`));
+      for (const item of result.items) {
+        const label = `${item.name || '(unnamed)'}${item.entityType ? chalk.gray(` [${item.entityType}]`) : ''}`;
+
+        if (item.error) {
+          console.log(`  ${chalk.red('error'.padEnd(10))} row ${item.row}: ${label} - ${chalk.red(item.error)}`);
+          continue;
+        }
+
+        console.log(`  ${actionColors[item.action](item.action.padEnd(10))} ${label}`);
+        if (item.action === 'update') {
+          console.log(chalk.gray(`             ${item.changes.map((change) => change.path).join(', ')}`));
+        }
+        for (const warning of item.warnings) {
+          console.log(chalk.yellow(`             ${warning}`));
+        }
+      }
+
+      const { summary } = result;
+      console.log(
+        `\n  ${summary.create} to create, ${summary.update} to update, ${summary.unchanged} unchanged, ${summary.skip} skipped` +
+          (summary.errors > 0 ? chalk.red(`, ${summary.errors} errors`) : '')
+      );
+
+      if (!response.ok) {
+        console.log(chalk.red(`\n  Nothing was imported. ${result.error || 'Fix the errors above and try again.'}\n`));
+        return;
+      }
+
+      if (result.dryRun) {
+        console.log(chalk.gray('\n  Dry run - nothing was imported.\n'));
+        return;
+      }
+
+      const imported = summary.create + summary.update;
+      console.log(imported > 0 ? chalk.green(`\n  Imported ${imported} entries\n`) : chalk.gray('\n  Nothing to import.\n'));
+    } catch (error) {
+      spinner.fail(chalk.red('Failed to import canon'));
+      if (error instanceof Error) {
+        console.error(chalk.red(error.message));
+      }
+    }
+  },
 };
@@ -10,7 +10,19 @@ import { getConfig } from '../utils/config.js';
 export const configCommand = {
   set(key: string, value: string): void {
     const config = getConfig();
-    const validKeys = ['apiKey', 'anthropicApiKey', 'supabaseUrl', 'supabaseKey', 'defaultMode'];
+    const validKeys = [
+      'apiKey',
+      'anthropicApiKey',
+      'supabaseUrl',
+      'supabaseKey',
+      'appUrl',
+      'defaultMode',
+      'llmProvider',
+      'llmModel',
+      'llmBaseUrl',
+      'llmApiKey',
+      'llmFixturesDir',
+    ];
 
     if (!validKeys.includes(key)) {
       console.log(chalk.yellow(`Unknown config key. Valid keys: ${validKeys.join(', ')}`));
@@ -7,27 +7,13 @@ import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs/promises';
 import path from 'path';
-import Anthropic from '@anthropic-ai/sdk';
-import { getConfig } from '../utils/config.js';
+import { getLLMProvider, tokensUsed } from '../utils/llm.js';
 
 interface GenerateOptions {
   chapter?: string;
   words?: string;
 }
 
-async function getAnthropicClient(): Promise<Anthropic | null> {
-  const config = getConfig();
-  const apiKey = config.get('anthropicApiKey') || process.env.ANTHROPIC_API_KEY;
-
-  if (!apiKey) {
-    console.log(chalk.yellow('Anthropic API key not set.'));
-    console.log(chalk.gray('Run: storyforge config set anthropicApiKey YOUR_KEY'));
-    return null;
-  }
-
-  return new Anthropic({ apiKey });
-}
-
 async function loadCanonContext(): Promise<string> {
   const types = ['characters', 'locations', 'rules'];
   const parts: string[] = [];
@@ -74,8 +60,8 @@ async function loadChapterContent(chapterPath?: string): Promise<string> {
 
 export const generateCommand = {
   async continue(options: GenerateOptions): Promise<void> {
-    const client = await getAnthropicClient();
-    if (!client) return;
+    const provider = getLLMProvider();
+    if (!provider) return;
 
     const spinner = ora('Loading context...').start();
 
@@ -86,9 +72,8 @@ export const generateCommand = {
 
       spinner.text = 'Generating content...';
 
-      const response = await client.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: Math.ceil(targetWords * 1.5),
+      const completion = await provider.complete({
+        maxTokens: Math.ceil(targetWords * 1.5),
         system: `You are StoryForge, an expert creative writing assistant. Continue the story naturally while respecting the established canon.
 
 CANON CONTEXT:
@@ -110,18 +95,13 @@ GUIDELINES:
 
       spinner.stop();
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type');
-      }
-
       console.log(chalk.bold.cyan('\n  Generated Content:\n'));
-      console.log(chalk.white(content.text));
+      console.log(chalk.white(completion.text));
       console.log('');
 
       // Offer to append
       console.log(chalk.gray('  To append to your chapter, copy the text above.'));
-      console.log(chalk.gray(`  Tokens used: ${response.usage.input_tokens + response.usage.output_tokens}`));
+      console.log(chalk.gray(`  Tokens used: ${tokensUsed(completion)} (${completion.model})`));
     } catch (error) {
       spinner.fail(chalk.red('Generation failed'));
       if (error instanceof Error) {
@@ -131,17 +111,16 @@ GUIDELINES:
   },
 
   async expand(text: string): Promise<void> {
-    const client = await getAnthropicClient();
-    if (!client) return;
+    const provider = getLLMProvider();
+    if (!provider) return;
 
     const spinner = ora('Expanding text...').start();
 
     try {
       const canonContext = await loadCanonContext();
 
-      const response = await client.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 2000,
+      const completion = await provider.complete({
+        maxTokens: 2000,
         system: `You are StoryForge. Expand the given text with more detail, sensory description, and depth while preserving the original meaning.
 
 CANON CONTEXT:
@@ -156,13 +135,8 @@ ${canonContext || 'No canon established yet.'}`,
 
       spinner.stop();
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type');
-      }
-
       console.log(chalk.bold.cyan('\n  Expanded Text:\n'));
-      console.log(chalk.white(content.text));
+      console.log(chalk.white(completion.text));
       console.log('');
     } catch (error) {
       spinner.fail(chalk.red('Expansion failed'));
@@ -173,17 +147,16 @@ ${canonContext || 'No canon established yet.'}`,
   },
 
   async brainstorm(topic: string): Promise<void> {
-    const client = await getAnthropicClient();
-    if (!client) return;
+    const provider = getLLMProvider();
+    if (!provider) return;
 
     const spinner = ora('Brainstorming ideas...').start();
 
     try {
       const canonContext = await loadCanonContext();
 
-      const response = await client.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1500,
+      const completion = await provider.complete({
+        maxTokens: 1500,
         system: `You are StoryForge. Generate creative ideas that respect the established canon.
 
 CANON CONTEXT:
@@ -200,13 +173,8 @@ Format as a numbered list with brief explanations.`,
 
       spinner.stop();
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type');
-      }
-
       console.log(chalk.bold.cyan('\n  Ideas:\n'));
-      console.log(chalk.white(content.text));
+      console.log(chalk.white(completion.text));
       console.log('');
     } catch (error) {
       spinner.fail(chalk.red('Brainstorming failed'));
@@ -217,8 +185,8 @@ Format as a numbered list with brief explanations.`,
   },
 
   async outline(options: { chapter?: string }): Promise<void> {
-    const client = await getAnthropicClient();
-    if (!client) return;
+    const provider = getLLMProvider();
+    if (!provider) return;
 
     const spinner = ora('Generating outline...').start();
 
@@ -226,9 +194,8 @@ Format as a numbered list with brief explanations.`,
       const canonContext = await loadCanonContext();
       const chapterNumber = options.chapter || 'next';
 
-      const response = await client.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1500,
+      const completion = await provider.complete({
+        maxTokens: 1500,
         system: `You are StoryForge. Create a detailed chapter outline respecting the established canon.
 
 CANON CONTEXT:
@@ -251,13 +218,8 @@ Include:
 
       spinner.stop();
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type');
-      }
-
       console.log(chalk.bold.cyan('\n  Chapter Outline:\n'));
-      console.log(chalk.white(content.text));
+      console.log(chalk.white(completion.text));
       console.log('');
     } catch (error) {
       spinner.fail(chalk.red('Outline generation failed'));
@@ -81,6 +81,18 @@ program
       .argument('<name-or-id>', 'Entry name or ID')
       .option('--hard', 'Apply hard lock (cannot be unlocked without admin)')
       .action((nameOrId, options) => canonCommand.lock(nameOrId, options))
+  )
+  .addCommand(
+    new Command('import')
+      .description('Import canon entries from a JSON, YAML or CSV file')
+      .argument('<file>', 'File to import')
+      .option('-t, --type <type>', 'Entity type for records without one (character, location, rule, event, theme)')
+      .option('-f, --format <format>', 'File format (json, yaml, csv); detected from the extension by default')
+      .option('-m, --map <column=field>', 'Map a source column or key to a field (repeatable)', (value: string, previous: string[] = []) => [...previous, value])
+      .option('-p, --project <id>', 'Cloud project ID (defaults to the synced project)')
+      .option('--dry-run', 'Preview the changes without importing')
+      .option('--no-update', 'Skip entries that already exist instead of updating them')
+      .action((file, options) => canonCommand.import(file, options))
   );
 
 // Generate commands
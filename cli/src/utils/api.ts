@@ -0,0 +1,46 @@
+/**
+ * Web App API Utilities
+ * Calls the Halcyon Cinema API as the logged-in user
+ *
+ * The base URL comes from the CLI config (appUrl) or STORYFORGE_APP_URL.
+ * Requests carry the Supabase access token as a bearer token.
+ */
+
+import chalk from 'chalk';
+import { getConfig, getSupabaseClient } from './config.js';
+
+export interface ApiResponse<T> {
+  ok: boolean;
+  status: number;
+  data: T;
+}
+
+/**
+ * POST JSON to an API route, or print setup help and return null
+ */
+export async function postToApp<T>(route: string, body: unknown): Promise<ApiResponse<T> | null> {
+  const appUrl = getConfig().get('appUrl') || process.env.STORYFORGE_APP_URL;
+  if (!appUrl) {
+    console.log(chalk.yellow('Web app URL not set.'));
+    console.log(chalk.gray('Run: storyforge config set appUrl https://your-halcyon-app'));
+    return null;
+  }
+
+  const session = (await getSupabaseClient()?.auth.getSession())?.data.session;
+  if (!session) {
+    console.log(chalk.yellow('Not authenticated. Run `storyforge config login` first.'));
+    return null;
+  }
+
+  const response = await fetch(`${appUrl.replace(/\/+$/, '')}${route}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = (await response.json().catch(() => ({}))) as T;
+  return { ok: response.ok, status: response.status, data };
+}
@@ -8,7 +8,13 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 interface ConfigSchema {
   apiKey?: string;
   anthropicApiKey?: string;
+  llmProvider?: 'anthropic' | 'openai' | 'mock';
+  llmModel?: string;
+  llmBaseUrl?: string;
+  llmApiKey?: string;
+  llmFixturesDir?: string;
   supabaseUrl?: string;
+  appUrl?: string; // Web app base URL for API calls
   supabaseKey?: string;
   accessToken?: string;
   refreshToken?: string;
@@ -0,0 +1,66 @@
+/**
+ * CLI LLM Provider Utilities
+ * Builds providers from the web app's provider layer (anthropic | openai | mock)
+ *
+ * Settings come from the CLI config, falling back to the same environment
+ * variables the web app uses (LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL, LLM_API_KEY,
+ * LLM_FIXTURES_DIR). The mock provider replays the app's fixtures by default.
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import { createLLMProvider, type LLMCompletion, type LLMProvider, type LLMProviderName } from '../../../src/lib/llm';
+import { getConfig } from './config.js';
+
+export type { LLMCompletion, LLMProvider } from '../../../src/lib/llm';
+
+// Same relative location from src/utils and from the build output (dist mirrors the repo layout)
+const SHARED_FIXTURES_DIR = path.resolve(__dirname, '../../../src/lib/llm/fixtures');
+
+/**
+ * Total tokens of a completion
+ */
+export function tokensUsed(completion: LLMCompletion): number {
+  return completion.usage.inputTokens + completion.usage.outputTokens;
+}
+
+/**
+ * Create the configured provider, or print setup help and return null
+ */
+export function getLLMProvider(): LLMProvider | null {
+  const config = getConfig();
+  const providerName = (config.get('llmProvider') || process.env.LLM_PROVIDER || 'anthropic') as LLMProviderName;
+  const model = config.get('llmModel') || process.env.LLM_MODEL;
+
+  switch (providerName) {
+    case 'anthropic': {
+      const apiKey = config.get('anthropicApiKey') || process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        console.log(chalk.yellow('Anthropic API key not set.'));
+        console.log(chalk.gray('Run: storyforge config set anthropicApiKey YOUR_KEY'));
+        return null;
+      }
+      return createLLMProvider(providerName, { apiKey, model });
+    }
+
+    case 'openai': {
+      const baseUrl = config.get('llmBaseUrl') || process.env.LLM_BASE_URL;
+      if (!baseUrl || !model) {
+        console.log(chalk.yellow('LLM base URL and model are required for the openai provider.'));
+        console.log(chalk.gray('Run: storyforge config set llmBaseUrl URL && storyforge config set llmModel MODEL'));
+        return null;
+      }
+      return createLLMProvider(providerName, { baseUrl, model, apiKey: config.get('llmApiKey') });
+    }
+
+    case 'mock':
+      return createLLMProvider(providerName, {
+        fixturesDir: config.get('llmFixturesDir') || process.env.LLM_FIXTURES_DIR || SHARED_FIXTURES_DIR,
+      });
+
+    default:
+      console.log(chalk.yellow(`Unknown LLM provider: ${providerName}`));
+      console.log(chalk.gray('Valid providers: anthropic, openai, mock'));
+      return null;
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+import type { CanonLockStatus } from '@/types/database';
+
+// POST /api/projects/[projectId]/canon/[entryId]/lock - Set an entry's lock status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; entryId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: entry } = await supabase
+      .from('canon_entries')
+      .select('id')
+      .eq('id', params.entryId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Canon entry not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { lockStatus } = body;
+
+    const validStatuses: CanonLockStatus[] = ['unlocked', 'soft_locked', 'hard_locked'];
+    if (!validStatuses.includes(lockStatus)) {
+      return NextResponse.json({ error: 'Invalid lock status' }, { status: 400 });
+    }
+
+    const result = await getCanonManager().lockEntry(params.entryId, lockStatus, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.failure === 'forbidden' ? 403 : result.failure === 'not_found' ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('POST /api/projects/[id]/canon/[entryId]/lock error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
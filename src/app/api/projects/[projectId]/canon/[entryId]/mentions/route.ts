@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonReferenceIndexer } from '@/modules/storyforge';
+
+// GET /api/projects/[projectId]/canon/[entryId]/mentions - Where a canon entry is mentioned
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string; entryId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: entry } = await supabase
+      .from('canon_entries')
+      .select('id, name, reference_count, last_referenced_at')
+      .eq('id', params.entryId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Canon entry not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '100');
+
+    const { mentions, total } = await getCanonReferenceIndexer().getMentions(entry.id, limit);
+
+    return NextResponse.json({
+      entry: {
+        id: entry.id,
+        name: entry.name,
+        referenceCount: entry.reference_count,
+        lastReferencedAt: entry.last_referenced_at,
+      },
+      mentions,
+      total,
+    });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/canon/[entryId]/mentions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
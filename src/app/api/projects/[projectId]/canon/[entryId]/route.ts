@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+import type { CanonEditResult } from '@/modules/storyforge';
+
+function editFailureStatus(result: CanonEditResult): number {
+  switch (result.failure) {
+    case 'not_found':
+      return 404;
+    case 'forbidden':
+      return 403;
+    case 'override_required':
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+// PATCH /api/projects/[projectId]/canon/[entryId] - Update a canon entry
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { projectId: string; entryId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: entry } = await supabase
+      .from('canon_entries')
+      .select('id')
+      .eq('id', params.entryId)
+      .eq('project_id', params.projectId)
+      .eq('is_active', true)
+      .single();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Canon entry not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { name, description, entityData, reason, lockOverrideReason } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'name must be a non-empty string' }, { status: 400 });
+    }
+
+    if (entityData !== undefined && (typeof entityData !== 'object' || entityData === null || Array.isArray(entityData))) {
+      return NextResponse.json({ error: 'entityData must be an object' }, { status: 400 });
+    }
+
+    // Soft-locked entries need lockOverrideReason; hard-locked ones also need the owner or an admin
+    const result = await getCanonManager().updateEntry(
+      params.entryId,
+      { name, description, entityData },
+      user.id,
+      typeof reason === 'string' ? reason : undefined,
+      'manual',
+      typeof lockOverrideReason === 'string' ? lockOverrideReason : undefined
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, failure: result.failure },
+        { status: editFailureStatus(result) }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('PATCH /api/projects/[id]/canon/[entryId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[projectId]/canon/[entryId] - Retire a canon entry
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { projectId: string; entryId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: entry } = await supabase
+      .from('canon_entries')
+      .select('id')
+      .eq('id', params.entryId)
+      .eq('project_id', params.projectId)
+      .eq('is_active', true)
+      .single();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Canon entry not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const result = await getCanonManager().deleteEntry(
+      params.entryId,
+      user.id,
+      searchParams.get('lockOverrideReason') || undefined
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, failure: result.failure },
+        { status: editFailureStatus(result) }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('DELETE /api/projects/[id]/canon/[entryId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+
+// GET /api/projects/[projectId]/canon/[entryId]/versions - Version history of a canon entry
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string; entryId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: entry } = await supabase
+      .from('canon_entries')
+      .select('id')
+      .eq('id', params.entryId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Canon entry not found' }, { status: 404 });
+    }
+
+    const versions = await getCanonManager().getVersionHistory(params.entryId);
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/canon/[entryId]/versions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getChronologyService, getCanonManager } from '@/modules/storyforge';
+
+// GET /api/projects/[projectId]/canon/chronology - Events and scenes in story order, with timeline conflicts
+// Optional: ?timelineId=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const timelineId = searchParams.get('timelineId') || undefined;
+
+    if (timelineId && !(await getCanonManager().getTimeline(params.projectId, timelineId))) {
+      return NextResponse.json({ error: 'Timeline not found' }, { status: 404 });
+    }
+
+    const chronology = await getChronologyService().analyze(params.projectId, timelineId);
+
+    return NextResponse.json({ chronology });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/canon/chronology error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
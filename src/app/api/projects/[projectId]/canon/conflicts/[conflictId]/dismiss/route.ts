@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+
+// POST /api/projects/[projectId]/canon/conflicts/[conflictId]/dismiss - Close a conflict without changes
+// Optional body: { note }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; conflictId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const result = await getCanonManager().dismissConflict(
+      params.projectId,
+      params.conflictId,
+      user.id,
+      typeof body.note === 'string' ? body.note : undefined
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ conflict: result.conflict });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/canon/conflicts/[conflictId]/dismiss error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
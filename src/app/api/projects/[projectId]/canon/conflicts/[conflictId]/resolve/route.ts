@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+import type { ConflictResolution } from '@/types/database';
+
+const RESOLUTIONS: ConflictResolution[] = ['keep_canon', 'update_canon', 'fork_timeline'];
+
+// POST /api/projects/[projectId]/canon/conflicts/[conflictId]/resolve - Resolve an open conflict
+// Body: { resolution, note?, updatedCanonData? (update_canon), timelineName?, timelineDescription?,
+//         parentTimelineId?, forkPointEventId? (fork_timeline) }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; conflictId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const {
+      resolution,
+      note,
+      updatedCanonData,
+      timelineName,
+      timelineDescription,
+      parentTimelineId,
+      forkPointEventId,
+    } = body;
+
+    if (!RESOLUTIONS.includes(resolution)) {
+      return NextResponse.json({ error: 'Invalid resolution' }, { status: 400 });
+    }
+
+    const result = await getCanonManager().resolveConflict(
+      params.projectId,
+      {
+        conflictId: params.conflictId,
+        resolution,
+        note,
+        updatedCanonData,
+        timelineName,
+        timelineDescription,
+        parentTimelineId,
+        forkPointEventId,
+      },
+      user.id
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ conflict: result.conflict });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/canon/conflicts/[conflictId]/resolve error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
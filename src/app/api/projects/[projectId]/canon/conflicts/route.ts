@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+import type { CanonConflictStatus } from '@/types/database';
+
+const CONFLICT_STATUSES: CanonConflictStatus[] = ['open', 'resolved', 'dismissed'];
+
+// GET /api/projects/[projectId]/canon/conflicts - Canon conflict review queue
+// Optional: ?status=open|resolved|dismissed|all (defaults to open), ?targetId=, ?canonEntryId=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'open';
+
+    if (status !== 'all' && !CONFLICT_STATUSES.includes(status as CanonConflictStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const conflicts = await getCanonManager().getConflicts(params.projectId, {
+      status: status === 'all' ? undefined : (status as CanonConflictStatus),
+      targetId: searchParams.get('targetId') || undefined,
+      canonEntryId: searchParams.get('canonEntryId') || undefined,
+    });
+
+    return NextResponse.json({ conflicts });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/canon/conflicts error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
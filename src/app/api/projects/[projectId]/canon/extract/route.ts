@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getStoryForgeGenerator, getCanonManager, getCanonSuggestionService } from '@/modules/storyforge';
+import { checkFeatureAccess } from '@/lib/feature-flags';
+import { estimateTokens, quotaExceededResponse, reconcileAiTokens, reserveAiTokens } from '@/lib/quota';
+import type { CanonSuggestionDraft } from '@/modules/storyforge';
+import type { Json } from '@/types/database';
+
+// Output budget per chapter for the token reservation
+const EXTRACTION_OUTPUT_TOKENS = 4096;
+
+// POST /api/projects/[projectId]/canon/extract - Propose canon from existing chapters
+// Body: { chapterIds?: string[] } (defaults to every chapter)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check feature access
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'ai_generation');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { chapterIds } = body;
+
+    if (chapterIds !== undefined && (!Array.isArray(chapterIds) || chapterIds.length === 0)) {
+      return NextResponse.json({ error: 'chapterIds must be a non-empty array' }, { status: 400 });
+    }
+
+    let chapterQuery = supabase
+      .from('chapters')
+      .select('id, title, content')
+      .eq('project_id', params.projectId)
+      .order('order_index', { ascending: true });
+
+    if (chapterIds) {
+      chapterQuery = chapterQuery.in('id', chapterIds);
+    }
+
+    const { data: chapters } = await chapterQuery;
+    const withText = (chapters || []).filter((chapter) => chapter.content?.trim());
+
+    if (withText.length === 0) {
+      return NextResponse.json({ error: 'No chapter text to extract from' }, { status: 400 });
+    }
+
+    // Extraction proposes main timeline canon
+    const canonContext = await getCanonManager().loadCanonContext(params.projectId);
+
+    // Reserve token budget before calling the model
+    const canonJson = JSON.stringify(canonContext);
+    const estimatedTokens = estimateTokens(
+      withText.flatMap((chapter) => [chapter.content, canonJson]),
+      EXTRACTION_OUTPUT_TOKENS * withText.length
+    );
+    const { allowed, quota, reservation } = await reserveAiTokens(user.id, estimatedTokens);
+    if (!allowed || !reservation) {
+      return quotaExceededResponse(quota, estimatedTokens);
+    }
+
+    const generator = getStoryForgeGenerator();
+    const drafts: CanonSuggestionDraft[] = [];
+    const failedChapters: Array<{ chapterId: string; error: string }> = [];
+    let tokensUsed = 0;
+
+    for (const chapter of withText) {
+      const startTime = Date.now();
+      const result = await generator.extractCanon(
+        { id: chapter.id, title: chapter.title, content: chapter.content! },
+        canonContext
+      );
+
+      tokensUsed += result.tokensUsed;
+      drafts.push(...result.suggestions);
+      if (!result.success) {
+        failedChapters.push({ chapterId: chapter.id, error: result.error || 'Canon extraction failed' });
+      }
+
+      // Log generation
+      await supabase.from('ai_generations').insert({
+        user_id: user.id,
+        project_id: params.projectId,
+        generation_type: 'canon_extraction',
+        target_type: 'chapter',
+        target_id: chapter.id,
+        output_content: JSON.stringify(result.suggestions),
+        canon_loaded: canonContext as unknown as Json,
+        tokens_used: result.tokensUsed,
+        model_used: result.model,
+        latency_ms: Date.now() - startTime,
+        status: result.success ? 'completed' : 'failed',
+        error_message: result.error,
+      });
+    }
+
+    // Replace the reservation with actual token usage
+    await reconcileAiTokens(reservation, tokensUsed);
+
+    const suggestions = await getCanonSuggestionService().saveSuggestions(params.projectId, drafts, user.id);
+
+    return NextResponse.json({ suggestions, tokensUsed, failedChapters });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/canon/extract error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonGraphService, getCanonManager, findNeighborhood } from '@/modules/storyforge';
+import type { CanonEntityType } from '@/types/database';
+
+const DEFAULT_HOPS = 2;
+const MAX_HOPS = 5;
+
+// GET /api/projects/[projectId]/canon/graph - Canon relationship graph
+// Optional: ?timelineId=, ?focus=<entryId>&hops=2, ?types=character,location
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const timelineId = searchParams.get('timelineId') || undefined;
+    const focus = searchParams.get('focus');
+    const hops = Math.min(Math.max(parseInt(searchParams.get('hops') || String(DEFAULT_HOPS), 10) || 1, 1), MAX_HOPS);
+    const types = searchParams.get('types')?.split(',').filter(Boolean) as CanonEntityType[] | undefined;
+
+    if (timelineId && !(await getCanonManager().getTimeline(params.projectId, timelineId))) {
+      return NextResponse.json({ error: 'Timeline not found' }, { status: 404 });
+    }
+
+    let graph = await getCanonGraphService().buildGraph(params.projectId, timelineId);
+
+    if (focus) {
+      if (!graph.nodes.some((node) => node.id === focus)) {
+        return NextResponse.json({ error: 'Canon entry not found' }, { status: 404 });
+      }
+      graph = findNeighborhood(graph, focus, hops);
+    }
+
+    if (types && types.length > 0) {
+      const kept = new Set(graph.nodes.filter((node) => types.includes(node.entityType)).map((node) => node.id));
+      graph = {
+        nodes: graph.nodes.filter((node) => kept.has(node.id)),
+        edges: graph.edges.filter((edge) => kept.has(edge.source) && kept.has(edge.target)),
+        issues: graph.issues.filter((issue) => kept.has(issue.source)),
+      };
+    }
+
+    return NextResponse.json({ graph });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/canon/graph error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
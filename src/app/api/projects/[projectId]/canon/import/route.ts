@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonImporter } from '@/modules/storyforge';
+import type { CanonImportFormat } from '@/modules/storyforge';
+
+const IMPORT_FORMATS: CanonImportFormat[] = ['json', 'yaml', 'csv'];
+
+// POST /api/projects/[projectId]/canon/import - Bulk import canon entries
+// Body: { format, content, defaultEntityType?, mapping?, updateExisting?, dryRun? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { format, content, defaultEntityType, mapping, updateExisting, dryRun } = body;
+
+    if (!IMPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${IMPORT_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ error: 'content is required' }, { status: 400 });
+    }
+
+    const result = await getCanonImporter().importCanon(
+      params.projectId,
+      content,
+      { format, defaultEntityType, mapping, updateExisting, dryRun },
+      user.id
+    );
+
+    // Nothing is written when any entry fails, so the preview comes back with the errors
+    if (!result.success) {
+      return NextResponse.json(result, { status: 422 });
+    }
+
+    return NextResponse.json(result, { status: result.dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/canon/import error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+
+// POST /api/projects/[projectId]/canon/milestones/[milestoneId]/rollback - Return the canon to a milestone
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; milestoneId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const canonManager = getCanonManager();
+    const milestone = await canonManager.getMilestone(params.projectId, params.milestoneId);
+
+    if (!milestone) {
+      return NextResponse.json({ error: 'Milestone not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { lockOverrideReason } = body;
+
+    const result = await canonManager.rollbackToSnapshot(
+      params.projectId,
+      milestone.taken_at,
+      user.id,
+      `milestone "${milestone.name}"`,
+      typeof lockOverrideReason === 'string' ? lockOverrideReason : undefined
+    );
+
+    // Locked entries are reported per entry rather than failing the whole rollback
+    return NextResponse.json(result, { status: result.success || result.changed.length > 0 ? 200 : 409 });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/canon/milestones/[milestoneId]/rollback error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
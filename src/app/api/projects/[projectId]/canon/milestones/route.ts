@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+
+// GET /api/projects/[projectId]/canon/milestones - List canon milestones
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const milestones = await getCanonManager().getMilestones(params.projectId);
+
+    return NextResponse.json({ milestones });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/canon/milestones error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[projectId]/canon/milestones - Tag the canon at a point in time
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { name, description, takenAt } = body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Milestone name is required' }, { status: 400 });
+    }
+
+    if (takenAt !== undefined && (typeof takenAt !== 'string' || isNaN(Date.parse(takenAt)))) {
+      return NextResponse.json({ error: 'takenAt must be a valid date' }, { status: 400 });
+    }
+
+    const milestone = await getCanonManager().createMilestone(
+      params.projectId,
+      {
+        name: name.trim(),
+        description: typeof description === 'string' ? description : undefined,
+        takenAt: takenAt ? new Date(takenAt).toISOString() : undefined,
+      },
+      user.id
+    );
+
+    if (!milestone) {
+      return NextResponse.json({ error: 'Failed to create milestone (names must be unique)' }, { status: 409 });
+    }
+
+    return NextResponse.json(milestone, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/canon/milestones error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -30,10 +30,15 @@ export async function GET(
 
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type') as CanonEntityType | null;
+    const timelineId = searchParams.get('timelineId') || undefined;
 
-    // Load full canon context
     const canonManager = getCanonManager();
-    const canon = await canonManager.loadCanonContext(params.projectId);
+    if (timelineId && !(await canonManager.getTimeline(params.projectId, timelineId))) {
+      return NextResponse.json({ error: 'Timeline not found' }, { status: 404 });
+    }
+
+    // Load full canon context as seen from the timeline
+    const canon = await canonManager.loadCanonContext(params.projectId, timelineId);
 
     // Filter by type if specified
     if (type) {
@@ -84,7 +89,7 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { entityType, name, description, entityData } = body;
+    const { entityType, name, description, entityData, timelineId } = body;
 
     if (!entityType || !name) {
       return NextResponse.json(
@@ -99,10 +104,15 @@ export async function POST(
     }
 
     const canonManager = getCanonManager();
+    if (timelineId && !(await canonManager.getTimeline(params.projectId, timelineId))) {
+      return NextResponse.json({ error: 'Timeline not found' }, { status: 404 });
+    }
+
     const result = await canonManager.createEntry(params.projectId, entityType, {
       name,
       description,
       entityData: entityData || {},
+      timelineId,
     });
 
     if (!result) {
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonSearchService } from '@/modules/storyforge';
+import type { CanonSearchMode } from '@/modules/storyforge';
+import type { CanonEntityType } from '@/types/database';
+
+// GET /api/projects/[projectId]/canon/search?q=&mode=hybrid|lexical|semantic&types=character,location&limit=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim();
+    const mode = (searchParams.get('mode') || 'hybrid') as CanonSearchMode;
+    const types = searchParams.get('types');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 100);
+
+    if (!query) {
+      return NextResponse.json({ error: 'Search query (q) is required' }, { status: 400 });
+    }
+
+    if (!['hybrid', 'lexical', 'semantic'].includes(mode)) {
+      return NextResponse.json({ error: 'Invalid search mode' }, { status: 400 });
+    }
+
+    const validTypes: CanonEntityType[] = ['character', 'location', 'rule', 'event', 'theme', 'reference', 'item', 'relationship'];
+    const entityTypes = types ? (types.split(',') as CanonEntityType[]) : undefined;
+    if (entityTypes?.some((type) => !validTypes.includes(type))) {
+      return NextResponse.json({ error: 'Invalid entity type' }, { status: 400 });
+    }
+
+    const results = await getCanonSearchService().search(params.projectId, query, { mode, entityTypes, limit });
+
+    return NextResponse.json({ query, mode, results });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/canon/search error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+
+// GET /api/projects/[projectId]/canon/snapshot - Canon as it stood at a point in time
+// One of: ?asOf=<ISO date>, ?milestoneId=<id>, ?chapterId=<id> (when the chapter was last written)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const asOfParam = searchParams.get('asOf');
+    const milestoneId = searchParams.get('milestoneId');
+    const chapterId = searchParams.get('chapterId');
+
+    const canonManager = getCanonManager();
+    let asOf: string;
+
+    if (milestoneId) {
+      const milestone = await canonManager.getMilestone(params.projectId, milestoneId);
+      if (!milestone) {
+        return NextResponse.json({ error: 'Milestone not found' }, { status: 404 });
+      }
+      asOf = milestone.taken_at;
+    } else if (chapterId) {
+      const { data: chapter } = await supabase
+        .from('chapters')
+        .select('updated_at')
+        .eq('id', chapterId)
+        .eq('project_id', params.projectId)
+        .single();
+      if (!chapter) {
+        return NextResponse.json({ error: 'Chapter not found' }, { status: 404 });
+      }
+      asOf = chapter.updated_at;
+    } else if (asOfParam && !isNaN(Date.parse(asOfParam))) {
+      asOf = new Date(asOfParam).toISOString();
+    } else {
+      return NextResponse.json(
+        { error: 'A valid asOf date, milestoneId or chapterId is required' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await canonManager.getSnapshot(params.projectId, asOf);
+
+    return NextResponse.json(snapshot);
+  } catch (error) {
+    console.error('GET /api/projects/[id]/canon/snapshot error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonSuggestionService } from '@/modules/storyforge';
+
+// POST /api/projects/[projectId]/canon/suggestions/[suggestionId]/accept - Apply a suggestion to the canon
+// Optional body: { name?, fields? } to adjust the proposal before it is applied
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; suggestionId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { name, fields, lockOverrideReason } = body;
+
+    if (fields !== undefined && (typeof fields !== 'object' || fields === null || Array.isArray(fields))) {
+      return NextResponse.json({ error: 'fields must be an object' }, { status: 400 });
+    }
+
+    const result = await getCanonSuggestionService().acceptSuggestion(
+      params.projectId,
+      params.suggestionId,
+      user.id,
+      {
+        name: typeof name === 'string' ? name : undefined,
+        fields,
+        lockOverrideReason: typeof lockOverrideReason === 'string' ? lockOverrideReason : undefined,
+      }
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('POST /api/projects/[id]/canon/suggestions/[suggestionId]/accept error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonSuggestionService } from '@/modules/storyforge';
+
+// POST /api/projects/[projectId]/canon/suggestions/[suggestionId]/reject - Dismiss a suggestion
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; suggestionId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const result = await getCanonSuggestionService().rejectSuggestion(
+      params.projectId,
+      params.suggestionId,
+      user.id
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('POST /api/projects/[id]/canon/suggestions/[suggestionId]/reject error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
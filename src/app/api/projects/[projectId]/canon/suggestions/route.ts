@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonSuggestionService } from '@/modules/storyforge';
+import type { CanonSuggestionStatus } from '@/types/database';
+
+const SUGGESTION_STATUSES: CanonSuggestionStatus[] = ['pending', 'accepted', 'rejected'];
+
+// GET /api/projects/[projectId]/canon/suggestions - List extracted canon suggestions
+// Optional: ?status=pending|accepted|rejected (defaults to pending), ?status=all
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'pending';
+
+    if (status !== 'all' && !SUGGESTION_STATUSES.includes(status as CanonSuggestionStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const suggestions = await getCanonSuggestionService().listSuggestions(
+      params.projectId,
+      status === 'all' ? undefined : (status as CanonSuggestionStatus)
+    );
+
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/canon/suggestions error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonReferenceIndexer } from '@/modules/storyforge';
+import type { ChapterUpdate } from '@/types/database';
+
+// PATCH /api/projects/[projectId]/chapters/[chapterId] - Save chapter
+// Saving content re-indexes the chapter's canon references.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { projectId: string; chapterId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const updates: ChapterUpdate = {};
+
+    // Allowed update fields
+    const allowedFields = ['title', 'summary', 'content', 'status', 'author_notes'];
+
+    for (const field of allowedFields) {
+      if (body[field] !== undefined) {
+        (updates as Record<string, unknown>)[field] = body[field];
+      }
+    }
+
+    const { data: chapter, error } = await supabase
+      .from('chapters')
+      .update(updates)
+      .eq('id', params.chapterId)
+      .eq('project_id', params.projectId)
+      .select()
+      .single();
+
+    if (error || !chapter) {
+      return NextResponse.json({ error: 'Chapter not found' }, { status: 404 });
+    }
+
+    await supabase
+      .from('projects')
+      .update({ last_edited_at: new Date().toISOString() })
+      .eq('id', params.projectId);
+
+    const references = updates.content !== undefined
+      ? await getCanonReferenceIndexer().indexChapter(chapter.id)
+      : undefined;
+
+    return NextResponse.json({ chapter, references });
+  } catch (error) {
+    console.error('PATCH /api/projects/[id]/chapters/[chapterId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
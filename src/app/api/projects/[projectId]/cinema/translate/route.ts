@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@/lib/supabase/server';
-import { getSceneTranslator } from '@/services/cinema';
+import { getSceneTranslator, reconcileShots, shotContentUpdate } from '@/services/cinema';
+import type { RetranslationMode } from '@/services/cinema';
 import { getCanonManager, getStoryForgeAdapter } from '@/modules/storyforge';
 import { checkFeatureAccess } from '@/lib/feature-flags';
-import type { ProductionFormat } from '@/types/database';
+import { estimateTokens, quotaExceededResponse, reconcileAiTokens, reserveAiTokens } from '@/lib/quota';
+import type { Json, ProductionFormat, Shot } from '@/types/database';
+
+// Output budget for semantic extraction (2048) plus shot translation (4096)
+const TRANSLATION_OUTPUT_TOKENS = 6144;
+
+const RETRANSLATION_MODES: RetranslationMode[] = ['replace', 'append', 'reconcile'];
 
 // POST /api/projects/[projectId]/cinema/translate - Translate scene to shots
+// mode (default 'reconcile') decides what happens to the scene's existing shots;
+// the response lists each shot that was added, updated, kept or removed.
 export async function POST(
   request: NextRequest,
   { params }: { params: { projectId: string } }
@@ -51,6 +60,7 @@ export async function POST(
       aspectRatio,
       visualStyle,
       shotPreferences,
+      mode = 'reconcile',
     } = body;
 
     if (!sceneId || !sceneContent) {
@@ -60,73 +70,104 @@ export async function POST(
       );
     }
 
+    if (!RETRANSLATION_MODES.includes(mode)) {
+      return NextResponse.json({ error: 'Invalid mode' }, { status: 400 });
+    }
+
+    const { data: scene } = await supabase
+      .from('scenes')
+      .select('id, location_id')
+      .eq('id', sceneId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!scene) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 404 });
+    }
+
     // Load canon context
     const canonManager = getCanonManager();
     const canonContext = await canonManager.loadCanonContext(params.projectId);
 
-    // Extract semantic data using StoryForge adapter
-    const storyforgeAdapter = getStoryForgeAdapter();
-    const semanticData = await storyforgeAdapter.extractSemanticData(sceneContent, canonContext);
+    // Reserve token budget for extraction and translation (scene text is sent to both)
+    const estimatedTokens = estimateTokens(
+      [sceneContent, sceneContent, JSON.stringify(canonContext)],
+      TRANSLATION_OUTPUT_TOKENS
+    );
+    const { allowed, quota, reservation } = await reserveAiTokens(user.id, estimatedTokens);
+    if (!allowed || !reservation) {
+      return quotaExceededResponse(quota, estimatedTokens);
+    }
 
-    // Translate scene to shots
-    const translator = getSceneTranslator();
-    const result = await translator.translateScene({
-      sceneId,
-      projectId: params.projectId,
-      sceneContent,
-      semanticData,
-      canonContext,
-      format: (format as ProductionFormat) || project.production_format,
-      aspectRatio: aspectRatio || '16:9',
-      visualStyle,
-      shotPreferences,
-    });
+    let result;
+    let semanticData;
+    try {
+      // Extract semantic data using StoryForge adapter
+      const storyforgeAdapter = getStoryForgeAdapter();
+      semanticData = await storyforgeAdapter.extractSemanticData(sceneContent, canonContext);
+
+      // Translate scene to shots
+      const translator = getSceneTranslator();
+      result = await translator.translateScene({
+        sceneId,
+        projectId: params.projectId,
+        sceneContent,
+        semanticData,
+        canonContext,
+        sceneLocationId: scene.location_id ?? undefined,
+        format: (format as ProductionFormat) || project.production_format,
+        aspectRatio: aspectRatio || '16:9',
+        visualStyle,
+        shotPreferences,
+      });
+    } catch (translationError) {
+      await reconcileAiTokens(reservation, 0);
+      throw translationError;
+    }
+
+    // Replace the reservation with actual token usage
+    await reconcileAiTokens(reservation, result.tokensUsed);
 
     if (!result.success) {
       return NextResponse.json({ error: result.error }, { status: 500 });
     }
 
-    // Save shots to database
-    const shotsToInsert = result.shots.map((shot) => ({
-      scene_id: sceneId,
-      project_id: params.projectId,
-      order_index: shot.orderIndex,
-      shot_type: shot.shotType,
-      duration_seconds: shot.durationSeconds,
-      description: shot.description,
-      composition: shot.composition,
-      camera_movement: shot.cameraMovement,
-      lighting: shot.lighting,
-      visual_prompt: shot.visualPrompt,
-      prompt_template: shot.promptTemplate,
-      character_ids: shot.characterIds,
-      location_id: shot.locationId,
-      mood: shot.mood,
-      emotional_beat: shot.emotionalBeat,
-      technical_notes: shot.technicalNotes,
-      vfx_required: shot.vfxRequired,
-      vfx_notes: shot.vfxNotes,
-      format: shot.format,
-      aspect_ratio: shot.aspectRatio,
-      status: 'draft',
-    }));
-
-    const { data: savedShots, error: saveError } = await supabase
+    // Merge the new shot list with the scene's saved shots
+    const { data: existingShots, error: loadError } = await supabase
       .from('shots')
-      .insert(shotsToInsert)
-      .select();
+      .select('*')
+      .eq('scene_id', sceneId)
+      .order('order_index');
+
+    if (loadError) throw loadError;
+
+    const plan = reconcileShots((existingShots || []) as Shot[], result.shots, mode as RetranslationMode);
+    const shotIds = plan.order.map((slot) => ('shot' in slot ? slot.shot.id : slot.existingId));
+
+    // Removals, updates (with their versions), inserts and the final order in one transaction;
+    // the shot count is kept by a trigger
+    const { data: savedShots, error: applyError } = await supabase.rpc('apply_shot_reconciliation', {
+      p_scene_id: sceneId,
+      p_removals: plan.removals,
+      p_updates: plan.updates.map(({ existingId, shot }) => ({ ...shotContentUpdate(shot), id: existingId })) as Json,
+      p_inserts: plan.inserts.map((shot) => ({
+        ...shotContentUpdate(shot),
+        id: shot.id,
+        project_id: params.projectId,
+        status: 'draft' as const,
+      })) as Json,
+      p_order: shotIds,
+      p_keep_edited: mode !== 'replace',
+    });
 
-    if (saveError) {
-      console.error('Failed to save shots:', saveError);
-      // Return generated shots even if save failed
+    if (applyError) {
+      // invalid_parameter_value: the scene's shots changed while it was being translated
+      if (applyError.code === '22023') {
+        return NextResponse.json({ error: applyError.message }, { status: 409 });
+      }
+      throw applyError;
     }
 
-    // Update scene shot count
-    await supabase
-      .from('scenes')
-      .update({ shot_count: result.shots.length })
-      .eq('id', sceneId);
-
     // Log generation
     await supabase.from('ai_generations').insert({
       user_id: user.id,
@@ -135,12 +176,14 @@ export async function POST(
       target_type: 'scene',
       target_id: sceneId,
       tokens_used: result.tokensUsed,
-      model_used: 'claude-sonnet-4-20250514',
+      model_used: result.model,
       status: 'completed',
     });
 
     return NextResponse.json({
-      shots: savedShots || result.shots,
+      shots: savedShots,
+      changes: plan.summary,
+      warnings: result.warnings,
       tokensUsed: result.tokensUsed,
       semanticData,
     });
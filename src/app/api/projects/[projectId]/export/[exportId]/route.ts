@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getExportJobRunner } from '@/services/export';
+
+// GET /api/projects/[projectId]/export/[exportId] - Poll export status
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string; exportId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: exportRecord } = await supabase
+      .from('exports')
+      .select('*')
+      .eq('id', params.exportId)
+      .eq('project_id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!exportRecord) {
+      return NextResponse.json({ error: 'Export not found' }, { status: 404 });
+    }
+
+    // Expired download links are re-signed on demand
+    const current = await getExportJobRunner().refreshDownloadUrl(exportRecord);
+
+    return NextResponse.json({
+      export: {
+        id: current.id,
+        format: current.format,
+        fileName: current.file_name,
+        status: current.status,
+        fileUrl: current.status === 'completed' ? current.file_url : null,
+        fileSizeBytes: current.file_size_bytes,
+        expiresAt: current.expires_at,
+        error: current.error_message,
+        attempts: current.attempts,
+        createdAt: current.created_at,
+        completedAt: current.completed_at,
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/export/[exportId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,9 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@/lib/supabase/server';
 import { checkFeatureAccess } from '@/lib/feature-flags';
+import { consumeExportQuota, quotaExceededResponse, releaseExportQuota } from '@/lib/quota';
+import { getExportJobRunner, getExportRenderer } from '@/services/export';
 import type { ExportFormat } from '@/types/database';
 
+// Columns returned for export history and status polling
+const EXPORT_STATUS_COLUMNS =
+  'id, format, file_name, file_url, file_size_bytes, export_scope, chapter_ids, status, error_message, created_at, completed_at, expires_at';
+
+// GET /api/projects/[projectId]/export - List export history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    let query = supabase
+      .from('exports')
+      .select(EXPORT_STATUS_COLUMNS)
+      .eq('project_id', params.projectId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data: exports, error } = await query;
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ exports });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
 // POST /api/projects/[projectId]/export - Export project
+// With { async: true } the export is queued and the response points at the status endpoint.
 export async function POST(
   request: NextRequest,
   { params }: { params: { projectId: string } }
@@ -18,6 +80,7 @@ export async function POST(
 
     const body = await request.json();
     const { format, chapterIds, options } = body;
+    const queued = body.async === true;
 
     // Validate format
     const validFormats: ExportFormat[] = ['docx', 'pdf', 'epub', 'fountain', 'markdown', 'json'];
@@ -37,7 +100,7 @@ export async function POST(
     // Verify project access
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .select('*')
+      .select('id, title')
       .eq('id', params.projectId)
       .eq('user_id', user.id)
       .single();
@@ -46,25 +109,15 @@ export async function POST(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    // Get chapters
-    let chaptersQuery = supabase
-      .from('chapters')
-      .select('*')
-      .eq('project_id', params.projectId)
-      .order('order_index');
-
-    if (chapterIds && chapterIds.length > 0) {
-      chaptersQuery = chaptersQuery.in('id', chapterIds);
-    }
-
-    const { data: chapters, error: chaptersError } = await chaptersQuery;
-
-    if (chaptersError) {
-      return NextResponse.json({ error: 'Failed to fetch chapters' }, { status: 500 });
+    // Consume one export from the monthly budget (released again if rendering fails)
+    const { allowed, quota } = await consumeExportQuota(user.id);
+    if (!allowed) {
+      return quotaExceededResponse(quota, 1);
     }
 
-    // Create export record
-    const fileName = `${project.title.replace(/[^a-z0-9]/gi, '_')}_${Date.now()}.${format}`;
+    // Queue export job
+    const renderer = getExportRenderer(format);
+    const fileName = `${project.title.replace(/[^a-z0-9]/gi, '_')}_${Date.now()}.${renderer.extension}`;
 
     const { data: exportRecord, error: exportError } = await supabase
       .from('exports')
@@ -76,63 +129,43 @@ export async function POST(
         export_scope: chapterIds?.length ? 'chapters' : 'full',
         chapter_ids: chapterIds || [],
         options: options || {},
-        status: 'processing',
+        status: 'pending',
       })
       .select()
       .single();
 
     if (exportError) {
+      await releaseExportQuota(user.id);
       return NextResponse.json({ error: 'Failed to create export' }, { status: 500 });
     }
 
-    // Generate export content based on format
-    let content: string;
-    let contentType: string;
-
-    switch (format) {
-      case 'markdown':
-        content = generateMarkdown(project, chapters || []);
-        contentType = 'text/markdown';
-        break;
-      case 'json':
-        content = JSON.stringify({ project, chapters }, null, 2);
-        contentType = 'application/json';
-        break;
-      case 'fountain':
-        content = generateFountain(project, chapters || []);
-        contentType = 'text/plain';
-        break;
-      default:
-        // For docx, pdf, epub - return processing status
-        // These would be handled by a background job
-        return NextResponse.json({
-          exportId: exportRecord.id,
-          status: 'processing',
-          message: 'Export is being generated. Check back shortly.',
-        });
+    const statusUrl = `/api/projects/${params.projectId}/export/${exportRecord.id}`;
+    const runner = getExportJobRunner();
+
+    // Render inline unless the caller asked for a queued export. If a worker
+    // claimed the job first, fall back to polling.
+    const claimed = queued ? null : await runner.claim(exportRecord.id);
+    if (!claimed) {
+      return NextResponse.json(
+        { exportId: exportRecord.id, status: 'pending', statusUrl },
+        { status: 202 }
+      );
     }
 
-    // Update export record
-    await supabase
-      .from('exports')
-      .update({
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-        file_size_bytes: new Blob([content]).size,
-      })
-      .eq('id', exportRecord.id);
+    const result = await runner.process(claimed);
 
-    // Update user export count
-    await supabase
-      .from('users')
-      .update({ monthly_exports_used: supabase.rpc('increment', { x: 1 }) })
-      .eq('id', user.id);
+    if (result.status === 'failed' || !result.rendered) {
+      return NextResponse.json(
+        { exportId: exportRecord.id, status: 'failed', error: 'Failed to render export' },
+        { status: 500 }
+      );
+    }
 
-    // Return content directly for text-based formats
-    return new NextResponse(content, {
+    return new NextResponse(new Uint8Array(result.rendered.data), {
       headers: {
-        'Content-Type': contentType,
+        'Content-Type': result.rendered.contentType,
         'Content-Disposition': `attachment; filename="${fileName}"`,
+        'X-Export-Id': exportRecord.id,
       },
     });
   } catch (error) {
@@ -140,60 +173,3 @@ export async function POST(
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
-
-// Helper functions for export generation
-
-function generateMarkdown(
-  project: { title: string; subtitle?: string; description?: string; genre?: string },
-  chapters: Array<{ title: string; content: string; order_index: number }>
-): string {
-  const lines: string[] = [];
-
-  // Title page
-  lines.push(`# ${project.title}`);
-  if (project.subtitle) lines.push(`## ${project.subtitle}`);
-  lines.push('');
-  if (project.description) {
-    lines.push(project.description);
-    lines.push('');
-  }
-  if (project.genre) {
-    lines.push(`*Genre: ${project.genre}*`);
-    lines.push('');
-  }
-  lines.push('---');
-  lines.push('');
-
-  // Chapters
-  for (const chapter of chapters.sort((a, b) => a.order_index - b.order_index)) {
-    lines.push(`## Chapter ${chapter.order_index + 1}: ${chapter.title}`);
-    lines.push('');
-    lines.push(chapter.content || '');
-    lines.push('');
-  }
-
-  return lines.join('\n');
-}
-
-function generateFountain(
-  project: { title: string },
-  chapters: Array<{ title: string; content: string; order_index: number }>
-): string {
-  const lines: string[] = [];
-
-  // Title page
-  lines.push(`Title: ${project.title}`);
-  lines.push('');
-  lines.push('===');
-  lines.push('');
-
-  // Scenes (chapters as scenes)
-  for (const chapter of chapters.sort((a, b) => a.order_index - b.order_index)) {
-    lines.push(`INT. ${chapter.title.toUpperCase()} - DAY`);
-    lines.push('');
-    lines.push(chapter.content || '');
-    lines.push('');
-  }
-
-  return lines.join('\n');
-}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@/lib/supabase/server';
-import { getStoryForgeGenerator, getCanonManager } from '@/modules/storyforge';
+import { getStoryForgeGenerator, getCanonManager, DEFAULT_STORYFORGE_CONFIG } from '@/modules/storyforge';
 import { checkFeatureAccess } from '@/lib/feature-flags';
+import { estimateTokens, quotaExceededResponse, reconcileAiTokens, reserveAiTokens } from '@/lib/quota';
 import type { GenerationAction, GenerationTarget } from '@/modules/storyforge';
+import type { Json } from '@/types/database';
 
 // POST /api/projects/[projectId]/generate - Generate content
 export async function POST(
@@ -49,6 +51,7 @@ export async function POST(
       emphasizeCharacters,
       emphasizeLocations,
       emphasizeRules,
+      timelineId,
     } = body;
 
     // Validate action and target
@@ -63,9 +66,21 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid target' }, { status: 400 });
     }
 
-    // Load canon context
     const canonManager = getCanonManager();
-    const canonContext = await canonManager.loadCanonContext(params.projectId);
+    if (timelineId && !(await canonManager.getTimeline(params.projectId, timelineId))) {
+      return NextResponse.json({ error: 'Timeline not found' }, { status: 404 });
+    }
+
+    // Load canon context as seen from the timeline, trimmed to the prompt budget
+    const { context: canonContext, ...canonSelection } = await canonManager.loadBudgetedCanonContext({
+      projectId: params.projectId,
+      timelineId,
+      existingContent,
+      selectedText,
+      emphasizeCharacters,
+      emphasizeLocations,
+      emphasizeRules,
+    });
 
     // Load previous content for context
     let previousContent: string | undefined;
@@ -87,67 +102,94 @@ export async function POST(
       }
     }
 
-    // Generate content
-    const generator = getStoryForgeGenerator();
-    const startTime = Date.now();
-
-    const result = await generator.generate(
-      {
-        projectId: params.projectId,
-        action,
-        target,
-        targetId,
-        existingContent,
-        selectedText,
-        userInstructions,
-        tone,
-        style,
-        wordCountTarget,
-        emphasizeCharacters,
-        emphasizeLocations,
-        emphasizeRules,
-      },
-      canonContext,
-      previousContent
+    // Reserve token budget before calling the model
+    const estimatedTokens = estimateTokens(
+      [existingContent, selectedText, userInstructions, previousContent, JSON.stringify(canonContext)],
+      DEFAULT_STORYFORGE_CONFIG.maxTokens
     );
+    const { allowed, quota, reservation } = await reserveAiTokens(user.id, estimatedTokens);
+    if (!allowed || !reservation) {
+      return quotaExceededResponse(quota, estimatedTokens);
+    }
 
-    const latency = Date.now() - startTime;
-
-    // Log generation
-    await supabase.from('ai_generations').insert({
-      user_id: user.id,
-      project_id: params.projectId,
-      generation_type: action,
-      target_type: target,
-      target_id: targetId,
-      prompt_used: userInstructions,
-      input_context: { existingContent, selectedText },
-      output_content: result.content,
-      canon_loaded: canonContext,
-      canon_conflicts_detected: result.canonConflicts,
-      tokens_used: result.tokensUsed,
-      model_used: 'claude-sonnet-4-20250514',
-      latency_ms: latency,
-      status: result.success ? 'completed' : 'failed',
-      error_message: result.error,
-    });
-
-    // Update user token usage
-    await supabase.rpc('increment_tokens_used', {
-      p_user_id: user.id,
-      p_tokens: result.tokensUsed,
-    });
+    // Generate content. The reservation is settled however the request ends.
+    let tokensUsed = 0;
+    try {
+      const generator = getStoryForgeGenerator();
+      const startTime = Date.now();
+
+      const result = await generator.generate(
+        {
+          projectId: params.projectId,
+          timelineId,
+          action,
+          target,
+          targetId,
+          existingContent,
+          selectedText,
+          userInstructions,
+          tone,
+          style,
+          wordCountTarget,
+          emphasizeCharacters,
+          emphasizeLocations,
+          emphasizeRules,
+        },
+        canonContext,
+        previousContent
+      );
+      tokensUsed = result.tokensUsed;
+
+      const latency = Date.now() - startTime;
+
+      // Log generation
+      const { data: generation } = await supabase
+        .from('ai_generations')
+        .insert({
+          user_id: user.id,
+          project_id: params.projectId,
+          generation_type: action,
+          target_type: target,
+          target_id: targetId,
+          prompt_used: userInstructions,
+          input_context: { existingContent, selectedText, timelineId },
+          output_content: result.content,
+          canon_loaded: canonContext as unknown as Json,
+          canon_conflicts_detected: result.canonConflicts as unknown as Json,
+          tokens_used: result.tokensUsed,
+          model_used: result.model,
+          latency_ms: latency,
+          status: result.success ? 'completed' : 'failed',
+          error_message: result.error,
+        })
+        .select('id')
+        .single();
+
+      // Store conflicts for the review queue
+      const canonConflicts = result.canonConflicts
+        ? await canonManager.recordConflicts(params.projectId, result.canonConflicts, {
+            generationId: generation?.id,
+            timelineId: timelineId ?? null,
+            targetType: target,
+            targetId,
+          })
+        : undefined;
+
+      if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 500 });
+      }
 
-    if (!result.success) {
-      return NextResponse.json({ error: result.error }, { status: 500 });
+      return NextResponse.json({
+        content: result.content,
+        tokensUsed: result.tokensUsed,
+        canonConflicts,
+        canonSelection,
+        suggestions: result.suggestions,
+      });
+    } finally {
+      // Replace the reservation with actual token usage
+      await reconcileAiTokens(reservation, tokensUsed);
     }
-
-    return NextResponse.json({
-      content: result.content,
-      tokensUsed: result.tokensUsed,
-      canonConflicts: result.canonConflicts,
-      suggestions: result.suggestions,
-    });
   } catch (error) {
     console.error('POST /api/projects/[id]/generate error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
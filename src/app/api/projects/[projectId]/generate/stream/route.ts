@@ -0,0 +1,305 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import {
+  getStoryForgeGenerator,
+  getCanonManager,
+  CANON_VALIDATION_MAX_TOKENS,
+  DEFAULT_STORYFORGE_CONFIG,
+} from '@/modules/storyforge';
+import { checkFeatureAccess } from '@/lib/feature-flags';
+import { estimateTokens, quotaExceededResponse, reconcileAiTokens, reserveAiTokens } from '@/lib/quota';
+import type { CanonConflict, GenerationAction, GenerationTarget } from '@/modules/storyforge';
+import type { Json } from '@/types/database';
+
+// POST /api/projects/[projectId]/generate/stream - Stream generated content (SSE)
+//
+// Events:
+//   context    { included, dropped, estimatedTokens }  canon entries loaded into the prompt
+//   token      { text }                               raw model output as it arrives
+//   complete   { content, tokensUsed }                cleaned final content
+//   validation { generationId, canonConflicts }       final event after canon validation (stored conflicts)
+//   cancelled  { generationId, content, tokensUsed }  client disconnected
+//   error      { error }
+//
+// Closing the connection cancels the generation.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check feature access
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'ai_generation');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const {
+      action,
+      target,
+      targetId,
+      existingContent,
+      selectedText,
+      userInstructions,
+      tone,
+      style,
+      wordCountTarget,
+      emphasizeCharacters,
+      emphasizeLocations,
+      emphasizeRules,
+      timelineId,
+    } = body;
+
+    // Validate action and target
+    const validActions: GenerationAction[] = ['generate', 'continue', 'expand', 'condense', 'rewrite', 'outline', 'brainstorm'];
+    const validTargets: GenerationTarget[] = ['chapter', 'scene', 'paragraph', 'dialogue'];
+
+    if (!validActions.includes(action)) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    if (!validTargets.includes(target)) {
+      return NextResponse.json({ error: 'Invalid target' }, { status: 400 });
+    }
+
+    const canonManager = getCanonManager();
+    if (timelineId && !(await canonManager.getTimeline(params.projectId, timelineId))) {
+      return NextResponse.json({ error: 'Timeline not found' }, { status: 404 });
+    }
+
+    // Load canon context as seen from the timeline, trimmed to the prompt budget
+    const { context: canonContext, ...canonSelection } = await canonManager.loadBudgetedCanonContext({
+      projectId: params.projectId,
+      timelineId,
+      existingContent,
+      selectedText,
+      emphasizeCharacters,
+      emphasizeLocations,
+      emphasizeRules,
+    });
+
+    // Load previous content for context
+    let previousContent: string | undefined;
+    if (targetId) {
+      if (target === 'chapter') {
+        const { data: chapter } = await supabase
+          .from('chapters')
+          .select('content')
+          .eq('id', targetId)
+          .single();
+        previousContent = chapter?.content;
+      } else if (target === 'scene') {
+        const { data: scene } = await supabase
+          .from('scenes')
+          .select('content')
+          .eq('id', targetId)
+          .single();
+        previousContent = scene?.content;
+      }
+    }
+
+    // Reserve token budget before calling the model: the generation, then the canon
+    // check that reads the generated text back alongside the canon
+    const estimatedTokens =
+      estimateTokens(
+        [existingContent, selectedText, userInstructions, previousContent, JSON.stringify(canonContext)],
+        DEFAULT_STORYFORGE_CONFIG.maxTokens
+      ) +
+      estimateTokens([JSON.stringify(canonContext)], DEFAULT_STORYFORGE_CONFIG.maxTokens + CANON_VALIDATION_MAX_TOKENS);
+    const { allowed, quota, reservation } = await reserveAiTokens(user.id, estimatedTokens);
+    if (!allowed || !reservation) {
+      return quotaExceededResponse(quota, estimatedTokens);
+    }
+
+    const generator = getStoryForgeGenerator();
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort());
+
+    const encoder = new TextEncoder();
+    let streamClosed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (streamClosed) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        const startTime = Date.now();
+        let tokensUsed = 0;
+
+        try {
+          send('context', canonSelection);
+
+          const events = generator.generateStream(
+            {
+              projectId: params.projectId,
+              timelineId,
+              action,
+              target,
+              targetId,
+              existingContent,
+              selectedText,
+              userInstructions,
+              tone,
+              style,
+              wordCountTarget,
+              emphasizeCharacters,
+              emphasizeLocations,
+              emphasizeRules,
+            },
+            canonContext,
+            previousContent,
+            abortController.signal
+          );
+
+          for await (const event of events) {
+            if (event.type === 'token') {
+              send('token', { text: event.text });
+              continue;
+            }
+
+            tokensUsed = event.tokensUsed;
+            const latency = Date.now() - startTime;
+
+            if (event.type === 'cancelled') {
+              const { data: generation } = await supabase
+                .from('ai_generations')
+                .insert({
+                  user_id: user.id,
+                  project_id: params.projectId,
+                  generation_type: action,
+                  target_type: target,
+                  target_id: targetId,
+                  prompt_used: userInstructions,
+                  input_context: { existingContent, selectedText, timelineId },
+                  output_content: event.content,
+                  canon_loaded: canonContext as unknown as Json,
+                  tokens_used: event.tokensUsed,
+                  model_used: event.model,
+                  latency_ms: latency,
+                  status: 'cancelled',
+                })
+                .select('id')
+                .single();
+
+              send('cancelled', {
+                generationId: generation?.id,
+                content: event.content,
+                tokensUsed: event.tokensUsed,
+              });
+            } else if (event.type === 'error') {
+              await supabase.from('ai_generations').insert({
+                user_id: user.id,
+                project_id: params.projectId,
+                generation_type: action,
+                target_type: target,
+                target_id: targetId,
+                prompt_used: userInstructions,
+                input_context: { existingContent, selectedText, timelineId },
+                canon_loaded: canonContext as unknown as Json,
+                tokens_used: event.tokensUsed,
+                model_used: event.model,
+                latency_ms: latency,
+                status: 'failed',
+                error_message: event.error,
+              });
+
+              send('error', { error: event.error });
+            } else {
+              send('complete', { content: event.content, tokensUsed: event.tokensUsed });
+
+              // Validate the finished text against canon
+              const validation = await generator.validateAgainstCanon(
+                event.content,
+                canonContext
+              );
+              tokensUsed += validation.tokensUsed;
+              const canonConflicts: CanonConflict[] = [
+                ...(event.canonConflicts || []),
+                ...validation.conflicts,
+              ];
+
+              const { data: generation } = await supabase
+                .from('ai_generations')
+                .insert({
+                  user_id: user.id,
+                  project_id: params.projectId,
+                  generation_type: action,
+                  target_type: target,
+                  target_id: targetId,
+                  prompt_used: userInstructions,
+                  input_context: { existingContent, selectedText, timelineId },
+                  output_content: event.content,
+                  canon_loaded: canonContext as unknown as Json,
+                  canon_conflicts_detected: canonConflicts as unknown as Json,
+                  tokens_used: event.tokensUsed,
+                  model_used: event.model,
+                  latency_ms: Date.now() - startTime,
+                  status: 'completed',
+                })
+                .select('id')
+                .single();
+
+              // Store conflicts for the review queue (ids refer to canon_conflicts)
+              const trackedConflicts = await canonManager.recordConflicts(params.projectId, canonConflicts, {
+                generationId: generation?.id,
+                timelineId: timelineId ?? null,
+                targetType: target,
+                targetId,
+              });
+
+              send('validation', { generationId: generation?.id, canonConflicts: trackedConflicts });
+            }
+          }
+        } catch (error) {
+          console.error('POST /api/projects/[id]/generate/stream error:', error);
+          send('error', { error: 'Internal server error' });
+        } finally {
+          // Replace the reservation with actual token usage
+          await reconcileAiTokens(reservation, tokensUsed);
+
+          if (!streamClosed) {
+            streamClosed = true;
+            controller.close();
+          }
+        }
+      },
+
+      cancel() {
+        streamClosed = true;
+        abortController.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/generate/stream error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonReferenceIndexer } from '@/modules/storyforge';
+import type { SceneUpdate } from '@/types/database';
+
+// PATCH /api/projects/[projectId]/scenes/[sceneId] - Save scene
+// Saving content re-indexes the scene's canon references.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { projectId: string; sceneId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const updates: SceneUpdate = {};
+
+    // Allowed update fields
+    const allowedFields = ['title', 'content', 'location', 'time_of_day', 'story_date', 'location_id', 'character_ids', 'status'];
+
+    for (const field of allowedFields) {
+      if (body[field] !== undefined) {
+        (updates as Record<string, unknown>)[field] = body[field];
+      }
+    }
+
+    const { data: scene, error } = await supabase
+      .from('scenes')
+      .update(updates)
+      .eq('id', params.sceneId)
+      .eq('project_id', params.projectId)
+      .select()
+      .single();
+
+    if (error || !scene) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 404 });
+    }
+
+    await supabase
+      .from('projects')
+      .update({ last_edited_at: new Date().toISOString() })
+      .eq('id', params.projectId);
+
+    const references = updates.content !== undefined
+      ? await getCanonReferenceIndexer().indexScene(scene.id)
+      : undefined;
+
+    return NextResponse.json({ scene, references });
+  } catch (error) {
+    console.error('PATCH /api/projects/[id]/scenes/[sceneId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import {
+  getSceneTranslator,
+  getShotVersionService,
+  shotContentUpdate,
+  shotFromRow,
+} from '@/services/cinema';
+import type { VisualStyle } from '@/services/cinema';
+import { getStoryForgeAdapter } from '@/modules/storyforge';
+import { checkFeatureAccess } from '@/lib/feature-flags';
+import { estimateTokens, quotaExceededResponse, reconcileAiTokens, reserveAiTokens } from '@/lib/quota';
+import type { Shot } from '@/types/database';
+
+// Output budget for a single regenerated shot
+const REGENERATION_OUTPUT_TOKENS = 1024;
+
+const DEFAULT_INSTRUCTIONS = 'Give this shot a fresh take that serves the scene better.';
+
+// POST /api/projects/[projectId]/scenes/[sceneId]/shots/[shotId]/regenerate - Regenerate one shot
+// The previous state is kept in the shot's version history.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; sceneId: string; shotId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'cinema_mode');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: shot } = await supabase
+      .from('shots')
+      .select('*')
+      .eq('id', params.shotId)
+      .eq('scene_id', params.sceneId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!shot) {
+      return NextResponse.json({ error: 'Shot not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const instructions = typeof body.instructions === 'string' && body.instructions.trim()
+      ? body.instructions.trim()
+      : DEFAULT_INSTRUCTIONS;
+    const visualStyle = body.visualStyle as VisualStyle | undefined;
+
+    // Scene and canon come through the StoryForge adapter
+    const storyforgeAdapter = getStoryForgeAdapter();
+    const [scene, canonContext] = await Promise.all([
+      storyforgeAdapter.loadSceneContext(params.projectId, params.sceneId),
+      storyforgeAdapter.loadCanonContext(params.projectId),
+    ]);
+
+    if (!scene) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 404 });
+    }
+
+    const estimatedTokens = estimateTokens(
+      [scene.content, instructions, JSON.stringify(shot)],
+      REGENERATION_OUTPUT_TOKENS
+    );
+    const { allowed, quota, reservation } = await reserveAiTokens(user.id, estimatedTokens);
+    if (!allowed || !reservation) {
+      return quotaExceededResponse(quota, estimatedTokens);
+    }
+
+    let result;
+    try {
+      result = await getSceneTranslator().regenerateShot(
+        shotFromRow(shot as Shot),
+        instructions,
+        canonContext,
+        scene.content,
+        visualStyle
+      );
+    } catch (regenerationError) {
+      await reconcileAiTokens(reservation, 0);
+      throw regenerationError;
+    }
+
+    await reconcileAiTokens(reservation, result.tokensUsed);
+
+    // Log generation
+    await supabase.from('ai_generations').insert({
+      user_id: user.id,
+      project_id: params.projectId,
+      generation_type: 'shot_prompt',
+      target_type: 'shot',
+      target_id: params.shotId,
+      prompt_used: instructions,
+      output_content: result.shot ? JSON.stringify(result.shot) : null,
+      tokens_used: result.tokensUsed,
+      model_used: result.model,
+      status: result.success ? 'completed' : 'failed',
+      error_message: result.error ?? null,
+    });
+
+    if (!result.success || !result.shot) {
+      return NextResponse.json({ error: result.error || 'Regeneration failed' }, { status: 500 });
+    }
+
+    // Regenerated shots count as hand-tuned, so re-translation keeps them
+    const saved = await getShotVersionService().updateShot(
+      params.shotId,
+      { ...shotContentUpdate(result.shot), edited_at: new Date().toISOString() },
+      user.id,
+      'regeneration',
+      instructions
+    );
+
+    if (!saved) throw new Error('Failed to save regenerated shot');
+
+    return NextResponse.json({ shot: saved.shot, version: saved.version, tokensUsed: result.tokensUsed });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/scenes/[sceneId]/shots/[shotId]/regenerate error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
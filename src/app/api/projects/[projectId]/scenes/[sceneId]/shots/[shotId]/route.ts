@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { SHOT_TYPE_INFO, getShotVersionService } from '@/services/cinema';
+import { checkFeatureAccess } from '@/lib/feature-flags';
+import type { ShotUpdate } from '@/types/database';
+
+// PATCH /api/projects/[projectId]/scenes/[sceneId]/shots/[shotId] - Edit a shot
+// Content changes are recorded in the shot's version history.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { projectId: string; sceneId: string; shotId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'cinema_mode');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: existing } = await supabase
+      .from('shots')
+      .select('id')
+      .eq('id', params.shotId)
+      .eq('scene_id', params.sceneId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Shot not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const updates: ShotUpdate = {};
+
+    // Allowed update fields (order changes go through the scene's reorder endpoint)
+    const allowedFields = [
+      'shot_type',
+      'duration_seconds',
+      'description',
+      'composition',
+      'camera_movement',
+      'lighting',
+      'visual_prompt',
+      'prompt_template',
+      'character_ids',
+      'location_id',
+      'mood',
+      'emotional_beat',
+      'technical_notes',
+      'vfx_required',
+      'vfx_notes',
+      'preview_image_url',
+      'mood_board_urls',
+      'format',
+      'aspect_ratio',
+      'status',
+    ];
+
+    for (const field of allowedFields) {
+      if (body[field] !== undefined) {
+        (updates as Record<string, unknown>)[field] = body[field];
+      }
+    }
+
+    if (updates.shot_type !== undefined && !(updates.shot_type in SHOT_TYPE_INFO)) {
+      return NextResponse.json({ error: 'Invalid shot type' }, { status: 400 });
+    }
+
+    if (updates.description !== undefined && !updates.description.trim()) {
+      return NextResponse.json({ error: 'Description cannot be empty' }, { status: 400 });
+    }
+
+    // Re-translation leaves hand-edited shots alone
+    updates.edited_at = new Date().toISOString();
+
+    // The update and its version are saved in one transaction
+    const result = await getShotVersionService().updateShot(
+      params.shotId,
+      updates,
+      user.id,
+      'manual',
+      typeof body.reason === 'string' ? body.reason : undefined
+    );
+
+    if (!result) {
+      return NextResponse.json({ error: 'Shot not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('PATCH /api/projects/[id]/scenes/[sceneId]/shots/[shotId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[projectId]/scenes/[sceneId]/shots/[shotId] - Remove a shot
+// The shots after it move up and the scene's shot count drops (database triggers).
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { projectId: string; sceneId: string; shotId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'cinema_mode');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('shots')
+      .delete()
+      .eq('id', params.shotId)
+      .eq('scene_id', params.sceneId)
+      .eq('project_id', params.projectId)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Shot not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/projects/[id]/scenes/[sceneId]/shots/[shotId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getShotVersionService } from '@/services/cinema';
+import { checkFeatureAccess } from '@/lib/feature-flags';
+
+// GET /api/projects/[projectId]/scenes/[sceneId]/shots/[shotId]/versions/diff?from=&to= - Field changes between two versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string; sceneId: string; shotId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'cinema_mode');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: shot } = await supabase
+      .from('shots')
+      .select('id')
+      .eq('id', params.shotId)
+      .eq('scene_id', params.sceneId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!shot) {
+      return NextResponse.json({ error: 'Shot not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = parseInt(searchParams.get('from') || '');
+    const to = parseInt(searchParams.get('to') || '');
+
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return NextResponse.json({ error: 'from and to version numbers are required' }, { status: 400 });
+    }
+
+    const diff = await getShotVersionService().diffVersions(params.shotId, from, to);
+
+    if (!diff) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error('GET /api/projects/[id]/scenes/[sceneId]/shots/[shotId]/versions/diff error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
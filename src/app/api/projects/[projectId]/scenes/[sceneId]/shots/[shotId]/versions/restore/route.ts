@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getShotVersionService } from '@/services/cinema';
+import { checkFeatureAccess } from '@/lib/feature-flags';
+
+// POST /api/projects/[projectId]/scenes/[sceneId]/shots/[shotId]/versions/restore - Restore a previous version
+// The restore is itself recorded as a new version.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; sceneId: string; shotId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'cinema_mode');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: shot } = await supabase
+      .from('shots')
+      .select('id')
+      .eq('id', params.shotId)
+      .eq('scene_id', params.sceneId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!shot) {
+      return NextResponse.json({ error: 'Shot not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    if (!Number.isInteger(body.version)) {
+      return NextResponse.json({ error: 'version is required' }, { status: 400 });
+    }
+
+    const result = await getShotVersionService().restoreVersion(params.shotId, body.version, user.id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('POST /api/projects/[id]/scenes/[sceneId]/shots/[shotId]/versions/restore error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { SHOT_TYPE_INFO } from '@/services/cinema';
+import { checkFeatureAccess } from '@/lib/feature-flags';
+import { isUuid } from '@/lib/utils';
+import type { Json, ShotInsert } from '@/types/database';
+
+// GET /api/projects/[projectId]/scenes/[sceneId]/shots - Scene shots in order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string; sceneId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'cinema_mode');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: scene } = await supabase
+      .from('scenes')
+      .select('id')
+      .eq('id', params.sceneId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!scene) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 404 });
+    }
+
+    const { data: shots, error } = await supabase
+      .from('shots')
+      .select('*')
+      .eq('scene_id', params.sceneId)
+      .order('order_index');
+
+    if (error) throw error;
+
+    return NextResponse.json({ shots });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/scenes/[sceneId]/shots error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[projectId]/scenes/[sceneId]/shots - Add a shot
+// Appended to the end unless order_index is given.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; sceneId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'cinema_mode');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id, production_format')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: scene } = await supabase
+      .from('scenes')
+      .select('id')
+      .eq('id', params.sceneId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!scene) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+
+    if (!body.description || !body.shot_type) {
+      return NextResponse.json({ error: 'Shot type and description are required' }, { status: 400 });
+    }
+
+    if (!(body.shot_type in SHOT_TYPE_INFO)) {
+      return NextResponse.json({ error: 'Invalid shot type' }, { status: 400 });
+    }
+
+    const insert = {
+      scene_id: params.sceneId,
+      project_id: params.projectId,
+      format: project.production_format,
+    } as ShotInsert;
+
+    // Allowed fields (position comes from order_index)
+    const allowedFields = [
+      'shot_type',
+      'duration_seconds',
+      'description',
+      'composition',
+      'camera_movement',
+      'lighting',
+      'visual_prompt',
+      'prompt_template',
+      'character_ids',
+      'location_id',
+      'mood',
+      'emotional_beat',
+      'technical_notes',
+      'vfx_required',
+      'vfx_notes',
+      'preview_image_url',
+      'mood_board_urls',
+      'format',
+      'aspect_ratio',
+      'status',
+    ];
+
+    for (const field of allowedFields) {
+      if (body[field] !== undefined) {
+        (insert as Record<string, unknown>)[field] = body[field];
+      }
+    }
+
+    // Shifts later shots and inserts the new one in one transaction
+    const { data: shot, error } = await supabase.rpc('insert_shot', {
+      p_shot: insert as Json,
+      p_position: typeof body.order_index === 'number' ? Math.floor(body.order_index) : null,
+    });
+
+    // invalid_text_representation: a field value doesn't fit its column (e.g. a malformed UUID)
+    if (error?.code === '22P02') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error || !shot) throw error || new Error('Failed to create shot');
+
+    return NextResponse.json({ shot }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/scenes/[sceneId]/shots error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/projects/[projectId]/scenes/[sceneId]/shots - Reorder shots
+// Body: { shotIds } listing every shot in the scene in its new order
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { projectId: string; sceneId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { hasAccess, reason } = await checkFeatureAccess(user.id, 'cinema_mode');
+    if (!hasAccess) {
+      return NextResponse.json({ error: reason }, { status: 403 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { data: scene } = await supabase
+      .from('scenes')
+      .select('id')
+      .eq('id', params.sceneId)
+      .eq('project_id', params.projectId)
+      .single();
+
+    if (!scene) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 404 });
+    }
+
+    const { shotIds } = await request.json();
+
+    if (!Array.isArray(shotIds) || !shotIds.every(isUuid)) {
+      return NextResponse.json({ error: 'shotIds must be an array of shot IDs' }, { status: 400 });
+    }
+
+    const { data: shots, error } = await supabase.rpc('reorder_shots', {
+      p_scene_id: params.sceneId,
+      p_shot_ids: shotIds,
+    });
+
+    if (error) {
+      // invalid_parameter_value: the list doesn't match the scene's shots
+      if (error.code === '22023') {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ shots });
+  } catch (error) {
+    console.error('PATCH /api/projects/[id]/scenes/[sceneId]/shots error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+
+// GET /api/projects/[projectId]/timelines/[timelineId]/diff - Compare a fork with its parent timeline
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string; timelineId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const canonManager = getCanonManager();
+    const timeline = await canonManager.getTimeline(params.projectId, params.timelineId);
+
+    if (!timeline) {
+      return NextResponse.json({ error: 'Timeline not found' }, { status: 404 });
+    }
+
+    if (timeline.is_main) {
+      return NextResponse.json({ error: 'The main timeline has no parent to compare with' }, { status: 400 });
+    }
+
+    const diff = await canonManager.diffTimeline(params.projectId, params.timelineId);
+
+    if (!diff) {
+      return NextResponse.json({ error: 'Failed to compare timelines' }, { status: 500 });
+    }
+
+    return NextResponse.json({ diff });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/timelines/[timelineId]/diff error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
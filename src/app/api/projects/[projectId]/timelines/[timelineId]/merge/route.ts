@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+
+// POST /api/projects/[projectId]/timelines/[timelineId]/merge - Promote fork entries into the parent timeline
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; timelineId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { entryIds, lockOverrideReason } = body;
+
+    if (!Array.isArray(entryIds) || entryIds.length === 0) {
+      return NextResponse.json({ error: 'entryIds must be a non-empty array' }, { status: 400 });
+    }
+
+    const canonManager = getCanonManager();
+    const timeline = await canonManager.getTimeline(params.projectId, params.timelineId);
+
+    if (!timeline) {
+      return NextResponse.json({ error: 'Timeline not found' }, { status: 404 });
+    }
+
+    if (timeline.is_main) {
+      return NextResponse.json({ error: 'The main timeline has no parent to merge into' }, { status: 400 });
+    }
+
+    const result = await canonManager.mergeTimeline(
+      params.projectId,
+      params.timelineId,
+      entryIds,
+      user.id,
+      typeof lockOverrideReason === 'string' ? lockOverrideReason : undefined
+    );
+
+    // Partial merges report per-entry failures rather than failing the request
+    return NextResponse.json(result, { status: result.merged.length > 0 || result.success ? 200 : 409 });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/timelines/[timelineId]/merge error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@/lib/supabase/server';
+import { getCanonManager } from '@/modules/storyforge';
+
+// GET /api/projects/[projectId]/timelines - List timelines (main timeline first)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const canonManager = getCanonManager();
+    await canonManager.ensureMainTimeline(params.projectId);
+    const timelines = await canonManager.getTimelines(params.projectId);
+
+    return NextResponse.json({ timelines });
+  } catch (error) {
+    console.error('GET /api/projects/[id]/timelines error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[projectId]/timelines - Fork a timeline
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const supabase = createRouteHandlerClient();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Verify project access
+    const { data: project } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', params.projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { name, description, parentTimelineId, forkPointEventId } = body;
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    const canonManager = getCanonManager();
+    if (parentTimelineId && !(await canonManager.getTimeline(params.projectId, parentTimelineId))) {
+      return NextResponse.json({ error: 'Parent timeline not found' }, { status: 404 });
+    }
+
+    const timeline = await canonManager.forkTimeline(params.projectId, {
+      name,
+      description,
+      parentTimelineId,
+      forkPointEventId,
+    });
+
+    if (!timeline) {
+      return NextResponse.json({ error: 'Failed to fork timeline' }, { status: 500 });
+    }
+
+    return NextResponse.json({ timeline }, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/projects/[id]/timelines error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRouteHandlerClient } from '@/lib/supabase/server';
 import { isWithinLimits, getTierLimits } from '@/lib/feature-flags';
-import type { ProjectInsert } from '@/types/database';
+import type { ContentStatus, ProjectInsert, ProjectMode } from '@/types/database';
 
 // GET /api/projects - List user's projects
 export async function GET(request: NextRequest) {
@@ -28,11 +28,11 @@ export async function GET(request: NextRequest) {
       .range(offset, offset + limit - 1);
 
     if (mode) {
-      query = query.eq('mode', mode);
+      query = query.eq('mode', mode as ProjectMode);
     }
 
     if (status) {
-      query = query.eq('status', status);
+      query = query.eq('status', status as ContentStatus);
     }
 
     const { data: projects, error } = await query;
@@ -0,0 +1,203 @@
+'use client';
+
+import * as React from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { ShotVersionDiff, ShotVersionSummary } from '@/services/cinema';
+import type { Shot, ShotChangeType } from '@/types/database';
+
+interface ShotVersionPanelProps {
+  projectId: string;
+  sceneId: string;
+  shotId: string;
+  onRestore?: (shot: Shot) => void; // The shot as saved after a restore
+  className?: string;
+}
+
+const changeTypeLabels: Record<ShotChangeType, string> = {
+  translation: 'Translated',
+  regeneration: 'Regenerated',
+  manual: 'Edited',
+  rollback: 'Restored',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(none)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)';
+  return String(value);
+}
+
+export function ShotVersionPanel({ projectId, sceneId, shotId, onRestore, className }: ShotVersionPanelProps) {
+  const [versions, setVersions] = React.useState<ShotVersionSummary[] | null>(null);
+  const [selected, setSelected] = React.useState<number | null>(null);
+  const [diff, setDiff] = React.useState<ShotVersionDiff | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+
+  const baseUrl = `/api/projects/${projectId}/scenes/${sceneId}/shots/${shotId}/versions`;
+  const latest = versions?.[0]?.version ?? null;
+
+  const loadVersions = React.useCallback(async () => {
+    const response = await fetch(baseUrl);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load versions');
+    return data.versions as ShotVersionSummary[];
+  }, [baseUrl]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setVersions(null);
+    setSelected(null);
+
+    loadVersions()
+      .then((next) => {
+        if (!cancelled) setVersions(next);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadVersions]);
+
+  // Compare the selected version with the current one
+  React.useEffect(() => {
+    if (selected === null || latest === null || selected === latest) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setDiff(null);
+    fetch(`${baseUrl}/diff?from=${selected}&to=${latest}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to compare versions');
+        if (!cancelled) setDiff(data);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baseUrl, selected, latest]);
+
+  const restore = async (version: number) => {
+    setIsRestoring(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${baseUrl}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to restore version');
+
+      onRestore?.(data.shot);
+      setSelected(null);
+      setVersions(await loadVersions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col border-l bg-card', className)}>
+      {/* Header */}
+      <div className="flex items-center gap-2 border-b p-4">
+        <History className="h-4 w-4 text-cinema-500" />
+        <h4 className="text-sm font-semibold">Versions</h4>
+      </div>
+
+      {error && <p className="border-b px-4 py-2 text-xs text-destructive">{error}</p>}
+
+      <div className="flex-1 space-y-2 overflow-auto p-2">
+        {!versions && !error && (
+          <div className="flex items-center gap-2 px-2 py-4 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading versions...
+          </div>
+        )}
+
+        {versions?.length === 0 && (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+            No changes yet. Versions are recorded when the shot is edited, regenerated or re-translated.
+          </p>
+        )}
+
+        {versions?.map((version) => {
+          const isLatest = version.version === latest;
+          const isSelected = version.version === selected;
+
+          return (
+            <div
+              key={version.version}
+              className={cn('rounded-md border p-2 text-sm', isSelected && 'border-cinema-500 bg-accent')}
+            >
+              <button
+                onClick={() => setSelected(isSelected ? null : version.version)}
+                className="w-full space-y-1 text-left"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">
+                    v{version.version} &middot; {changeTypeLabels[version.changeType]}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {isLatest ? 'Current' : new Date(version.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {version.changeReason && (
+                  <p className="text-xs text-muted-foreground">{version.changeReason}</p>
+                )}
+                <p className="line-clamp-2 text-xs">{version.description}</p>
+              </button>
+
+              {isSelected && !isLatest && (
+                <div className="mt-2 space-y-2 border-t pt-2">
+                  {!diff && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Comparing...
+                    </div>
+                  )}
+
+                  {diff?.changes.length === 0 && (
+                    <p className="text-xs text-muted-foreground">Same as the current version</p>
+                  )}
+
+                  {diff?.changes.map((change) => (
+                    <div key={change.field} className="space-y-0.5 text-xs">
+                      <p className="font-medium capitalize">{change.field.replace(/_/g, ' ')}</p>
+                      <p>{formatValue(change.before)}</p>
+                      <p className="text-muted-foreground">Now: {formatValue(change.after)}</p>
+                    </div>
+                  ))}
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1 text-xs"
+                    disabled={isRestoring}
+                    onClick={() => restore(version.version)}
+                  >
+                    {isRestoring ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                    Restore v{version.version}
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
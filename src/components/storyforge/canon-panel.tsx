@@ -12,6 +12,8 @@ import {
   ChevronRight,
   Search,
   Plus,
+  Quote,
+  Loader2,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -22,22 +24,102 @@ import {
   AccordionTrigger,
 } from '@/components/ui/accordion';
 import { cn } from '@/lib/utils';
-import type { CanonContext } from '@/modules/storyforge';
+import type { CanonContext, CanonMention } from '@/modules/storyforge';
 
 interface CanonPanelProps {
   canon: CanonContext;
+  projectId?: string; // Enables "where is this mentioned" lookups
   onEntryClick?: (type: string, id: string) => void;
   onAddEntry?: (type: string) => void;
+  onMentionClick?: (mention: CanonMention) => void;
   className?: string;
 }
 
+function EntryMentions({
+  projectId,
+  canonEntryId,
+  onMentionClick,
+}: {
+  projectId: string;
+  canonEntryId: string;
+  onMentionClick?: (mention: CanonMention) => void;
+}) {
+  const [mentions, setMentions] = React.useState<CanonMention[] | null>(null);
+  const [total, setTotal] = React.useState(0);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/projects/${projectId}/canon/${canonEntryId}/mentions`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load mentions');
+        if (!cancelled) {
+          setMentions(data.mentions);
+          setTotal(data.total);
+        }
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, canonEntryId]);
+
+  if (error) {
+    return <p className="px-2 py-1 text-xs text-destructive">{error}</p>;
+  }
+
+  if (!mentions) {
+    return (
+      <div className="flex items-center gap-2 px-2 py-1 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading mentions...
+      </div>
+    );
+  }
+
+  if (mentions.length === 0) {
+    return <p className="px-2 py-1 text-xs text-muted-foreground">Not mentioned yet</p>;
+  }
+
+  return (
+    <div className="space-y-1 border-l pl-2 ml-4">
+      <p className="px-2 text-xs text-muted-foreground">
+        {total} mention{total === 1 ? '' : 's'}
+      </p>
+      {mentions.map((mention) => (
+        <button
+          key={mention.id}
+          onClick={() => onMentionClick?.(mention)}
+          className="w-full rounded-md px-2 py-1 text-left text-xs hover:bg-accent"
+        >
+          <span className="font-medium">
+            {mention.chapterTitle || 'Untitled chapter'}
+            {mention.sceneId && ` / ${mention.sceneTitle || 'Untitled scene'}`}
+          </span>
+          {mention.contextSnippet && (
+            <span className="block text-muted-foreground">{mention.contextSnippet}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export function CanonPanel({
   canon,
+  projectId,
   onEntryClick,
   onAddEntry,
+  onMentionClick,
   className,
 }: CanonPanelProps) {
   const [searchQuery, setSearchQuery] = React.useState('');
+  const [mentionsEntryId, setMentionsEntryId] = React.useState<string | null>(null);
 
   const sections = [
     {
@@ -129,23 +211,50 @@ export function CanonPanel({
                         No {section.title.toLowerCase()} yet
                       </p>
                     ) : (
-                      filteredItems.map((item) => (
-                        <button
-                          key={(item as { id: string }).id}
-                          onClick={() => onEntryClick?.(section.id, (item as { id: string }).id)}
-                          className="canon-entry flex w-full items-center justify-between rounded-md px-2 py-2 text-left text-sm hover:bg-accent"
-                        >
-                          <div className="flex items-center gap-2">
-                            {(item as { locked?: boolean }).locked ? (
-                              <Lock className="h-3 w-3 text-amber-500" />
-                            ) : (
-                              <Unlock className="h-3 w-3 text-muted-foreground" />
+                      filteredItems.map((item) => {
+                        const id = item.id as string;
+                        const canonEntryId = item.canonEntryId as string;
+                        const showMentions = mentionsEntryId === canonEntryId;
+
+                        return (
+                          <div key={id}>
+                            <div className="flex items-center gap-1">
+                              <button
+                                onClick={() => onEntryClick?.(section.id, id)}
+                                className="canon-entry flex flex-1 items-center justify-between rounded-md px-2 py-2 text-left text-sm hover:bg-accent"
+                              >
+                                <div className="flex items-center gap-2">
+                                  {(item as { locked?: boolean }).locked ? (
+                                    <Lock className="h-3 w-3 text-amber-500" />
+                                  ) : (
+                                    <Unlock className="h-3 w-3 text-muted-foreground" />
+                                  )}
+                                  <span>{item.name}</span>
+                                </div>
+                                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                              </button>
+                              {projectId && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className={cn('h-8 w-8', showMentions && 'bg-accent')}
+                                  title="Where is this mentioned?"
+                                  onClick={() => setMentionsEntryId(showMentions ? null : canonEntryId)}
+                                >
+                                  <Quote className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
+                            {projectId && showMentions && (
+                              <EntryMentions
+                                projectId={projectId}
+                                canonEntryId={canonEntryId}
+                                onMentionClick={onMentionClick}
+                              />
                             )}
-                            <span>{item.name}</span>
                           </div>
-                          <ChevronRight className="h-4 w-4 text-muted-foreground" />
-                        </button>
-                      ))
+                        );
+                      })
                     )}
                     <Button
                       variant="ghost"
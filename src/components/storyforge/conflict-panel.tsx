@@ -0,0 +1,216 @@
+'use client';
+
+import * as React from 'react';
+import { AlertTriangle, AlertCircle, Check, GitBranch, X, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { TrackedCanonConflict } from '@/modules/storyforge';
+import type { ConflictResolution } from '@/types/database';
+
+interface ConflictPanelProps {
+  projectId: string;
+  targetId?: string; // Only conflicts written into this chapter or scene
+  content?: string; // Current editor text, used to locate conflicts
+  activeConflictId?: string | null;
+  onConflictClick?: (conflict: TrackedCanonConflict, range: { start: number; end: number } | null) => void;
+  onConflictsChange?: (conflicts: TrackedCanonConflict[]) => void; // Open conflicts after each load or review
+  className?: string;
+}
+
+/**
+ * Where a conflict sits in the current text.
+ * Stored positions are offsets within the generated text, so they are only
+ * trusted while they still cover the conflicting text; otherwise the text is searched for.
+ */
+export function locateConflict(
+  content: string,
+  conflict: Pick<TrackedCanonConflict, 'generatedText' | 'position'>
+): { start: number; end: number } | null {
+  const { generatedText, position } = conflict;
+
+  if (position && position.end <= content.length) {
+    if (!generatedText || content.slice(position.start, position.end) === generatedText) {
+      return position;
+    }
+  }
+
+  if (!generatedText) return null;
+  const start = content.indexOf(generatedText);
+  return start === -1 ? null : { start, end: start + generatedText.length };
+}
+
+export function ConflictPanel({
+  projectId,
+  targetId,
+  content,
+  activeConflictId,
+  onConflictClick,
+  onConflictsChange,
+  className,
+}: ConflictPanelProps) {
+  const [conflicts, setConflicts] = React.useState<TrackedCanonConflict[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [pendingId, setPendingId] = React.useState<string | null>(null);
+
+  const onConflictsChangeRef = React.useRef(onConflictsChange);
+  onConflictsChangeRef.current = onConflictsChange;
+
+  const updateConflicts = React.useCallback((next: TrackedCanonConflict[]) => {
+    setConflicts(next);
+    onConflictsChangeRef.current?.(next);
+  }, []);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const query = new URLSearchParams({ status: 'open' });
+    if (targetId) query.set('targetId', targetId);
+
+    fetch(`/api/projects/${projectId}/canon/conflicts?${query}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load conflicts');
+        if (!cancelled) updateConflicts(data.conflicts);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, targetId, updateConflicts]);
+
+  const review = async (conflict: TrackedCanonConflict, action: 'dismiss' | ConflictResolution) => {
+    setPendingId(conflict.id);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/canon/conflicts/${conflict.id}/${action === 'dismiss' ? 'dismiss' : 'resolve'}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(
+            action === 'dismiss'
+              ? {}
+              : {
+                  resolution: action,
+                  timelineName: action === 'fork_timeline' ? `What if: ${conflict.conflictingCanonName}` : undefined,
+                }
+          ),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update conflict');
+
+      updateConflicts((conflicts || []).filter((item) => item.id !== conflict.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update conflict');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col rounded-lg border bg-card', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between border-b p-4">
+        <h3 className="font-semibold">Canon Conflicts</h3>
+        {conflicts && <span className="text-xs text-muted-foreground">{conflicts.length} open</span>}
+      </div>
+
+      {error && <p className="border-b px-4 py-2 text-xs text-destructive">{error}</p>}
+
+      <div className="flex-1 space-y-2 overflow-auto p-2">
+        {!conflicts && !error && (
+          <div className="flex items-center gap-2 px-2 py-4 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading conflicts...
+          </div>
+        )}
+
+        {conflicts?.length === 0 && (
+          <p className="px-2 py-4 text-center text-sm text-muted-foreground">No open conflicts</p>
+        )}
+
+        {conflicts?.map((conflict) => {
+          const range = content !== undefined ? locateConflict(content, conflict) : conflict.position;
+          const Icon = conflict.severity === 'error' ? AlertCircle : AlertTriangle;
+          const isPending = pendingId === conflict.id;
+
+          return (
+            <div
+              key={conflict.id}
+              className={cn(
+                'rounded-md border p-2 text-sm',
+                activeConflictId === conflict.id && 'border-amber-500 bg-accent'
+              )}
+            >
+              <button
+                onClick={() => onConflictClick?.(conflict, range)}
+                className="flex w-full items-start gap-2 text-left"
+              >
+                <Icon
+                  className={cn(
+                    'mt-0.5 h-4 w-4 shrink-0',
+                    conflict.severity === 'error' ? 'text-destructive' : 'text-amber-500'
+                  )}
+                />
+                <div className="space-y-1">
+                  {conflict.conflictingCanonName && (
+                    <p className="font-medium">{conflict.conflictingCanonName}</p>
+                  )}
+                  <p>{conflict.description}</p>
+                  {conflict.generatedText && (
+                    <p className="text-xs italic text-muted-foreground">
+                      &ldquo;{conflict.generatedText}&rdquo;
+                      {content !== undefined && !range && ' (no longer in the text)'}
+                    </p>
+                  )}
+                  {conflict.suggestedResolution && (
+                    <p className="text-xs text-muted-foreground">Suggestion: {conflict.suggestedResolution}</p>
+                  )}
+                </div>
+              </button>
+
+              <div className="mt-2 flex flex-wrap gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 text-xs"
+                  disabled={isPending}
+                  onClick={() => review(conflict, 'keep_canon')}
+                >
+                  <Check className="h-3 w-3" />
+                  Keep canon
+                </Button>
+                {conflict.conflictingCanonId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1 text-xs"
+                    disabled={isPending}
+                    onClick={() => review(conflict, 'fork_timeline')}
+                  >
+                    <GitBranch className="h-3 w-3" />
+                    Fork timeline
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 text-xs text-muted-foreground"
+                  disabled={isPending}
+                  onClick={() => review(conflict, 'dismiss')}
+                >
+                  <X className="h-3 w-3" />
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
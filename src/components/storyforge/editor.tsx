@@ -18,6 +18,7 @@ import {
   Expand,
   Shrink,
   Sparkles,
+  Square,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -29,32 +30,86 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 import { wordCount } from '@/lib/utils';
+import { locateConflict } from './conflict-panel';
+import type { TrackedCanonConflict } from '@/modules/storyforge';
 
 interface EditorProps {
   content: string;
   onChange: (content: string) => void;
   onAIAction?: (action: string, selectedText?: string) => void;
+  isGenerating?: boolean; // AI output is streaming into the editor
+  onCancelAI?: () => void;
   placeholder?: string;
   className?: string;
   wordCountTarget?: number;
   readOnly?: boolean;
+  conflicts?: TrackedCanonConflict[]; // Open conflicts to highlight in the text
+  activeConflictId?: string | null;
+}
+
+// Shared by the textarea and the highlight layer behind it so the text lines up
+const EDITOR_TEXT_CLASSES = 'px-3 py-2 font-serif text-lg leading-relaxed';
+
+/**
+ * Split content into plain and highlighted runs (overlapping conflicts keep the earlier one)
+ */
+function highlightRuns(
+  content: string,
+  conflicts: TrackedCanonConflict[]
+): Array<{ text: string; conflict?: TrackedCanonConflict }> {
+  const ranges = conflicts
+    .map((conflict) => ({ conflict, range: locateConflict(content, conflict) }))
+    .filter(
+      (item): item is { conflict: TrackedCanonConflict; range: { start: number; end: number } } =>
+        item.range !== null
+    )
+    .sort((a, b) => a.range.start - b.range.start);
+
+  const runs: Array<{ text: string; conflict?: TrackedCanonConflict }> = [];
+  let cursor = 0;
+  for (const { conflict, range } of ranges) {
+    if (range.start < cursor) continue;
+    if (range.start > cursor) runs.push({ text: content.slice(cursor, range.start) });
+    runs.push({ text: content.slice(range.start, range.end), conflict });
+    cursor = range.end;
+  }
+  if (cursor < content.length) runs.push({ text: content.slice(cursor) });
+
+  return runs;
 }
 
 export function StoryForgeEditor({
   content,
   onChange,
   onAIAction,
+  isGenerating = false,
+  onCancelAI,
   placeholder = 'Start writing your story...',
   className,
   wordCountTarget,
   readOnly = false,
+  conflicts,
+  activeConflictId,
 }: EditorProps) {
   const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+  const highlightRef = React.useRef<HTMLDivElement>(null);
   const [selectedText, setSelectedText] = React.useState('');
   const [showAIMenu, setShowAIMenu] = React.useState(false);
 
   const currentWordCount = wordCount(content);
 
+  const runs = React.useMemo(
+    () => (conflicts && conflicts.length > 0 ? highlightRuns(content, conflicts) : null),
+    [content, conflicts]
+  );
+
+  // Keep the highlight layer scrolled with the textarea
+  const handleScroll = () => {
+    if (highlightRef.current && textareaRef.current) {
+      highlightRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
   const handleSelect = () => {
     if (textareaRef.current) {
       const start = textareaRef.current.selectionStart;
@@ -131,7 +186,14 @@ export function StoryForgeEditor({
         </div>
 
         {/* AI Actions */}
-        {onAIAction && (
+        {onAIAction && isGenerating && (
+          <Button variant="outline" size="sm" className="gap-2" onClick={onCancelAI}>
+            <Square className="h-3 w-3" />
+            Stop
+          </Button>
+        )}
+
+        {onAIAction && !isGenerating && (
           <DropdownMenu open={showAIMenu} onOpenChange={setShowAIMenu}>
             <DropdownMenuTrigger asChild>
               <Button variant="storyforge" size="sm" className="gap-2">
@@ -173,15 +235,46 @@ export function StoryForgeEditor({
       </div>
 
       {/* Editor Area */}
-      <div className="flex-1 p-4">
+      <div className="relative flex-1 p-4">
+        {runs && (
+          <div
+            ref={highlightRef}
+            aria-hidden
+            className={cn(
+              'pointer-events-none absolute inset-4 overflow-hidden whitespace-pre-wrap break-words text-transparent',
+              EDITOR_TEXT_CLASSES
+            )}
+          >
+            {runs.map((run, index) =>
+              run.conflict ? (
+                <mark
+                  key={index}
+                  className={cn(
+                    'rounded-sm text-transparent',
+                    run.conflict.severity === 'error' ? 'bg-red-200/70' : 'bg-amber-200/70',
+                    run.conflict.id === activeConflictId && 'ring-2 ring-amber-500'
+                  )}
+                >
+                  {run.text}
+                </mark>
+              ) : (
+                <React.Fragment key={index}>{run.text}</React.Fragment>
+              )
+            )}
+          </div>
+        )}
         <Textarea
           ref={textareaRef}
           value={content}
           onChange={(e) => onChange(e.target.value)}
           onSelect={handleSelect}
+          onScroll={handleScroll}
           placeholder={placeholder}
-          className="prose-editor min-h-[500px] resize-none border-0 bg-transparent font-serif text-lg leading-relaxed focus-visible:ring-0"
-          readOnly={readOnly}
+          className={cn(
+            'prose-editor relative min-h-[500px] resize-none border-0 bg-transparent focus-visible:ring-0',
+            EDITOR_TEXT_CLASSES
+          )}
+          readOnly={readOnly || isGenerating}
         />
       </div>
 
@@ -193,7 +286,7 @@ export function StoryForgeEditor({
           )}
         </div>
         <div className="flex items-center gap-4">
-          <span>Auto-saved</span>
+          <span>{isGenerating ? 'Generating...' : 'Auto-saved'}</span>
           {wordCountTarget && (
             <span>
               {Math.round((currentWordCount / wordCountTarget) * 100)}% complete
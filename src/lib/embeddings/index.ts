@@ -0,0 +1,68 @@
+/**
+ * Embedding Provider Layer
+ * Selects the text embedding backend from the environment
+ *
+ * EMBEDDING_PROVIDER=local (default) | openai
+ * - local:  deterministic hashed vectors, optional EMBEDDING_DIMENSIONS (default 256)
+ * - openai: EMBEDDING_BASE_URL, EMBEDDING_MODEL, optional EMBEDDING_API_KEY (any Embeddings API server)
+ */
+
+import { LocalEmbeddingProvider } from './local-embedding-provider';
+import { OpenAICompatibleEmbeddingProvider } from './openai-compatible-embedding-provider';
+import type { EmbeddingProvider, EmbeddingProviderName } from './types';
+
+export type { EmbeddingProviderName, EmbeddingRequestOptions, EmbeddingProvider } from './types';
+
+export { LocalEmbeddingProvider } from './local-embedding-provider';
+export { OpenAICompatibleEmbeddingProvider } from './openai-compatible-embedding-provider';
+
+/**
+ * Cosine similarity of two vectors of the same length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Create a provider by name using environment configuration
+ */
+export function createEmbeddingProvider(name?: string): EmbeddingProvider {
+  const providerName = (name || process.env.EMBEDDING_PROVIDER || 'local') as EmbeddingProviderName;
+
+  switch (providerName) {
+    case 'local':
+      return new LocalEmbeddingProvider({
+        dimensions: process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS) : undefined,
+      });
+
+    case 'openai': {
+      const baseUrl = process.env.EMBEDDING_BASE_URL;
+      const model = process.env.EMBEDDING_MODEL;
+      if (!baseUrl || !model) {
+        throw new Error('EMBEDDING_BASE_URL and EMBEDDING_MODEL are required for the openai embedding provider');
+      }
+      return new OpenAICompatibleEmbeddingProvider({ baseUrl, model, apiKey: process.env.EMBEDDING_API_KEY });
+    }
+
+    default:
+      throw new Error(`Unknown embedding provider: ${providerName}`);
+  }
+}
+
+// Singleton instance
+let providerInstance: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!providerInstance) {
+    providerInstance = createEmbeddingProvider();
+  }
+  return providerInstance;
+}
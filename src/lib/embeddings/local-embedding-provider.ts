@@ -0,0 +1,72 @@
+/**
+ * Local Embedding Provider
+ * Deterministic hashed bag-of-words vectors - no network, no model download
+ *
+ * Words and their character trigrams are hashed into a fixed number of signed
+ * buckets, so texts sharing words or word stems ("sings", "singing") point the
+ * same way. Good enough for development and tests; not a semantic model.
+ */
+
+import type { EmbeddingProvider } from './types';
+
+const DEFAULT_DIMENSIONS = 256;
+
+// Weight of a word's trigrams relative to the whole word
+const TRIGRAM_WEIGHT = 0.5;
+
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'he', 'her', 'his', 'in',
+  'is', 'it', 'its', 'of', 'on', 'or', 'she', 'that', 'the', 'their', 'they', 'this', 'to', 'was',
+  'were', 'who', 'with',
+]);
+
+// FNV-1a, 32-bit
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+  private dimensions: number;
+
+  constructor(options: { dimensions?: number } = {}) {
+    this.dimensions = options.dimensions || DEFAULT_DIMENSIONS;
+    this.model = `local-hash-${this.dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(WORD_PATTERN) || [];
+
+    for (const word of words) {
+      if (STOP_WORDS.has(word)) continue;
+
+      this.add(vector, `w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.add(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  private add(vector: number[], feature: string, weight: number): void {
+    const h = hash(feature);
+    // The low bit picks the sign so unrelated features tend to cancel out
+    vector[(h >>> 1) % this.dimensions] += h & 1 ? weight : -weight;
+  }
+}
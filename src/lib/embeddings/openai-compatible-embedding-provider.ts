@@ -0,0 +1,54 @@
+/**
+ * OpenAI-Compatible Embedding Provider
+ * Embeddings API - works with OpenAI and self-hosted servers (vLLM, Ollama, LM Studio)
+ */
+
+import type { EmbeddingProvider, EmbeddingRequestOptions } from './types';
+
+interface EmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+// Inputs sent per request
+const BATCH_SIZE = 64;
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: { baseUrl: string; apiKey?: string; model: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+  }
+
+  async embed(texts: string[], options: EmbeddingRequestOptions = {}): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const batch = texts.slice(i, i + BATCH_SIZE);
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, input: batch }),
+        signal: options.signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new Error(`Embedding request failed (${response.status}): ${body.slice(0, 500)}`);
+      }
+
+      const data = (await response.json()) as EmbeddingResponse;
+      const ordered = [...data.data].sort((a, b) => a.index - b.index);
+      vectors.push(...ordered.map((item) => item.embedding));
+    }
+
+    return vectors;
+  }
+}
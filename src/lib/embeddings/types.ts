@@ -0,0 +1,16 @@
+/**
+ * Embedding Provider Types
+ * Provider-neutral text embedding interface
+ */
+
+export type EmbeddingProviderName = 'local' | 'openai';
+
+export interface EmbeddingRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string; // Stored with each vector; vectors from different models are never compared
+  embed(texts: string[], options?: EmbeddingRequestOptions): Promise<number[][]>;
+}
@@ -0,0 +1,101 @@
+/**
+ * Anthropic Provider
+ * Claude models via the Anthropic Messages API
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMStreamEvent,
+} from './types';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly defaultModel: string;
+  private client: Anthropic;
+
+  constructor(options: { apiKey?: string; model?: string } = {}) {
+    this.client = new Anthropic({
+      apiKey: options.apiKey || process.env.ANTHROPIC_API_KEY,
+    });
+    this.defaultModel = options.model || DEFAULT_ANTHROPIC_MODEL;
+  }
+
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMCompletion> {
+    const response = await this.client.messages.create(this.buildParams(request), {
+      signal: options.signal,
+    });
+
+    const content = response.content[0];
+    if (content.type !== 'text') {
+      throw new Error('Unexpected response type');
+    }
+
+    return {
+      text: content.text,
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const stream = this.client.messages.stream(this.buildParams(request), {
+      signal: options.signal,
+    });
+
+    let text = '';
+
+    try {
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          text += event.delta.text;
+          yield { type: 'text', text: event.delta.text };
+        }
+      }
+
+      const message = await stream.finalMessage();
+
+      yield {
+        type: 'done',
+        completion: {
+          text,
+          model: message.model,
+          usage: {
+            inputTokens: message.usage.input_tokens,
+            outputTokens: message.usage.output_tokens,
+          },
+        },
+      };
+    } finally {
+      // Stop the upstream request if the consumer stopped iterating early
+      if (!stream.ended) {
+        stream.abort();
+      }
+    }
+  }
+
+  private buildParams(request: LLMCompletionRequest) {
+    return {
+      model: request.model || this.defaultModel,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      system: request.system,
+      messages: request.messages,
+    };
+  }
+}
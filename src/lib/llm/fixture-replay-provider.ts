@@ -0,0 +1,149 @@
+/**
+ * Fixture Replay Provider
+ * Deterministic offline provider that returns recorded responses
+ *
+ * Fixtures are JSON files in the fixtures directory. A fixture matches either by
+ * exact request hash (key) or by substrings of the system prompt / last user message.
+ * Exact keys win, then fixtures with more match criteria, then file name order.
+ *
+ * When a recording provider is given, unmatched requests are sent to it and the
+ * response is written back as a keyed fixture.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMFixture,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMStreamEvent,
+} from './types';
+
+const MOCK_MODEL = 'fixture-replay';
+
+export class FixtureReplayProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly defaultModel = MOCK_MODEL;
+  private fixtures: LLMFixture[] | null = null;
+
+  constructor(
+    private fixturesDir: string,
+    private recordFrom?: LLMProvider
+  ) {}
+
+  /**
+   * Hash identifying a request (model settings are ignored so fixtures survive tuning)
+   */
+  static requestKey(request: LLMCompletionRequest): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ system: request.system || '', messages: request.messages }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const key = FixtureReplayProvider.requestKey(request);
+    const fixture = this.findFixture(key, request);
+
+    if (fixture) {
+      return {
+        text: fixture.response.text,
+        model: MOCK_MODEL,
+        usage: {
+          inputTokens: fixture.response.inputTokens ?? 0,
+          outputTokens: fixture.response.outputTokens ?? 0,
+        },
+      };
+    }
+
+    if (this.recordFrom) {
+      const completion = await this.recordFrom.complete(request);
+      this.record(key, completion);
+      return completion;
+    }
+
+    throw new Error(`No LLM fixture matches request ${key}`);
+  }
+
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const completion = await this.complete(request);
+
+    // Replay word by word so consumers exercise their streaming paths
+    for (const chunk of completion.text.match(/\S+\s*|\s+/g) || []) {
+      if (options.signal?.aborted) {
+        throw new Error('Request aborted');
+      }
+      yield { type: 'text', text: chunk };
+    }
+
+    yield { type: 'done', completion };
+  }
+
+  private findFixture(key: string, request: LLMCompletionRequest): LLMFixture | null {
+    const fixtures = this.loadFixtures();
+
+    const exact = fixtures.find((fixture) => fixture.key === key);
+    if (exact) return exact;
+
+    const system = request.system || '';
+    const prompt = request.messages[request.messages.length - 1]?.content || '';
+
+    return (
+      fixtures
+        .filter((fixture) => fixture.match)
+        .filter((fixture) => {
+          const { system: systemMatch, prompt: promptMatch } = fixture.match!;
+          return (
+            (!systemMatch || system.includes(systemMatch)) &&
+            (!promptMatch || prompt.includes(promptMatch))
+          );
+        })
+        .sort((a, b) => Object.keys(b.match!).length - Object.keys(a.match!).length)[0] || null
+    );
+  }
+
+  private loadFixtures(): LLMFixture[] {
+    if (this.fixtures) return this.fixtures;
+
+    if (!fs.existsSync(this.fixturesDir)) {
+      this.fixtures = [];
+      return this.fixtures;
+    }
+
+    this.fixtures = fs
+      .readdirSync(this.fixturesDir)
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => {
+        const content = fs.readFileSync(path.join(this.fixturesDir, file), 'utf-8');
+        return JSON.parse(content) as LLMFixture;
+      });
+
+    return this.fixtures;
+  }
+
+  private record(key: string, completion: LLMCompletion): void {
+    const fixture: LLMFixture = {
+      key,
+      response: {
+        text: completion.text,
+        inputTokens: completion.usage.inputTokens,
+        outputTokens: completion.usage.outputTokens,
+      },
+    };
+
+    fs.mkdirSync(this.fixturesDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.fixturesDir, `recorded-${key}.json`),
+      JSON.stringify(fixture, null, 2) + '\n'
+    );
+
+    this.loadFixtures().push(fixture);
+  }
+}
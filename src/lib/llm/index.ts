@@ -0,0 +1,84 @@
+/**
+ * LLM Provider Layer
+ * Selects the text generation backend from the environment
+ *
+ * LLM_PROVIDER=anthropic (default) | openai | mock
+ * - anthropic: ANTHROPIC_API_KEY, optional LLM_MODEL
+ * - openai:    LLM_BASE_URL, LLM_MODEL, optional LLM_API_KEY (any Chat Completions server)
+ * - mock:      replays fixtures from LLM_FIXTURES_DIR (default: src/lib/llm/fixtures).
+ *              Set LLM_FIXTURES_RECORD=anthropic|openai to record unmatched requests.
+ *
+ * The CLI builds its providers here too, passing settings from its own config.
+ */
+
+import path from 'path';
+import { AnthropicProvider } from './anthropic-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { FixtureReplayProvider } from './fixture-replay-provider';
+import type { LLMProvider, LLMProviderName, LLMProviderSettings } from './types';
+
+export type {
+  LLMProviderName,
+  LLMMessage,
+  LLMCompletionRequest,
+  LLMUsage,
+  LLMCompletion,
+  LLMProviderSettings,
+  LLMRequestOptions,
+  LLMStreamEvent,
+  LLMProvider,
+  LLMFixture,
+} from './types';
+
+export { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from './anthropic-provider';
+export { OpenAICompatibleProvider } from './openai-compatible-provider';
+export { FixtureReplayProvider } from './fixture-replay-provider';
+
+/**
+ * Create a provider by name, using the given settings over environment configuration
+ */
+export function createLLMProvider(name?: string, settings: LLMProviderSettings = {}): LLMProvider {
+  const providerName = (name || process.env.LLM_PROVIDER || 'anthropic') as LLMProviderName;
+  const model = settings.model || process.env.LLM_MODEL;
+
+  switch (providerName) {
+    case 'anthropic':
+      return new AnthropicProvider({ apiKey: settings.apiKey, model });
+
+    case 'openai': {
+      const baseUrl = settings.baseUrl || process.env.LLM_BASE_URL;
+      if (!baseUrl || !model) {
+        throw new Error('LLM_BASE_URL and LLM_MODEL are required for the openai provider');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl,
+        model,
+        apiKey: settings.apiKey || process.env.LLM_API_KEY,
+      });
+    }
+
+    case 'mock': {
+      const fixturesDir =
+        settings.fixturesDir ||
+        process.env.LLM_FIXTURES_DIR ||
+        path.join(process.cwd(), 'src', 'lib', 'llm', 'fixtures');
+      const recordFrom = process.env.LLM_FIXTURES_RECORD
+        ? createLLMProvider(process.env.LLM_FIXTURES_RECORD)
+        : undefined;
+      return new FixtureReplayProvider(fixturesDir, recordFrom);
+    }
+
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+}
+
+// Singleton instance
+let providerInstance: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (!providerInstance) {
+    providerInstance = createLLMProvider();
+  }
+  return providerInstance;
+}
@@ -0,0 +1,157 @@
+/**
+ * OpenAI-Compatible Provider
+ * Chat Completions API - works with OpenAI and self-hosted servers (vLLM, Ollama, LM Studio)
+ */
+
+import type {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMStreamEvent,
+  LLMUsage,
+} from './types';
+
+interface ChatCompletionResponse {
+  model: string;
+  choices: Array<{ message?: { content?: string | null }; delta?: { content?: string | null } }>;
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+// Usage estimate for servers that don't report it (~4 chars/token)
+const CHARS_PER_TOKEN = 4;
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly defaultModel: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: { baseUrl: string; apiKey?: string; model: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.defaultModel = options.model;
+  }
+
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMCompletion> {
+    const response = await this.post(request, false, options.signal);
+    const data = (await response.json()) as ChatCompletionResponse;
+    const text = data.choices[0]?.message?.content || '';
+
+    return {
+      text,
+      model: data.model || request.model || this.defaultModel,
+      usage: this.toUsage(data.usage, request, text),
+    };
+  }
+
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const response = await this.post(request, true, options.signal);
+    if (!response.body) {
+      throw new Error('Streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let model = request.model || this.defaultModel;
+    let usage: ChatCompletionResponse['usage'] = null;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const payload = line.trim();
+          if (!payload.startsWith('data:')) continue;
+
+          const data = payload.slice('data:'.length).trim();
+          if (data === '[DONE]') continue;
+
+          const chunk = JSON.parse(data) as ChatCompletionResponse;
+          if (chunk.model) model = chunk.model;
+          if (chunk.usage) usage = chunk.usage;
+
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            yield { type: 'text', text: delta };
+          }
+        }
+      }
+
+      yield {
+        type: 'done',
+        completion: { text, model, usage: this.toUsage(usage, request, text) },
+      };
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private async post(
+    request: LLMCompletionRequest,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages,
+    ];
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model || this.defaultModel,
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        top_p: request.topP,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`LLM request failed (${response.status}): ${body.slice(0, 500)}`);
+    }
+
+    return response;
+  }
+
+  private toUsage(
+    usage: ChatCompletionResponse['usage'],
+    request: LLMCompletionRequest,
+    text: string
+  ): LLMUsage {
+    if (usage) {
+      return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
+    }
+
+    const inputChars = (request.system?.length || 0) +
+      request.messages.reduce((sum, message) => sum + message.content.length, 0);
+
+    return {
+      inputTokens: Math.ceil(inputChars / CHARS_PER_TOKEN),
+      outputTokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+    };
+  }
+}
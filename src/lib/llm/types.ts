@@ -0,0 +1,70 @@
+/**
+ * LLM Provider Types
+ * Provider-neutral request/response shapes for text generation
+ */
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'mock';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  model?: string; // Defaults to the provider's model
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+// Explicit provider settings (unset fields fall back to the environment)
+export interface LLMProviderSettings {
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string; // openai only
+  fixturesDir?: string; // mock only
+}
+
+export interface LLMRequestOptions {
+  signal?: AbortSignal;
+}
+
+// Streaming events (the last event is always done)
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; completion: LLMCompletion };
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  complete(request: LLMCompletionRequest, options?: LLMRequestOptions): Promise<LLMCompletion>;
+  stream(request: LLMCompletionRequest, options?: LLMRequestOptions): AsyncGenerator<LLMStreamEvent>;
+}
+
+// Recorded response replayed by the mock provider
+export interface LLMFixture {
+  name?: string;
+  key?: string; // Exact request hash (recorded fixtures)
+  match?: {
+    system?: string; // Substring of the system prompt
+    prompt?: string; // Substring of the last user message
+  };
+  response: {
+    text: string;
+    inputTokens?: number;
+    outputTokens?: number;
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Usage Quotas
+ * Monthly AI token and export budgets, checked before any work starts
+ *
+ * AI calls reserve an estimated token amount up front and reconcile it with the
+ * actual usage afterwards. Exports consume one unit and are released on failure.
+ * Counters reset at the start of each calendar month (UTC).
+ */
+
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getTierLimits } from '@/lib/feature-flags';
+
+export type QuotaResource = 'ai_tokens' | 'exports';
+
+// Current budget for a resource (limit -1 = unlimited)
+export interface QuotaStatus {
+  resource: QuotaResource;
+  limit: number;
+  used: number;
+  reserved: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export interface QuotaCheckResult {
+  allowed: boolean;
+  quota: QuotaStatus;
+}
+
+// Tokens held for an in-flight AI call
+export interface TokenReservation {
+  userId: string;
+  reservedTokens: number;
+}
+
+export interface TokenReservationResult extends QuotaCheckResult {
+  reservation?: TokenReservation;
+}
+
+// Rough prompt size estimate
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the tokens an AI call will use from its input text and output budget
+ */
+export function estimateTokens(
+  inputs: Array<string | null | undefined>,
+  maxOutputTokens: number
+): number {
+  const inputChars = inputs.reduce((sum, text) => sum + (text?.length || 0), 0);
+  return Math.ceil(inputChars / CHARS_PER_TOKEN) + maxOutputTokens;
+}
+
+/**
+ * Get the current budget for a resource
+ */
+export async function getQuotaStatus(userId: string, resource: QuotaResource): Promise<QuotaStatus> {
+  const supabase = createAdminClient();
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('subscription_tier, monthly_ai_tokens_used, monthly_ai_tokens_limit, monthly_ai_tokens_reserved, monthly_exports_used, monthly_exports_limit, usage_period_start')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) {
+    throw new Error(`User not found: ${userId}`);
+  }
+
+  // Counters from a previous month are reset on the next write
+  const periodStart = isCurrentPeriod(user.usage_period_start)
+    ? user.usage_period_start
+    : startOfMonth(new Date()).toISOString();
+  const stale = periodStart !== user.usage_period_start;
+
+  const limits = getTierLimits(user.subscription_tier);
+
+  if (resource === 'ai_tokens') {
+    return buildStatus(
+      resource,
+      effectiveLimit(limits.monthlyAiTokens, user.monthly_ai_tokens_limit),
+      stale ? 0 : user.monthly_ai_tokens_used,
+      stale ? 0 : user.monthly_ai_tokens_reserved,
+      periodStart
+    );
+  }
+
+  return buildStatus(
+    resource,
+    effectiveLimit(limits.monthlyExports, user.monthly_exports_limit),
+    stale ? 0 : user.monthly_exports_used,
+    0,
+    periodStart
+  );
+}
+
+/**
+ * Reserve an estimated number of AI tokens before calling the model
+ */
+export async function reserveAiTokens(
+  userId: string,
+  estimatedTokens: number
+): Promise<TokenReservationResult> {
+  const supabase = createAdminClient();
+  const current = await getQuotaStatus(userId, 'ai_tokens');
+
+  const { data, error } = await supabase
+    .rpc('reserve_ai_tokens', {
+      p_user_id: userId,
+      p_tokens: estimatedTokens,
+      p_limit: current.limit,
+    })
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to reserve AI tokens: ${error?.message || 'no result'}`);
+  }
+
+  const quota = buildStatus(
+    'ai_tokens',
+    current.limit,
+    data.tokens_used,
+    data.tokens_reserved,
+    data.period_start
+  );
+
+  if (!data.allowed) {
+    return { allowed: false, quota };
+  }
+
+  return {
+    allowed: true,
+    quota,
+    reservation: { userId, reservedTokens: estimatedTokens },
+  };
+}
+
+/**
+ * Replace a reservation with the tokens actually used
+ */
+export async function reconcileAiTokens(
+  reservation: TokenReservation,
+  tokensUsed: number
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  const { error } = await supabase.rpc('reconcile_ai_tokens', {
+    p_user_id: reservation.userId,
+    p_reserved: reservation.reservedTokens,
+    p_actual: tokensUsed,
+  });
+
+  if (error) {
+    console.error('Failed to reconcile AI token reservation:', error);
+  }
+}
+
+/**
+ * Consume one export from the monthly budget
+ */
+export async function consumeExportQuota(userId: string): Promise<QuotaCheckResult> {
+  const supabase = createAdminClient();
+  const current = await getQuotaStatus(userId, 'exports');
+
+  const { data, error } = await supabase
+    .rpc('consume_export_quota', {
+      p_user_id: userId,
+      p_limit: current.limit,
+    })
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to consume export quota: ${error?.message || 'no result'}`);
+  }
+
+  return {
+    allowed: data.allowed,
+    quota: buildStatus('exports', current.limit, data.exports_used, 0, data.period_start),
+  };
+}
+
+/**
+ * Give back an export that failed to render
+ */
+export async function releaseExportQuota(
+  userId: string,
+  supabase: ReturnType<typeof createAdminClient> = createAdminClient()
+): Promise<void> {
+  const { error } = await supabase.rpc('release_export_quota', { p_user_id: userId });
+
+  if (error) {
+    console.error('Failed to release export quota:', error);
+  }
+}
+
+/**
+ * Structured 429 response for an exhausted budget
+ */
+export function quotaExceededResponse(quota: QuotaStatus, requested?: number): NextResponse {
+  const retryAfterSeconds = Math.max(
+    0,
+    Math.ceil((new Date(quota.resetAt).getTime() - Date.now()) / 1000)
+  );
+
+  const message =
+    quota.resource === 'ai_tokens'
+      ? 'Monthly AI token limit reached'
+      : 'Monthly export limit reached';
+
+  return NextResponse.json(
+    {
+      error: message,
+      code: 'quota_exceeded',
+      quota: {
+        resource: quota.resource,
+        limit: quota.limit,
+        used: quota.used,
+        reserved: quota.reserved,
+        remaining: quota.remaining,
+        requested,
+        resetAt: quota.resetAt,
+      },
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(retryAfterSeconds) },
+    }
+  );
+}
+
+// Tier limits of -1 are unlimited; otherwise the per-user limit applies
+function effectiveLimit(tierLimit: number, userLimit: number | null): number {
+  if (tierLimit === -1) return -1;
+  return userLimit ?? tierLimit;
+}
+
+function buildStatus(
+  resource: QuotaResource,
+  limit: number,
+  used: number,
+  reserved: number,
+  periodStart: string
+): QuotaStatus {
+  return {
+    resource,
+    limit,
+    used,
+    reserved,
+    remaining: limit === -1 ? -1 : Math.max(limit - used - reserved, 0),
+    resetAt: nextMonth(new Date(periodStart)).toISOString(),
+  };
+}
+
+function isCurrentPeriod(periodStart: string | null): periodStart is string {
+  return !!periodStart && new Date(periodStart) >= startOfMonth(new Date());
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function nextMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
@@ -1,5 +1,6 @@
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
-import { cookies } from 'next/headers';
+import { createClient } from '@supabase/supabase-js';
+import { cookies, headers } from 'next/headers';
 import type { Database } from '@/types/database';
 
 export function createServerClient() {
@@ -7,8 +8,33 @@ export function createServerClient() {
   return createServerComponentClient<Database>({ cookies: () => cookieStore });
 }
 
-// For API routes
+/**
+ * For API routes. Every route accepts either the browser's session cookies or an
+ * `Authorization: Bearer <access token>` header, which is how the CLI authenticates.
+ */
 export function createRouteHandlerClient() {
+  const accessToken = headers().get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (accessToken) {
+    return createBearerClient(accessToken);
+  }
+
   const cookieStore = cookies();
   return createServerComponentClient<Database>({ cookies: () => cookieStore });
 }
+
+/**
+ * Client acting as the token's user: queries carry the token, and auth.getUser()
+ * verifies it with the auth server, as it does for cookie sessions.
+ */
+function createBearerClient(accessToken: string) {
+  const client = createClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+  });
+
+  // Routes call auth.getUser() without arguments, which would look for a stored session
+  const getUser = client.auth.getUser.bind(client.auth);
+  client.auth.getUser = (jwt = accessToken) => getUser(jwt);
+
+  return client;
+}
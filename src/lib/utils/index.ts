@@ -81,6 +81,11 @@ export function generateId(): string {
   return crypto.randomUUID();
 }
 
+// Check a string is a UUID before using it as an ID in a query
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
 export function debounce<T extends (...args: unknown[]) => unknown>(
   fn: T,
   delay: number
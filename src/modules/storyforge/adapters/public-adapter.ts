@@ -8,6 +8,7 @@
  * 3. Semantic data extraction is cleanly abstracted
  */
 
+import { createAdminClient } from '@/lib/supabase/admin';
 import { getStoryForgeGenerator, StoryForgeGenerator } from '../engine/generator';
 import { getCanonManager, CanonManager } from '../canon/manager';
 import type {
@@ -15,6 +16,7 @@ import type {
   CanonContext,
   CanonConflict,
   SemanticSceneData,
+  SceneContext,
   GenerationRequest,
   GenerationResponse,
   StoryForgeConfig,
@@ -41,10 +43,38 @@ class StoryForgePublicAdapter implements StoryForgeAdapter {
   }
 
   /**
-   * Load complete canon context for a project
+   * Load a scene's text and metadata for cinema translation (null if it isn't in the project)
    */
-  async loadCanonContext(projectId: string): Promise<CanonContext> {
-    return this.canonManager.loadCanonContext(projectId);
+  async loadSceneContext(projectId: string, sceneId: string): Promise<SceneContext | null> {
+    const { data: scene } = await createAdminClient()
+      .from('scenes')
+      .select('id, chapter_id, title, content, location, location_id, time_of_day, character_ids, semantic_data')
+      .eq('id', sceneId)
+      .eq('project_id', projectId)
+      .single();
+
+    if (!scene) return null;
+
+    const semanticData = scene.semantic_data as unknown as SemanticSceneData | null;
+
+    return {
+      sceneId: scene.id,
+      chapterId: scene.chapter_id,
+      title: scene.title,
+      content: scene.content,
+      location: scene.location,
+      locationId: scene.location_id,
+      timeOfDay: scene.time_of_day,
+      characterIds: scene.character_ids || [],
+      semanticData: semanticData?.purpose !== undefined ? semanticData : null,
+    };
+  }
+
+  /**
+   * Load complete canon context for a project (optionally as seen from a forked timeline)
+   */
+  async loadCanonContext(projectId: string, timelineId?: string): Promise<CanonContext> {
+    return this.canonManager.loadCanonContext(projectId, timelineId);
   }
 
   /**
@@ -54,15 +84,17 @@ class StoryForgePublicAdapter implements StoryForgeAdapter {
     content: string,
     canonContext: CanonContext
   ): Promise<CanonConflict[]> {
-    return this.generator.validateAgainstCanon(content, canonContext);
+    const { conflicts } = await this.generator.validateAgainstCanon(content, canonContext);
+    return conflicts;
   }
 
   /**
    * Generate content (protected - requires proper authorization context)
    */
   async generate(request: GenerationRequest): Promise<GenerationResponse> {
-    // Load canon context
-    const canonContext = await this.loadCanonContext(request.projectId);
+    // Load canon context, trimmed to the prompt budget
+    const { context: canonContext, ...canonSelection } =
+      await this.canonManager.loadBudgetedCanonContext(request);
 
     // Load previous content if requested
     let previousContent: string | undefined;
@@ -74,7 +106,8 @@ class StoryForgePublicAdapter implements StoryForgeAdapter {
       );
     }
 
-    return this.generator.generate(request, canonContext, previousContent);
+    const response = await this.generator.generate(request, canonContext, previousContent);
+    return { ...response, canonSelection };
   }
 
   /**
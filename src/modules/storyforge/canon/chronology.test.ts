@@ -0,0 +1,304 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  CanonCharacterContext,
+  CanonEventContext,
+  CanonLocationContext,
+  CanonRuleContext,
+  StoryCalendar,
+} from '../types';
+import {
+  buildChronology,
+  GREGORIAN_CALENDAR,
+  parseCalendarRule,
+  parseDuration,
+  parseStoryDate,
+  type ChronologyReference,
+  type ChronologyScene,
+} from './chronology';
+
+const CALENDAR_RULE: CanonRuleContext = {
+  id: 'rule-calendar',
+  canonEntryId: 'entry-rule-calendar',
+  timelineId: null,
+  name: 'Reckoning of the Vale',
+  description: 'Months: Frostfall 30, Thaw 30, Bloom 31, Highsun 31\nEras: BR (backwards), AR',
+  category: 'calendar',
+  constraints: [],
+  priority: 1,
+  locked: true,
+};
+
+const VALE = parseCalendarRule(CALENDAR_RULE) as StoryCalendar;
+
+function character(id: string, name: string): CanonCharacterContext {
+  return {
+    id,
+    canonEntryId: `entry-${id}`,
+    timelineId: null,
+    name,
+    aliases: [],
+    description: null,
+    appearance: null,
+    personality: null,
+    backstory: null,
+    relationships: null,
+    speechPatterns: null,
+    vocabularyLevel: null,
+    catchphrases: [],
+    locked: true,
+  };
+}
+
+function location(id: string, name: string): CanonLocationContext {
+  return {
+    id,
+    canonEntryId: `entry-${id}`,
+    timelineId: null,
+    name,
+    description: null,
+    atmosphere: null,
+    locked: true,
+  };
+}
+
+function event(id: string, name: string, storyDate: string, fields: Partial<CanonEventContext> = {}): CanonEventContext {
+  return {
+    id,
+    canonEntryId: `entry-${id}`,
+    timelineId: null,
+    name,
+    description: null,
+    storyDate,
+    relativeOrder: null,
+    duration: null,
+    consequences: [],
+    affectedCharacterIds: [],
+    affectedLocationIds: [],
+    eventType: 'current',
+    locked: true,
+    ...fields,
+  };
+}
+
+function scene(id: string, storyDate: string | null, fields: Partial<ChronologyScene> = {}): ChronologyScene {
+  return {
+    id,
+    chapterId: 'chapter-1',
+    name: `Chapter 1: ${id}`,
+    storyDate,
+    timeOfDay: null,
+    locationId: null,
+    characterIds: [],
+    ...fields,
+  };
+}
+
+function chronology(
+  events: CanonEventContext[],
+  scenes: ChronologyScene[],
+  references: ChronologyReference[] = []
+) {
+  return buildChronology({
+    context: {
+      characters: [character('elena', 'Elena')],
+      locations: [location('harbor', 'Saltmarsh Harbor'), location('tower', 'Lamp Tower')],
+      rules: [CALENDAR_RULE],
+      events,
+      themes: [],
+    },
+    scenes,
+    references,
+  });
+}
+
+function reference(sceneId: string, eventId: string): ChronologyReference {
+  return {
+    sceneId,
+    canonEntryId: `entry-${eventId}`,
+    contextSnippet: 'since the flood took the mill',
+    positionStart: 40,
+    positionEnd: 69,
+  };
+}
+
+describe('parseCalendarRule', () => {
+  it('reads months and eras from a calendar rule', () => {
+    expect(VALE).toEqual({
+      name: 'Reckoning of the Vale',
+      months: [
+        { name: 'Frostfall', days: 30 },
+        { name: 'Thaw', days: 30 },
+        { name: 'Bloom', days: 31 },
+        { name: 'Highsun', days: 31 },
+      ],
+      eras: [
+        { name: 'BR', countsBackwards: true },
+        { name: 'AR', countsBackwards: false },
+      ],
+      daysPerYear: 122,
+    });
+  });
+
+  it('takes a shared month length and ignores rules that are not calendars', () => {
+    const shared = parseCalendarRule({
+      ...CALENDAR_RULE,
+      description: 'Months: Ember, Ash, Cinder\nThere are 30 days per month.',
+    });
+
+    expect(shared?.months).toEqual([
+      { name: 'Ember', days: 30 },
+      { name: 'Ash', days: 30 },
+      { name: 'Cinder', days: 30 },
+    ]);
+    expect(parseCalendarRule({ ...CALENDAR_RULE, name: 'Magic', category: 'magic' })).toBeNull();
+  });
+});
+
+describe('parseStoryDate', () => {
+  it('places dates on the custom calendar', () => {
+    expect(parseStoryDate('12 Thaw 3 AR', VALE)).toEqual({ day: 285, precision: 'day', text: '12 Thaw 3 AR' });
+    expect(parseStoryDate('Year 3, Day 40', VALE)?.day).toBe(283);
+    expect(parseStoryDate('Bloom 2 AR', VALE)).toMatchObject({ day: 182, precision: 'month' });
+    expect(parseStoryDate('15 Hig. 1 AR', VALE)?.day).toBe(105);
+  });
+
+  it('counts backwards eras down towards year 1', () => {
+    expect(parseStoryDate('Thaw 2 BR', VALE)?.day).toBe(-214);
+    expect(parseStoryDate('Thaw 1 BR', VALE)?.day).toBe(-92);
+    expect(parseStoryDate('44 BC')).toEqual({ day: -16104, precision: 'year', text: '44 BC' });
+    expect(parseStoryDate('15 March 44 BC')?.day).toBe(-16030);
+    expect(parseStoryDate('31 December 1 BC')?.day).toBe(-1);
+    expect(parseStoryDate('1 January 1 AD')?.day).toBe(0);
+  });
+
+  it('rejects dates the calendar does not have', () => {
+    expect(parseStoryDate('31 Frostfall 1 AR', VALE)).toBeNull();
+    expect(parseStoryDate('3 Smarch 1 AR', VALE)).toBeNull();
+    expect(parseStoryDate('Year 0 BR', VALE)).toBeNull();
+    expect(parseStoryDate('the day after the storm', VALE)).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it('adds up units and number words', () => {
+    expect(parseDuration('3 days')).toBe(3);
+    expect(parseDuration('two weeks')).toBe(14);
+    expect(parseDuration('a fortnight')).toBe(14);
+    expect(parseDuration('12 hours')).toBe(0.5);
+    expect(parseDuration('1 year and 6 months')).toBe(366 + 6 * 30.5);
+  });
+
+  it('sizes months and years by the calendar', () => {
+    expect(parseDuration('1 month', VALE)).toBe(30.5);
+    expect(parseDuration('two centuries', VALE)).toBe(24400);
+    expect(parseDuration('1 month', GREGORIAN_CALENDAR)).toBe(30.5);
+  });
+
+  it('returns null when no duration is given', () => {
+    expect(parseDuration('until the tide turns')).toBeNull();
+  });
+});
+
+describe('buildChronology', () => {
+  it('orders events and scenes across a backwards era on the project calendar', () => {
+    const result = chronology(
+      [
+        event('coronation', 'The Coronation', '1 Frostfall 1 AR'),
+        event('war', 'The Long War', 'Highsun 10 BR', { eventType: 'backstory' }),
+        event('flood', 'The Flood', '1 Thaw 1 BR', { eventType: 'backstory' }),
+      ],
+      [scene('arrival', '3 Frostfall 1 AR')]
+    );
+
+    expect(result.calendar.name).toBe('Reckoning of the Vale');
+    expect(result.items.map((item) => item.id)).toEqual(['war', 'flood', 'coronation', 'arrival']);
+    expect(result.conflicts).toEqual([]);
+    expect(result.unparsedDates).toEqual([]);
+  });
+
+  it('flags a scene that refers to an event dated after it', () => {
+    const result = chronology(
+      [event('flood', 'The Flood', '20 Thaw 1 AR'), event('fire', 'The Fire', '2 Thaw 1 AR')],
+      [scene('market', '10 Thaw 1 AR')],
+      [reference('market', 'flood'), reference('market', 'fire')]
+    );
+
+    expect(result.conflicts).toEqual([
+      {
+        id: 'chronology-reference-market-flood',
+        type: 'timeline',
+        severity: 'error',
+        description: `"Chapter 1: market" (10 Thaw 1 AR) refers to "The Flood", which doesn't happen until 20 Thaw 1 AR`,
+        conflictingCanonId: 'entry-flood',
+        conflictingCanonName: 'The Flood',
+        suggestedResolution: 'Move the scene after the event, redate the event, or make the reference a foreshadowing',
+        generatedText: 'since the flood took the mill',
+        position: { start: 40, end: 69 },
+      },
+    ]);
+  });
+
+  it('treats a month-precision scene in a backwards era as the whole month', () => {
+    const result = chronology(
+      [event('flood', 'The Flood', '12 Thaw 3 BR'), event('fire', 'The Fire', '2 Bloom 3 BR')],
+      [scene('market', 'Thaw 3 BR')],
+      [reference('market', 'flood'), reference('market', 'fire')]
+    );
+
+    expect(result.conflicts.map((conflict) => conflict.id)).toEqual(['chronology-reference-market-fire']);
+  });
+
+  it('flags a character in two places at the same time of day as an error', () => {
+    const result = chronology(
+      [],
+      [
+        scene('watch', '5 Bloom 1 AR', { timeOfDay: 'Night', locationId: 'tower', characterIds: ['elena'] }),
+        scene('smuggling', '5 Bloom 1 AR', { timeOfDay: 'night', locationId: 'harbor', characterIds: ['elena'] }),
+      ]
+    );
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      id: 'chronology-presence-entry-elena-watch-smuggling',
+      severity: 'error',
+      conflictingCanonId: 'entry-elena',
+      description:
+        'Elena is at Lamp Tower in scene "Chapter 1: watch" and at Saltmarsh Harbor in scene "Chapter 1: smuggling" at the same time (5 Bloom 1 AR, night)',
+    });
+  });
+
+  it('lets a character be in two places on one day at different times', () => {
+    const result = chronology(
+      [],
+      [
+        scene('watch', '5 Bloom 1 AR', { timeOfDay: 'morning', locationId: 'tower', characterIds: ['elena'] }),
+        scene('smuggling', '5 Bloom 1 AR', { timeOfDay: 'evening', locationId: 'harbor', characterIds: ['elena'] }),
+      ]
+    );
+
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('only warns about a same-day clash when a time of day is missing', () => {
+    const result = chronology(
+      [event('storm', 'The Storm', '5 Bloom 1 AR', { affectedCharacterIds: ['elena'], affectedLocationIds: ['harbor'] })],
+      [scene('watch', '5 Bloom 1 AR', { timeOfDay: 'night', locationId: 'tower', characterIds: ['elena'] })]
+    );
+
+    expect(result.conflicts.map((conflict) => [conflict.id, conflict.severity])).toEqual([
+      ['chronology-presence-entry-elena-storm-watch', 'warning'],
+    ]);
+  });
+
+  it('reports dates it cannot read and keeps their items in order', () => {
+    const result = chronology(
+      [event('flood', 'The Flood', 'the wet year')],
+      [scene('arrival', '3 Frostfall 1 AR'), scene('departure', null)]
+    );
+
+    expect(result.unparsedDates).toEqual([
+      { kind: 'event', id: 'flood', name: 'The Flood', storyDate: 'the wet year' },
+    ]);
+    expect(result.items.find((item) => item.id === 'departure')?.inferred).toBe(true);
+  });
+});
@@ -0,0 +1,704 @@
+/**
+ * Story Chronology
+ * Orders canon events and scenes by in-world date and checks the order for impossibilities
+ *
+ * Dates are free text parsed against the project calendar: a canon rule with category
+ * 'calendar' (or "calendar" in its name) that lists its months and eras, e.g.
+ *   Months: Frostfall 30, Thaw 30, Bloom 31, Highsun 31
+ *   Eras: BR (backwards), AR
+ * Without one, dates are read as Gregorian. Month and year dates sort at their start.
+ *
+ * Events sort by date, then relative_order. A scene falls in after the events dated on or
+ * before it; an undated scene stays in reading order after the scene before it.
+ * Problems are reported as 'timeline' conflicts:
+ * - a character in two locations at once (same-day events and scenes)
+ * - a scene referencing an event dated after it
+ * - relative_order that contradicts the dates
+ * - backstory dated after the story begins, or a future event before it ends
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getCanonManager } from './manager';
+import type {
+  CanonContext,
+  CanonConflict,
+  CanonRuleContext,
+  ChronologyItem,
+  ChronologyResult,
+  StoryCalendar,
+  StoryDate,
+} from '../types';
+
+// February has 29 days so leap days parse; ordering is unaffected
+export const GREGORIAN_CALENDAR: StoryCalendar = {
+  name: 'Gregorian',
+  months: [
+    { name: 'January', days: 31 },
+    { name: 'February', days: 29 },
+    { name: 'March', days: 31 },
+    { name: 'April', days: 30 },
+    { name: 'May', days: 31 },
+    { name: 'June', days: 30 },
+    { name: 'July', days: 31 },
+    { name: 'August', days: 31 },
+    { name: 'September', days: 30 },
+    { name: 'October', days: 31 },
+    { name: 'November', days: 30 },
+    { name: 'December', days: 31 },
+  ],
+  eras: [
+    { name: 'BCE', countsBackwards: true },
+    { name: 'BC', countsBackwards: true },
+    { name: 'CE', countsBackwards: false },
+    { name: 'AD', countsBackwards: false },
+  ],
+  daysPerYear: 366,
+};
+
+// Events longer than this (a war, a reign) don't pin a character to one place
+const PRESENCE_MAX_DAYS = 1;
+
+const EVENT_TYPE_RANK: Record<string, number> = { backstory: 0, current: 1, alternate: 1, future: 2 };
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const BACKWARDS_ERA_PATTERN = /\((?:backwards?|before|counts? down|descending)\)/i;
+
+export interface ChronologyScene {
+  id: string;
+  chapterId: string;
+  name: string;
+  storyDate: string | null;
+  timeOfDay: string | null;
+  locationId: string | null; // canon_locations.id or canon entry id
+  characterIds: string[]; // canon_characters.id or canon entry ids
+}
+
+export interface ChronologyReference {
+  sceneId: string;
+  canonEntryId: string;
+  contextSnippet: string | null;
+  positionStart: number | null;
+  positionEnd: number | null;
+}
+
+export interface ChronologySource {
+  context: CanonContext;
+  scenes: ChronologyScene[]; // In reading order
+  references: ChronologyReference[]; // Scene references to event entries
+}
+
+interface PlacedItem {
+  item: ChronologyItem;
+  at: number; // Sort day; undated items borrow their neighbour's
+  seq: number; // Event order or reading order
+  relativeOrder: number | null;
+  timeOfDay: string | null;
+}
+
+/**
+ * Whether a rule describes the in-world calendar
+ */
+export function isCalendarRule(rule: Pick<CanonRuleContext, 'name' | 'category'>): boolean {
+  return rule.category?.trim().toLowerCase() === 'calendar' || /\bcalendar\b/i.test(rule.name);
+}
+
+/**
+ * Calendar defined by a rule's description and constraints, or null if it doesn't list its months.
+ * Month lengths are given per month ("Thaw 30" or "Thaw (30 days)") or once ("30 days per month").
+ */
+export function parseCalendarRule(rule: CanonRuleContext): StoryCalendar | null {
+  if (!isCalendarRule(rule)) return null;
+
+  const text = [rule.description || '', ...rule.constraints].join('\n');
+  const monthsLine = /\bmonths\s*:\s*([^\n]+)/i.exec(text);
+  if (!monthsLine) return null;
+
+  const sharedDays = /\b(\d+)\s+days\s+(?:per|a|each|in every)\s+month\b/i.exec(text);
+  const months: StoryCalendar['months'] = [];
+
+  for (const part of monthsLine[1].replace(/\.\s*$/, '').split(/[,;]/)) {
+    const match = /^(.*?[^\d\s(])\s*(?:\(\s*(\d+)(?:\s*days?)?\s*\)|(\d+)(?:\s*days?)?)?$/i.exec(part.trim());
+    if (!match) continue;
+    const days = parseInt(match[2] || match[3] || sharedDays?.[1] || '', 10);
+    if (!days) return null;
+    months.push({ name: match[1].trim(), days });
+  }
+  if (months.length === 0) return null;
+
+  const erasLine = /\beras\s*:\s*([^\n]+)/i.exec(text);
+  const eras: StoryCalendar['eras'] = erasLine
+    ? erasLine[1]
+        .replace(/\.\s*$/, '')
+        .split(/[,;]/)
+        .map((part) => ({
+          name: part.replace(BACKWARDS_ERA_PATTERN, '').trim(),
+          countsBackwards: BACKWARDS_ERA_PATTERN.test(part),
+        }))
+        .filter((era) => era.name.length > 0)
+    : [];
+
+  return {
+    name: rule.name,
+    months,
+    eras,
+    daysPerYear: months.reduce((sum, month) => sum + month.days, 0),
+  };
+}
+
+/**
+ * The project calendar: the first calendar rule that parses, else Gregorian
+ */
+export function resolveCalendar(rules: CanonRuleContext[]): StoryCalendar {
+  for (const rule of rules) {
+    const calendar = parseCalendarRule(rule);
+    if (calendar) return calendar;
+  }
+  return GREGORIAN_CALENDAR;
+}
+
+/**
+ * Parse an in-world date. Understands, each with an optional era:
+ * "1215-06-15", "15 June 1215", "June 15, 1215", "June 1215", "Year 3, Day 40", "1215"
+ */
+export function parseStoryDate(text: string, calendar: StoryCalendar = GREGORIAN_CALENDAR): StoryDate | null {
+  let body = text.trim().replace(/,/g, ' ').replace(/\s+/g, ' ');
+  if (!body) return null;
+
+  let era: StoryCalendar['eras'][number] | null = null;
+  for (const candidate of [...calendar.eras].sort((a, b) => b.name.length - a.name.length)) {
+    const pattern = new RegExp(`(^|\\s)${escapeRegExp(candidate.name)}\\.?(?=\\s|$)`, 'iu');
+    if (pattern.test(body)) {
+      era = candidate;
+      body = body.replace(pattern, ' ').replace(/\s+/g, ' ').trim();
+      break;
+    }
+  }
+
+  const month = `(${monthAlternatives(calendar).join('|')})`;
+  const year = '(?:of )?(?:the )?(?:year )?(-?\\d{1,6})';
+  const ordinal = '(\\d{1,3})(?:st|nd|rd|th)?';
+
+  const at = (yearText: string, monthIndex: number | null, dayText: string | null): StoryDate | null =>
+    toStoryDate(calendar, era, parseInt(yearText, 10), monthIndex, dayText ? parseInt(dayText, 10) : null, text.trim());
+
+  let match = /^(-?\d{1,6})-(\d{1,2})(?:-(\d{1,2}))?$/.exec(body);
+  if (match) return at(match[1], parseInt(match[2], 10) - 1, match[3] || null);
+
+  match = new RegExp(`^(?:the )?${ordinal}(?: of)? ${month} ${year}$`, 'iu').exec(body);
+  if (match) return at(match[3], findMonth(calendar, match[2]), match[1]);
+
+  match = new RegExp(`^${month} ${ordinal} ${year}$`, 'iu').exec(body);
+  if (match) return at(match[3], findMonth(calendar, match[1]), match[2]);
+
+  match = new RegExp(`^${month} ${year}$`, 'iu').exec(body);
+  if (match) return at(match[2], findMonth(calendar, match[1]), null);
+
+  match = /^year (-?\d{1,6}) day (\d{1,3})$/i.exec(body) || /^day (\d{1,3}) of year (-?\d{1,6})$/i.exec(body);
+  if (match) {
+    const [yearText, dayText] = /^year/i.test(body) ? [match[1], match[2]] : [match[2], match[1]];
+    return at(yearText, null, dayText);
+  }
+
+  match = /^(?:year )?(-?\d{1,6})$/i.exec(body);
+  if (match) return at(match[1], null, null);
+
+  return null;
+}
+
+/**
+ * Length of a duration in days ("3 days", "two weeks", "1 year and 6 months"), or null if none is given
+ */
+export function parseDuration(text: string, calendar: StoryCalendar = GREGORIAN_CALENDAR): number | null {
+  const unitDays: Record<string, number> = {
+    hour: 1 / 24,
+    day: 1,
+    week: 7,
+    fortnight: 14,
+    month: calendar.daysPerYear / calendar.months.length,
+    year: calendar.daysPerYear,
+    decade: calendar.daysPerYear * 10,
+    centur: calendar.daysPerYear * 100,
+  };
+
+  const pattern = new RegExp(
+    `\\b(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})\\s+(hour|day|week|fortnight|month|year|decade|centur)(?:s|y|ies)?\\b`,
+    'gi'
+  );
+
+  let total: number | null = null;
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const amount = NUMBER_WORDS[match[1].toLowerCase()] ?? parseFloat(match[1]);
+    total = (total ?? 0) + amount * unitDays[match[2].toLowerCase()];
+  }
+  return total;
+}
+
+/**
+ * Order events and scenes into one chronology and check it
+ */
+export function buildChronology(source: ChronologySource): ChronologyResult {
+  const { context } = source;
+  const calendar = resolveCalendar(context.rules);
+  const characters = entryIndex(context.characters);
+  const locations = entryIndex(context.locations);
+  const unparsedDates: ChronologyResult['unparsedDates'] = [];
+
+  const parse = (kind: 'event' | 'scene', id: string, name: string, storyDate: string | null) => {
+    if (!storyDate?.trim()) return null;
+    const date = parseStoryDate(storyDate, calendar);
+    if (!date) unparsedDates.push({ kind, id, name, storyDate });
+    return date;
+  };
+
+  // Alternate events only belong to the fork they were written for
+  const events: PlacedItem[] = context.events
+    .filter((event) => event.eventType !== 'alternate' || event.timelineId !== null)
+    .map((event) => {
+      const date = parse('event', event.id, event.name, event.storyDate);
+      return {
+        item: {
+          kind: 'event',
+          id: event.id,
+          canonEntryId: event.canonEntryId,
+          chapterId: null,
+          name: event.name,
+          storyDate: event.storyDate,
+          date,
+          durationDays: event.duration ? parseDuration(event.duration, calendar) : null,
+          eventType: event.eventType,
+          characterIds: resolveIds(event.affectedCharacterIds, characters),
+          locationIds: resolveIds(event.affectedLocationIds, locations),
+          inferred: !date,
+        },
+        at: 0,
+        seq: 0,
+        relativeOrder: event.relativeOrder,
+        timeOfDay: null,
+      };
+    });
+
+  const orderedEvents = orderEvents(events);
+  orderedEvents.forEach((event, index) => {
+    event.seq = index;
+    event.at = event.item.date ? event.item.date.day : index > 0 ? orderedEvents[index - 1].at : -Infinity;
+  });
+
+  // Undated scenes before the first dated one start after the backstory
+  const lastBackstory = [...orderedEvents].reverse().find((event) => event.item.eventType === 'backstory');
+  let previousAt = lastBackstory ? lastBackstory.at : -Infinity;
+
+  const scenes: PlacedItem[] = source.scenes.map((scene, index) => {
+    const date = parse('scene', scene.id, scene.name, scene.storyDate);
+    const at = date ? date.day : previousAt;
+    previousAt = at;
+
+    return {
+      item: {
+        kind: 'scene',
+        id: scene.id,
+        canonEntryId: null,
+        chapterId: scene.chapterId,
+        name: scene.name,
+        storyDate: scene.storyDate,
+        date,
+        durationDays: null,
+        eventType: null,
+        characterIds: resolveIds(scene.characterIds, characters),
+        locationIds: resolveIds(scene.locationId ? [scene.locationId] : [], locations),
+        inferred: !date,
+      },
+      at,
+      seq: index,
+      relativeOrder: null,
+      timeOfDay: scene.timeOfDay?.trim().toLowerCase() || null,
+    };
+  });
+
+  const placed = [...orderedEvents, ...scenes].sort(
+    (a, b) =>
+      a.at - b.at ||
+      (a.item.kind === b.item.kind ? 0 : a.item.kind === 'event' ? -1 : 1) ||
+      a.seq - b.seq
+  );
+
+  const conflicts = [
+    ...checkRelativeOrder(orderedEvents, calendar),
+    ...checkStoryBounds(orderedEvents, scenes, calendar),
+    ...checkReferences(orderedEvents, scenes, source.references, calendar),
+    ...checkPresence([...orderedEvents, ...scenes], characters, locations),
+  ];
+
+  return { calendar, items: placed.map((entry) => entry.item), conflicts, unparsedDates };
+}
+
+function orderEvents(events: PlacedItem[]): PlacedItem[] {
+  const rank = (event: PlacedItem) => EVENT_TYPE_RANK[event.item.eventType || 'current'] ?? 1;
+  const byOrder = (a: PlacedItem, b: PlacedItem) =>
+    compareOrder(a.relativeOrder, b.relativeOrder) || rank(a) - rank(b);
+
+  const ordered = events
+    .filter((event) => event.item.date)
+    .sort((a, b) => a.item.date!.day - b.item.date!.day || byOrder(a, b));
+
+  // Undated events go before the first event later in relative order; without one,
+  // backstory follows the dated backstory and everything else goes last
+  for (const event of events.filter((e) => !e.item.date).sort(byOrder)) {
+    const index =
+      event.relativeOrder !== null
+        ? ordered.findIndex((other) => other.relativeOrder !== null && other.relativeOrder > event.relativeOrder!)
+        : event.item.eventType === 'backstory'
+          ? ordered.findIndex((other) => other.item.eventType !== 'backstory')
+          : -1;
+    ordered.splice(index === -1 ? ordered.length : index, 0, event);
+  }
+
+  return ordered;
+}
+
+function checkRelativeOrder(events: PlacedItem[], calendar: StoryCalendar): CanonConflict[] {
+  const conflicts: CanonConflict[] = [];
+  const dated = events.filter((event) => event.item.date && event.relativeOrder !== null);
+
+  for (const later of dated) {
+    const earlier = dated.find(
+      (other) =>
+        other.relativeOrder! > later.relativeOrder! &&
+        dateEnd(other.item.date!, calendar) <= later.item.date!.day
+    );
+    if (!earlier) continue;
+
+    conflicts.push(
+      timelineConflict({
+        id: `chronology-order-${earlier.item.id}-${later.item.id}`,
+        severity: 'warning',
+        description: `"${earlier.item.name}" (${earlier.item.storyDate}) is dated before "${later.item.name}" (${later.item.storyDate}) but comes after it in relative order`,
+        conflictingCanonId: later.item.canonEntryId!,
+        conflictingCanonName: later.item.name,
+        suggestedResolution: `Fix the relative order or the date of one of the events`,
+      })
+    );
+  }
+
+  return conflicts;
+}
+
+function checkStoryBounds(events: PlacedItem[], scenes: PlacedItem[], calendar: StoryCalendar): CanonConflict[] {
+  const datedScenes = scenes.filter((scene) => scene.item.date).sort((a, b) => a.at - b.at);
+  if (datedScenes.length === 0) return [];
+
+  const first = datedScenes[0].item;
+  const last = datedScenes[datedScenes.length - 1].item;
+  const conflicts: CanonConflict[] = [];
+
+  for (const { item } of events) {
+    if (!item.date) continue;
+
+    if (item.eventType === 'backstory' && item.date.day >= dateEnd(first.date!, calendar)) {
+      conflicts.push(
+        timelineConflict({
+          id: `chronology-backstory-${item.id}`,
+          severity: 'warning',
+          description: `Backstory event "${item.name}" (${item.storyDate}) is dated after the story begins with "${first.name}" (${first.storyDate})`,
+          conflictingCanonId: item.canonEntryId!,
+          conflictingCanonName: item.name,
+          suggestedResolution: `Move the event earlier, or mark it as a current event`,
+        })
+      );
+    }
+
+    if (item.eventType === 'future' && dateEnd(item.date, calendar) <= last.date!.day) {
+      conflicts.push(
+        timelineConflict({
+          id: `chronology-future-${item.id}`,
+          severity: 'warning',
+          description: `Future event "${item.name}" (${item.storyDate}) is dated before the latest scene, "${last.name}" (${last.storyDate})`,
+          conflictingCanonId: item.canonEntryId!,
+          conflictingCanonName: item.name,
+          suggestedResolution: `Move the event later, or mark it as a current or backstory event`,
+        })
+      );
+    }
+  }
+
+  return conflicts;
+}
+
+function checkReferences(
+  events: PlacedItem[],
+  scenes: PlacedItem[],
+  references: ChronologyReference[],
+  calendar: StoryCalendar
+): CanonConflict[] {
+  const eventsByEntry = new Map(events.map((event) => [event.item.canonEntryId, event.item]));
+  const scenesById = new Map(scenes.map((scene) => [scene.item.id, scene.item]));
+  const conflicts = new Map<string, CanonConflict>();
+
+  for (const reference of references) {
+    const event = eventsByEntry.get(reference.canonEntryId);
+    const scene = scenesById.get(reference.sceneId);
+    if (!event?.date || !scene?.date || event.date.day < dateEnd(scene.date, calendar)) continue;
+
+    const id = `chronology-reference-${scene.id}-${event.id}`;
+    if (conflicts.has(id)) continue;
+
+    conflicts.set(
+      id,
+      timelineConflict({
+        id,
+        severity: 'error',
+        description: `"${scene.name}" (${scene.storyDate}) refers to "${event.name}", which doesn't happen until ${event.storyDate}`,
+        conflictingCanonId: event.canonEntryId!,
+        conflictingCanonName: event.name,
+        suggestedResolution: `Move the scene after the event, redate the event, or make the reference a foreshadowing`,
+        generatedText: reference.contextSnippet || '',
+        position:
+          reference.positionStart !== null && reference.positionEnd !== null
+            ? { start: reference.positionStart, end: reference.positionEnd }
+            : undefined,
+      })
+    );
+  }
+
+  return Array.from(conflicts.values());
+}
+
+/**
+ * Characters placed in different locations at overlapping times. Only day-precision
+ * dates count; two scenes with different times of day are not simultaneous, and a
+ * scene or event without a time of day only overlaps as a warning.
+ */
+function checkPresence(
+  items: PlacedItem[],
+  characters: Map<string, { canonEntryId: string; name: string }>,
+  locations: Map<string, { canonEntryId: string; name: string }>
+): CanonConflict[] {
+  const appearances = new Map<string, Array<{ entry: PlacedItem; start: number; end: number }>>();
+
+  for (const entry of items) {
+    const { item } = entry;
+    if (item.date?.precision !== 'day' || item.locationIds.length === 0) continue;
+    if ((item.durationDays ?? 0) > PRESENCE_MAX_DAYS) continue;
+
+    const start = item.date.day;
+    const end = start + Math.max(1, item.durationDays ?? 1);
+    for (const characterId of item.characterIds) {
+      const list = appearances.get(characterId) || [];
+      list.push({ entry, start, end });
+      appearances.set(characterId, list);
+    }
+  }
+
+  const conflicts: CanonConflict[] = [];
+  const locationNames = (ids: string[]) =>
+    ids.map((id) => locations.get(id)?.name || id).join(' / ');
+
+  for (const [characterId, list] of Array.from(appearances.entries())) {
+    const character = characters.get(characterId)!;
+
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const a = list[i];
+        const b = list[j];
+        if (a.start >= b.end || b.start >= a.end) continue;
+        if (a.entry.item.locationIds.some((id) => b.entry.item.locationIds.includes(id))) continue;
+
+        const timeA = a.entry.timeOfDay;
+        const timeB = b.entry.timeOfDay;
+        if (timeA && timeB && timeA !== timeB) continue;
+        const sameTime = Boolean(timeA && timeB);
+
+        const describe = ({ entry }: { entry: PlacedItem }) =>
+          `at ${locationNames(entry.item.locationIds)} in ${entry.item.kind} "${entry.item.name}"`;
+
+        conflicts.push(
+          timelineConflict({
+            id: `chronology-presence-${characterId}-${a.entry.item.id}-${b.entry.item.id}`,
+            severity: sameTime ? 'error' : 'warning',
+            description: `${character.name} is ${describe(a)} and ${describe(b)} at the same time (${a.entry.item.storyDate}${sameTime ? `, ${timeA}` : ''})`,
+            conflictingCanonId: characterId,
+            conflictingCanonName: character.name,
+            suggestedResolution: `Redate one of them, move ${character.name} to one location, or give the scenes different times of day`,
+          })
+        );
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+function timelineConflict(
+  conflict: Omit<CanonConflict, 'type' | 'generatedText' | 'position'> & {
+    generatedText?: string;
+    position?: CanonConflict['position'];
+  }
+): CanonConflict {
+  return {
+    ...conflict,
+    type: 'timeline',
+    generatedText: conflict.generatedText ?? '',
+    position: conflict.position ?? { start: 0, end: 0 },
+  };
+}
+
+function toStoryDate(
+  calendar: StoryCalendar,
+  era: StoryCalendar['eras'][number] | null,
+  year: number,
+  monthIndex: number | null,
+  day: number | null,
+  text: string
+): StoryDate | null {
+  if (era && year < 1) return null;
+  if (monthIndex !== null && !calendar.months[monthIndex]) return null;
+
+  // Year 1 of a backwards era is the year before year 1; without an era, year 0 is that year too
+  const yearStart = era?.countsBackwards ? -year * calendar.daysPerYear : (year - 1) * calendar.daysPerYear;
+
+  if (monthIndex === null) {
+    if (day === null) return { day: yearStart, precision: 'year', text };
+    if (day < 1 || day > calendar.daysPerYear) return null;
+    return { day: yearStart + day - 1, precision: 'day', text };
+  }
+
+  const monthStart = calendar.months.slice(0, monthIndex).reduce((sum, month) => sum + month.days, 0);
+  if (day === null) return { day: yearStart + monthStart, precision: 'month', text };
+  if (day < 1 || day > calendar.months[monthIndex].days) return null;
+  return { day: yearStart + monthStart + day - 1, precision: 'day', text };
+}
+
+// First day after the span a date covers
+function dateEnd(date: StoryDate, calendar: StoryCalendar): number {
+  if (date.precision === 'day') return date.day + 1;
+  if (date.precision === 'year') return date.day + calendar.daysPerYear;
+
+  const offset = ((date.day % calendar.daysPerYear) + calendar.daysPerYear) % calendar.daysPerYear;
+  let monthStart = 0;
+  for (const month of calendar.months) {
+    if (monthStart === offset) return date.day + month.days;
+    monthStart += month.days;
+  }
+  return date.day + 1;
+}
+
+// Month names, plus unambiguous three-letter abbreviations of longer names
+function monthAlternatives(calendar: StoryCalendar): string[] {
+  const names = calendar.months.map((month) => month.name);
+  const abbreviations = names
+    .filter((name) => name.length > 3)
+    .map((name) => name.slice(0, 3))
+    .filter((abbr, _, all) => all.filter((other) => other.toLowerCase() === abbr.toLowerCase()).length === 1)
+    .map((abbr) => `${abbr}\\.?`);
+
+  return [...names.map(escapeRegExp), ...abbreviations].sort((a, b) => b.length - a.length);
+}
+
+function findMonth(calendar: StoryCalendar, text: string): number | null {
+  const name = text.replace(/\.$/, '').toLowerCase();
+  const exact = calendar.months.findIndex((month) => month.name.toLowerCase() === name);
+  if (exact !== -1) return exact;
+  const abbreviated = calendar.months.findIndex((month) => month.name.toLowerCase().startsWith(name));
+  return abbreviated === -1 ? null : abbreviated;
+}
+
+function compareOrder(a: number | null, b: number | null): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a - b;
+}
+
+// Type-specific ids and entry ids both resolve to the entry
+function entryIndex(
+  items: Array<{ id: string; canonEntryId: string; name: string }>
+): Map<string, { canonEntryId: string; name: string }> {
+  const index = new Map<string, { canonEntryId: string; name: string }>();
+  for (const item of items) {
+    index.set(item.id, { canonEntryId: item.canonEntryId, name: item.name });
+    index.set(item.canonEntryId, { canonEntryId: item.canonEntryId, name: item.name });
+  }
+  return index;
+}
+
+function resolveIds(ids: string[], index: Map<string, { canonEntryId: string }>): string[] {
+  return Array.from(new Set(ids.flatMap((id) => (index.has(id) ? [index.get(id)!.canonEntryId] : []))));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class ChronologyService {
+  private supabase = createAdminClient();
+  private canonManager = getCanonManager();
+
+  /**
+   * Chronology of a project's canon events and scenes as seen from a timeline (default: main)
+   */
+  async analyze(projectId: string, timelineId?: string): Promise<ChronologyResult> {
+    const [context, { data: chapters }, { data: sceneRows }] = await Promise.all([
+      this.canonManager.loadCanonContext(projectId, timelineId),
+      this.supabase.from('chapters').select('id, title, order_index').eq('project_id', projectId),
+      this.supabase
+        .from('scenes')
+        .select('id, chapter_id, title, order_index, story_date, time_of_day, location_id, character_ids')
+        .eq('project_id', projectId),
+    ]);
+
+    const chaptersById = new Map((chapters || []).map((chapter) => [chapter.id, chapter]));
+    const scenes: ChronologyScene[] = (sceneRows || [])
+      .filter((scene) => chaptersById.has(scene.chapter_id))
+      .sort(
+        (a, b) =>
+          chaptersById.get(a.chapter_id)!.order_index - chaptersById.get(b.chapter_id)!.order_index ||
+          a.order_index - b.order_index
+      )
+      .map((scene) => ({
+        id: scene.id,
+        chapterId: scene.chapter_id,
+        name: `${chaptersById.get(scene.chapter_id)!.title}: ${scene.title || 'Untitled scene'}`,
+        storyDate: scene.story_date,
+        timeOfDay: scene.time_of_day,
+        locationId: scene.location_id,
+        characterIds: scene.character_ids || [],
+      }));
+
+    let references: ChronologyReference[] = [];
+    const eventEntryIds = context.events.map((event) => event.canonEntryId);
+
+    if (scenes.length > 0 && eventEntryIds.length > 0) {
+      const sceneIds = new Set(scenes.map((scene) => scene.id));
+      const { data } = await this.supabase
+        .from('canon_references')
+        .select('scene_id, canon_entry_id, context_snippet, position_start, position_end')
+        .in('canon_entry_id', eventEntryIds)
+        .not('scene_id', 'is', null);
+
+      references = (data || [])
+        .filter((reference) => sceneIds.has(reference.scene_id!))
+        .map((reference) => ({
+          sceneId: reference.scene_id!,
+          canonEntryId: reference.canon_entry_id,
+          contextSnippet: reference.context_snippet,
+          positionStart: reference.position_start,
+          positionEnd: reference.position_end,
+        }));
+    }
+
+    return buildChronology({ context, scenes, references });
+  }
+}
+
+// Singleton instance
+let chronologyServiceInstance: ChronologyService | null = null;
+
+export function getChronologyService(): ChronologyService {
+  if (!chronologyServiceInstance) {
+    chronologyServiceInstance = new ChronologyService();
+  }
+  return chronologyServiceInstance;
+}
@@ -0,0 +1,160 @@
+/**
+ * Canon Context Selector
+ * Fits canon into a prompt token budget for large worlds
+ *
+ * Locked entries, high-priority rules and emphasized entries are always kept.
+ * Everything else is ranked by how often it is mentioned in the working text,
+ * then by how recently the manuscript referenced it, and added until the
+ * budget runs out.
+ */
+
+import {
+  formatCharacterCanon,
+  formatLocationCanon,
+  formatRuleCanon,
+  formatEventCanon,
+  formatThemeCanon,
+} from '../engine/prompts';
+import type {
+  CanonContext,
+  CanonContextEntryType,
+  CanonContextSelection,
+  CanonSelectionEntry,
+  CanonSelectionReason,
+} from '../types';
+
+// Rules at or above this priority are always included
+export const HIGH_PRIORITY_RULE_THRESHOLD = 8;
+
+// Prompt size estimate (~4 chars/token)
+const CHARS_PER_TOKEN = 4;
+
+export interface CanonSelectionOptions {
+  tokenBudget: number;
+  text?: string; // Working text (existing content, selection) scanned for mentions
+  emphasizeCharacters?: string[];
+  emphasizeLocations?: string[];
+  emphasizeRules?: string[];
+  referenceActivity?: Record<string, string>; // canonEntryId -> last referenced at (ISO)
+}
+
+interface Candidate {
+  entry: CanonSelectionEntry;
+  index: number;
+  mentions: number;
+  lastReferencedAt: string | null;
+  required: boolean;
+}
+
+/**
+ * Select the canon entries that fit the budget
+ */
+export function selectCanonContext(
+  canon: CanonContext,
+  options: CanonSelectionOptions
+): CanonContextSelection {
+  const text = (options.text || '').toLowerCase();
+  const activity = options.referenceActivity || {};
+  const emphasized = new Set([
+    ...(options.emphasizeCharacters || []),
+    ...(options.emphasizeLocations || []),
+    ...(options.emphasizeRules || []),
+  ]);
+
+  const candidates: Candidate[] = [];
+
+  const addCandidates = <T extends { id: string; canonEntryId: string; name: string; locked: boolean }>(
+    type: CanonContextEntryType,
+    entries: T[],
+    format: (entry: T) => string,
+    isHighPriority: (entry: T) => boolean = () => false
+  ) => {
+    for (const item of entries) {
+      const mentions = countMentions(text, item.name);
+      const lastReferencedAt = activity[item.canonEntryId] || null;
+
+      let reason: CanonSelectionReason = 'ranked';
+      if (item.locked) reason = 'locked';
+      else if (isHighPriority(item)) reason = 'high_priority';
+      else if (emphasized.has(item.id) || emphasized.has(item.canonEntryId)) reason = 'emphasized';
+      else if (mentions > 0) reason = 'mentioned';
+      else if (lastReferencedAt) reason = 'recently_referenced';
+
+      candidates.push({
+        entry: {
+          id: item.id,
+          canonEntryId: item.canonEntryId,
+          type,
+          name: item.name,
+          reason,
+          estimatedTokens: Math.ceil(format(item).length / CHARS_PER_TOKEN),
+        },
+        index: candidates.length,
+        mentions,
+        lastReferencedAt,
+        required: reason === 'locked' || reason === 'high_priority' || reason === 'emphasized',
+      });
+    }
+  };
+
+  addCandidates('character', canon.characters, formatCharacterCanon);
+  addCandidates('location', canon.locations, formatLocationCanon);
+  addCandidates('rule', canon.rules, formatRuleCanon, (rule) => rule.priority >= HIGH_PRIORITY_RULE_THRESHOLD);
+  addCandidates('event', canon.events, formatEventCanon);
+  addCandidates('theme', canon.themes, formatThemeCanon);
+
+  const included: Candidate[] = candidates.filter((c) => c.required);
+  const dropped: Candidate[] = [];
+  let estimatedTokens = included.reduce((sum, c) => sum + c.entry.estimatedTokens, 0);
+
+  // Most mentioned first, then most recently referenced, then load order
+  const ranked = candidates
+    .filter((c) => !c.required)
+    .sort(
+      (a, b) =>
+        b.mentions - a.mentions ||
+        (b.lastReferencedAt || '').localeCompare(a.lastReferencedAt || '') ||
+        a.index - b.index
+    );
+
+  for (const candidate of ranked) {
+    if (estimatedTokens + candidate.entry.estimatedTokens <= options.tokenBudget) {
+      included.push(candidate);
+      estimatedTokens += candidate.entry.estimatedTokens;
+    } else {
+      dropped.push({ ...candidate, entry: { ...candidate.entry, reason: 'over_budget' } });
+    }
+  }
+
+  // Rebuild the context in its original order so the prompt reads the same way
+  const keep = new Set(included.map((c) => `${c.entry.type}:${c.entry.id}`));
+  const kept = <T extends { id: string }>(type: CanonContextEntryType, entries: T[]) =>
+    entries.filter((item) => keep.has(`${type}:${item.id}`));
+
+  const context: CanonContext = {
+    characters: kept('character', canon.characters),
+    locations: kept('location', canon.locations),
+    rules: kept('rule', canon.rules),
+    events: kept('event', canon.events),
+    themes: kept('theme', canon.themes),
+  };
+
+  return {
+    context,
+    tokenBudget: options.tokenBudget,
+    estimatedTokens,
+    included: included.sort((a, b) => a.index - b.index).map((c) => c.entry),
+    dropped: dropped.sort((a, b) => a.index - b.index).map((c) => c.entry),
+  };
+}
+
+/**
+ * Count whole-word, case-insensitive mentions of a name
+ */
+function countMentions(text: string, name: string): number {
+  const needle = name.trim().toLowerCase();
+  if (!text || !needle) return 0;
+
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return (text.match(new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}(?=$|[^\\p{L}\\p{N}])`, 'gu')) || []).length;
+}
@@ -0,0 +1,452 @@
+/**
+ * Canon Extraction
+ * Turns model-proposed canon into reviewable suggestions and applies accepted ones
+ *
+ * The generator reads chapters and returns drafts; drafts are normalized against
+ * the current canon (proposals for known names become updates, unchanged fields
+ * are dropped), merged across chapters and stored in canon_suggestions. Accepted
+ * suggestions are written through the canon manager as 'ai_suggestion_accepted'.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getErrorMessage } from '@/lib/utils';
+import { getCanonManager } from './manager';
+import type {
+  CanonContext,
+  CanonExtractionEntityType,
+  CanonSuggestionDraft,
+  CanonSuggestionEvidence,
+  CanonSuggestionFieldsByType,
+  CanonSuggestionReview,
+} from '../types';
+import type { CanonSuggestion, CanonSuggestionStatus, Json } from '@/types/database';
+
+type ExtractedField = 'text' | 'list' | 'integer';
+type SuggestionFields = CanonSuggestionFieldsByType[CanonExtractionEntityType];
+
+// Fields the model may propose, per entity type (canon context names)
+const EXTRACTION_FIELDS: Record<CanonExtractionEntityType, Record<string, ExtractedField>> = {
+  character: {
+    description: 'text',
+    aliases: 'list',
+    appearance: 'text',
+    personality: 'text',
+    backstory: 'text',
+  },
+  location: {
+    description: 'text',
+    atmosphere: 'text',
+  },
+  event: {
+    description: 'text',
+    storyDate: 'text',
+    consequences: 'list',
+    eventType: 'text',
+  },
+  rule: {
+    description: 'text',
+    constraints: 'list',
+    priority: 'integer',
+  },
+};
+
+// Canon context field -> type table column, where they differ
+const FIELD_COLUMNS: Record<string, string> = {
+  storyDate: 'story_date',
+  eventType: 'event_type',
+};
+
+// Type tables that also store the entry description
+const DESCRIBED_TYPES: CanonExtractionEntityType[] = ['location', 'event', 'rule'];
+
+interface KnownEntry {
+  canonEntryId: string;
+  entityType: CanonExtractionEntityType;
+  name: string;
+  terms: string[]; // Lowercased name and aliases
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Parse the model's JSON array into drafts for one chapter
+ */
+export function parseExtractedCanon(
+  text: string,
+  chapter: { id: string; content: string },
+  canon: CanonContext
+): CanonSuggestionDraft[] {
+  const jsonMatch = text.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) return [];
+
+  const parsed: unknown = JSON.parse(jsonMatch[0]);
+  if (!Array.isArray(parsed)) return [];
+
+  const known = knownEntries(canon);
+  const drafts: CanonSuggestionDraft[] = [];
+
+  for (const item of parsed) {
+    if (!item || typeof item !== 'object') continue;
+    const raw = item as Record<string, unknown>;
+
+    const entityType = raw.entityType as CanonExtractionEntityType;
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!EXTRACTION_FIELDS[entityType] || !name) continue;
+
+    let fields = normalizeFields(entityType, raw.fields);
+
+    // Whatever the model called it, a known name is an update and an unknown one a create
+    const existing = known.find(
+      (entry) => entry.entityType === entityType && entry.terms.includes(name.toLowerCase())
+    );
+    if (existing) {
+      fields = Object.fromEntries(
+        Object.entries(fields).filter(([key, value]) => !sameValue(existing.fields[key], value))
+      );
+      if (Object.keys(fields).length === 0) continue;
+    }
+
+    drafts.push({
+      kind: existing ? 'update' : 'create',
+      entityType,
+      canonEntryId: existing?.canonEntryId ?? null,
+      name: existing?.name ?? name,
+      fields,
+      rationale: typeof raw.rationale === 'string' ? raw.rationale : null,
+      evidence: anchorEvidence(raw.evidence, chapter),
+    });
+  }
+
+  return drafts;
+}
+
+/**
+ * Combine drafts proposing the same entry (e.g. from several chapters).
+ * The first proposal of a field wins; list fields and evidence are unioned.
+ */
+export function mergeCanonSuggestions(drafts: CanonSuggestionDraft[]): CanonSuggestionDraft[] {
+  const merged = new Map<string, CanonSuggestionDraft>();
+
+  for (const draft of drafts) {
+    const key = suggestionKey(draft);
+    const current = merged.get(key);
+    if (!current) {
+      merged.set(key, { ...draft, fields: { ...draft.fields }, evidence: [...draft.evidence] });
+      continue;
+    }
+
+    const fields = current.fields as Record<string, unknown>;
+    for (const [field, value] of Object.entries(draft.fields)) {
+      if (Array.isArray(value) && Array.isArray(fields[field])) {
+        fields[field] = Array.from(new Set([...(fields[field] as unknown[]), ...value]));
+      } else if (fields[field] === undefined) {
+        fields[field] = value;
+      }
+    }
+    current.evidence.push(...draft.evidence);
+    current.rationale = current.rationale ?? draft.rationale;
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Entry description and type table data for accepted fields
+ */
+export function suggestionEntityData(
+  entityType: CanonExtractionEntityType,
+  fields: SuggestionFields
+): { description?: string | null; entityData: Record<string, unknown> } {
+  const entityData: Record<string, unknown> = {};
+  let description: string | null | undefined;
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (!EXTRACTION_FIELDS[entityType][field] || value === undefined) continue;
+
+    if (field === 'description') {
+      description = value as string | null;
+      if (!DESCRIBED_TYPES.includes(entityType)) continue;
+    }
+    entityData[FIELD_COLUMNS[field] ?? field] = value;
+  }
+
+  return { description, entityData };
+}
+
+function knownEntries(canon: CanonContext): KnownEntry[] {
+  const entry = (
+    entityType: CanonExtractionEntityType,
+    item: { canonEntryId: string; name: string },
+    fields: Record<string, unknown>,
+    aliases: string[] = []
+  ): KnownEntry => ({
+    canonEntryId: item.canonEntryId,
+    entityType,
+    name: item.name,
+    terms: [item.name, ...aliases].map((term) => term.toLowerCase()),
+    fields,
+  });
+
+  return [
+    ...canon.characters.map((c) => entry('character', c, { ...c }, c.aliases)),
+    ...canon.locations.map((l) => entry('location', l, { ...l })),
+    ...canon.events.map((e) => entry('event', e, { ...e })),
+    ...canon.rules.map((r) => entry('rule', r, { ...r })),
+  ];
+}
+
+function normalizeFields(entityType: CanonExtractionEntityType, value: unknown): SuggestionFields {
+  if (!value || typeof value !== 'object') return {};
+
+  const fields: Record<string, unknown> = {};
+  for (const [field, raw] of Object.entries(value as Record<string, unknown>)) {
+    const kind = EXTRACTION_FIELDS[entityType][field];
+    if (!kind || raw === null || raw === undefined || raw === '') continue;
+
+    if (kind === 'list') {
+      const list = (Array.isArray(raw) ? raw : [raw]).map((item) => String(item).trim()).filter(Boolean);
+      if (list.length > 0) fields[field] = list;
+    } else if (kind === 'integer') {
+      const number = Math.round(Number(raw));
+      if (Number.isFinite(number)) fields[field] = Math.min(Math.max(number, 1), 10);
+    } else {
+      fields[field] = String(raw).trim();
+    }
+  }
+
+  return fields;
+}
+
+// Quotes are located in the chapter so the editor can jump to them
+function anchorEvidence(value: unknown, chapter: { id: string; content: string }): CanonSuggestionEvidence[] {
+  const quotes = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+
+  return quotes
+    .filter((quote): quote is string => typeof quote === 'string' && quote.trim().length > 0)
+    .map((quote) => {
+      const text = quote.trim();
+      const start = chapter.content.indexOf(text);
+      return {
+        chapterId: chapter.id,
+        quote: text,
+        position: start === -1 ? null : { start, end: start + text.length },
+      };
+    });
+}
+
+// Lists compare as sets; text ignores case and surrounding whitespace
+function sameValue(current: unknown, proposed: unknown): boolean {
+  if (Array.isArray(proposed)) {
+    const existing = new Set((Array.isArray(current) ? current : []).map((item) => String(item).toLowerCase()));
+    return proposed.every((item) => existing.has(String(item).toLowerCase()));
+  }
+  if (typeof proposed === 'string' && typeof current === 'string') {
+    return proposed.trim().toLowerCase() === current.trim().toLowerCase();
+  }
+  return current === proposed;
+}
+
+function suggestionKey(draft: { kind: string; entityType: string; canonEntryId: string | null; name: string }): string {
+  return `${draft.kind}:${draft.entityType}:${draft.canonEntryId ?? draft.name.toLowerCase()}`;
+}
+
+export class CanonSuggestionService {
+  private supabase = createAdminClient();
+  private canonManager = getCanonManager();
+
+  /**
+   * Store drafts for review, skipping ones that repeat a pending suggestion
+   */
+  async saveSuggestions(
+    projectId: string,
+    drafts: CanonSuggestionDraft[],
+    userId: string
+  ): Promise<CanonSuggestion[]> {
+    const pending = await this.listSuggestions(projectId, 'pending');
+    const pendingKeys = new Set(
+      pending.map((suggestion) =>
+        suggestionKey({
+          kind: suggestion.kind,
+          entityType: suggestion.entity_type,
+          canonEntryId: suggestion.canon_entry_id,
+          name: suggestion.name,
+        })
+      )
+    );
+
+    const rows = mergeCanonSuggestions(drafts)
+      .filter((draft) => !pendingKeys.has(suggestionKey(draft)))
+      .map((draft) => ({
+        project_id: projectId,
+        canon_entry_id: draft.canonEntryId,
+        kind: draft.kind,
+        entity_type: draft.entityType,
+        name: draft.name,
+        fields: draft.fields as Json,
+        rationale: draft.rationale,
+        evidence: draft.evidence as unknown as Json,
+        created_by: userId,
+      }));
+
+    if (rows.length === 0) return [];
+
+    const { data, error } = await this.supabase.from('canon_suggestions').insert(rows).select();
+
+    if (error || !data) {
+      console.error('Failed to save canon suggestions:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Suggestions for a project, newest first
+   */
+  async listSuggestions(projectId: string, status?: CanonSuggestionStatus): Promise<CanonSuggestion[]> {
+    let query = this.supabase
+      .from('canon_suggestions')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error || !data) return [];
+
+    return data;
+  }
+
+  /**
+   * Apply a pending suggestion (optionally with the author's edits).
+   * Updates to locked entries need a lock override reason.
+   */
+  async acceptSuggestion(
+    projectId: string,
+    suggestionId: string,
+    userId: string,
+    edits: { name?: string; fields?: SuggestionFields; lockOverrideReason?: string } = {}
+  ): Promise<CanonSuggestionReview> {
+    const suggestion = await this.getPendingSuggestion(projectId, suggestionId);
+    if (!suggestion) {
+      return { success: false, error: 'Suggestion not found or already reviewed' };
+    }
+
+    const entityType = suggestion.entity_type as CanonExtractionEntityType;
+    const fields = { ...(suggestion.fields as SuggestionFields), ...edits.fields };
+    const { description, entityData } = suggestionEntityData(entityType, fields);
+
+    try {
+      let canonEntryId = suggestion.canon_entry_id;
+
+      if (suggestion.kind === 'create') {
+        const created = await this.canonManager.createEntry(
+          projectId,
+          entityType,
+          { name: edits.name?.trim() || suggestion.name, description: description ?? undefined, entityData },
+          userId,
+          'ai_suggestion_accepted'
+        );
+        if (!created) {
+          return { success: false, error: 'Failed to create canon entry' };
+        }
+        canonEntryId = created.entry.id;
+      } else {
+        const { data: entry } = await this.supabase
+          .from('canon_entries')
+          .select('data')
+          .eq('id', canonEntryId!)
+          .eq('project_id', projectId)
+          .single();
+
+        if (!entry) {
+          return { success: false, error: 'Canon entry not found' };
+        }
+
+        const updated = await this.canonManager.updateEntry(
+          canonEntryId!,
+          {
+            description,
+            entityData: { ...(entry.data as Record<string, unknown>), ...entityData },
+          },
+          userId,
+          'Accepted AI suggestion',
+          'ai_suggestion_accepted',
+          edits.lockOverrideReason
+        );
+        if (!updated.success) {
+          return { success: false, error: updated.error || 'Canon entry could not be updated' };
+        }
+      }
+
+      const reviewed = await this.markReviewed(suggestion.id, 'accepted', userId, canonEntryId);
+      return { success: true, suggestion: reviewed ?? suggestion, canonEntryId: canonEntryId ?? undefined };
+    } catch (error) {
+      console.error('Accept canon suggestion error:', error);
+      return { success: false, error: getErrorMessage(error) };
+    }
+  }
+
+  /**
+   * Dismiss a pending suggestion
+   */
+  async rejectSuggestion(projectId: string, suggestionId: string, userId: string): Promise<CanonSuggestionReview> {
+    const suggestion = await this.getPendingSuggestion(projectId, suggestionId);
+    if (!suggestion) {
+      return { success: false, error: 'Suggestion not found or already reviewed' };
+    }
+
+    const reviewed = await this.markReviewed(suggestion.id, 'rejected', userId, suggestion.canon_entry_id);
+    return reviewed ? { success: true, suggestion: reviewed } : { success: false, error: 'Failed to reject suggestion' };
+  }
+
+  private async getPendingSuggestion(projectId: string, suggestionId: string): Promise<CanonSuggestion | null> {
+    const { data } = await this.supabase
+      .from('canon_suggestions')
+      .select('*')
+      .eq('id', suggestionId)
+      .eq('project_id', projectId)
+      .eq('status', 'pending')
+      .single();
+
+    return data ?? null;
+  }
+
+  private async markReviewed(
+    suggestionId: string,
+    status: CanonSuggestionStatus,
+    userId: string,
+    canonEntryId: string | null
+  ): Promise<CanonSuggestion | null> {
+    const { data, error } = await this.supabase
+      .from('canon_suggestions')
+      .update({
+        status,
+        reviewed_by: userId,
+        reviewed_at: new Date().toISOString(),
+        canon_entry_id: canonEntryId,
+      })
+      .eq('id', suggestionId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Failed to update canon suggestion:', error);
+      return null;
+    }
+
+    return data;
+  }
+}
+
+// Singleton instance
+let suggestionServiceInstance: CanonSuggestionService | null = null;
+
+export function getCanonSuggestionService(): CanonSuggestionService {
+  if (!suggestionServiceInstance) {
+    suggestionServiceInstance = new CanonSuggestionService();
+  }
+  return suggestionServiceInstance;
+}
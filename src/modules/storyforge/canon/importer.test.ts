@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { mapImportRecord, parseImportContent } from './importer';
+
+function mapCsv(content: string, mapping?: Record<string, string>) {
+  return parseImportContent(content, 'csv').map((raw) => mapImportRecord(raw, { mapping }));
+}
+
+describe('mapImportRecord', () => {
+  it('keeps the entity type when a location_type column is present', () => {
+    const [harbor, tower] = mapCsv('type,name,location_type\nlocation,Harbor,city\nlocation,Tower,\n');
+
+    expect(harbor.error).toBeUndefined();
+    expect(harbor.entityType).toBe('location');
+    expect(harbor.fields.type).toBe('city');
+    expect(tower.entityType).toBe('location');
+    expect(tower.fields.type).toBeUndefined();
+  });
+
+  it('treats type as a location field when entity_type is given', () => {
+    const [record] = mapCsv('entity_type,name,type\nlocation,Harbor,port\n');
+
+    expect(record.entityType).toBe('location');
+    expect(record.fields.type).toBe('port');
+  });
+
+  it('applies explicit mappings before reading the entity type', () => {
+    const [record] = mapCsv('Kind,Title,Summary\ncharacter,Elena,An apprentice\n', {
+      Kind: 'entity_type',
+      Title: 'name',
+    });
+
+    expect(record.entityType).toBe('character');
+    expect(record.name).toBe('Elena');
+    expect(record.description).toBe('An apprentice');
+  });
+
+  it('reports a missing entity type', () => {
+    const [record] = mapCsv('name,location_type\nHarbor,city\n');
+
+    expect(record.error).toBe('Missing entity type');
+  });
+});
@@ -0,0 +1,575 @@
+/**
+ * Canon Bulk Importer
+ * Imports world bibles from JSON, YAML or CSV exports
+ *
+ * Records are mapped onto canon_entries plus the type table for their entity
+ * type. Slugs already in the main timeline are updated in place (or skipped),
+ * duplicate slugs within one file are rejected, and the plan is either
+ * returned as a dry-run preview or applied in a single transaction.
+ *
+ * Accepted shapes:
+ * - JSON/YAML: an array of records, { entries: [...] }, or { characters: [...], rules: [...] }
+ * - CSV: a header row; list columns separate values with ';' or '|'
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { slugify, getErrorMessage } from '@/lib/utils';
+import { diffCanonFields } from './timeline';
+import type {
+  CanonImportAction,
+  CanonImportItem,
+  CanonImportOptions,
+  CanonImportResult,
+} from '../types';
+import type { CanonEntityType, Json } from '@/types/database';
+
+// Largest import accepted in one request
+export const MAX_IMPORT_ENTRIES = 1000;
+
+type FieldKind = 'text' | 'text[]' | 'integer' | 'json' | 'uuid' | 'uuid[]';
+
+// Importable type table columns (name and description are handled separately)
+export const CANON_IMPORT_FIELDS: Partial<Record<CanonEntityType, Record<string, FieldKind>>> = {
+  character: {
+    full_name: 'text',
+    aliases: 'text[]',
+    age: 'text',
+    gender: 'text',
+    appearance: 'text',
+    personality: 'text',
+    motivations: 'text',
+    fears: 'text',
+    strengths: 'text[]',
+    weaknesses: 'text[]',
+    backstory: 'text',
+    occupation: 'text',
+    role: 'text',
+    relationships: 'json',
+    speech_patterns: 'text',
+    vocabulary_level: 'text',
+    catchphrases: 'text[]',
+    character_arc: 'text',
+    visual_description: 'text',
+    reference_images: 'text[]',
+  },
+  location: {
+    type: 'text',
+    category: 'text',
+    atmosphere: 'text',
+    sensory_details: 'json',
+    parent_location_id: 'uuid',
+    coordinates: 'json',
+    history: 'text',
+    significance: 'text',
+    visual_description: 'text',
+    reference_images: 'text[]',
+    lighting_notes: 'text',
+  },
+  rule: {
+    category: 'text',
+    constraints: 'text[]',
+    enables: 'text[]',
+    exceptions: 'text[]',
+    priority: 'integer',
+    enforcement_notes: 'text',
+  },
+  event: {
+    story_date: 'text',
+    relative_order: 'integer',
+    duration: 'text',
+    consequences: 'text[]',
+    affected_character_ids: 'uuid[]',
+    affected_location_ids: 'uuid[]',
+    event_type: 'text',
+    significance: 'text',
+  },
+  theme: {
+    how_expressed: 'text',
+    symbols: 'text[]',
+    motifs: 'text[]',
+    related_character_ids: 'uuid[]',
+  },
+};
+
+// Type tables that also store the entry description
+const DESCRIBED_TYPES: CanonEntityType[] = ['location', 'rule', 'event', 'theme'];
+
+const ENTITY_TYPES: CanonEntityType[] = ['character', 'location', 'rule', 'event', 'theme', 'reference', 'item', 'relationship'];
+
+// Field names that differ from the column ('type' usually names the entity type, so locations use location_type)
+const FIELD_ALIASES: Record<string, string> = {
+  location_type: 'type',
+  summary: 'description',
+};
+
+const ENTITY_TYPE_KEYS = ['entity_type', 'canon_type'];
+
+const LIST_SEPARATOR = /\s*[;|\n]\s*/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface CanonImportRecord {
+  row: number;
+  entityType: CanonEntityType | null;
+  name: string | null;
+  slug: string | null;
+  description: string | null | undefined; // undefined = not in the source
+  fields: Record<string, unknown>; // Type table columns
+  data: Record<string, unknown>; // Everything stored in canon_entries.data
+  warnings: string[];
+  error?: string;
+}
+
+interface ExistingEntry {
+  id: string;
+  entity_type: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  data: unknown;
+  lock_status: string;
+}
+
+interface PlannedEntry {
+  record: CanonImportRecord;
+  item: CanonImportItem;
+  existing: ExistingEntry | null;
+}
+
+/**
+ * Parse a file into raw records (key -> value), numbered for error reporting
+ */
+export function parseImportContent(
+  content: string,
+  format: CanonImportOptions['format']
+): Array<{ row: number; values: Record<string, unknown>; entityType?: string }> {
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) return [];
+
+    return rows
+      .map((cells, index) => ({
+        row: index + 2, // Line 1 is the header
+        values: Object.fromEntries(
+          header.map((column, i) => [column, cells[i]]).filter(([, value]) => value !== undefined && value !== '')
+        ),
+      }))
+      .filter((record) => Object.keys(record.values).length > 0);
+  }
+
+  const document: unknown = format === 'yaml' ? parseYaml(content) : JSON.parse(content);
+  const records: Array<{ values: Record<string, unknown>; entityType?: string }> = [];
+
+  const addAll = (items: unknown, entityType?: string) => {
+    if (!Array.isArray(items)) return;
+    for (const item of items) {
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        records.push({ values: item as Record<string, unknown>, entityType });
+      }
+    }
+  };
+
+  if (Array.isArray(document)) {
+    addAll(document);
+  } else if (document && typeof document === 'object') {
+    for (const [key, items] of Object.entries(document as Record<string, unknown>)) {
+      // { entries: [...] } or one list per entity type
+      addAll(items, key === 'entries' ? undefined : key);
+    }
+  }
+
+  return records.map((record, index) => ({ row: index + 1, ...record }));
+}
+
+/**
+ * Map raw values onto entity type, entry fields and type table columns
+ */
+export function mapImportRecord(
+  raw: { row: number; values: Record<string, unknown>; entityType?: string },
+  options: Pick<CanonImportOptions, 'defaultEntityType' | 'mapping'>
+): CanonImportRecord {
+  const record: CanonImportRecord = {
+    row: raw.row,
+    entityType: null,
+    name: null,
+    slug: null,
+    description: undefined,
+    fields: {},
+    data: {},
+    warnings: [],
+  };
+
+  const mapping = Object.fromEntries(
+    Object.entries(options.mapping || {}).map(([from, to]) => [normalizeKey(from), normalizeKey(to)])
+  );
+  const columns = Object.entries(raw.values).map(([key, value]) => {
+    const normalized = normalizeKey(key);
+    return { key: mapping[normalized] ?? normalized, mapped: normalized in mapping, value };
+  });
+
+  // 'type' names the entity type when it holds one ("character", "Rules").
+  // It is read before aliases apply, so location_type can't overwrite it.
+  const typeColumn =
+    columns.find((column) => ENTITY_TYPE_KEYS.includes(column.key)) ??
+    columns.find((column) => column.key === 'type' && parseEntityType(column.value));
+  const rawType = typeColumn?.value;
+
+  const values = new Map<string, unknown>();
+  for (const column of columns) {
+    if (column === typeColumn) continue;
+    values.set(column.mapped ? column.key : FIELD_ALIASES[column.key] ?? column.key, column.value);
+  }
+
+  record.entityType =
+    parseEntityType(rawType) ?? parseEntityType(raw.entityType) ?? options.defaultEntityType ?? null;
+
+  if (!record.entityType) {
+    record.error = rawType || raw.entityType ? `Unknown entity type "${rawType ?? raw.entityType}"` : 'Missing entity type';
+    return record;
+  }
+
+  const name = values.get('name');
+  values.delete('name');
+  record.name = typeof name === 'string' || typeof name === 'number' ? String(name).trim() || null : null;
+  if (!record.name) {
+    record.error = 'Missing name';
+    return record;
+  }
+
+  const slug = values.get('slug');
+  values.delete('slug');
+  record.slug = slugify(typeof slug === 'string' && slug.trim() ? slug : record.name);
+
+  if (values.has('description')) {
+    const description = values.get('description');
+    record.description = description === null || description === undefined ? null : String(description);
+    values.delete('description');
+  }
+
+  const schema = CANON_IMPORT_FIELDS[record.entityType] || {};
+  for (const [field, value] of Array.from(values.entries())) {
+    const kind = schema[field];
+    if (!kind) {
+      record.data[field] = value;
+      if (Object.keys(schema).length > 0) {
+        record.warnings.push(`Unknown ${record.entityType} field "${field}" kept in entry data only`);
+      }
+      continue;
+    }
+
+    const coerced = coerceValue(value, kind);
+    if (coerced.error) {
+      record.error = `${field}: ${coerced.error}`;
+      return record;
+    }
+    record.fields[field] = coerced.value;
+    record.data[field] = coerced.value;
+  }
+
+  return record;
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, embedded newlines)
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell !== ''));
+}
+
+// "Full Name", "fullName" and "full-name" -> "full_name"
+function normalizeKey(key: string): string {
+  return key
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function parseEntityType(value: unknown): CanonEntityType | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  return (
+    ENTITY_TYPES.find((type) => type === normalized || `${type}s` === normalized) ?? null
+  );
+}
+
+function coerceValue(value: unknown, kind: FieldKind): { value?: unknown; error?: string } {
+  switch (kind) {
+    case 'text':
+      return { value: typeof value === 'string' ? value : JSON.stringify(value) };
+
+    case 'text[]':
+      return { value: toList(value).map(String) };
+
+    case 'integer': {
+      const parsed = typeof value === 'number' ? value : parseInt(String(value), 10);
+      return Number.isInteger(parsed) ? { value: parsed } : { error: `"${value}" is not a whole number` };
+    }
+
+    case 'json':
+      if (typeof value !== 'string') return { value };
+      try {
+        return { value: JSON.parse(value) };
+      } catch {
+        return { error: 'Invalid JSON' };
+      }
+
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value.trim())
+        ? { value: value.trim() }
+        : { error: `"${value}" is not an id` };
+
+    case 'uuid[]': {
+      const ids = toList(value).map((id) => String(id).trim());
+      const invalid = ids.find((id) => !UUID_PATTERN.test(id));
+      return invalid ? { error: `"${invalid}" is not an id` } : { value: ids };
+    }
+  }
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split(LIST_SEPARATOR).filter(Boolean);
+  return value === null || value === undefined ? [] : [value];
+}
+
+function summarize(items: CanonImportItem[]): CanonImportResult['summary'] {
+  const summary: CanonImportResult['summary'] = { create: 0, update: 0, unchanged: 0, skip: 0, errors: 0 };
+  for (const item of items) {
+    summary[item.action] += 1;
+    if (item.error) summary.errors += 1;
+  }
+  return summary;
+}
+
+export class CanonImporter {
+  private supabase = createAdminClient();
+
+  /**
+   * Plan an import and apply it unless it is a dry run or any record has an error
+   */
+  async importCanon(
+    projectId: string,
+    content: string,
+    options: CanonImportOptions,
+    userId: string | null = null
+  ): Promise<CanonImportResult> {
+    const dryRun = Boolean(options.dryRun);
+
+    let raw: ReturnType<typeof parseImportContent>;
+    try {
+      raw = parseImportContent(content, options.format);
+    } catch (error) {
+      return this.failure(dryRun, `Could not parse ${options.format.toUpperCase()}: ${getErrorMessage(error)}`);
+    }
+
+    if (raw.length === 0) {
+      return this.failure(dryRun, 'No entries found');
+    }
+    if (raw.length > MAX_IMPORT_ENTRIES) {
+      return this.failure(dryRun, `Imports are limited to ${MAX_IMPORT_ENTRIES} entries (found ${raw.length})`);
+    }
+
+    const planned = await this.plan(
+      projectId,
+      raw.map((record) => mapImportRecord(record, options)),
+      options.updateExisting ?? true
+    );
+    const items = planned.map((entry) => entry.item);
+    const summary = summarize(items);
+
+    if (dryRun || summary.errors > 0) {
+      return {
+        success: summary.errors === 0,
+        dryRun,
+        items,
+        summary,
+        error: summary.errors > 0 ? `${summary.errors} entries have errors; nothing was imported` : undefined,
+      };
+    }
+
+    const entries = planned
+      .filter(({ item }) => item.action === 'create' || item.action === 'update')
+      .map(({ record, item, existing }) => {
+        const description =
+          record.description !== undefined ? record.description : (existing?.description ?? null);
+        const fields: Record<string, unknown> = { ...record.fields, name: record.name };
+        if (DESCRIBED_TYPES.includes(record.entityType!) && (record.description !== undefined || !existing)) {
+          // canon_rules.description is NOT NULL
+          fields.description = description ?? '';
+        }
+
+        return {
+          action: item.action,
+          entry_id: existing?.id ?? null,
+          entity_type: record.entityType,
+          name: record.name,
+          slug: existing?.slug ?? record.slug,
+          description,
+          data: { ...asObject(existing?.data), ...record.data },
+          fields,
+        };
+      });
+
+    if (entries.length > 0) {
+      const { error } = await this.supabase.rpc('import_canon_entries', {
+        p_project_id: projectId,
+        p_entries: entries as unknown as Json,
+        p_user_id: userId,
+      });
+
+      if (error) {
+        console.error('Canon import error:', error);
+        return { success: false, dryRun, items, summary, error: getErrorMessage(error) };
+      }
+    }
+
+    return { success: true, dryRun, items, summary };
+  }
+
+  /**
+   * Decide create/update/unchanged/skip per record against the main timeline
+   */
+  private async plan(
+    projectId: string,
+    records: CanonImportRecord[],
+    updateExisting: boolean
+  ): Promise<PlannedEntry[]> {
+    const { data: existingEntries } = await this.supabase
+      .from('canon_entries')
+      .select('id, entity_type, name, slug, description, data, lock_status')
+      .eq('project_id', projectId)
+      .eq('is_active', true)
+      .is('timeline_id', null);
+
+    const bySlug = new Map((existingEntries || []).map((entry) => [entry.slug, entry as ExistingEntry]));
+    const seenSlugs = new Map<string, number>();
+
+    return records.map((record) => {
+      const item: CanonImportItem = {
+        row: record.row,
+        action: 'skip',
+        entityType: record.entityType,
+        name: record.name,
+        slug: record.slug,
+        existingEntryId: null,
+        changes: [],
+        warnings: record.warnings,
+        error: record.error,
+      };
+
+      if (record.error || !record.slug) return { record, item, existing: null };
+
+      const duplicateOf = seenSlugs.get(record.slug);
+      if (duplicateOf !== undefined) {
+        item.error = `Duplicate slug "${record.slug}" (also on row ${duplicateOf})`;
+        return { record, item, existing: null };
+      }
+      seenSlugs.set(record.slug, record.row);
+
+      const existing = bySlug.get(record.slug) ?? null;
+      if (!existing) {
+        item.action = 'create';
+        item.changes = diffCanonFields(null, {
+          name: record.name!,
+          description: record.description ?? null,
+          data: record.data,
+        });
+        return { record, item, existing: null };
+      }
+
+      item.existingEntryId = existing.id;
+
+      if (existing.entity_type !== record.entityType) {
+        item.error = `Slug "${record.slug}" already belongs to a ${existing.entity_type}`;
+        return { record, item, existing };
+      }
+
+      if (!updateExisting) {
+        item.warnings = [...item.warnings, 'Already exists; skipped'];
+        return { record, item, existing };
+      }
+
+      item.changes = diffCanonFields(
+        { name: existing.name, description: existing.description, data: asObject(existing.data) },
+        {
+          name: record.name!,
+          description: record.description !== undefined ? record.description : existing.description,
+          data: { ...asObject(existing.data), ...record.data },
+        }
+      );
+
+      let action: CanonImportAction = item.changes.length > 0 ? 'update' : 'unchanged';
+      // Imports carry no lock override reason, so locked entries are left alone
+      if (action === 'update' && existing.lock_status !== 'unlocked') {
+        item.error = `"${existing.name}" is ${existing.lock_status === 'hard_locked' ? 'hard' : 'soft'}-locked`;
+        action = 'skip';
+      }
+      item.action = action;
+
+      return { record, item, existing };
+    });
+  }
+
+  private failure(dryRun: boolean, error: string): CanonImportResult {
+    return { success: false, dryRun, items: [], summary: summarize([]), error };
+  }
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+// Singleton instance
+let importerInstance: CanonImporter | null = null;
+
+export function getCanonImporter(): CanonImporter {
+  if (!importerInstance) {
+    importerInstance = new CanonImporter();
+  }
+  return importerInstance;
+}
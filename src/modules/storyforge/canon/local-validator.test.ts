@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { CanonCharacterContext, CanonContext, CanonEventContext } from '../types';
+import { validateCanonLocally } from './local-validator';
+
+function character(id: string, name: string, aliases: string[] = []): CanonCharacterContext {
+  return {
+    id,
+    canonEntryId: `entry-${id}`,
+    timelineId: null,
+    name,
+    aliases,
+    description: null,
+    appearance: null,
+    personality: null,
+    backstory: null,
+    relationships: null,
+    speechPatterns: null,
+    vocabularyLevel: null,
+    catchphrases: [],
+    locked: true,
+  };
+}
+
+function event(fields: Partial<CanonEventContext>): CanonEventContext {
+  return {
+    id: 'event-1',
+    canonEntryId: 'entry-event-1',
+    timelineId: null,
+    name: 'The Harbor Fire',
+    description: null,
+    storyDate: null,
+    relativeOrder: null,
+    duration: null,
+    consequences: [],
+    affectedCharacterIds: ['marcus', 'elena', 'iris'],
+    affectedLocationIds: [],
+    eventType: 'backstory',
+    locked: true,
+    ...fields,
+  };
+}
+
+function canonWith(events: CanonEventContext[]): CanonContext {
+  return {
+    characters: [character('marcus', 'Marcus', ['the captain']), character('elena', 'Elena'), character('iris', 'Iris')],
+    locations: [],
+    rules: [],
+    events,
+    themes: [],
+  };
+}
+
+const SCENE = 'Marcus said nothing. Elena walked to the pier. Iris laughed at the gulls.';
+
+function flagged(events: CanonEventContext[], content = SCENE): string[] {
+  return validateCanonLocally(content, canonWith(events))
+    .filter((conflict) => conflict.type === 'character')
+    .map((conflict) => conflict.conflictingCanonName);
+}
+
+describe('validateCanonLocally dead characters', () => {
+  it('flags only the victim, not the killer or witnesses', () => {
+    const events = [event({ description: 'Elena killed Marcus while Iris watched from the dock.' })];
+
+    expect(flagged(events)).toEqual(['Marcus']);
+  });
+
+  it('reads the victim from passive and possessive phrasing', () => {
+    expect(flagged([event({ description: 'Marcus was later murdered by Elena.' })])).toEqual(['Marcus']);
+    expect(flagged([event({ name: "Marcus's death", description: 'Iris found the body.' })])).toEqual(['Marcus']);
+    expect(flagged([event({ consequences: ['The death of Marcus leaves the crew leaderless'] })])).toEqual(['Marcus']);
+  });
+
+  it('matches aliases', () => {
+    expect(flagged([event({ description: 'The captain died in the fire.' })])).toEqual(['Marcus']);
+  });
+
+  it('ignores characters who survive', () => {
+    const events = [event({ description: 'Marcus nearly died, and Elena watched the ship sink.' })];
+
+    expect(flagged(events)).toEqual([]);
+  });
+
+  it('flags nobody when the event names no victim', () => {
+    expect(flagged([event({ description: 'Dozens were killed when the harbor burned.' })])).toEqual([]);
+  });
+
+  it('skips victims who are not linked to the event', () => {
+    const events = [event({ description: 'Marcus died in the fire.', affectedCharacterIds: ['elena'] })];
+
+    expect(flagged(events)).toEqual([]);
+  });
+
+  it('lets the dead be remembered', () => {
+    const events = [event({ description: 'Marcus died in the fire.' })];
+
+    expect(flagged(events, 'Elena remembered how Marcus laughed at the gulls.')).toEqual([]);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Local Canon Validator
+ * Deterministic checks that run before the LLM continuity pass
+ *
+ * Only catches violations that can be decided from the text alone:
+ * - a character acting or speaking after an event that says they died
+ * - a sentence containing every keyword of a rule constraint
+ * - an eye or hair colour that contradicts the character's appearance
+ * - dialogue that drifts from the speaker's voice profile (see ./voice)
+ *
+ * Positions are offsets into the validated content.
+ */
+
+import { HIGH_PRIORITY_RULE_THRESHOLD } from './context-selector';
+import { checkVoiceDrift } from './voice';
+import type {
+  CanonCharacterContext,
+  CanonConflict,
+  CanonContext,
+  CanonEventContext,
+  CanonRuleContext,
+} from '../types';
+
+interface Sentence {
+  text: string;
+  start: number;
+}
+
+interface NameMatch {
+  start: number;
+  end: number;
+}
+
+const DEATH_PATTERN = /\b(dies|died|death|dead|killed|murdered|slain|executed|perished|perishes)\b/i;
+
+// Death phrasing after a name ("Marcus died", "Marcus was later killed").
+// Only these adverbs may sit in between, so "Marcus nearly died" doesn't count.
+const DEATH_ADVERBS = '(?:(?:also|then|later|finally|eventually|soon|suddenly|tragically|instantly)\\s+)?';
+const DIES_AFTER_NAME =
+  `\\s+(?:had\\s+|has\\s+)?${DEATH_ADVERBS}(?:die|dies|died|perish|perishes|perished|` +
+  `(?:is|was|lies|lay|fell|falls)\\s+dead|(?:is|was|were|gets|got|been)\\s+${DEATH_ADVERBS}` +
+  '(?:killed|murdered|slain|executed))\\b';
+
+// Death phrasing before a name ("killed Marcus", "the death of Marcus")
+const DIES_BEFORE_NAME =
+  '\\b(?:kills|killed|murders|murdered|slays|slew|executes|executed|(?:death|murder|killing|execution) of)\\s+';
+
+// Possessive death ("Marcus's death")
+const DEATH_AFTER_POSSESSIVE = "['’]s?\\s+(?:death|murder|killing|execution)\\b";
+
+// Words that mark a sentence as remembering the dead rather than showing them alive
+const REMEMBRANCE_PATTERN =
+  /\b(remember\w*|memor\w*|grave|funeral|tomb|ghost|late|mourn\w*|miss(ed|es)?|dead|death|died|once|used to)\b/i;
+
+// Speech or physical action immediately attributed to a character
+const ALIVE_PATTERN =
+  /^\W{0,3}(said|says|asked|asks|replied|replies|shouted|shouts|whispered|whispers|walked|walks|ran|runs|smiled|smiles|laughed|laughs|nodded|nods|stood|stands|turned|turns|looked|looks|grabbed|grabs|entered|enters|arrived|arrives)\b/i;
+
+// Constraint phrasing that introduces what the rule forbids
+const NEGATION_PREFIX =
+  /^(no one can|nobody can|no|not|never|cannot|can't|can not|must not|mustn't|may not|forbidden( to)?|forbids|prevents|prohibits|impossible to|unable to)\s+/i;
+
+const NEGATION_PATTERN = /\b(not|never|no|cannot|can't|couldn't|unable|impossible|failed to|tried to)\b/i;
+
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'be',
+  'is', 'are', 'was', 'were', 'any', 'anyone', 'one', 'their', 'his', 'her', 'its', 'into', 'than',
+  'without', 'who', 'that', 'this', 'can', 'may', 'will', 'ever',
+]);
+
+const WORD_SEPARATOR = new RegExp("[^\\p{L}\\p{N}']+", 'u');
+
+const COLOUR_ALIASES: Record<string, string> = {
+  gray: 'grey',
+  blonde: 'blond',
+  golden: 'gold',
+};
+
+const COLOURS = [
+  'blue', 'green', 'brown', 'hazel', 'grey', 'gray', 'amber', 'black', 'violet', 'red', 'gold',
+  'golden', 'silver', 'blond', 'blonde', 'auburn', 'white', 'copper',
+];
+
+const FEATURES = ['eyes', 'hair'] as const;
+type Feature = (typeof FEATURES)[number];
+
+const COLOUR_GROUP = `(${COLOURS.join('|')})`;
+
+/**
+ * Run all local checks
+ */
+export function validateCanonLocally(content: string, canon: CanonContext): CanonConflict[] {
+  const sentences = splitSentences(content);
+  const namesByCharacter = new Map(
+    canon.characters.map((char) => [char.id, findNames(content, [char.name, ...char.aliases])])
+  );
+
+  const conflicts = [
+    ...checkDeadCharacters(content, sentences, canon.characters, canon.events, namesByCharacter),
+    ...checkRuleConstraints(sentences, canon.rules),
+    ...checkAppearance(sentences, canon.characters, namesByCharacter),
+    ...checkVoiceDrift(content, canon.characters),
+  ];
+
+  return conflicts.sort((a, b) => a.position.start - b.position.start);
+}
+
+/**
+ * Characters who act or speak after an event that killed them
+ */
+function checkDeadCharacters(
+  content: string,
+  sentences: Sentence[],
+  characters: CanonCharacterContext[],
+  events: CanonEventContext[],
+  namesByCharacter: Map<string, NameMatch[]>
+): CanonConflict[] {
+  const conflicts: CanonConflict[] = [];
+
+  // Future events haven't happened yet; alternate events only count inside a fork
+  const deathEvents = events.filter(
+    (event) =>
+      event.eventType !== 'future' &&
+      (event.eventType !== 'alternate' || event.timelineId !== null) &&
+      DEATH_PATTERN.test([event.name, event.description, ...event.consequences].join(' '))
+  );
+
+  for (const char of characters) {
+    // Killers and witnesses are affected too; only the named victim is dead
+    const deathEvent = deathEvents.find(
+      (event) => event.affectedCharacterIds.includes(char.id) && eventStatesDeath(event, char)
+    );
+    if (!deathEvent) continue;
+
+    for (const name of namesByCharacter.get(char.id) || []) {
+      const sentence = sentenceAt(sentences, name.start);
+      if (!sentence || REMEMBRANCE_PATTERN.test(sentence.text)) continue;
+      if (!ALIVE_PATTERN.test(content.slice(name.end, name.end + 40))) continue;
+
+      conflicts.push({
+        id: conflictId('character', char.canonEntryId, name.start),
+        type: 'character',
+        severity: 'error',
+        description: `${char.name} appears alive after "${deathEvent.name}"`,
+        conflictingCanonId: char.canonEntryId,
+        conflictingCanonName: char.name,
+        suggestedResolution: `Frame ${char.name} as a memory or flashback, or give the action to another character`,
+        generatedText: sentence.text,
+        position: { start: sentence.start, end: sentence.start + sentence.text.length },
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Whether an event's text says this character died, by name or alias
+ */
+function eventStatesDeath(event: CanonEventContext, char: CanonCharacterContext): boolean {
+  const text = [event.name, event.description, ...event.consequences].filter(Boolean).join('. ');
+
+  return [char.name, ...char.aliases]
+    .filter((name) => name.trim().length >= 2)
+    .some((name) => {
+      const word = `(?<![\\p{L}\\p{N}])${escapeRegExp(name.trim())}(?![\\p{L}\\p{N}])`;
+      return [
+        `${word}${DIES_AFTER_NAME}`,
+        `${DIES_BEFORE_NAME}${word}`,
+        `${word}${DEATH_AFTER_POSSESSIVE}`,
+      ].some((pattern) => new RegExp(pattern, 'iu').test(text));
+    });
+}
+
+/**
+ * Sentences that describe something a rule forbids
+ */
+function checkRuleConstraints(sentences: Sentence[], rules: CanonRuleContext[]): CanonConflict[] {
+  const conflicts: CanonConflict[] = [];
+
+  for (const rule of rules) {
+    for (const constraint of rule.constraints) {
+      const stems = constraintStems(constraint);
+      if (stems.length === 0) continue;
+
+      for (const sentence of sentences) {
+        const spans = stems.map((stem) => findStem(sentence.text, stem));
+        if (spans.some((span) => !span)) continue;
+
+        const start = Math.min(...spans.map((span) => span!.start));
+        const end = Math.max(...spans.map((span) => span!.end));
+
+        // "She could not teleport" respects the rule
+        if (NEGATION_PATTERN.test(sentence.text.slice(0, start))) continue;
+
+        conflicts.push({
+          id: conflictId('rule', rule.canonEntryId, sentence.start + start),
+          type: 'rule',
+          severity: rule.locked || rule.priority >= HIGH_PRIORITY_RULE_THRESHOLD ? 'error' : 'warning',
+          description: `Violates "${rule.name}": ${constraint}`,
+          conflictingCanonId: rule.canonEntryId,
+          conflictingCanonName: rule.name,
+          suggestedResolution: `Rewrite so the scene respects "${constraint}"`,
+          generatedText: sentence.text.slice(start, end),
+          position: { start: sentence.start + start, end: sentence.start + end },
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Eye and hair colours that contradict a character's appearance
+ */
+function checkAppearance(
+  sentences: Sentence[],
+  characters: CanonCharacterContext[],
+  namesByCharacter: Map<string, NameMatch[]>
+): CanonConflict[] {
+  const conflicts: CanonConflict[] = [];
+
+  for (const char of characters) {
+    if (!char.appearance) continue;
+
+    for (const feature of FEATURES) {
+      const canonColour = findFeatureColours(char.appearance, feature)[0]?.colour;
+      if (!canonColour) continue;
+
+      for (const sentence of sentences) {
+        // Only attribute a description when the sentence names this character alone
+        const named = characters.filter((other) =>
+          (namesByCharacter.get(other.id) || []).some(
+            (name) => name.start >= sentence.start && name.start < sentence.start + sentence.text.length
+          )
+        );
+        if (named.length !== 1 || named[0].id !== char.id) continue;
+
+        for (const found of findFeatureColours(sentence.text, feature)) {
+          if (found.colour === canonColour) continue;
+
+          conflicts.push({
+            id: conflictId('character', char.canonEntryId, sentence.start + found.start),
+            type: 'character',
+            severity: 'error',
+            description: `${char.name} has ${canonColour} ${feature}, not ${found.colour}`,
+            conflictingCanonId: char.canonEntryId,
+            conflictingCanonName: char.name,
+            suggestedResolution: `Describe ${char.name}'s ${feature} as ${canonColour}`,
+            generatedText: sentence.text.slice(found.start, found.end),
+            position: { start: sentence.start + found.start, end: sentence.start + found.end },
+          });
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Colour mentions for a feature ("green eyes", "green-eyed", "eyes were green")
+ */
+function findFeatureColours(
+  text: string,
+  feature: Feature
+): Array<{ colour: string; start: number; end: number }> {
+  const adjective = feature === 'eyes' ? 'eyed' : 'haired';
+  const patterns = [
+    new RegExp(`\\b${COLOUR_GROUP}(?:[\\s-]+\\w+)?[\\s-]+(?:${feature}|${adjective})\\b`, 'gi'),
+    new RegExp(`\\b${feature}\\s+(?:were|was|are|is|of)\\s+(?:a\\s+)?(?:\\w+\\s+)?${COLOUR_GROUP}\\b`, 'gi'),
+  ];
+
+  const found: Array<{ colour: string; start: number; end: number }> = [];
+  for (const pattern of patterns) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const colour = match[1].toLowerCase();
+      found.push({
+        colour: COLOUR_ALIASES[colour] || colour,
+        start: match.index!,
+        end: match.index! + match[0].length,
+      });
+    }
+  }
+
+  return found.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Keyword stems of a constraint ("Cannot resurrect the dead" -> resurrect, dead)
+ */
+function constraintStems(constraint: string): string[] {
+  const phrase = constraint.trim().replace(NEGATION_PREFIX, '');
+  if (phrase === constraint.trim()) return []; // Not phrased as a prohibition
+
+  return phrase
+    .toLowerCase()
+    .split(WORD_SEPARATOR)
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  const stemmed = word.replace(/(ations?|ing|ions?|ments?|ed|es|s)$/, '');
+  return stemmed.length >= 4 ? stemmed : word;
+}
+
+function findStem(text: string, wordStem: string): NameMatch | null {
+  const match = new RegExp(`\\b${escapeRegExp(wordStem)}\\w*`, 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+function findNames(content: string, names: string[]): NameMatch[] {
+  const matches: NameMatch[] = [];
+  for (const name of names.filter((n) => n.trim().length >= 2)) {
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])(${escapeRegExp(name.trim())})(?=$|[^\\p{L}\\p{N}])`, 'gu');
+    for (const match of Array.from(content.matchAll(pattern))) {
+      const start = match.index! + match[1].length;
+      matches.push({ start, end: start + match[2].length });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+function splitSentences(content: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  for (const match of Array.from(content.matchAll(/[^.!?\n]+[.!?]*["”’']?/g))) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const text = match[0].trim();
+    if (text) sentences.push({ text, start: match.index! + leading });
+  }
+  return sentences;
+}
+
+function sentenceAt(sentences: Sentence[], offset: number): Sentence | undefined {
+  return sentences.find((s) => offset >= s.start && offset < s.start + s.text.length);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Stable ids so repeated validation of the same text yields the same conflicts
+function conflictId(type: string, canonEntryId: string, offset: number): string {
+  return `local-${type}-${canonEntryId}-${offset}`;
+}
@@ -1,10 +1,12 @@
 /**
  * Canon Vault Manager
- * Handles all canon operations: CRUD, locking, versioning, conflict resolution
+ * Handles all canon operations: CRUD, locking, versioning, snapshots, conflict resolution
  */
 
 import { createAdminClient } from '@/lib/supabase/admin';
-import { slugify, generateId } from '@/lib/utils';
+import { slugify, generateId, getErrorMessage } from '@/lib/utils';
+import { selectCanonContext } from './context-selector';
+import { timelineAncestry, overriddenEntryIds, timelineScopeFilter, diffCanonFields } from './timeline';
 import type {
   CanonContext,
   CanonCharacterContext,
@@ -13,8 +15,22 @@ import type {
   CanonEventContext,
   CanonThemeContext,
   CanonConflict,
+  CanonContextSelection,
   ConflictResolutionRequest,
+  ConflictResolutionResult,
+  CanonEditResult,
+  CanonConflictSource,
+  TrackedCanonConflict,
+  GenerationRequest,
+  TimelineDiff,
+  TimelineEntryDiff,
+  TimelineMergeResult,
+  CanonVersionSummary,
+  CanonVersionDiff,
+  CanonSnapshot,
+  CanonRollbackResult,
 } from '../types';
+import { DEFAULT_STORYFORGE_CONFIG } from '../types';
 import type {
   CanonEntry,
   CanonEntryInsert,
@@ -27,164 +43,465 @@ import type {
   CanonEntityType,
   CanonLockStatus,
   ConflictResolution,
+  CanonChangeType,
+  CanonConflictRecord,
+  CanonConflictInsert,
+  CanonConflictStatus,
+  Timeline,
+  CanonMilestone,
+  Json,
 } from '@/types/database';
 
+// Most recent references considered when ranking canon by activity
+const REFERENCE_ACTIVITY_LIMIT = 2000;
+
+const MAIN_TIMELINE_NAME = 'Main Timeline';
+
+// Tables holding the type-specific half of an entry
+const TYPE_SPECIFIC_TABLES: Partial<
+  Record<CanonEntityType, 'canon_characters' | 'canon_locations' | 'canon_rules' | 'canon_events' | 'canon_themes'>
+> = {
+  character: 'canon_characters',
+  location: 'canon_locations',
+  rule: 'canon_rules',
+  event: 'canon_events',
+  theme: 'canon_themes',
+};
+
+// Which canon entries a timeline sees
+interface TimelineScope {
+  ancestry: string[]; // Fork ids, nearest first ([] = main timeline)
+  overridden: Set<string>; // Ancestor entries replaced by a fork override
+}
+
+function toTrackedConflict(row: CanonConflictRecord): TrackedCanonConflict {
+  return {
+    id: row.id,
+    type: row.conflict_type as CanonConflict['type'],
+    severity: row.severity,
+    description: row.description,
+    conflictingCanonId: row.canon_entry_id,
+    conflictingCanonName: row.canon_entry_name || '',
+    suggestedResolution: row.suggested_resolution ?? undefined,
+    generatedText: row.generated_text || '',
+    position:
+      row.position_start !== null && row.position_end !== null
+        ? { start: row.position_start, end: row.position_end }
+        : null,
+    status: row.status,
+    generationId: row.generation_id,
+    timelineId: row.timeline_id,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    resolution: row.resolution,
+    resolutionNote: row.resolution_note,
+    resolutionTimelineId: row.resolution_timeline_id,
+    resolvedBy: row.resolved_by,
+    resolvedAt: row.resolved_at,
+    createdAt: row.created_at,
+  };
+}
+
+// Version history reason for a change, noting any lock it overrode
+function withLockOverride(
+  reason: string,
+  entry: Pick<CanonEntry, 'lock_status'>,
+  lockOverrideReason: string | undefined
+): string {
+  if (entry.lock_status === 'unlocked' || !lockOverrideReason) return reason;
+  return `${reason} (${entry.lock_status} override: ${lockOverrideReason.trim()})`;
+}
+
 export class CanonManager {
   private supabase = createAdminClient();
 
   /**
-   * Load full canon context for a project
+   * Load full canon context for a project, as seen from a timeline (default: main)
    */
-  async loadCanonContext(projectId: string): Promise<CanonContext> {
+  async loadCanonContext(projectId: string, timelineId?: string): Promise<CanonContext> {
+    const scope = await this.resolveTimelineScope(projectId, timelineId);
+    if (!scope) {
+      throw new Error(`Timeline ${timelineId} not found in project ${projectId}`);
+    }
+
     const [characters, locations, rules, events, themes] = await Promise.all([
-      this.loadCharacters(projectId),
-      this.loadLocations(projectId),
-      this.loadRules(projectId),
-      this.loadEvents(projectId),
-      this.loadThemes(projectId),
+      this.loadCharacters(projectId, scope),
+      this.loadLocations(projectId, scope),
+      this.loadRules(projectId, scope),
+      this.loadEvents(projectId, scope),
+      this.loadThemes(projectId, scope),
     ]);
 
     return { characters, locations, rules, events, themes };
   }
 
+  /**
+   * Active canon entries as seen from a timeline (default: main)
+   */
+  async loadVisibleEntries(projectId: string, timelineId?: string): Promise<CanonEntry[]> {
+    const scope = await this.resolveTimelineScope(projectId, timelineId);
+    if (!scope) {
+      throw new Error(`Timeline ${timelineId} not found in project ${projectId}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('canon_entries')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('is_active', true)
+      .or(timelineScopeFilter(scope.ancestry))
+      .order('name');
+
+    if (error || !data) return [];
+
+    return data.filter((entry) => !scope.overridden.has(entry.id));
+  }
+
+  /**
+   * Load canon for a generation request, trimmed to the prompt token budget
+   */
+  async loadBudgetedCanonContext(
+    request: Pick<
+      GenerationRequest,
+      | 'projectId'
+      | 'timelineId'
+      | 'existingContent'
+      | 'selectedText'
+      | 'emphasizeCharacters'
+      | 'emphasizeLocations'
+      | 'emphasizeRules'
+    >,
+    tokenBudget = DEFAULT_STORYFORGE_CONFIG.canonContextTokenBudget
+  ): Promise<CanonContextSelection> {
+    const canon = await this.loadCanonContext(request.projectId, request.timelineId);
+    const entryIds = [
+      ...canon.characters,
+      ...canon.locations,
+      ...canon.rules,
+      ...canon.events,
+      ...canon.themes,
+    ].map((entry) => entry.canonEntryId);
+
+    return selectCanonContext(canon, {
+      tokenBudget,
+      text: [request.existingContent, request.selectedText].filter(Boolean).join('\n'),
+      emphasizeCharacters: request.emphasizeCharacters,
+      emphasizeLocations: request.emphasizeLocations,
+      emphasizeRules: request.emphasizeRules,
+      referenceActivity: await this.loadReferenceActivity(entryIds),
+    });
+  }
+
+  /**
+   * Latest manuscript reference time per canon entry
+   */
+  async loadReferenceActivity(canonEntryIds: string[]): Promise<Record<string, string>> {
+    if (canonEntryIds.length === 0) return {};
+
+    const { data, error } = await this.supabase
+      .from('canon_references')
+      .select('canon_entry_id, created_at')
+      .in('canon_entry_id', canonEntryIds)
+      .order('created_at', { ascending: false })
+      .limit(REFERENCE_ACTIVITY_LIMIT);
+
+    if (error || !data) return {};
+
+    const activity: Record<string, string> = {};
+    for (const reference of data) {
+      // Rows arrive newest first, so the first one per entry wins
+      if (!activity[reference.canon_entry_id]) {
+        activity[reference.canon_entry_id] = reference.created_at;
+      }
+    }
+    return activity;
+  }
+
+  /**
+   * Timelines for a project, main timeline first
+   */
+  async getTimelines(projectId: string): Promise<Timeline[]> {
+    const { data, error } = await this.supabase
+      .from('timelines')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('is_main', { ascending: false })
+      .order('created_at');
+
+    if (error || !data) return [];
+
+    return data;
+  }
+
+  /**
+   * Get a timeline if it belongs to the project
+   */
+  async getTimeline(projectId: string, timelineId: string): Promise<Timeline | null> {
+    const { data } = await this.supabase
+      .from('timelines')
+      .select('*')
+      .eq('id', timelineId)
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Main timeline for a project (created here if the project has none yet)
+   */
+  async ensureMainTimeline(projectId: string): Promise<Timeline | null> {
+    const { data: existing } = await this.supabase
+      .from('timelines')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('is_main', true)
+      .maybeSingle();
+
+    if (existing) return existing;
+
+    const { data: created, error } = await this.supabase
+      .from('timelines')
+      .insert({ project_id: projectId, name: MAIN_TIMELINE_NAME, is_main: true })
+      .select()
+      .single();
+
+    if (created) return created;
+
+    // Another request may have created it first (one main timeline per project)
+    const { data: concurrent } = await this.supabase
+      .from('timelines')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('is_main', true)
+      .maybeSingle();
+
+    if (!concurrent) {
+      console.error('Failed to create main timeline:', error);
+    }
+    return concurrent;
+  }
+
+  /**
+   * Work out which timelines and overrides apply when viewing from a timeline
+   */
+  private async resolveTimelineScope(projectId: string, timelineId?: string): Promise<TimelineScope | null> {
+    if (!timelineId) return { ancestry: [], overridden: new Set() };
+
+    const ancestry = timelineAncestry(await this.getTimelines(projectId), timelineId);
+    if (!ancestry) return null;
+    if (ancestry.length === 0) return { ancestry, overridden: new Set() };
+
+    // Includes inactive overrides, which remove the entry from the fork
+    const { data: forkEntries } = await this.supabase
+      .from('canon_entries')
+      .select('id, parent_id, timeline_id')
+      .eq('project_id', projectId)
+      .in('timeline_id', ancestry);
+
+    return {
+      ancestry,
+      overridden: overriddenEntryIds(
+        (forkEntries || []).map((entry) => ({
+          id: entry.id,
+          parentId: entry.parent_id,
+          timelineId: entry.timeline_id,
+        })),
+        ancestry
+      ),
+    };
+  }
+
   /**
    * Load characters for canon context
    */
-  private async loadCharacters(projectId: string): Promise<CanonCharacterContext[]> {
+  private async loadCharacters(projectId: string, scope: TimelineScope): Promise<CanonCharacterContext[]> {
     const { data, error } = await this.supabase
       .from('canon_characters')
       .select(`
         id,
+        canon_entry_id,
         name,
+        aliases,
+        appearance,
         personality,
         backstory,
         relationships,
-        canon_entry:canon_entries!inner(description, lock_status, is_active)
+        speech_patterns,
+        vocabulary_level,
+        catchphrases,
+        canon_entry:canon_entries!inner(description, lock_status, is_active, timeline_id)
       `)
       .eq('project_id', projectId)
-      .eq('canon_entries.is_active', true);
+      .eq('canon_entries.is_active', true)
+      .or(timelineScopeFilter(scope.ancestry), { referencedTable: 'canon_entries' });
 
     if (error || !data) return [];
 
-    return data.map((char) => ({
-      id: char.id,
-      name: char.name,
-      description: (char.canon_entry as { description: string | null }).description,
-      personality: char.personality,
-      backstory: char.backstory,
-      relationships: char.relationships,
-      locked: (char.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
-    }));
+    return data
+      .filter((char) => !scope.overridden.has(char.canon_entry_id))
+      .map((char) => ({
+        id: char.id,
+        canonEntryId: char.canon_entry_id,
+        timelineId: (char.canon_entry as { timeline_id: string | null }).timeline_id,
+        name: char.name,
+        aliases: char.aliases || [],
+        description: (char.canon_entry as { description: string | null }).description,
+        appearance: char.appearance,
+        personality: char.personality,
+        backstory: char.backstory,
+        relationships: char.relationships,
+        speechPatterns: char.speech_patterns,
+        vocabularyLevel: char.vocabulary_level,
+        catchphrases: char.catchphrases || [],
+        locked: (char.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
+      }));
   }
 
   /**
    * Load locations for canon context
    */
-  private async loadLocations(projectId: string): Promise<CanonLocationContext[]> {
+  private async loadLocations(projectId: string, scope: TimelineScope): Promise<CanonLocationContext[]> {
     const { data, error } = await this.supabase
       .from('canon_locations')
       .select(`
         id,
+        canon_entry_id,
         name,
         atmosphere,
-        canon_entry:canon_entries!inner(description, lock_status, is_active)
+        canon_entry:canon_entries!inner(description, lock_status, is_active, timeline_id)
       `)
       .eq('project_id', projectId)
-      .eq('canon_entries.is_active', true);
+      .eq('canon_entries.is_active', true)
+      .or(timelineScopeFilter(scope.ancestry), { referencedTable: 'canon_entries' });
 
     if (error || !data) return [];
 
-    return data.map((loc) => ({
-      id: loc.id,
-      name: loc.name,
-      description: (loc.canon_entry as { description: string | null }).description,
-      atmosphere: loc.atmosphere,
-      locked: (loc.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
-    }));
+    return data
+      .filter((loc) => !scope.overridden.has(loc.canon_entry_id))
+      .map((loc) => ({
+        id: loc.id,
+        canonEntryId: loc.canon_entry_id,
+        timelineId: (loc.canon_entry as { timeline_id: string | null }).timeline_id,
+        name: loc.name,
+        description: (loc.canon_entry as { description: string | null }).description,
+        atmosphere: loc.atmosphere,
+        locked: (loc.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
+      }));
   }
 
   /**
    * Load rules for canon context
    */
-  private async loadRules(projectId: string): Promise<CanonRuleContext[]> {
+  private async loadRules(projectId: string, scope: TimelineScope): Promise<CanonRuleContext[]> {
     const { data, error } = await this.supabase
       .from('canon_rules')
       .select(`
         id,
+        canon_entry_id,
         name,
+        category,
         constraints,
         priority,
-        canon_entry:canon_entries!inner(description, lock_status, is_active)
+        canon_entry:canon_entries!inner(description, lock_status, is_active, timeline_id)
       `)
       .eq('project_id', projectId)
       .eq('canon_entries.is_active', true)
+      .or(timelineScopeFilter(scope.ancestry), { referencedTable: 'canon_entries' })
       .order('priority', { ascending: false });
 
     if (error || !data) return [];
 
-    return data.map((rule) => ({
-      id: rule.id,
-      name: rule.name,
-      description: (rule.canon_entry as { description: string | null }).description,
-      constraints: rule.constraints || [],
-      priority: rule.priority,
-      locked: (rule.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
-    }));
+    return data
+      .filter((rule) => !scope.overridden.has(rule.canon_entry_id))
+      .map((rule) => ({
+        id: rule.id,
+        canonEntryId: rule.canon_entry_id,
+        timelineId: (rule.canon_entry as { timeline_id: string | null }).timeline_id,
+        name: rule.name,
+        description: (rule.canon_entry as { description: string | null }).description,
+        category: rule.category,
+        constraints: rule.constraints || [],
+        priority: rule.priority,
+        locked: (rule.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
+      }));
   }
 
   /**
    * Load events for canon context
    */
-  private async loadEvents(projectId: string): Promise<CanonEventContext[]> {
+  private async loadEvents(projectId: string, scope: TimelineScope): Promise<CanonEventContext[]> {
     const { data, error } = await this.supabase
       .from('canon_events')
       .select(`
         id,
+        canon_entry_id,
         name,
         story_date,
+        relative_order,
+        duration,
         consequences,
-        canon_entry:canon_entries!inner(description, lock_status, is_active)
+        affected_character_ids,
+        affected_location_ids,
+        event_type,
+        canon_entry:canon_entries!inner(description, lock_status, is_active, timeline_id)
       `)
       .eq('project_id', projectId)
       .eq('canon_entries.is_active', true)
+      .or(timelineScopeFilter(scope.ancestry), { referencedTable: 'canon_entries' })
       .order('relative_order');
 
     if (error || !data) return [];
 
-    return data.map((event) => ({
-      id: event.id,
-      name: event.name,
-      description: (event.canon_entry as { description: string | null }).description,
-      storyDate: event.story_date,
-      consequences: event.consequences || [],
-      locked: (event.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
-    }));
+    return data
+      .filter((event) => !scope.overridden.has(event.canon_entry_id))
+      .map((event) => ({
+        id: event.id,
+        canonEntryId: event.canon_entry_id,
+        timelineId: (event.canon_entry as { timeline_id: string | null }).timeline_id,
+        name: event.name,
+        description: (event.canon_entry as { description: string | null }).description,
+        storyDate: event.story_date,
+        relativeOrder: event.relative_order,
+        duration: event.duration,
+        consequences: event.consequences || [],
+        affectedCharacterIds: event.affected_character_ids || [],
+        affectedLocationIds: event.affected_location_ids || [],
+        eventType: event.event_type,
+        locked: (event.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
+      }));
   }
 
   /**
    * Load themes for canon context
    */
-  private async loadThemes(projectId: string): Promise<CanonThemeContext[]> {
+  private async loadThemes(projectId: string, scope: TimelineScope): Promise<CanonThemeContext[]> {
     const { data, error } = await this.supabase
       .from('canon_themes')
       .select(`
         id,
+        canon_entry_id,
         name,
         how_expressed,
-        canon_entry:canon_entries!inner(description, lock_status, is_active)
+        canon_entry:canon_entries!inner(description, lock_status, is_active, timeline_id)
       `)
       .eq('project_id', projectId)
-      .eq('canon_entries.is_active', true);
+      .eq('canon_entries.is_active', true)
+      .or(timelineScopeFilter(scope.ancestry), { referencedTable: 'canon_entries' });
 
     if (error || !data) return [];
 
-    return data.map((theme) => ({
-      id: theme.id,
-      name: theme.name,
-      description: (theme.canon_entry as { description: string | null }).description,
-      howExpressed: theme.how_expressed,
-      locked: (theme.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
-    }));
+    return data
+      .filter((theme) => !scope.overridden.has(theme.canon_entry_id))
+      .map((theme) => ({
+        id: theme.id,
+        canonEntryId: theme.canon_entry_id,
+        timelineId: (theme.canon_entry as { timeline_id: string | null }).timeline_id,
+        name: theme.name,
+        description: (theme.canon_entry as { description: string | null }).description,
+        howExpressed: theme.how_expressed,
+        locked: (theme.canon_entry as { lock_status: string }).lock_status !== 'unlocked',
+      }));
   }
 
   /**
@@ -197,7 +514,10 @@ export class CanonManager {
       name: string;
       description?: string;
       entityData: Record<string, unknown>;
-    }
+      timelineId?: string; // Fork-only entry (defaults to the main timeline)
+    },
+    userId?: string,
+    changeType: CanonChangeType = 'manual'
   ): Promise<{ entry: CanonEntry; entityId: string } | null> {
     const slug = slugify(data.name);
 
@@ -210,7 +530,8 @@ export class CanonManager {
         name: data.name,
         slug,
         description: data.description,
-        data: data.entityData,
+        data: data.entityData as Json,
+        timeline_id: data.timelineId ?? null,
       })
       .select()
       .single();
@@ -236,7 +557,16 @@ export class CanonManager {
     }
 
     // Create initial version
-    await this.createVersion(entry.id, 1, data.name, data.description || null, data.entityData, null, 'Created');
+    await this.createVersion(
+      entry.id,
+      1,
+      data.name,
+      data.description || null,
+      data.entityData,
+      userId || null,
+      'Created',
+      changeType
+    );
 
     return { entry, entityId };
   }
@@ -309,18 +639,21 @@ export class CanonManager {
   }
 
   /**
-   * Update a canon entry
+   * Update a canon entry.
+   * Locked entries need a lock override reason, which is kept in the version history.
    */
   async updateEntry(
     entryId: string,
     updates: {
       name?: string;
-      description?: string;
+      description?: string | null;
       entityData?: Record<string, unknown>;
     },
     userId?: string,
-    reason?: string
-  ): Promise<boolean> {
+    reason?: string,
+    changeType: CanonChangeType = 'manual',
+    lockOverrideReason?: string
+  ): Promise<CanonEditResult> {
     // Get current entry for versioning
     const { data: currentEntry, error: fetchError } = await this.supabase
       .from('canon_entries')
@@ -328,14 +661,13 @@ export class CanonManager {
       .eq('id', entryId)
       .single();
 
-    if (fetchError || !currentEntry) return false;
-
-    // Check if locked
-    if (currentEntry.lock_status === 'hard_locked') {
-      console.error('Cannot update hard-locked canon entry');
-      return false;
+    if (fetchError || !currentEntry) {
+      return { success: false, failure: 'not_found', error: 'Canon entry not found' };
     }
 
+    const lockCheck = await this.checkLock(currentEntry, userId, lockOverrideReason);
+    if (!lockCheck.success) return lockCheck;
+
     // Update canon entry
     const entryUpdates: CanonEntryUpdate = {};
     if (updates.name) {
@@ -346,7 +678,7 @@ export class CanonManager {
       entryUpdates.description = updates.description;
     }
     if (updates.entityData) {
-      entryUpdates.data = updates.entityData;
+      entryUpdates.data = updates.entityData as Json;
     }
     entryUpdates.version = currentEntry.version + 1;
 
@@ -355,7 +687,9 @@ export class CanonManager {
       .update(entryUpdates)
       .eq('id', entryId);
 
-    if (updateError) return false;
+    if (updateError) {
+      return { success: false, failure: 'failed', error: 'Failed to update canon entry' };
+    }
 
     // Update type-specific record if entity data provided
     if (updates.entityData) {
@@ -375,10 +709,11 @@ export class CanonManager {
       updates.description ?? currentEntry.description,
       updates.entityData || currentEntry.data as Record<string, unknown>,
       userId || null,
-      reason || 'Updated'
+      withLockOverride(reason || 'Updated', currentEntry, lockOverrideReason),
+      changeType
     );
 
-    return true;
+    return { success: true };
   }
 
   /**
@@ -432,13 +767,35 @@ export class CanonManager {
   }
 
   /**
-   * Lock a canon entry
+   * Lock or unlock a canon entry.
+   * Setting or lifting a hard lock is reserved for the project owner or an admin.
    */
   async lockEntry(
     entryId: string,
     lockStatus: CanonLockStatus,
     userId: string
-  ): Promise<boolean> {
+  ): Promise<CanonEditResult> {
+    const { data: entry } = await this.supabase
+      .from('canon_entries')
+      .select('id, project_id, lock_status')
+      .eq('id', entryId)
+      .single();
+
+    if (!entry) {
+      return { success: false, failure: 'not_found', error: 'Canon entry not found' };
+    }
+
+    if (
+      (entry.lock_status === 'hard_locked' || lockStatus === 'hard_locked') &&
+      !(await this.canManageLocks(entry.project_id, userId))
+    ) {
+      return {
+        success: false,
+        failure: 'forbidden',
+        error: 'Only the project owner or an admin can change a hard lock',
+      };
+    }
+
     const { error } = await this.supabase
       .from('canon_entries')
       .update({
@@ -448,102 +805,696 @@ export class CanonManager {
       })
       .eq('id', entryId);
 
-    return !error;
+    if (error) {
+      return { success: false, failure: 'failed', error: 'Failed to update lock' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Delete a canon entry (soft delete by marking inactive).
+   * Locked entries need a lock override reason, as with updates.
+   */
+  async deleteEntry(entryId: string, userId?: string, lockOverrideReason?: string): Promise<CanonEditResult> {
+    const { data: entry } = await this.supabase
+      .from('canon_entries')
+      .select('*')
+      .eq('id', entryId)
+      .eq('is_active', true)
+      .single();
+
+    if (!entry) {
+      return { success: false, failure: 'not_found', error: 'Canon entry not found' };
+    }
+
+    const lockCheck = await this.checkLock(entry, userId, lockOverrideReason);
+    if (!lockCheck.success) return lockCheck;
+
+    const retired = await this.setEntryActive(
+      entry,
+      false,
+      userId || null,
+      withLockOverride('Deleted', entry, lockOverrideReason),
+      'manual'
+    );
+
+    return retired ? { success: true } : { success: false, failure: 'failed', error: 'Failed to delete canon entry' };
   }
 
   /**
-   * Delete a canon entry (soft delete by marking inactive)
+   * Retire or reinstate an entry, recording the change as a new version
    */
-  async deleteEntry(entryId: string): Promise<boolean> {
+  private async setEntryActive(
+    entry: CanonEntry,
+    isActive: boolean,
+    userId: string | null,
+    reason: string,
+    changeType: CanonChangeType
+  ): Promise<boolean> {
     const { error } = await this.supabase
       .from('canon_entries')
-      .update({ is_active: false })
-      .eq('id', entryId);
+      .update({ is_active: isActive, version: entry.version + 1 })
+      .eq('id', entry.id);
+
+    if (error) return false;
+
+    await this.createVersion(
+      entry.id,
+      entry.version + 1,
+      entry.name,
+      entry.description,
+      entry.data as Record<string, unknown>,
+      userId,
+      reason,
+      changeType,
+      isActive
+    );
+
+    return true;
+  }
 
-    return !error;
+  /**
+   * Whether a user may edit hard-locked canon in a project: its owner or a platform admin
+   */
+  async canManageLocks(projectId: string, userId: string): Promise<boolean> {
+    const [{ data: project }, { data: user }] = await Promise.all([
+      this.supabase.from('projects').select('user_id').eq('id', projectId).single(),
+      this.supabase.from('users').select('is_admin').eq('id', userId).single(),
+    ]);
+
+    return project?.user_id === userId || user?.is_admin === true;
   }
 
   /**
-   * Resolve a canon conflict
+   * Check that an entry's lock allows a change by this user
+   */
+  private async checkLock(
+    entry: Pick<CanonEntry, 'project_id' | 'name' | 'lock_status'>,
+    userId: string | undefined,
+    lockOverrideReason: string | undefined
+  ): Promise<CanonEditResult> {
+    if (entry.lock_status === 'unlocked') return { success: true };
+
+    if (entry.lock_status === 'hard_locked' && !(userId && (await this.canManageLocks(entry.project_id, userId)))) {
+      return {
+        success: false,
+        failure: 'forbidden',
+        error: `"${entry.name}" is hard-locked; only the project owner or an admin can change it`,
+      };
+    }
+
+    if (!lockOverrideReason?.trim()) {
+      return {
+        success: false,
+        failure: 'override_required',
+        error: `"${entry.name}" is ${entry.lock_status === 'hard_locked' ? 'hard' : 'soft'}-locked; a lock override reason is required`,
+      };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Store conflicts found for a generation so they can be reviewed later.
+   * Conflicts are matched to canon entries by id, falling back to the entry name.
+   */
+  async recordConflicts(
+    projectId: string,
+    conflicts: CanonConflict[],
+    source: CanonConflictSource = {}
+  ): Promise<TrackedCanonConflict[]> {
+    if (conflicts.length === 0) return [];
+
+    const { data: entries } = await this.supabase
+      .from('canon_entries')
+      .select('id, name, entity_type')
+      .eq('project_id', projectId)
+      .eq('is_active', true);
+
+    const byId = new Map((entries || []).map((entry) => [entry.id, entry]));
+    const byName = new Map((entries || []).map((entry) => [entry.name.toLowerCase(), entry]));
+
+    const rows: CanonConflictInsert[] = conflicts.map((conflict) => {
+      // Conflicts embedded in generated text use { type, canonItem, description, suggestion }
+      const raw = conflict as Partial<CanonConflict> & { canonItem?: string; suggestion?: string };
+      const name = raw.conflictingCanonName || raw.canonItem || null;
+      const entry =
+        (raw.conflictingCanonId && byId.get(raw.conflictingCanonId)) ||
+        (name && byName.get(name.toLowerCase())) ||
+        null;
+
+      return {
+        project_id: projectId,
+        generation_id: source.generationId ?? null,
+        timeline_id: source.timelineId ?? null,
+        target_type: source.targetType ?? null,
+        target_id: source.targetId ?? null,
+        conflict_type: raw.type || entry?.entity_type || 'character',
+        severity: raw.severity === 'error' ? 'error' : 'warning',
+        description: raw.description || 'Possible canon conflict',
+        canon_entry_id: entry?.id ?? null,
+        canon_entry_name: entry?.name ?? name,
+        suggested_resolution: raw.suggestedResolution || raw.suggestion || null,
+        generated_text: raw.generatedText || null,
+        position_start: raw.position?.start ?? null,
+        position_end: raw.position?.end ?? null,
+      };
+    });
+
+    const { data, error } = await this.supabase.from('canon_conflicts').insert(rows).select();
+
+    if (error || !data) {
+      console.error('Failed to record canon conflicts:', error);
+      return [];
+    }
+
+    return data.map(toTrackedConflict);
+  }
+
+  /**
+   * Conflicts in a project's review queue, newest first
+   */
+  async getConflicts(
+    projectId: string,
+    filters: { status?: CanonConflictStatus; targetId?: string; canonEntryId?: string } = {}
+  ): Promise<TrackedCanonConflict[]> {
+    let query = this.supabase
+      .from('canon_conflicts')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.targetId) query = query.eq('target_id', filters.targetId);
+    if (filters.canonEntryId) query = query.eq('canon_entry_id', filters.canonEntryId);
+
+    const { data, error } = await query;
+    if (error || !data) return [];
+
+    return data.map(toTrackedConflict);
+  }
+
+  /**
+   * Resolve an open canon conflict and record the outcome
    */
   async resolveConflict(
     projectId: string,
     request: ConflictResolutionRequest,
     userId: string
-  ): Promise<boolean> {
+  ): Promise<ConflictResolutionResult> {
+    const conflict = await this.getOpenConflict(projectId, request.conflictId);
+    if (!conflict) {
+      return { success: false, error: 'Conflict not found or already closed' };
+    }
+
+    let resolutionTimelineId: string | null = null;
+
     switch (request.resolution) {
       case 'keep_canon':
-        // No database changes needed - the generated content should be modified
-        return true;
+        // No canon changes needed - the generated content should be modified
+        break;
 
-      case 'update_canon':
-        if (!request.updatedCanonData) return false;
-        return this.updateEntry(
-          request.conflictId,
+      case 'update_canon': {
+        if (!request.updatedCanonData) {
+          return { success: false, error: 'updatedCanonData is required to update canon' };
+        }
+        if (!conflict.canon_entry_id) {
+          return { success: false, error: 'This conflict does not reference a canon entry' };
+        }
+        // Locked canon is never rewritten to match generated text; fork instead
+        const { data: entry } = await this.supabase
+          .from('canon_entries')
+          .select('name, lock_status')
+          .eq('id', conflict.canon_entry_id)
+          .single();
+        if (entry && entry.lock_status !== 'unlocked') {
+          return {
+            success: false,
+            error: `"${entry.name}" is ${entry.lock_status === 'hard_locked' ? 'hard' : 'soft'}-locked; keep canon or fork the timeline instead`,
+          };
+        }
+
+        const updated = await this.updateEntry(
+          conflict.canon_entry_id,
           { entityData: request.updatedCanonData as Record<string, unknown> },
           userId,
-          'Canon updated via conflict resolution'
-        );
-
-      case 'fork_timeline':
-        return this.forkTimeline(
-          projectId,
-          request.conflictId,
-          request.timelineName || 'Alternate Timeline',
-          request.timelineDescription || 'Created from conflict resolution',
-          userId
+          'Canon updated via conflict resolution',
+          'conflict_resolution'
         );
+        if (!updated.success) {
+          return { success: false, error: updated.error || 'Canon entry could not be updated' };
+        }
+        break;
+      }
+
+      case 'fork_timeline': {
+        if (!conflict.canon_entry_id) {
+          return { success: false, error: 'This conflict does not reference a canon entry' };
+        }
+        const timeline = await this.forkTimeline(projectId, {
+          name: request.timelineName || 'Alternate Timeline',
+          description: request.timelineDescription || 'Created from conflict resolution',
+          parentTimelineId: request.parentTimelineId ?? conflict.timeline_id ?? undefined,
+          forkPointEventId: request.forkPointEventId ?? (await this.findEventId(conflict.canon_entry_id)),
+        });
+        if (!timeline) {
+          return { success: false, error: 'Failed to create timeline' };
+        }
+
+        // The conflicting entry becomes an editable override in the fork
+        const override = await this.overrideEntry(conflict.canon_entry_id, timeline.id, userId);
+        if (!override) {
+          await this.supabase.from('timelines').delete().eq('id', timeline.id);
+          return { success: false, error: 'Failed to fork the canon entry' };
+        }
+        resolutionTimelineId = timeline.id;
+        break;
+      }
 
       default:
-        return false;
+        return { success: false, error: 'Invalid resolution' };
     }
+
+    return this.closeConflict(conflict.id, {
+      status: 'resolved',
+      resolution: request.resolution,
+      resolution_note: request.note ?? null,
+      resolution_timeline_id: resolutionTimelineId,
+      resolved_by: userId,
+    });
   }
 
   /**
-   * Fork timeline for alternate canon
+   * Close an open conflict without changing canon or content
    */
-  private async forkTimeline(
+  async dismissConflict(
     projectId: string,
-    forkPointCanonId: string,
-    name: string,
-    description: string,
-    userId: string
-  ): Promise<boolean> {
-    // Get the event associated with this canon entry if any
-    const { data: canonEntry } = await this.supabase
-      .from('canon_entries')
+    conflictId: string,
+    userId: string,
+    note?: string
+  ): Promise<ConflictResolutionResult> {
+    const conflict = await this.getOpenConflict(projectId, conflictId);
+    if (!conflict) {
+      return { success: false, error: 'Conflict not found or already closed' };
+    }
+
+    return this.closeConflict(conflict.id, {
+      status: 'dismissed',
+      resolution_note: note ?? null,
+      resolved_by: userId,
+    });
+  }
+
+  private async getOpenConflict(projectId: string, conflictId: string): Promise<CanonConflictRecord | null> {
+    const { data } = await this.supabase
+      .from('canon_conflicts')
       .select('*')
-      .eq('id', forkPointCanonId)
+      .eq('id', conflictId)
+      .eq('project_id', projectId)
+      .eq('status', 'open')
       .single();
 
-    if (!canonEntry) return false;
+    return data ?? null;
+  }
+
+  private async closeConflict(
+    conflictId: string,
+    updates: {
+      status: CanonConflictStatus;
+      resolution?: ConflictResolution;
+      resolution_note: string | null;
+      resolution_timeline_id?: string | null;
+      resolved_by: string;
+    }
+  ): Promise<ConflictResolutionResult> {
+    const { data, error } = await this.supabase
+      .from('canon_conflicts')
+      .update({ ...updates, resolved_at: new Date().toISOString() })
+      .eq('id', conflictId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('Failed to close canon conflict:', error);
+      return { success: false, error: 'Failed to record the resolution' };
+    }
+
+    return { success: true, conflict: toTrackedConflict(data) };
+  }
+
+  /**
+   * Fork a timeline (defaults to forking the main timeline)
+   */
+  async forkTimeline(
+    projectId: string,
+    options: {
+      name: string;
+      description?: string;
+      parentTimelineId?: string;
+      forkPointEventId?: string | null; // canon_events.id the fork diverges at
+    }
+  ): Promise<Timeline | null> {
+    const parent = options.parentTimelineId
+      ? await this.getTimeline(projectId, options.parentTimelineId)
+      : await this.ensureMainTimeline(projectId);
+
+    if (!parent) return null;
+
+    if (options.forkPointEventId) {
+      const { data: event } = await this.supabase
+        .from('canon_events')
+        .select('id')
+        .eq('id', options.forkPointEventId)
+        .eq('project_id', projectId)
+        .maybeSingle();
+
+      if (!event) return null;
+    }
 
-    // Create new timeline
-    const { data: timeline, error: timelineError } = await this.supabase
+    const { data: timeline, error } = await this.supabase
       .from('timelines')
       .insert({
         project_id: projectId,
-        name,
-        description,
+        name: options.name,
+        description: options.description ?? null,
         is_main: false,
-        parent_timeline_id: null, // Would need to find main timeline
+        parent_timeline_id: parent.id,
+        fork_point_event_id: options.forkPointEventId ?? null,
       })
       .select()
       .single();
 
-    if (timelineError || !timeline) return false;
+    if (error || !timeline) {
+      console.error('Failed to fork timeline:', error);
+      return null;
+    }
+
+    return timeline;
+  }
+
+  /**
+   * Copy an entry into a fork, where it replaces the original
+   */
+  async overrideEntry(canonEntryId: string, timelineId: string, userId?: string): Promise<CanonEntry | null> {
+    const { data: source } = await this.supabase
+      .from('canon_entries')
+      .select('*')
+      .eq('id', canonEntryId)
+      .single();
+
+    if (!source) return null;
+    if (source.timeline_id === timelineId) return source;
+
+    const timeline = await this.getTimeline(source.project_id, timelineId);
+    if (!timeline || timeline.is_main) return null;
 
-    // Duplicate the conflicting canon entry with the new timeline
-    const { error: duplicateError } = await this.supabase
+    const { data: existing } = await this.supabase
+      .from('canon_entries')
+      .select('*')
+      .eq('parent_id', source.id)
+      .eq('timeline_id', timelineId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (existing) return existing;
+
+    const { data: entry, error: entryError } = await this.supabase
       .from('canon_entries')
       .insert({
-        ...canonEntry,
-        id: generateId(),
-        timeline_id: timeline.id,
-        version: 1,
-      });
+        project_id: source.project_id,
+        entity_type: source.entity_type,
+        name: source.name,
+        slug: source.slug,
+        description: source.description,
+        data: source.data,
+        related_entry_ids: source.related_entry_ids,
+        parent_id: source.id,
+        timeline_id: timelineId,
+      })
+      .select()
+      .single();
+
+    if (entryError || !entry) {
+      console.error('Failed to create timeline override:', entryError);
+      return null;
+    }
+
+    const copied = await this.copyTypeSpecificRecord(source.entity_type as CanonEntityType, source.id, entry.id);
+    if (!copied) {
+      await this.supabase.from('canon_entries').delete().eq('id', entry.id);
+      return null;
+    }
+
+    await this.createVersion(
+      entry.id,
+      1,
+      entry.name,
+      entry.description,
+      entry.data as Record<string, unknown>,
+      userId || null,
+      `Forked into ${timeline.name}`
+    );
+
+    return entry;
+  }
+
+  /**
+   * Entries a fork adds, changes or removes relative to its parent timeline
+   */
+  async diffTimeline(projectId: string, timelineId: string): Promise<TimelineDiff | null> {
+    const timeline = await this.getTimeline(projectId, timelineId);
+    if (!timeline || timeline.is_main) return null;
+
+    const parentTimelineId = timeline.parent_timeline_id ?? (await this.ensureMainTimeline(projectId))?.id;
+    if (!parentTimelineId) return null;
+
+    // A fork's view is its parent's view plus the entries it owns
+    const { data: forkEntries, error } = await this.supabase
+      .from('canon_entries')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('timeline_id', timelineId)
+      .order('created_at');
+
+    if (error || !forkEntries) return null;
+
+    const parentIds = forkEntries
+      .map((entry) => entry.parent_id)
+      .filter((id): id is string => Boolean(id));
+
+    const { data: parents } = parentIds.length > 0
+      ? await this.supabase.from('canon_entries').select('*').in('id', parentIds)
+      : { data: [] as CanonEntry[] };
+
+    const parentsById = new Map((parents || []).map((parent) => [parent.id, parent]));
+    const entries: TimelineEntryDiff[] = [];
+
+    for (const entry of forkEntries) {
+      const parent = entry.parent_id ? parentsById.get(entry.parent_id) : undefined;
+      const overridesParent = parent && parent.is_active && parent.timeline_id !== timelineId;
+      const base = {
+        entryId: entry.id,
+        entityType: entry.entity_type as CanonEntityType,
+        name: entry.name,
+      };
+
+      if (!overridesParent) {
+        if (!entry.is_active) continue;
+        entries.push({ ...base, kind: 'added', parentEntryId: null, changes: diffCanonFields(null, entry) });
+      } else if (!entry.is_active) {
+        entries.push({ ...base, kind: 'removed', parentEntryId: parent.id, changes: [] });
+      } else {
+        const changes = diffCanonFields(parent, entry);
+        if (changes.length === 0) continue;
+        entries.push({ ...base, kind: 'changed', parentEntryId: parent.id, changes });
+      }
+    }
+
+    return { timelineId, parentTimelineId, entries };
+  }
+
+  /**
+   * Promote selected fork entries into the parent timeline
+   */
+  async mergeTimeline(
+    projectId: string,
+    timelineId: string,
+    entryIds: string[],
+    userId: string,
+    lockOverrideReason?: string
+  ): Promise<TimelineMergeResult> {
+    const timeline = await this.getTimeline(projectId, timelineId);
+    const diff = timeline && (await this.diffTimeline(projectId, timelineId));
+    const parentTimeline = diff && (await this.getTimeline(projectId, diff.parentTimelineId));
+
+    if (!timeline || !diff || !parentTimeline) {
+      return {
+        success: false,
+        merged: [],
+        failed: entryIds.map((entryId) => ({ entryId, error: 'Timeline not found' })),
+      };
+    }
+
+    const result: TimelineMergeResult = { success: true, merged: [], failed: [] };
+
+    for (const entryId of entryIds) {
+      const change = diff.entries.find((entry) => entry.entryId === entryId);
+      if (!change) {
+        result.failed.push({ entryId, error: 'Entry has no changes to merge' });
+        continue;
+      }
+
+      try {
+        const targetEntryId = await this.mergeTimelineEntry(
+          change,
+          parentTimeline,
+          timeline.name,
+          userId,
+          lockOverrideReason
+        );
+        result.merged.push({ entryId, kind: change.kind, targetEntryId });
+      } catch (error) {
+        result.failed.push({ entryId, error: getErrorMessage(error) });
+      }
+    }
+
+    result.success = result.failed.length === 0;
+    return result;
+  }
+
+  /**
+   * Apply one fork change to the parent timeline, returning the entry that now holds it
+   */
+  private async mergeTimelineEntry(
+    change: TimelineEntryDiff,
+    parentTimeline: Timeline,
+    forkName: string,
+    userId: string,
+    lockOverrideReason?: string
+  ): Promise<string> {
+    const reason = `Merged from timeline "${forkName}"`;
+    // Value of canon_entries.timeline_id for entries the parent timeline owns
+    const parentScope = parentTimeline.is_main ? null : parentTimeline.id;
+
+    const { data: forkEntry } = await this.supabase
+      .from('canon_entries')
+      .select('*')
+      .eq('id', change.entryId)
+      .single();
+
+    if (!forkEntry) throw new Error('Fork entry not found');
+
+    const { data: target } = change.parentEntryId
+      ? await this.supabase.from('canon_entries').select('*').eq('id', change.parentEntryId).single()
+      : { data: null };
+
+    // Entries the parent owns are updated in place and the fork goes back to inheriting them
+    if (target && target.timeline_id === parentScope) {
+      const lockCheck = await this.checkLock(target, userId, lockOverrideReason);
+      if (!lockCheck.success) throw new Error(lockCheck.error);
+
+      if (change.kind === 'removed') {
+        const removed = await this.setEntryActive(
+          target,
+          false,
+          userId,
+          withLockOverride(`Removed: ${reason}`, target, lockOverrideReason),
+          'conflict_resolution'
+        );
+        if (!removed) throw new Error(`Failed to remove "${target.name}"`);
+      } else {
+        const updated = await this.updateEntry(
+          target.id,
+          {
+            name: forkEntry.name,
+            description: forkEntry.description,
+            entityData: forkEntry.data as Record<string, unknown>,
+          },
+          userId,
+          reason,
+          'conflict_resolution',
+          lockOverrideReason
+        );
+        if (!updated.success) throw new Error(updated.error || `Failed to update "${target.name}"`);
+      }
+
+      const { error: deleteError } = await this.supabase
+        .from('canon_entries')
+        .delete()
+        .eq('id', forkEntry.id);
+      if (deleteError) throw deleteError;
+
+      return target.id;
+    }
+
+    // New entries, and overrides of entries the parent itself inherits, move up a level
+    const { error } = await this.supabase
+      .from('canon_entries')
+      .update({ timeline_id: parentScope, version: forkEntry.version + 1 })
+      .eq('id', forkEntry.id);
+    if (error) throw error;
+
+    await this.createVersion(
+      forkEntry.id,
+      forkEntry.version + 1,
+      forkEntry.name,
+      forkEntry.description,
+      forkEntry.data as Record<string, unknown>,
+      userId,
+      reason,
+      'conflict_resolution'
+    );
+
+    return forkEntry.id;
+  }
+
+  /**
+   * Copy the type-specific record of one entry onto another
+   */
+  private async copyTypeSpecificRecord(
+    entityType: CanonEntityType,
+    sourceEntryId: string,
+    targetEntryId: string
+  ): Promise<boolean> {
+    const table = TYPE_SPECIFIC_TABLES[entityType];
+    if (!table) return false;
+
+    const { data: record } = await this.supabase
+      .from(table)
+      .select('*')
+      .eq('canon_entry_id', sourceEntryId)
+      .single();
+
+    if (!record) return false;
+
+    const copy: Record<string, unknown> = { ...(record as Record<string, unknown>) };
+    delete copy.created_at;
+    delete copy.updated_at;
+
+    // The copy is a row of the same table, which TypeScript can't tell across the table union
+    const { error } = await this.supabase
+      .from(table)
+      .insert({ ...copy, id: generateId(), canon_entry_id: targetEntryId } as never);
+
+    if (error) {
+      console.error(`Failed to copy ${entityType}:`, error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * canon_events id for an event entry
+   */
+  private async findEventId(canonEntryId: string): Promise<string | null> {
+    const { data } = await this.supabase
+      .from('canon_events')
+      .select('id')
+      .eq('canon_entry_id', canonEntryId)
+      .maybeSingle();
 
-    return !duplicateError;
+    return data?.id ?? null;
   }
 
   /**
@@ -556,29 +1507,30 @@ export class CanonManager {
     description: string | null,
     data: Record<string, unknown>,
     userId: string | null,
-    reason: string
+    reason: string,
+    changeType: CanonChangeType = 'manual',
+    isActive = true
   ): Promise<void> {
     await this.supabase.from('canon_versions').insert({
       canon_entry_id: canonEntryId,
       version,
       name,
       description,
-      data,
+      data: data as Json,
       changed_by: userId,
       change_reason: reason,
-      change_type: 'manual',
+      change_type: changeType,
+      is_active: isActive,
     });
   }
 
   /**
    * Get version history for an entry
    */
-  async getVersionHistory(
-    canonEntryId: string
-  ): Promise<Array<{ version: number; name: string; createdAt: string; changeReason: string | null }>> {
+  async getVersionHistory(canonEntryId: string): Promise<CanonVersionSummary[]> {
     const { data, error } = await this.supabase
       .from('canon_versions')
-      .select('version, name, created_at, change_reason')
+      .select('version, name, created_at, changed_by, change_reason, change_type, is_active')
       .eq('canon_entry_id', canonEntryId)
       .order('version', { ascending: false });
 
@@ -588,14 +1540,45 @@ export class CanonManager {
       version: v.version,
       name: v.name,
       createdAt: v.created_at,
+      changedBy: v.changed_by,
       changeReason: v.change_reason,
+      changeType: v.change_type,
+      isActive: v.is_active,
     }));
   }
 
+  /**
+   * Field-level differences between two recorded versions of an entry
+   */
+  async diffVersions(
+    canonEntryId: string,
+    fromVersion: number,
+    toVersion: number
+  ): Promise<CanonVersionDiff | null> {
+    const { data, error } = await this.supabase
+      .from('canon_versions')
+      .select('version, name, description, data')
+      .eq('canon_entry_id', canonEntryId)
+      .in('version', [fromVersion, toVersion]);
+
+    if (error || !data) return null;
+
+    const from = data.find((v) => v.version === fromVersion);
+    const to = data.find((v) => v.version === toVersion);
+    if (!from || !to) return null;
+
+    return { canonEntryId, fromVersion, toVersion, changes: diffCanonFields(from, to) };
+  }
+
   /**
    * Restore entry to a previous version
    */
-  async restoreVersion(canonEntryId: string, version: number, userId: string): Promise<boolean> {
+  async restoreVersion(
+    canonEntryId: string,
+    version: number,
+    userId: string,
+    lockOverrideReason?: string
+  ): Promise<CanonEditResult> {
     const { data: versionData, error: versionError } = await this.supabase
       .from('canon_versions')
       .select('*')
@@ -603,7 +1586,9 @@ export class CanonManager {
       .eq('version', version)
       .single();
 
-    if (versionError || !versionData) return false;
+    if (versionError || !versionData) {
+      return { success: false, failure: 'not_found', error: 'Version not found' };
+    }
 
     return this.updateEntry(
       canonEntryId,
@@ -613,12 +1598,224 @@ export class CanonManager {
         entityData: versionData.data as Record<string, unknown>,
       },
       userId,
-      `Restored to version ${version}`
+      `Restored to version ${version}`,
+      'manual',
+      lockOverrideReason
     );
   }
 
   /**
-   * Search canon entries
+   * The main timeline's canon as it stood at a point in time, rebuilt from version history.
+   * Entries are shown at their latest version recorded by then; retired entries are left out.
+   */
+  async getSnapshot(projectId: string, asOf: string): Promise<CanonSnapshot> {
+    const snapshot: CanonSnapshot = { projectId, asOf, entries: [] };
+
+    const { data: entries } = await this.supabase
+      .from('canon_entries')
+      .select('*')
+      .eq('project_id', projectId)
+      .is('timeline_id', null)
+      .lte('created_at', asOf)
+      .order('entity_type')
+      .order('name');
+
+    if (!entries || entries.length === 0) return snapshot;
+
+    const { data: versions } = await this.supabase
+      .from('canon_versions')
+      .select('canon_entry_id, version, name, description, data, is_active, created_at')
+      .in('canon_entry_id', entries.map((entry) => entry.id))
+      .lte('created_at', asOf)
+      .order('version', { ascending: false });
+
+    const latest = new Map<string, NonNullable<typeof versions>[number]>();
+    for (const version of versions || []) {
+      if (!latest.has(version.canon_entry_id)) latest.set(version.canon_entry_id, version);
+    }
+
+    for (const entry of entries) {
+      const version = latest.get(entry.id);
+
+      if (version) {
+        if (!version.is_active) continue;
+        snapshot.entries.push({
+          canonEntryId: entry.id,
+          entityType: entry.entity_type as CanonEntityType,
+          name: version.name,
+          description: version.description,
+          data: version.data as Record<string, unknown>,
+          version: version.version,
+          versionedAt: version.created_at,
+        });
+      } else if (entry.is_active) {
+        // No history recorded by then; the entry's current content is the best record
+        snapshot.entries.push({
+          canonEntryId: entry.id,
+          entityType: entry.entity_type as CanonEntityType,
+          name: entry.name,
+          description: entry.description,
+          data: entry.data as Record<string, unknown>,
+          version: entry.version,
+          versionedAt: entry.created_at,
+        });
+      }
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Return the main timeline's canon to a point in time.
+   * Each differing entry gets a new version, so the rollback itself can be undone;
+   * locked entries follow the usual lock rules and are reported as failures.
+   */
+  async rollbackToSnapshot(
+    projectId: string,
+    asOf: string,
+    userId: string,
+    label: string,
+    lockOverrideReason?: string
+  ): Promise<CanonRollbackResult> {
+    const result: CanonRollbackResult = { success: true, asOf, changed: [], failed: [] };
+    const reason = `Rolled back to ${label}`;
+
+    const snapshot = await this.getSnapshot(projectId, asOf);
+    const targets = new Map(snapshot.entries.map((entry) => [entry.canonEntryId, entry]));
+
+    const { data: entries, error } = await this.supabase
+      .from('canon_entries')
+      .select('*')
+      .eq('project_id', projectId)
+      .is('timeline_id', null);
+
+    if (error || !entries) {
+      return { ...result, success: false };
+    }
+
+    for (const entry of entries) {
+      const target = targets.get(entry.id);
+
+      try {
+        // Added since the snapshot: retire it
+        if (!target) {
+          if (!entry.is_active) continue;
+
+          const lockCheck = await this.checkLock(entry, userId, lockOverrideReason);
+          if (!lockCheck.success) throw new Error(lockCheck.error);
+
+          const retired = await this.setEntryActive(
+            entry,
+            false,
+            userId,
+            withLockOverride(reason, entry, lockOverrideReason),
+            'rollback'
+          );
+          if (!retired) throw new Error(`Failed to retire "${entry.name}"`);
+
+          result.changed.push({ entryId: entry.id, name: entry.name, action: 'deactivated' });
+          continue;
+        }
+
+        const changes = diffCanonFields(entry, target);
+        if (entry.is_active && changes.length === 0) continue;
+
+        const lockCheck = await this.checkLock(entry, userId, lockOverrideReason);
+        if (!lockCheck.success) throw new Error(lockCheck.error);
+
+        if (!entry.is_active) {
+          const reinstated = await this.setEntryActive(
+            entry,
+            true,
+            userId,
+            withLockOverride(reason, entry, lockOverrideReason),
+            'rollback'
+          );
+          if (!reinstated) throw new Error(`Failed to reinstate "${entry.name}"`);
+        }
+
+        if (changes.length > 0) {
+          const updated = await this.updateEntry(
+            entry.id,
+            { name: target.name, description: target.description, entityData: target.data },
+            userId,
+            reason,
+            'rollback',
+            lockOverrideReason
+          );
+          if (!updated.success) throw new Error(updated.error);
+        }
+
+        result.changed.push({
+          entryId: entry.id,
+          name: target.name,
+          action: entry.is_active ? 'restored' : 'reactivated',
+        });
+      } catch (rollbackError) {
+        result.failed.push({ entryId: entry.id, name: entry.name, error: getErrorMessage(rollbackError) });
+      }
+    }
+
+    result.success = result.failed.length === 0;
+    return result;
+  }
+
+  /**
+   * Tag the canon as it stands now (or at takenAt) so it can be viewed or restored later
+   */
+  async createMilestone(
+    projectId: string,
+    milestone: { name: string; description?: string; takenAt?: string },
+    userId: string
+  ): Promise<CanonMilestone | null> {
+    const { data, error } = await this.supabase
+      .from('canon_milestones')
+      .insert({
+        project_id: projectId,
+        name: milestone.name,
+        description: milestone.description ?? null,
+        taken_at: milestone.takenAt ?? new Date().toISOString(),
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('Failed to create canon milestone:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * List a project's canon milestones, newest first
+   */
+  async getMilestones(projectId: string): Promise<CanonMilestone[]> {
+    const { data, error } = await this.supabase
+      .from('canon_milestones')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('taken_at', { ascending: false });
+
+    if (error || !data) return [];
+    return data;
+  }
+
+  async getMilestone(projectId: string, milestoneId: string): Promise<CanonMilestone | null> {
+    const { data } = await this.supabase
+      .from('canon_milestones')
+      .select('*')
+      .eq('id', milestoneId)
+      .eq('project_id', projectId)
+      .single();
+
+    return data ?? null;
+  }
+
+  /**
+   * Search canon entries by full-text match (web-style query syntax).
+   * For ranked hybrid search with embeddings, use the canon search service.
    */
   async searchCanon(
     projectId: string,
@@ -630,7 +1827,7 @@ export class CanonManager {
       .select('*')
       .eq('project_id', projectId)
       .eq('is_active', true)
-      .textSearch('search_vector', query);
+      .textSearch('search_vector', query, { type: 'websearch', config: 'english' });
 
     if (entityTypes && entityTypes.length > 0) {
       queryBuilder = queryBuilder.in('entity_type', entityTypes);
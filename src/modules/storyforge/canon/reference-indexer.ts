@@ -0,0 +1,258 @@
+/**
+ * Canon Reference Indexer
+ * Finds canon mentions in chapter and scene text and records them in canon_references
+ *
+ * Each save replaces the references for that chapter or scene and recomputes
+ * reference_count/last_referenced_at for every entry whose references changed,
+ * all in one transaction (replace_canon_references).
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getErrorMessage } from '@/lib/utils';
+import type { CanonMention, CanonReferenceIndexResult } from '../types';
+import type { CanonReferenceInsert } from '@/types/database';
+
+// Characters of surrounding text kept on each side of a mention
+const SNIPPET_RADIUS = 60;
+
+// Upper bound on mentions returned for one entry
+const MAX_MENTIONS = 500;
+
+export interface CanonTerm {
+  canonEntryId: string;
+  term: string;
+}
+
+export interface CanonTextMatch {
+  canonEntryId: string;
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface ReferenceLocation {
+  chapterId: string;
+  sceneId: string | null;
+}
+
+/**
+ * Find non-overlapping, whole-word, case-insensitive mentions of canon terms.
+ * Longer terms win where matches overlap ("Marcus Chen" over "Marcus").
+ */
+export function findCanonMentions(content: string, terms: CanonTerm[]): CanonTextMatch[] {
+  const matches: CanonTextMatch[] = [];
+
+  for (const { canonEntryId, term } of terms) {
+    const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (escaped.length < 2) continue;
+
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])(${escaped})(?=$|[^\\p{L}\\p{N}])`, 'giu');
+    for (const match of Array.from(content.matchAll(pattern))) {
+      const start = match.index! + match[1].length;
+      matches.push({ canonEntryId, term, start, end: start + match[2].length });
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start || b.end - b.start - (a.end - a.start));
+
+  const accepted: CanonTextMatch[] = [];
+  for (const match of matches) {
+    const previous = accepted[accepted.length - 1];
+    if (previous && match.start < previous.end) continue;
+    accepted.push(match);
+  }
+
+  return accepted;
+}
+
+/**
+ * Surrounding text for a mention, on a single line
+ */
+function buildSnippet(content: string, start: number, end: number): string {
+  const from = Math.max(0, start - SNIPPET_RADIUS);
+  const to = Math.min(content.length, end + SNIPPET_RADIUS);
+  const snippet = content.slice(from, to).replace(/\s+/g, ' ').trim();
+
+  return `${from > 0 ? '…' : ''}${snippet}${to < content.length ? '…' : ''}`;
+}
+
+export class CanonReferenceIndexer {
+  private supabase = createAdminClient();
+
+  /**
+   * Re-index a chapter's own text (scene text is indexed per scene)
+   */
+  async indexChapter(chapterId: string): Promise<CanonReferenceIndexResult> {
+    const { data: chapter } = await this.supabase
+      .from('chapters')
+      .select('id, project_id, content')
+      .eq('id', chapterId)
+      .single();
+
+    if (!chapter) {
+      return { success: false, referencesWritten: 0, entriesUpdated: 0, error: 'Chapter not found' };
+    }
+
+    return this.indexContent(chapter.project_id, chapter.content, {
+      chapterId: chapter.id,
+      sceneId: null,
+    });
+  }
+
+  /**
+   * Re-index a scene
+   */
+  async indexScene(sceneId: string): Promise<CanonReferenceIndexResult> {
+    const { data: scene } = await this.supabase
+      .from('scenes')
+      .select('id, project_id, chapter_id, content')
+      .eq('id', sceneId)
+      .single();
+
+    if (!scene) {
+      return { success: false, referencesWritten: 0, entriesUpdated: 0, error: 'Scene not found' };
+    }
+
+    return this.indexContent(scene.project_id, scene.content, {
+      chapterId: scene.chapter_id,
+      sceneId: scene.id,
+    });
+  }
+
+  /**
+   * Re-index every chapter and scene in a project (backfill after canon changes)
+   */
+  async reindexProject(projectId: string): Promise<CanonReferenceIndexResult> {
+    const [{ data: chapters }, { data: scenes }] = await Promise.all([
+      this.supabase.from('chapters').select('id').eq('project_id', projectId),
+      this.supabase.from('scenes').select('id').eq('project_id', projectId),
+    ]);
+
+    const results: CanonReferenceIndexResult[] = [];
+    for (const chapter of chapters || []) {
+      results.push(await this.indexChapter(chapter.id));
+    }
+    for (const scene of scenes || []) {
+      results.push(await this.indexScene(scene.id));
+    }
+
+    const failed = results.find((result) => !result.success);
+    return {
+      success: !failed,
+      referencesWritten: results.reduce((sum, result) => sum + result.referencesWritten, 0),
+      entriesUpdated: results.reduce((sum, result) => sum + result.entriesUpdated, 0),
+      error: failed?.error,
+    };
+  }
+
+  /**
+   * Where an entry is mentioned, in manuscript order
+   */
+  async getMentions(canonEntryId: string, limit = 100): Promise<{ mentions: CanonMention[]; total: number }> {
+    const { data, error } = await this.supabase.rpc('get_canon_mentions', {
+      p_canon_entry_id: canonEntryId,
+      p_limit: Math.min(limit, MAX_MENTIONS),
+    });
+
+    if (error || !data) return { mentions: [], total: 0 };
+
+    const mentions: CanonMention[] = data.map((row) => ({
+      id: row.id,
+      canonEntryId: row.canon_entry_id,
+      chapterId: row.chapter_id,
+      chapterTitle: row.chapter_title,
+      sceneId: row.scene_id,
+      sceneTitle: row.scene_title,
+      contextSnippet: row.context_snippet,
+      positionStart: row.position_start,
+      positionEnd: row.position_end,
+      createdAt: row.created_at,
+    }));
+
+    return { mentions, total: data[0]?.total_count ?? 0 };
+  }
+
+  /**
+   * Names, slugs and character aliases for every active entry in a project
+   */
+  async loadTerms(projectId: string): Promise<CanonTerm[]> {
+    const [{ data: entries }, { data: characters }] = await Promise.all([
+      this.supabase
+        .from('canon_entries')
+        .select('id, name, slug')
+        .eq('project_id', projectId)
+        .eq('is_active', true),
+      this.supabase
+        .from('canon_characters')
+        .select('canon_entry_id, full_name, aliases')
+        .eq('project_id', projectId),
+    ]);
+
+    const activeIds = new Set((entries || []).map((entry) => entry.id));
+    const terms = new Map<string, CanonTerm>();
+    const add = (canonEntryId: string, term: string | null | undefined) => {
+      const key = `${canonEntryId}:${term?.trim().toLowerCase()}`;
+      if (term?.trim() && !terms.has(key)) {
+        terms.set(key, { canonEntryId, term: term.trim() });
+      }
+    };
+
+    for (const entry of entries || []) {
+      add(entry.id, entry.name);
+      add(entry.id, entry.slug);
+    }
+
+    for (const character of characters || []) {
+      if (!activeIds.has(character.canon_entry_id)) continue;
+      add(character.canon_entry_id, character.full_name);
+      for (const alias of character.aliases || []) {
+        add(character.canon_entry_id, alias);
+      }
+    }
+
+    return Array.from(terms.values());
+  }
+
+  /**
+   * Replace the references recorded for one chapter or scene
+   */
+  private async indexContent(
+    projectId: string,
+    content: string,
+    location: ReferenceLocation
+  ): Promise<CanonReferenceIndexResult> {
+    try {
+      const matches = findCanonMentions(content || '', await this.loadTerms(projectId));
+
+      const rows: Omit<CanonReferenceInsert, 'chapter_id' | 'scene_id'>[] = matches.map((match) => ({
+        canon_entry_id: match.canonEntryId,
+        context_snippet: buildSnippet(content, match.start, match.end),
+        position_start: match.start,
+        position_end: match.end,
+      }));
+
+      // Old and new references are swapped and counted in one transaction
+      const { data: affected, error } = await this.supabase.rpc('replace_canon_references', {
+        p_chapter_id: location.chapterId,
+        p_scene_id: location.sceneId,
+        p_references: rows,
+      });
+      if (error) throw error;
+
+      return { success: true, referencesWritten: rows.length, entriesUpdated: affected?.length ?? 0 };
+    } catch (error) {
+      console.error('Canon reference indexing error:', error);
+      return { success: false, referencesWritten: 0, entriesUpdated: 0, error: getErrorMessage(error) };
+    }
+  }
+}
+
+// Singleton instance
+let indexerInstance: CanonReferenceIndexer | null = null;
+
+export function getCanonReferenceIndexer(): CanonReferenceIndexer {
+  if (!indexerInstance) {
+    indexerInstance = new CanonReferenceIndexer();
+  }
+  return indexerInstance;
+}
@@ -0,0 +1,353 @@
+/**
+ * Canon Relationship Graph
+ * One graph over the relationship data spread across the canon tables
+ *
+ * Nodes are canon entries visible from a timeline; edges come from character
+ * relationships, related_entry_ids, parent_id, location nesting, and the
+ * characters/locations referenced by events and themes. References to
+ * type-specific ids (canon_characters.id etc.) are resolved to entry ids, and
+ * references to an entry a fork overrides point at the override.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getCanonManager } from './manager';
+import type {
+  CanonGraph,
+  CanonGraphEdge,
+  CanonGraphEdgeType,
+  CanonGraphIssue,
+  CanonGraphNode,
+} from '../types';
+import type { CanonEntry, CanonEntityType } from '@/types/database';
+
+// Relationship types that expect a different type in return (anything else is symmetric)
+const INVERSE_RELATIONSHIPS: Array<[string, string]> = [
+  ['parent', 'child'],
+  ['mother', 'child'],
+  ['father', 'child'],
+  ['mentor', 'student'],
+  ['mentor', 'apprentice'],
+  ['employer', 'employee'],
+  ['leader', 'follower'],
+  ['master', 'servant'],
+];
+
+// Edge types that should be recorded on both ends
+const RECIPROCAL_EDGE_TYPES: CanonGraphEdgeType[] = ['relationship', 'related'];
+
+export interface CanonGraphSource {
+  entries: Array<Pick<CanonEntry, 'id' | 'entity_type' | 'name' | 'lock_status' | 'timeline_id' | 'parent_id' | 'related_entry_ids'>>;
+  characters: Array<{ id: string; canon_entry_id: string; relationships: unknown }>;
+  locations: Array<{ id: string; canon_entry_id: string; parent_location_id: string | null }>;
+  events: Array<{
+    id: string;
+    canon_entry_id: string;
+    affected_character_ids: string[] | null;
+    affected_location_ids: string[] | null;
+  }>;
+  themes: Array<{ id: string; canon_entry_id: string; related_character_ids: string[] | null }>;
+}
+
+interface ParsedRelationship {
+  targetId: string;
+  type: string | null;
+}
+
+/**
+ * Build the graph from raw rows (entries = the visible entries; type rows may include hidden ones)
+ */
+export function buildCanonGraph(source: CanonGraphSource): CanonGraph {
+  const visible = new Map(source.entries.map((entry) => [entry.id, entry]));
+
+  // Type-specific ids -> entry ids
+  const entryIdFor = new Map<string, string>();
+  for (const row of [...source.characters, ...source.locations, ...source.events, ...source.themes]) {
+    entryIdFor.set(row.id, row.canon_entry_id);
+  }
+
+  // Entries hidden by a fork override resolve to the override
+  const overrideOf = new Map<string, string>();
+  for (const entry of source.entries) {
+    if (entry.parent_id && !visible.has(entry.parent_id)) {
+      overrideOf.set(entry.parent_id, entry.id);
+    }
+  }
+
+  const resolve = (id: string): string | null => {
+    const entryId = entryIdFor.get(id) ?? id;
+    const resolved = overrideOf.get(entryId) ?? entryId;
+    return visible.has(resolved) ? resolved : null;
+  };
+
+  const edges = new Map<string, CanonGraphEdge>();
+  const issues: CanonGraphIssue[] = [];
+
+  const addEdge = (type: CanonGraphEdgeType, source: string, rawTarget: string, label: string | null = null) => {
+    const target = resolve(rawTarget);
+    if (!target) {
+      issues.push({
+        kind: 'dangling_reference',
+        type,
+        source,
+        target: rawTarget,
+        message: `${nameOf(visible, source)} references ${rawTarget}, which is not in the canon`,
+      });
+      return;
+    }
+    if (target === source) return;
+
+    const id = `${type}:${source}:${target}${label ? `:${label}` : ''}`;
+    edges.set(id, { id, type, source, target, label });
+  };
+
+  for (const entry of source.entries) {
+    for (const relatedId of entry.related_entry_ids || []) {
+      addEdge('related', entry.id, relatedId);
+    }
+    // Only real hierarchy: an override's parent is hidden, not related
+    if (entry.parent_id && visible.has(entry.parent_id)) {
+      addEdge('parent', entry.id, entry.parent_id);
+    }
+  }
+
+  for (const character of source.characters) {
+    const entryId = resolveOwn(character.canon_entry_id, visible);
+    if (!entryId) continue;
+    for (const relationship of parseRelationships(character.relationships)) {
+      addEdge('relationship', entryId, relationship.targetId, relationship.type);
+    }
+  }
+
+  for (const location of source.locations) {
+    const entryId = resolveOwn(location.canon_entry_id, visible);
+    if (entryId && location.parent_location_id) {
+      addEdge('located_in', entryId, location.parent_location_id);
+    }
+  }
+
+  for (const event of source.events) {
+    const entryId = resolveOwn(event.canon_entry_id, visible);
+    if (!entryId) continue;
+    for (const characterId of event.affected_character_ids || []) {
+      addEdge('affects', entryId, characterId);
+    }
+    for (const locationId of event.affected_location_ids || []) {
+      addEdge('occurs_at', entryId, locationId);
+    }
+  }
+
+  for (const theme of source.themes) {
+    const entryId = resolveOwn(theme.canon_entry_id, visible);
+    if (!entryId) continue;
+    for (const characterId of theme.related_character_ids || []) {
+      addEdge('explores', entryId, characterId);
+    }
+  }
+
+  const nodes: CanonGraphNode[] = source.entries.map((entry) => ({
+    id: entry.id,
+    entityType: entry.entity_type as CanonEntityType,
+    name: entry.name,
+    timelineId: entry.timeline_id,
+    locked: entry.lock_status !== 'unlocked',
+  }));
+
+  const edgeList = Array.from(edges.values());
+  return {
+    nodes,
+    edges: edgeList,
+    issues: [...issues, ...validateReciprocity(edgeList, nodes)],
+  };
+}
+
+/**
+ * Relationships and related entries that are only recorded on one side
+ */
+export function validateReciprocity(edges: CanonGraphEdge[], nodes: CanonGraphNode[]): CanonGraphIssue[] {
+  const names = new Map(nodes.map((node) => [node.id, node.name]));
+  const issues: CanonGraphIssue[] = [];
+
+  for (const edge of edges) {
+    if (!RECIPROCAL_EDGE_TYPES.includes(edge.type)) continue;
+
+    const returns = edges.filter(
+      (other) => other.type === edge.type && other.source === edge.target && other.target === edge.source
+    );
+    const source = names.get(edge.source) || edge.source;
+    const target = names.get(edge.target) || edge.target;
+
+    if (returns.length === 0) {
+      issues.push({
+        kind: 'missing_reciprocal',
+        type: edge.type,
+        source: edge.source,
+        target: edge.target,
+        message: edge.label
+          ? `${target} is ${source}'s ${edge.label}, but ${target} has no relationship to ${source}`
+          : `${source} links to ${target}, but ${target} does not link back`,
+      });
+      continue;
+    }
+
+    const expected = expectedInverses(edge.label);
+    if (!expected) continue;
+
+    const matches = returns.some((other) => {
+      const label = normalizeLabel(other.label);
+      return label === null || expected.includes(label);
+    });
+    if (!matches) {
+      issues.push({
+        kind: 'mismatched_reciprocal',
+        type: edge.type,
+        source: edge.source,
+        target: edge.target,
+        message: `${target} is ${source}'s ${edge.label}, but ${target} records ${source} as ${returns
+          .map((other) => other.label)
+          .join(', ')} (expected ${expected.join(' or ')})`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Nodes within maxHops of a node (edges followed in either direction), with the edges between them
+ */
+export function findNeighborhood(graph: CanonGraph, nodeId: string, maxHops: number): CanonGraph {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    adjacency.set(edge.source, [...(adjacency.get(edge.source) || []), edge.target]);
+    adjacency.set(edge.target, [...(adjacency.get(edge.target) || []), edge.source]);
+  }
+
+  const reached = new Set([nodeId]);
+  let frontier = [nodeId];
+  for (let hop = 0; hop < maxHops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbor of adjacency.get(id) || []) {
+        if (!reached.has(neighbor)) {
+          reached.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    nodes: graph.nodes.filter((node) => reached.has(node.id)),
+    edges: graph.edges.filter((edge) => reached.has(edge.source) && reached.has(edge.target)),
+    issues: graph.issues.filter((issue) => reached.has(issue.source)),
+  };
+}
+
+/**
+ * A character's relationships: { characterId: B, type: 'mentor' } means B is their mentor.
+ * Accepts an array of { characterId | targetId | canonEntryId, type | relationship }
+ * (snake_case keys too) or an object keyed by target id with a type or { type } value
+ */
+export function parseRelationships(value: unknown): ParsedRelationship[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!item || typeof item !== 'object') return [];
+      const record = item as Record<string, unknown>;
+      const targetId = firstString(record, [
+        'characterId',
+        'character_id',
+        'targetId',
+        'target_id',
+        'canonEntryId',
+        'canon_entry_id',
+        'id',
+      ]);
+      return targetId ? [{ targetId, type: firstString(record, ['type', 'relationship', 'relation']) }] : [];
+    });
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).map(([targetId, detail]) => ({
+      targetId,
+      type:
+        typeof detail === 'string'
+          ? detail
+          : detail && typeof detail === 'object'
+            ? firstString(detail as Record<string, unknown>, ['type', 'relationship', 'relation'])
+            : null,
+    }));
+  }
+
+  return [];
+}
+
+function firstString(record: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+function normalizeLabel(label: string | null): string | null {
+  return label ? label.trim().toLowerCase() : null;
+}
+
+// null when any reciprocal relationship will do
+function expectedInverses(label: string | null): string[] | null {
+  const normalized = normalizeLabel(label);
+  if (!normalized) return null;
+
+  const inverses = INVERSE_RELATIONSHIPS.flatMap(([a, b]) =>
+    a === normalized ? [b] : b === normalized ? [a] : []
+  );
+  return inverses.length > 0 ? Array.from(new Set(inverses)) : [normalized];
+}
+
+function resolveOwn(entryId: string, visible: Map<string, unknown>): string | null {
+  return visible.has(entryId) ? entryId : null;
+}
+
+function nameOf(visible: Map<string, { name: string }>, id: string): string {
+  return visible.get(id)?.name || id;
+}
+
+export class CanonGraphService {
+  private supabase = createAdminClient();
+  private canonManager = getCanonManager();
+
+  /**
+   * Relationship graph for a project as seen from a timeline (default: main)
+   */
+  async buildGraph(projectId: string, timelineId?: string): Promise<CanonGraph> {
+    const [entries, characters, locations, events, themes] = await Promise.all([
+      this.canonManager.loadVisibleEntries(projectId, timelineId),
+      this.supabase.from('canon_characters').select('id, canon_entry_id, relationships').eq('project_id', projectId),
+      this.supabase.from('canon_locations').select('id, canon_entry_id, parent_location_id').eq('project_id', projectId),
+      this.supabase
+        .from('canon_events')
+        .select('id, canon_entry_id, affected_character_ids, affected_location_ids')
+        .eq('project_id', projectId),
+      this.supabase.from('canon_themes').select('id, canon_entry_id, related_character_ids').eq('project_id', projectId),
+    ]);
+
+    return buildCanonGraph({
+      entries,
+      characters: characters.data || [],
+      locations: locations.data || [],
+      events: events.data || [],
+      themes: themes.data || [],
+    });
+  }
+}
+
+// Singleton instance
+let graphServiceInstance: CanonGraphService | null = null;
+
+export function getCanonGraphService(): CanonGraphService {
+  if (!graphServiceInstance) {
+    graphServiceInstance = new CanonGraphService();
+  }
+  return graphServiceInstance;
+}
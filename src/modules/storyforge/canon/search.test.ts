@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LocalEmbeddingProvider } from '@/lib/embeddings';
+import { FakeSupabase } from '@/test/fake-supabase';
+import { CanonSearchService, combineSearchScores } from './search';
+
+const PROJECT_ID = 'project-1';
+
+function canonEntry(id: string, name: string, entityType: string, description: string, isActive = true) {
+  return { id, project_id: PROJECT_ID, name, entity_type: entityType, description, data: {}, is_active: isActive };
+}
+
+const ENTRIES = [
+  canonEntry('harbor', 'Saltmarsh Harbor', 'location', 'A fishing port sheltered by the old sea wall'),
+  canonEntry('tower', 'Lamp Tower', 'location', 'The lighthouse keeper sings to passing ships at night'),
+  canonEntry('elena', 'Elena', 'character', 'An apprentice who mends clocks in the market square'),
+  canonEntry('wreck', 'The Drowned Lighthouse', 'event', 'A lighthouse keeper singing in the storm', false),
+];
+
+/**
+ * Embedding provider that is configured but unreachable
+ */
+class UnavailableEmbeddingProvider extends LocalEmbeddingProvider {
+  async embed(): Promise<number[][]> {
+    throw new Error('Embedding server unreachable');
+  }
+}
+
+function setup(lexical: Array<{ canon_entry_id: string; rank: number }>, embeddings = new LocalEmbeddingProvider()) {
+  const supabase = new FakeSupabase({ canon_entries: ENTRIES }, { canon_embeddings: 'canon_entry_id' });
+  supabase.onRpc('search_canon_lexical', () => lexical);
+  return { supabase, service: new CanonSearchService(embeddings, supabase.client) };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('combineSearchScores', () => {
+  const input = {
+    lexical: [
+      { canonEntryId: 'a', rank: 0.8 },
+      { canonEntryId: 'b', rank: 0.4 },
+    ],
+    semantic: [
+      { canonEntryId: 'a', similarity: 0.5 },
+      { canonEntryId: 'c', similarity: 0.9 },
+    ],
+  };
+
+  it('scales lexical ranks against the best match and blends in similarity', () => {
+    const scored = combineSearchScores(input);
+
+    expect(scored.map((hit) => hit.canonEntryId)).toEqual(['a', 'c', 'b']);
+    expect(scored[0]).toEqual({ canonEntryId: 'a', score: 0.75, lexicalScore: 1, semanticScore: 0.5 });
+    expect(scored[1].score).toBeCloseTo(0.45);
+    expect(scored[2].score).toBeCloseTo(0.25);
+  });
+
+  it('shifts the ranking with the semantic weight', () => {
+    const scored = combineSearchScores(input, 'hybrid', 0.9);
+
+    expect(scored.map((hit) => hit.canonEntryId)).toEqual(['c', 'a', 'b']);
+    expect(scored[0].score).toBeCloseTo(0.81);
+  });
+
+  it('lets weak similarity boost lexical matches without adding new results', () => {
+    const scored = combineSearchScores({
+      lexical: [{ canonEntryId: 'a', rank: 0.2 }],
+      semantic: [
+        { canonEntryId: 'a', similarity: 0.1 },
+        { canonEntryId: 'b', similarity: 0.1 },
+      ],
+    });
+
+    expect(scored).toEqual([{ canonEntryId: 'a', score: 0.55, lexicalScore: 1, semanticScore: 0.1 }]);
+  });
+
+  it('scores each mode on its own side only', () => {
+    expect(combineSearchScores(input, 'lexical').map((hit) => [hit.canonEntryId, hit.score])).toEqual([
+      ['a', 1],
+      ['b', 0.5],
+    ]);
+    expect(combineSearchScores(input, 'semantic').map((hit) => [hit.canonEntryId, hit.score])).toEqual([
+      ['c', 0.9],
+      ['a', 0.5],
+    ]);
+  });
+});
+
+describe('CanonSearchService', () => {
+  it('adds semantic matches to lexical ones in hybrid mode', async () => {
+    const { service, supabase } = setup([{ canon_entry_id: 'harbor', rank: 0.3 }]);
+
+    const hits = await service.search(PROJECT_ID, 'lighthouse keeper singing');
+
+    expect(hits.map((hit) => hit.entry.id)).toEqual(['harbor', 'tower']);
+    expect(hits[0].lexicalScore).toBe(1);
+    expect(hits[1].lexicalScore).toBe(0);
+    expect(hits[1].semanticScore).toBeGreaterThan(0.2);
+    expect(supabase.tables.canon_embeddings.map((row) => row.canon_entry_id).sort()).toEqual([
+      'elena',
+      'harbor',
+      'tower',
+    ]);
+  });
+
+  it('only embeds entries whose text changed since the last search', async () => {
+    const { service, supabase } = setup([]);
+    await service.search(PROJECT_ID, 'lighthouse');
+
+    supabase.tables.canon_entries[0].description = 'A smugglers port below the cliffs';
+    const result = await service.indexProject(PROJECT_ID);
+
+    expect(result).toEqual({ success: true, model: 'local-hash-256', embedded: 1, unchanged: 2 });
+    expect(supabase.tables.canon_embeddings).toHaveLength(3);
+  });
+
+  it('falls back to lexical results when the embedding provider fails', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { service } = setup(
+      [
+        { canon_entry_id: 'tower', rank: 0.6 },
+        { canon_entry_id: 'harbor', rank: 0.2 },
+      ],
+      new UnavailableEmbeddingProvider()
+    );
+
+    const hits = await service.search(PROJECT_ID, 'lighthouse keeper singing');
+
+    expect(hits.map((hit) => hit.entry.id)).toEqual(['tower', 'harbor']);
+    expect(hits.every((hit) => hit.semanticScore === 0)).toBe(true);
+    expect(consoleError).toHaveBeenCalledWith(
+      'Canon semantic search failed, using lexical results only:',
+      expect.any(Error)
+    );
+  });
+
+  it('fails semantic-only searches when the embedding provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { service } = setup([], new UnavailableEmbeddingProvider());
+
+    await expect(service.search(PROJECT_ID, 'lighthouse', { mode: 'semantic' })).rejects.toThrow(
+      'Embedding server unreachable'
+    );
+  });
+
+  it('skips the embedding provider in lexical mode', async () => {
+    const { service, supabase } = setup([{ canon_entry_id: 'elena', rank: 0.4 }], new UnavailableEmbeddingProvider());
+
+    const hits = await service.search(PROJECT_ID, 'Elena', { mode: 'lexical' });
+
+    expect(hits.map((hit) => [hit.entry.id, hit.score])).toEqual([['elena', 1]]);
+    expect(supabase.tables.canon_embeddings).toBeUndefined();
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Canon Search
+ * Hybrid search over canon entries: Postgres full-text rank plus embedding similarity
+ *
+ * The lexical side uses canon_entries.search_vector, which covers names, descriptions,
+ * type-specific fields and data. The semantic side embeds the same text with the
+ * configured embedding provider; vectors are refreshed when an entry's text changes.
+ */
+
+import { createHash } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getEmbeddingProvider, cosineSimilarity } from '@/lib/embeddings';
+import type { EmbeddingProvider } from '@/lib/embeddings';
+import { getErrorMessage } from '@/lib/utils';
+import type {
+  CanonSearchMode,
+  CanonSearchOptions,
+  CanonSearchHit,
+  CanonEmbeddingIndexResult,
+} from '../types';
+import type { CanonEntry, CanonEmbedding } from '@/types/database';
+
+const DEFAULT_LIMIT = 20;
+
+// Lexical matches considered before scores are combined
+const LEXICAL_CANDIDATES = 100;
+
+// Share of the combined score taken by embedding similarity in hybrid mode
+const SEMANTIC_WEIGHT = 0.5;
+
+// Similarity below which an entry is not a semantic match on its own
+const MIN_SEMANTIC_SCORE = 0.2;
+
+// Type-specific columns that are keys rather than content
+const NON_CONTENT_KEYS = new Set(['id', 'canon_entry_id', 'project_id', 'name', 'created_at', 'updated_at']);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const TYPE_TABLES = ['canon_characters', 'canon_locations', 'canon_rules', 'canon_events', 'canon_themes'] as const;
+
+export interface CanonScoreInput {
+  lexical: Array<{ canonEntryId: string; rank: number }>;
+  semantic: Array<{ canonEntryId: string; similarity: number }>;
+}
+
+export interface CanonScoredEntry {
+  canonEntryId: string;
+  score: number;
+  lexicalScore: number;
+  semanticScore: number;
+}
+
+function searchableText(value: unknown): string {
+  if (typeof value === 'string') return UUID_PATTERN.test(value) ? '' : value.trim();
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(searchableText).filter(Boolean).join(', ');
+  if (value && typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>).map(searchableText).filter(Boolean).join(', ');
+  }
+  return '';
+}
+
+/**
+ * Text embedded for an entry: name and type, description, then each content field
+ * of the type-specific row and of data (type row first; data keys it already covers are skipped)
+ */
+export function buildCanonSearchDocument(
+  entry: Pick<CanonEntry, 'name' | 'entity_type' | 'description' | 'data'>,
+  typeRow?: Record<string, unknown> | null
+): string {
+  const lines = [`${entry.name} (${entry.entity_type})`];
+  if (entry.description) lines.push(entry.description);
+
+  const seen = new Set<string>();
+  for (const source of [typeRow, entry.data]) {
+    if (!source || typeof source !== 'object' || Array.isArray(source)) continue;
+
+    for (const [key, value] of Object.entries(source as Record<string, unknown>)) {
+      if (NON_CONTENT_KEYS.has(key) || seen.has(key)) continue;
+      seen.add(key);
+
+      const text = searchableText(value);
+      if (text) lines.push(`${key.replace(/_/g, ' ')}: ${text}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Combine lexical ranks and embedding similarities into one ranking.
+ * Lexical ranks are scaled against the best match so both sides run 0-1.
+ */
+export function combineSearchScores(
+  input: CanonScoreInput,
+  mode: CanonSearchMode = 'hybrid',
+  semanticWeight = SEMANTIC_WEIGHT
+): CanonScoredEntry[] {
+  const maxRank = Math.max(0, ...input.lexical.map((hit) => hit.rank));
+  const scores = new Map<string, CanonScoredEntry>();
+
+  const scoreFor = (canonEntryId: string) => {
+    let entry = scores.get(canonEntryId);
+    if (!entry) {
+      entry = { canonEntryId, score: 0, lexicalScore: 0, semanticScore: 0 };
+      scores.set(canonEntryId, entry);
+    }
+    return entry;
+  };
+
+  if (mode !== 'semantic') {
+    for (const hit of input.lexical) {
+      scoreFor(hit.canonEntryId).lexicalScore = maxRank > 0 ? hit.rank / maxRank : 0;
+    }
+  }
+
+  if (mode !== 'lexical') {
+    for (const hit of input.semantic) {
+      const similarity = Math.max(0, hit.similarity);
+      // Weak similarity still counts towards lexical matches, but doesn't add new results
+      if (similarity < MIN_SEMANTIC_SCORE && !scores.has(hit.canonEntryId)) continue;
+      scoreFor(hit.canonEntryId).semanticScore = similarity;
+    }
+  }
+
+  const results = Array.from(scores.values());
+  for (const result of results) {
+    result.score =
+      mode === 'lexical'
+        ? result.lexicalScore
+        : mode === 'semantic'
+          ? result.semanticScore
+          : semanticWeight * result.semanticScore + (1 - semanticWeight) * result.lexicalScore;
+  }
+
+  return results
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.canonEntryId.localeCompare(b.canonEntryId));
+}
+
+export class CanonSearchService {
+  private embeddings: EmbeddingProvider;
+  private supabase: ReturnType<typeof createAdminClient>;
+
+  constructor(
+    embeddings: EmbeddingProvider = getEmbeddingProvider(),
+    supabase: ReturnType<typeof createAdminClient> = createAdminClient()
+  ) {
+    this.embeddings = embeddings;
+    this.supabase = supabase;
+  }
+
+  /**
+   * Search active canon entries, best match first
+   */
+  async search(projectId: string, query: string, options: CanonSearchOptions = {}): Promise<CanonSearchHit[]> {
+    const mode = options.mode ?? 'hybrid';
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const entityTypes = options.entityTypes?.length ? options.entityTypes : null;
+
+    const input: CanonScoreInput = { lexical: [], semantic: [] };
+
+    if (mode !== 'semantic') {
+      const { data, error } = await this.supabase.rpc('search_canon_lexical', {
+        p_project_id: projectId,
+        p_query: query,
+        p_entity_types: entityTypes,
+        p_limit: LEXICAL_CANDIDATES,
+      });
+      if (error) throw error;
+      const ranked = (data || []) as Array<{ canon_entry_id: string; rank: number }>;
+      input.lexical = ranked.map((hit) => ({ canonEntryId: hit.canon_entry_id, rank: hit.rank }));
+    }
+
+    if (mode !== 'lexical') {
+      try {
+        input.semantic = await this.semanticMatches(projectId, query);
+      } catch (error) {
+        // Hybrid search still answers lexically when the embedding provider is unavailable
+        if (mode === 'semantic') throw error;
+        console.error('Canon semantic search failed, using lexical results only:', error);
+      }
+    }
+
+    const scored = combineSearchScores(input, mode);
+    if (scored.length === 0) return [];
+
+    let entriesQuery = this.supabase
+      .from('canon_entries')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('is_active', true)
+      .in('id', scored.map((hit) => hit.canonEntryId));
+
+    if (entityTypes) {
+      entriesQuery = entriesQuery.in('entity_type', entityTypes);
+    }
+
+    const { data: entries } = await entriesQuery;
+    const entriesById = new Map((entries || []).map((entry) => [entry.id, entry]));
+
+    const hits: CanonSearchHit[] = [];
+    for (const hit of scored) {
+      const entry = entriesById.get(hit.canonEntryId);
+      if (!entry) continue;
+      hits.push({ entry, score: hit.score, lexicalScore: hit.lexicalScore, semanticScore: hit.semanticScore });
+      if (hits.length >= limit) break;
+    }
+
+    return hits;
+  }
+
+  /**
+   * Embed active entries whose text (or the embedding model) changed since they were last embedded
+   */
+  async indexProject(projectId: string): Promise<CanonEmbeddingIndexResult> {
+    const model = this.embeddings.model;
+
+    try {
+      const [{ data: entries, error }, { data: existing }, ...typeRows] = await Promise.all([
+        this.supabase
+          .from('canon_entries')
+          .select('id, name, entity_type, description, data')
+          .eq('project_id', projectId)
+          .eq('is_active', true),
+        this.supabase.from('canon_embeddings').select('canon_entry_id, model, content_hash').eq('project_id', projectId),
+        ...TYPE_TABLES.map((table) => this.supabase.from(table).select('*').eq('project_id', projectId)),
+      ]);
+
+      if (error || !entries) throw error || new Error('Failed to load canon entries');
+
+      const rowsByEntry = new Map<string, Record<string, unknown>>();
+      for (const { data } of typeRows) {
+        for (const row of (data || []) as Array<Record<string, unknown>>) {
+          rowsByEntry.set(row.canon_entry_id as string, row);
+        }
+      }
+
+      const current = new Map(
+        ((existing || []) as Array<Pick<CanonEmbedding, 'canon_entry_id' | 'model' | 'content_hash'>>).map((row) => [
+          row.canon_entry_id,
+          row,
+        ])
+      );
+
+      const stale: Array<{ canonEntryId: string; text: string; hash: string }> = [];
+      for (const entry of entries) {
+        const text = buildCanonSearchDocument(entry, rowsByEntry.get(entry.id));
+        const hash = createHash('sha256').update(text).digest('hex');
+        const stored = current.get(entry.id);
+        if (stored && stored.model === model && stored.content_hash === hash) continue;
+        stale.push({ canonEntryId: entry.id, text, hash });
+      }
+
+      if (stale.length > 0) {
+        const vectors = await this.embeddings.embed(stale.map((item) => item.text));
+        const { error: upsertError } = await this.supabase.from('canon_embeddings').upsert(
+          stale.map((item, i) => ({
+            canon_entry_id: item.canonEntryId,
+            project_id: projectId,
+            model,
+            content_hash: item.hash,
+            embedding: vectors[i],
+            updated_at: new Date().toISOString(),
+          }))
+        );
+        if (upsertError) throw upsertError;
+      }
+
+      return { success: true, model, embedded: stale.length, unchanged: entries.length - stale.length };
+    } catch (error) {
+      console.error('Canon embedding index error:', error);
+      return { success: false, model, embedded: 0, unchanged: 0, error: getErrorMessage(error) };
+    }
+  }
+
+  private async semanticMatches(
+    projectId: string,
+    query: string
+  ): Promise<Array<{ canonEntryId: string; similarity: number }>> {
+    const index = await this.indexProject(projectId);
+    if (!index.success) throw new Error(index.error);
+
+    const [[queryVector], { data: stored }] = await Promise.all([
+      this.embeddings.embed([query]),
+      this.supabase
+        .from('canon_embeddings')
+        .select('canon_entry_id, embedding')
+        .eq('project_id', projectId)
+        .eq('model', this.embeddings.model),
+    ]);
+
+    return (stored || []).map((row) => ({
+      canonEntryId: row.canon_entry_id,
+      similarity: cosineSimilarity(queryVector, row.embedding),
+    }));
+  }
+}
+
+// Singleton instance
+let searchServiceInstance: CanonSearchService | null = null;
+
+export function getCanonSearchService(): CanonSearchService {
+  if (!searchServiceInstance) {
+    searchServiceInstance = new CanonSearchService();
+  }
+  return searchServiceInstance;
+}
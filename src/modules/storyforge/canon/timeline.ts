@@ -0,0 +1,132 @@
+/**
+ * Timeline Resolution
+ * Ancestry, override rules and field diffs for forked timelines
+ *
+ * Entries with timeline_id NULL belong to the main timeline. A fork owns the
+ * entries whose timeline_id is the fork; an owned entry with parent_id set
+ * overrides that entry from an ancestor timeline (an inactive override removes
+ * it from the fork). Every other ancestor entry is inherited unchanged.
+ */
+
+import type { CanonFieldChange } from '../types';
+import type { Timeline } from '@/types/database';
+
+export interface CanonFieldSnapshot {
+  name: string;
+  description: string | null;
+  data: unknown;
+}
+
+export interface TimelineScopedEntry {
+  id: string;
+  parentId: string | null;
+  timelineId: string | null;
+}
+
+/**
+ * Fork ids from a timeline up to (not including) the main timeline, nearest first.
+ * Returns [] for the main timeline and null when the timeline is not in the list.
+ */
+export function timelineAncestry(
+  timelines: Array<Pick<Timeline, 'id' | 'is_main' | 'parent_timeline_id'>>,
+  timelineId: string
+): string[] | null {
+  const byId = new Map(timelines.map((timeline) => [timeline.id, timeline]));
+  const ancestry: string[] = [];
+
+  let current = byId.get(timelineId);
+  if (!current) return null;
+
+  // Forks without a parent hang off the main timeline
+  while (current && !current.is_main && !ancestry.includes(current.id)) {
+    ancestry.push(current.id);
+    current = current.parent_timeline_id ? byId.get(current.parent_timeline_id) : undefined;
+  }
+
+  return ancestry;
+}
+
+/**
+ * Entries replaced by an override in a nearer timeline of the ancestry
+ */
+export function overriddenEntryIds(entries: TimelineScopedEntry[], ancestry: string[]): Set<string> {
+  // 0 = the fork itself, ancestry.length = main timeline
+  const depth = (timelineId: string | null) => {
+    const index = timelineId ? ancestry.indexOf(timelineId) : -1;
+    return index === -1 ? ancestry.length : index;
+  };
+  const timelineOf = new Map(entries.map((entry) => [entry.id, entry.timelineId]));
+  const overridden = new Set<string>();
+
+  for (const entry of entries) {
+    if (!entry.parentId || !entry.timelineId || !ancestry.includes(entry.timelineId)) continue;
+
+    // Parents outside the scanned set are main timeline entries
+    const parentTimeline = timelineOf.has(entry.parentId) ? timelineOf.get(entry.parentId)! : null;
+    if (depth(parentTimeline) > depth(entry.timelineId)) {
+      overridden.add(entry.parentId);
+    }
+  }
+
+  return overridden;
+}
+
+/**
+ * PostgREST filter matching entries visible from a timeline (main plus the fork ancestry)
+ */
+export function timelineScopeFilter(ancestry: string[]): string {
+  return ancestry.length > 0
+    ? `timeline_id.is.null,timeline_id.in.(${ancestry.join(',')})`
+    : 'timeline_id.is.null';
+}
+
+/**
+ * Field-level differences between two versions of an entry (before = null for a new entry).
+ * Nested objects in data are compared key by key; arrays and scalars as whole values.
+ */
+export function diffCanonFields(
+  before: CanonFieldSnapshot | null,
+  after: CanonFieldSnapshot
+): CanonFieldChange[] {
+  const changes: CanonFieldChange[] = [];
+
+  diffValues('name', before?.name, after.name, changes);
+  diffValues('description', before?.description ?? null, after.description, changes);
+  diffValues('data', before?.data ?? {}, after.data ?? {}, changes);
+
+  return changes;
+}
+
+function diffValues(path: string, before: unknown, after: unknown, changes: CanonFieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    for (const key of keys) {
+      diffValues(`${path}.${key}`, before[key], after[key], changes);
+    }
+    return;
+  }
+
+  if (stableStringify(before) === stableStringify(after)) return;
+
+  const change: CanonFieldChange = { path };
+  if (before !== undefined) change.before = before;
+  if (after !== undefined) change.after = after;
+  changes.push(change);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// JSON with sorted keys, so key order in JSONB doesn't count as a change
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,192 @@
+/**
+ * Character Voice
+ * Speech profiles built from canon_characters (speech_patterns, vocabulary_level, catchphrases)
+ *
+ * Profiles feed dialogue generation prompts and the voice drift check, which flags
+ * quoted lines attributed to a character ("...," Mara said) that break their profile:
+ * - contractions from a character who never uses them
+ * - profanity from a character who never swears
+ * - slang from a formal speaker, long words from a plain one, long sentences from a terse one
+ * - phrases the profile says they never say, or another character's catchphrase
+ *
+ * Drift is a style issue, so every finding is a warning.
+ */
+
+import type { CanonCharacterContext, CanonConflict, CharacterVoiceProfile } from '../types';
+
+export interface AttributedLine {
+  characterId: string;
+  text: string; // Inside the quotes
+  start: number;
+  end: number;
+}
+
+const SPEECH_VERBS =
+  'said|says|asked|asks|replied|replies|answered|answers|shouted|shouts|whispered|whispers|muttered|mutters|called|calls|snapped|snaps|added|adds|continued|continues|told|tells|yelled|yells|murmured|murmurs|cried|cries|demanded|demands';
+
+// Characters of narration searched on each side of a quote for its speaker
+const ATTRIBUTION_WINDOW = 60;
+
+// Sentence length (in words) above which a terse speaker has drifted
+const TERSE_SENTENCE_WORDS = 18;
+
+// Letters in a word a plain speaker rarely uses
+const LONG_WORD_LETTERS = 12;
+
+const NO_CONTRACTIONS_PATTERN =
+  /\b(no|never|avoids?|without|doesn't use|does not use|refuses to use)\b[^.;]{0,20}\bcontractions?\b/i;
+const NO_PROFANITY_PATTERN =
+  /\b(never|doesn't|does not|won't|will not|refuses to)\s+(swear|curse|cuss)|\bno (swearing|profanity|cursing|curses)\b/i;
+const TERSE_PATTERN = /\b(terse|clipped|curt|laconic|short sentences|few words|monosyllabic)\b/i;
+const FORMAL_PATTERN = /\b(formal|proper|archaic|elevated|eloquent|old-fashioned|courtly|academic|sophisticated)\b/i;
+const SIMPLE_PATTERN = /\b(simple|basic|plain|limited|childlike|child|uneducated)\b/i;
+const FORBIDDEN_PHRASE_PATTERN = /\bnever (?:says|uses|utters|said)\s+["“'‘]([^"”'’]+)["”'’]/gi;
+
+const CONTRACTION_PATTERN =
+  /\b\w+(?:n't|'re|'ve|'ll|'m|'d)\b|\b(?:it|that|what|he|she|there|here|who|let)'s\b/i;
+const PROFANITY_PATTERN = /\b(damn\w*|hell|shit\w*|fuck\w*|bastard|bitch\w*|crap|bloody|ass|arse)\b/i;
+const SLANG_PATTERN = /\b(gonna|wanna|gotta|kinda|sorta|yeah|yep|nope|ain't|y'all|dude|okay|ok|lol|cool|guys)\b/i;
+
+const QUOTE_PATTERN = /["“]([^"“”\n]+)["”]/g;
+
+/**
+ * Checkable traits for a character, read from their free-text speech profile
+ */
+export function buildVoiceProfile(char: CanonCharacterContext): CharacterVoiceProfile {
+  const speech = char.speechPatterns || '';
+  const vocabulary = char.vocabularyLevel || '';
+
+  return {
+    characterId: char.id,
+    canonEntryId: char.canonEntryId,
+    name: char.name,
+    speechPatterns: char.speechPatterns,
+    vocabularyLevel: char.vocabularyLevel,
+    catchphrases: char.catchphrases,
+    noContractions: NO_CONTRACTIONS_PATTERN.test(speech),
+    noProfanity: NO_PROFANITY_PATTERN.test(speech),
+    terse: TERSE_PATTERN.test(speech),
+    formal: FORMAL_PATTERN.test(vocabulary) || FORMAL_PATTERN.test(speech),
+    simpleVocabulary: SIMPLE_PATTERN.test(vocabulary),
+    forbiddenPhrases: Array.from(speech.matchAll(FORBIDDEN_PHRASE_PATTERN)).map((match) => match[1].trim()),
+  };
+}
+
+/**
+ * Whether a character has any speech profile to follow
+ */
+export function hasVoice(char: CanonCharacterContext): boolean {
+  return Boolean(char.speechPatterns || char.vocabularyLevel || char.catchphrases.length > 0);
+}
+
+/**
+ * Quoted lines whose speaker is named next to a speech verb
+ * ("...," Mara said / said Mara / Mara said, "...")
+ */
+export function findAttributedDialogue(content: string, characters: CanonCharacterContext[]): AttributedLine[] {
+  const speakers = characters.flatMap((char) =>
+    [char.name, ...char.aliases]
+      .filter((name) => name.trim().length >= 2)
+      .map((name) => ({ characterId: char.id, name: escapeRegExp(name.trim()) }))
+  );
+  if (speakers.length === 0) return [];
+
+  const lines: AttributedLine[] = [];
+
+  for (const match of Array.from(content.matchAll(QUOTE_PATTERN))) {
+    const start = match.index! + 1;
+    const end = start + match[1].length;
+    const after = content.slice(end + 1, end + 1 + ATTRIBUTION_WINDOW).split(/["“\n]/)[0];
+    const before = content.slice(Math.max(0, match.index! - ATTRIBUTION_WINDOW), match.index!).split(/["”\n]/).pop() || '';
+
+    const speaker = speakers.find(({ name }) =>
+      new RegExp(`^\\W{0,3}(?:(?:${name})\\s+(?:${SPEECH_VERBS})|(?:${SPEECH_VERBS})\\s+(?:${name}))\\b`, 'i').test(after) ||
+      new RegExp(`(?:^|[.!?]\\s*|\\s)(?:${name})\\s+(?:${SPEECH_VERBS})\\W{0,3}$`, 'i').test(before)
+    );
+
+    if (speaker) lines.push({ characterId: speaker.characterId, text: match[1], start, end });
+  }
+
+  return lines;
+}
+
+/**
+ * Attributed lines that break their speaker's voice profile
+ */
+export function checkVoiceDrift(content: string, characters: CanonCharacterContext[]): CanonConflict[] {
+  const voiced = characters.filter(hasVoice);
+  if (voiced.length === 0) return [];
+
+  const profiles = new Map(voiced.map((char) => [char.id, buildVoiceProfile(char)]));
+  const conflicts: CanonConflict[] = [];
+
+  for (const line of findAttributedDialogue(content, characters)) {
+    const profile = profiles.get(line.characterId);
+    const issues = profile ? voiceIssues(line.text, profile) : [];
+
+    // Someone else's catchphrase in this speaker's mouth
+    for (const other of Array.from(profiles.values())) {
+      if (other.characterId === line.characterId) continue;
+      const phrase = other.catchphrases.find((catchphrase) => containsPhrase(line.text, catchphrase));
+      if (phrase) issues.push(`uses ${other.name}'s catchphrase "${phrase}"`);
+    }
+
+    if (issues.length === 0) continue;
+
+    const char = characters.find((c) => c.id === line.characterId)!;
+    conflicts.push({
+      id: `local-voice-${char.canonEntryId}-${line.start}`,
+      type: 'character',
+      severity: 'warning',
+      description: `${char.name}'s line drifts from their voice: ${issues.join('; ')}`,
+      conflictingCanonId: char.canonEntryId,
+      conflictingCanonName: char.name,
+      suggestedResolution: profile
+        ? `Rewrite the line to match ${char.name}'s speech profile${profile.speechPatterns ? `: ${profile.speechPatterns}` : ''}`
+        : `Give the line to the character it belongs to, or rephrase it`,
+      generatedText: line.text,
+      position: { start: line.start, end: line.end },
+    });
+  }
+
+  return conflicts;
+}
+
+function voiceIssues(text: string, profile: CharacterVoiceProfile): string[] {
+  const issues: string[] = [];
+
+  const contraction = profile.noContractions && CONTRACTION_PATTERN.exec(text);
+  if (contraction) issues.push(`uses a contraction ("${contraction[0]}")`);
+
+  const profanity = profile.noProfanity && PROFANITY_PATTERN.exec(text);
+  if (profanity) issues.push(`swears ("${profanity[0]}")`);
+
+  const slang = profile.formal && SLANG_PATTERN.exec(text);
+  if (slang) issues.push(`uses slang ("${slang[0]}")`);
+
+  if (profile.simpleVocabulary) {
+    const longWords = (text.match(/[A-Za-z]+/g) || []).filter((word) => word.length >= LONG_WORD_LETTERS);
+    if (longWords.length > 0) issues.push(`uses elaborate words ("${longWords[0]}")`);
+  }
+
+  if (profile.terse) {
+    const longest = Math.max(...text.split(/[.!?]+/).map((sentence) => sentence.split(/\s+/).filter(Boolean).length));
+    if (longest > TERSE_SENTENCE_WORDS) issues.push(`speaks in a long sentence (${longest} words)`);
+  }
+
+  for (const phrase of profile.forbiddenPhrases) {
+    if (containsPhrase(text, phrase)) issues.push(`says "${phrase}"`);
+  }
+
+  return issues;
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  const trimmed = phrase.trim();
+  if (trimmed.length < 2) return false;
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(trimmed)}(?=$|[^\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,124 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { FixtureReplayProvider, type LLMCompletion, type LLMCompletionRequest } from '@/lib/llm';
+import type { CanonContext, GenerationRequest } from '../types';
+import { StoryForgeGenerator } from './generator';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../../lib/llm/fixtures');
+
+/**
+ * Fixture replay that remembers what each request got back
+ */
+class ReplayLog extends FixtureReplayProvider {
+  calls: { system?: string; completion: LLMCompletion }[] = [];
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await super.complete(request);
+    this.calls.push({ system: request.system, completion });
+    return completion;
+  }
+}
+
+const canon: CanonContext = {
+  characters: [
+    {
+      id: 'elena',
+      canonEntryId: 'entry-elena',
+      timelineId: null,
+      name: 'Elena',
+      aliases: [],
+      description: 'An apprentice whose temper lights lamps',
+      appearance: 'Grey eyes and dark hair',
+      personality: null,
+      backstory: null,
+      relationships: null,
+      speechPatterns: null,
+      vocabularyLevel: null,
+      catchphrases: [],
+      locked: true,
+    },
+  ],
+  locations: [],
+  rules: [],
+  events: [],
+  themes: [],
+};
+
+const request: GenerationRequest = {
+  projectId: 'project-1',
+  action: 'continue',
+  target: 'chapter',
+  existingContent: 'Elena hurried through the old wing.',
+};
+
+function setup() {
+  const provider = new ReplayLog(FIXTURES_DIR);
+  return { provider, generator: new StoryForgeGenerator({ canonEnforcement: 'strict' }, provider) };
+}
+
+describe('StoryForgeGenerator with replayed fixtures', () => {
+  it('generates prose from the generation fixture', async () => {
+    const { generator } = setup();
+
+    const response = await generator.generate(request, canon);
+
+    expect(response.success).toBe(true);
+    expect(response.content).toMatch(/^The corridor lamps guttered as Elena passed/);
+    expect(response.model).toBe('fixture-replay');
+    expect(response.tokensUsed).toBeGreaterThan(0);
+    expect(response.canonConflicts).toBeUndefined();
+  });
+
+  it('streams the same prose it generates', async () => {
+    const { generator } = setup();
+    const generated = await generator.generate(request, canon);
+
+    let streamed = '';
+    let complete: { content: string; tokensUsed: number } | null = null;
+    for await (const event of generator.generateStream(request, canon)) {
+      if (event.type === 'token') streamed += event.text;
+      if (event.type === 'complete') complete = event;
+    }
+
+    expect(streamed).toBe(generated.content);
+    expect(complete?.content).toBe(generated.content);
+    expect(complete?.tokensUsed).toBe(generated.tokensUsed);
+  });
+
+  it('validates generated prose against the validation fixture', async () => {
+    const { generator, provider } = setup();
+    const { content } = await generator.generate(request, canon);
+
+    const { conflicts, tokensUsed } = await generator.validateAgainstCanon(content!, canon);
+
+    expect(conflicts).toEqual([]);
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[1].system).toMatch(/^You are a continuity editor/);
+    expect(provider.calls[1].completion.text).toBe('[]');
+
+    const { usage } = provider.calls[1].completion;
+    expect(tokensUsed).toBe(usage.inputTokens + usage.outputTokens);
+    expect(tokensUsed).toBeGreaterThan(0);
+  });
+
+  it('keeps local findings when the model reports none', async () => {
+    const { generator, provider } = setup();
+    const { content } = await generator.generate(request, canon);
+
+    const { conflicts } = await generator.validateAgainstCanon(`${content}\n\nElena's blue eyes narrowed.`, canon);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].conflictingCanonId).toBe('entry-elena');
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('reports a request no fixture matches as a failed generation', async () => {
+    const provider = new ReplayLog(path.join(FIXTURES_DIR, 'missing'));
+    const generator = new StoryForgeGenerator({}, provider);
+
+    const response = await generator.generate(request, canon);
+
+    expect(response.success).toBe(false);
+    expect(response.error).toMatch(/No LLM fixture matches request/);
+  });
+});
@@ -3,35 +3,91 @@
  * Core AI generation logic for narrative content
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm';
 import {
   STORYFORGE_SYSTEM_PROMPT,
   buildGenerationPrompt,
   SEMANTIC_EXTRACTION_PROMPT,
   CANON_VALIDATION_PROMPT,
+  CANON_EXTRACTION_PROMPT,
   buildCanonContextPrompt,
 } from './prompts';
+import { validateCanonLocally } from '../canon/local-validator';
+import { parseExtractedCanon, mergeCanonSuggestions } from '../canon/extraction';
 import type {
   GenerationRequest,
   GenerationResponse,
+  GenerationStreamEvent,
   CanonContext,
   CanonConflict,
+  CanonExtractionResult,
+  CanonValidationResult,
+  CanonSuggestionDraft,
   SemanticSceneData,
   StoryForgeConfig,
-  DEFAULT_STORYFORGE_CONFIG,
 } from '../types';
+import { DEFAULT_STORYFORGE_CONFIG } from '../types';
+
+// Usage estimate for partial streams (~4 chars/token)
+const CHARS_PER_TOKEN = 4;
+
+// Output budget of the model continuity check
+export const CANON_VALIDATION_MAX_TOKENS = 2048;
+
+// Chapters longer than this are read in paragraph-aligned chunks
+const EXTRACTION_CHUNK_CHARS = 24000;
+
+/**
+ * Combine local and model findings, dropping model findings that repeat a local one
+ */
+function mergeConflicts(local: CanonConflict[], model: CanonConflict[]): CanonConflict[] {
+  const duplicates = (conflict: CanonConflict) =>
+    local.some(
+      (found) =>
+        found.conflictingCanonId === conflict.conflictingCanonId &&
+        conflict.position &&
+        conflict.position.start < found.position.end &&
+        found.position.start < conflict.position.end
+    );
+
+  return [...local, ...model.filter((conflict) => !duplicates(conflict))];
+}
+
+/**
+ * Split text at paragraph breaks into chunks of at most maxChars (longer paragraphs stay whole)
+ */
+function splitIntoChunks(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current.trim()) chunks.push(current);
+
+  return chunks;
+}
 
 export class StoryForgeGenerator {
-  private client: Anthropic;
+  private provider: LLMProvider;
   private config: StoryForgeConfig;
 
-  constructor(config: Partial<StoryForgeConfig> = {}) {
-    this.client = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
+  constructor(config: Partial<StoryForgeConfig> = {}, provider: LLMProvider = getLLMProvider()) {
+    this.provider = provider;
     this.config = { ...DEFAULT_STORYFORGE_CONFIG, ...config };
   }
 
+  /**
+   * Model used for requests
+   */
+  get model(): string {
+    return this.config.model || this.provider.defaultModel;
+  }
+
   /**
    * Generate content based on request
    */
@@ -43,43 +99,27 @@ export class StoryForgeGenerator {
     const startTime = Date.now();
 
     try {
-      const prompt = buildGenerationPrompt(
-        request.action,
-        request.target,
-        canonContext,
-        {
-          existingContent: request.existingContent,
-          selectedText: request.selectedText,
-          previousContent,
-          instructions: request.userInstructions,
-          wordCountTarget: request.wordCountTarget,
-        }
-      );
+      const prompt = this.buildPrompt(request, canonContext, previousContent);
 
-      const response = await this.client.messages.create({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens,
+      const completion = await this.provider.complete({
+        model: this.model,
+        maxTokens: this.config.maxTokens,
         temperature: this.config.temperature,
-        top_p: this.config.topP,
+        topP: this.config.topP,
         system: STORYFORGE_SYSTEM_PROMPT,
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type');
-      }
-
-      const text = content.text;
-      const tokensUsed = response.usage.input_tokens + response.usage.output_tokens;
+      const tokensUsed = completion.usage.inputTokens + completion.usage.outputTokens;
 
       // Check for canon conflict markers
-      const { cleanContent, conflicts } = this.parseResponseForConflicts(text);
+      const { cleanContent, conflicts } = this.parseResponseForConflicts(completion.text);
 
       return {
         success: true,
         content: cleanContent,
         tokensUsed,
+        model: completion.model,
         canonConflicts: conflicts.length > 0 ? conflicts : undefined,
       };
     } catch (error) {
@@ -88,7 +128,77 @@ export class StoryForgeGenerator {
         success: false,
         content: undefined,
         tokensUsed: 0,
+        model: this.model,
+        error: error instanceof Error ? error.message : 'Generation failed',
+      };
+    }
+  }
+
+  /**
+   * Stream content as it is generated
+   *
+   * Token events carry raw model output; the complete event carries the cleaned
+   * content with any embedded conflict markers removed. Aborting the signal ends
+   * the stream with a cancelled event holding the partial text.
+   */
+  async *generateStream(
+    request: GenerationRequest,
+    canonContext: CanonContext,
+    previousContent?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<GenerationStreamEvent> {
+    const prompt = this.buildPrompt(request, canonContext, previousContent);
+
+    const stream = this.provider.stream(
+      {
+        model: this.model,
+        maxTokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        topP: this.config.topP,
+        system: STORYFORGE_SYSTEM_PROMPT,
+        messages: [{ role: 'user', content: prompt }],
+      },
+      { signal }
+    );
+
+    let text = '';
+
+    try {
+      for await (const event of stream) {
+        if (event.type === 'text') {
+          text += event.text;
+          yield { type: 'token', text: event.text };
+          continue;
+        }
+
+        const { usage, model } = event.completion;
+        const { cleanContent, conflicts } = this.parseResponseForConflicts(text);
+
+        yield {
+          type: 'complete',
+          content: cleanContent,
+          tokensUsed: usage.inputTokens + usage.outputTokens,
+          model,
+          canonConflicts: conflicts.length > 0 ? conflicts : undefined,
+        };
+      }
+    } catch (error) {
+      // Usage is only reported at the end, so estimate it for partial runs
+      const tokensUsed = Math.ceil(
+        (STORYFORGE_SYSTEM_PROMPT.length + prompt.length + text.length) / CHARS_PER_TOKEN
+      );
+
+      if (signal?.aborted) {
+        yield { type: 'cancelled', content: text, tokensUsed, model: this.model };
+        return;
+      }
+
+      console.error('StoryForge streaming error:', error);
+      yield {
+        type: 'error',
         error: error instanceof Error ? error.message : 'Generation failed',
+        tokensUsed,
+        model: this.model,
       };
     }
   }
@@ -104,21 +214,16 @@ export class StoryForgeGenerator {
       const prompt = SEMANTIC_EXTRACTION_PROMPT.replace('{SCENE_CONTENT}', sceneContent);
       const canonPrompt = buildCanonContextPrompt(canonContext);
 
-      const response = await this.client.messages.create({
-        model: this.config.model,
-        max_tokens: 2048,
+      const completion = await this.provider.complete({
+        model: this.model,
+        maxTokens: 2048,
         temperature: 0.3, // Lower temperature for more consistent extraction
         system: `You are a narrative analyst. Extract semantic information from scenes accurately and consistently. ${canonPrompt}`,
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type');
-      }
-
       // Parse JSON from response
-      const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+      const jsonMatch = completion.text.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
         throw new Error('No JSON found in response');
       }
@@ -140,55 +245,156 @@ export class StoryForgeGenerator {
     }
   }
 
+  /**
+   * Propose canon from an existing chapter
+   *
+   * New names become 'create' drafts and known names 'update' drafts holding only
+   * the fields that change; evidence quotes are anchored to chapter positions.
+   */
+  async extractCanon(
+    chapter: { id: string; title: string; content: string },
+    canonContext: CanonContext
+  ): Promise<CanonExtractionResult> {
+    const canonPrompt = buildCanonContextPrompt(canonContext);
+    const suggestions: CanonSuggestionDraft[] = [];
+    let tokensUsed = 0;
+    let model = this.model;
+
+    try {
+      for (const chunk of splitIntoChunks(chapter.content, EXTRACTION_CHUNK_CHARS)) {
+        const values: Record<string, string> = {
+          CHAPTER_TITLE: chapter.title,
+          CHAPTER_CONTENT: chunk,
+          CANON: canonPrompt,
+        };
+        const prompt = CANON_EXTRACTION_PROMPT.replace(
+          /\{(CHAPTER_TITLE|CHAPTER_CONTENT|CANON)\}/g,
+          (_, key: string) => values[key]
+        );
+
+        const completion = await this.provider.complete({
+          model: this.model,
+          maxTokens: 4096,
+          temperature: 0.2,
+          system: 'You are a canon archivist. Record only what the manuscript establishes, with exact quotes.',
+          messages: [{ role: 'user', content: prompt }],
+        });
+
+        tokensUsed += completion.usage.inputTokens + completion.usage.outputTokens;
+        model = completion.model;
+        suggestions.push(...parseExtractedCanon(completion.text, chapter, canonContext));
+      }
+
+      return { success: true, suggestions: mergeCanonSuggestions(suggestions), tokensUsed, model };
+    } catch (error) {
+      console.error('Canon extraction error:', error);
+      return {
+        success: false,
+        suggestions: mergeCanonSuggestions(suggestions),
+        tokensUsed,
+        model,
+        error: error instanceof Error ? error.message : 'Canon extraction failed',
+      };
+    }
+  }
+
   /**
    * Validate content against canon
+   *
+   * Deterministic local checks run first; the LLM pass adds judgement calls on top.
+   * strict: all findings. moderate: errors only. relaxed: local errors only, no LLM call.
+   * tokensUsed is what the LLM pass cost, so callers can charge it.
    */
   async validateAgainstCanon(
     content: string,
     canonContext: CanonContext
-  ): Promise<CanonConflict[]> {
+  ): Promise<CanonValidationResult> {
+    const localConflicts = validateCanonLocally(content, canonContext);
+
     if (this.config.canonEnforcement === 'relaxed') {
-      return [];
+      return { conflicts: localConflicts.filter((c) => c.severity === 'error'), tokensUsed: 0 };
+    }
+
+    const checked = await this.validateWithModel(content, canonContext);
+    const conflicts = mergeConflicts(localConflicts, checked.conflicts);
+
+    // Filter by enforcement level
+    if (this.config.canonEnforcement === 'moderate') {
+      return { conflicts: conflicts.filter((c) => c.severity === 'error'), tokensUsed: checked.tokensUsed };
     }
 
+    return { conflicts, tokensUsed: checked.tokensUsed };
+  }
+
+  /**
+   * LLM continuity check
+   */
+  private async validateWithModel(
+    content: string,
+    canonContext: CanonContext
+  ): Promise<CanonValidationResult> {
+    let tokensUsed = 0;
+
     try {
       const prompt = CANON_VALIDATION_PROMPT
         .replace('{CONTENT}', content)
         .replace('{CANON}', buildCanonContextPrompt(canonContext));
 
-      const response = await this.client.messages.create({
-        model: this.config.model,
-        max_tokens: 2048,
+      const completion = await this.provider.complete({
+        model: this.model,
+        maxTokens: CANON_VALIDATION_MAX_TOKENS,
         temperature: 0.2,
         system: 'You are a continuity editor. Identify canon conflicts precisely.',
         messages: [{ role: 'user', content: prompt }],
       });
-
-      const responseContent = response.content[0];
-      if (responseContent.type !== 'text') {
-        throw new Error('Unexpected response type');
-      }
+      tokensUsed = completion.usage.inputTokens + completion.usage.outputTokens;
 
       // Parse JSON array from response
-      const jsonMatch = responseContent.text.match(/\[[\s\S]*\]/);
+      const jsonMatch = completion.text.match(/\[[\s\S]*\]/);
       if (!jsonMatch) {
-        return [];
+        return { conflicts: [], tokensUsed };
       }
 
       const conflicts = JSON.parse(jsonMatch[0]) as CanonConflict[];
 
-      // Filter by enforcement level
-      if (this.config.canonEnforcement === 'moderate') {
-        return conflicts.filter((c) => c.severity === 'error');
-      }
-
-      return conflicts;
+      // Model offsets are unreliable; anchor them to the quoted text when we can find it
+      return {
+        conflicts: conflicts.map((conflict) => {
+          const start = conflict.generatedText ? content.indexOf(conflict.generatedText) : -1;
+          return start === -1
+            ? conflict
+            : { ...conflict, position: { start, end: start + conflict.generatedText.length } };
+        }),
+        tokensUsed,
+      };
     } catch (error) {
       console.error('Canon validation error:', error);
-      return [];
+      return { conflicts: [], tokensUsed };
     }
   }
 
+  /**
+   * Build the generation prompt for a request
+   */
+  private buildPrompt(
+    request: GenerationRequest,
+    canonContext: CanonContext,
+    previousContent?: string
+  ): string {
+    return buildGenerationPrompt(
+      request.action,
+      request.target,
+      canonContext,
+      {
+        existingContent: request.existingContent,
+        selectedText: request.selectedText,
+        previousContent,
+        instructions: request.userInstructions,
+        wordCountTarget: request.wordCountTarget,
+      }
+    );
+  }
+
   /**
    * Parse response for embedded conflict markers
    */
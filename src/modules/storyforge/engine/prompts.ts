@@ -5,11 +5,17 @@
 
 import type {
   CanonContext,
+  CanonCharacterContext,
+  CanonLocationContext,
+  CanonRuleContext,
+  CanonEventContext,
+  CanonThemeContext,
   GenerationAction,
   GenerationTarget,
   WritingStyle,
   SemanticSceneData,
 } from '../types';
+import { buildVoiceProfile, hasVoice } from '../canon/voice';
 
 // System prompt for StoryForge
 export const STORYFORGE_SYSTEM_PROMPT = `You are StoryForge, an expert creative writing assistant embedded in the Halcyon Cinema platform. You help authors craft compelling narratives while respecting their creative vision and established canon.
@@ -39,66 +45,117 @@ When you detect a potential canon conflict, you MUST:
 
 Format your responses as requested. When generating content, output only the creative content unless analysis is specifically requested.`;
 
+// Format individual canon entries (shared with the context selector's token estimates)
+export function formatCharacterCanon(char: CanonCharacterContext): string {
+  const lines = [`**${char.name}**${char.locked ? ' [LOCKED]' : ''}`];
+  if (char.aliases.length > 0) lines.push(`- Also known as: ${char.aliases.join(', ')}`);
+  if (char.description) lines.push(`- Description: ${char.description}`);
+  if (char.appearance) lines.push(`- Appearance: ${char.appearance}`);
+  if (char.personality) lines.push(`- Personality: ${char.personality}`);
+  if (char.backstory) lines.push(`- Backstory: ${char.backstory}`);
+  if (char.speechPatterns) lines.push(`- Speech: ${char.speechPatterns}`);
+  if (char.vocabularyLevel) lines.push(`- Vocabulary: ${char.vocabularyLevel}`);
+  if (char.catchphrases.length > 0) lines.push(`- Catchphrases: ${char.catchphrases.map((p) => `"${p}"`).join(', ')}`);
+  lines.push('');
+  return lines.join('\n');
+}
+
+export function formatLocationCanon(loc: CanonLocationContext): string {
+  const lines = [`**${loc.name}**${loc.locked ? ' [LOCKED]' : ''}`];
+  if (loc.description) lines.push(`- Description: ${loc.description}`);
+  if (loc.atmosphere) lines.push(`- Atmosphere: ${loc.atmosphere}`);
+  lines.push('');
+  return lines.join('\n');
+}
+
+export function formatRuleCanon(rule: CanonRuleContext): string {
+  const lines = [`**${rule.name}** (Priority: ${rule.priority}/10)${rule.locked ? ' [LOCKED]' : ''}`];
+  if (rule.description) lines.push(`- ${rule.description}`);
+  if (rule.constraints.length > 0) {
+    lines.push(`- Constraints: ${rule.constraints.join(', ')}`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+export function formatEventCanon(event: CanonEventContext): string {
+  const lines = [`**${event.name}**${event.locked ? ' [LOCKED]' : ''}`];
+  if (event.description) lines.push(`- ${event.description}`);
+  if (event.storyDate) lines.push(`- When: ${event.storyDate}`);
+  if (event.consequences.length > 0) {
+    lines.push(`- Consequences: ${event.consequences.join(', ')}`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+export function formatThemeCanon(theme: CanonThemeContext): string {
+  const lines = [`**${theme.name}**${theme.locked ? ' [LOCKED]' : ''}`];
+  if (theme.description) lines.push(`- ${theme.description}`);
+  if (theme.howExpressed) lines.push(`- Expressed through: ${theme.howExpressed}`);
+  lines.push('');
+  return lines.join('\n');
+}
+
 // Build canon context for prompt
 export function buildCanonContextPrompt(canon: CanonContext): string {
   const parts: string[] = ['## ESTABLISHED CANON\n'];
 
   if (canon.characters.length > 0) {
     parts.push('### Characters');
-    for (const char of canon.characters) {
-      parts.push(`**${char.name}**${char.locked ? ' [LOCKED]' : ''}`);
-      if (char.description) parts.push(`- Description: ${char.description}`);
-      if (char.personality) parts.push(`- Personality: ${char.personality}`);
-      if (char.backstory) parts.push(`- Backstory: ${char.backstory}`);
-      parts.push('');
-    }
+    parts.push(...canon.characters.map(formatCharacterCanon));
   }
 
   if (canon.locations.length > 0) {
     parts.push('### Locations');
-    for (const loc of canon.locations) {
-      parts.push(`**${loc.name}**${loc.locked ? ' [LOCKED]' : ''}`);
-      if (loc.description) parts.push(`- Description: ${loc.description}`);
-      if (loc.atmosphere) parts.push(`- Atmosphere: ${loc.atmosphere}`);
-      parts.push('');
-    }
+    parts.push(...canon.locations.map(formatLocationCanon));
   }
 
   if (canon.rules.length > 0) {
     parts.push('### World Rules');
-    for (const rule of canon.rules) {
-      parts.push(`**${rule.name}** (Priority: ${rule.priority}/10)${rule.locked ? ' [LOCKED]' : ''}`);
-      if (rule.description) parts.push(`- ${rule.description}`);
-      if (rule.constraints.length > 0) {
-        parts.push(`- Constraints: ${rule.constraints.join(', ')}`);
-      }
-      parts.push('');
-    }
+    parts.push(...canon.rules.map(formatRuleCanon));
   }
 
   if (canon.events.length > 0) {
     parts.push('### Key Events');
-    for (const event of canon.events) {
-      parts.push(`**${event.name}**${event.locked ? ' [LOCKED]' : ''}`);
-      if (event.description) parts.push(`- ${event.description}`);
-      if (event.storyDate) parts.push(`- When: ${event.storyDate}`);
-      if (event.consequences.length > 0) {
-        parts.push(`- Consequences: ${event.consequences.join(', ')}`);
-      }
-      parts.push('');
-    }
+    parts.push(...canon.events.map(formatEventCanon));
   }
 
   if (canon.themes.length > 0) {
     parts.push('### Themes');
-    for (const theme of canon.themes) {
-      parts.push(`**${theme.name}**${theme.locked ? ' [LOCKED]' : ''}`);
-      if (theme.description) parts.push(`- ${theme.description}`);
-      if (theme.howExpressed) parts.push(`- Expressed through: ${theme.howExpressed}`);
-      parts.push('');
+    parts.push(...canon.themes.map(formatThemeCanon));
+  }
+
+  return parts.join('\n');
+}
+
+// Voice rules for each character with a speech profile (dialogue generation)
+export function buildVoicePrompt(characters: CanonCharacterContext[]): string {
+  const voiced = characters.filter(hasVoice);
+  if (voiced.length === 0) return '';
+
+  const parts: string[] = ['## CHARACTER VOICES\n'];
+  for (const char of voiced) {
+    const voice = buildVoiceProfile(char);
+    const rules: string[] = [];
+    if (voice.speechPatterns) rules.push(`- Speech: ${voice.speechPatterns}`);
+    if (voice.vocabularyLevel) rules.push(`- Vocabulary: ${voice.vocabularyLevel}`);
+    if (voice.catchphrases.length > 0) {
+      const catchphrases = voice.catchphrases.map((p) => `"${p}"`).join(', ');
+      rules.push(`- Catchphrases (use sparingly, never for other characters): ${catchphrases}`);
+    }
+    if (voice.noContractions) rules.push('- Never uses contractions');
+    if (voice.noProfanity) rules.push('- Never swears');
+    if (voice.terse) rules.push('- Short sentences only');
+    if (voice.formal) rules.push('- No slang');
+    if (voice.simpleVocabulary) rules.push('- Plain, everyday words');
+    if (voice.forbiddenPhrases.length > 0) {
+      rules.push(`- Never says: ${voice.forbiddenPhrases.map((p) => `"${p}"`).join(', ')}`);
     }
+    parts.push(`**${char.name}**\n${rules.join('\n')}\n`);
   }
 
+  parts.push('Attribute every line with a speech tag naming the speaker, and keep each speaker in their own voice.');
   return parts.join('\n');
 }
 
@@ -233,6 +290,12 @@ export function buildGenerationPrompt(
     parts.push(buildStylePrompt(context.style));
   }
 
+  // Dialogue follows each speaker's voice profile
+  if (target === 'dialogue') {
+    const voicePrompt = buildVoicePrompt(canon.characters);
+    if (voicePrompt) parts.push(voicePrompt);
+  }
+
   // Add previous content for context
   if (context.previousContent) {
     parts.push(`## PREVIOUS CONTENT (for context)\n${context.previousContent}`);
@@ -302,6 +365,7 @@ Check for:
 3. World rule violations
 4. Timeline inconsistencies
 5. Theme contradictions
+6. Dialogue that breaks a character's voice (speech, vocabulary, catchphrases) - type "character", severity "warning"
 
 Return a JSON array of conflicts found:
 [
@@ -318,3 +382,46 @@ Return a JSON array of conflicts found:
 ]
 
 If no conflicts found, return an empty array [].`;
+
+// Canon extraction prompt (proposes canon from existing manuscript text)
+export const CANON_EXTRACTION_PROMPT = `Read this chapter and propose canon entries for the story bible.
+
+Chapter: {CHAPTER_TITLE}
+
+{CHAPTER_CONTENT}
+
+Established Canon:
+{CANON}
+
+Propose:
+1. New characters, locations, events and world rules the chapter establishes
+2. Updates to established entries when the chapter adds or changes facts about them
+
+Only propose facts the text states or clearly implies. Quote the supporting text exactly.
+
+Return a JSON array:
+[
+  {
+    "action": "create|update",
+    "entityType": "character|location|event|rule",
+    "name": "entry name (for updates, the established entry's name)",
+    "fields": {
+      "description": "...",
+      "aliases": ["..."],
+      "appearance": "...",
+      "personality": "...",
+      "backstory": "...",
+      "atmosphere": "...",
+      "storyDate": "...",
+      "consequences": ["..."],
+      "eventType": "backstory|current|future",
+      "constraints": ["..."],
+      "priority": 5
+    },
+    "rationale": "why this belongs in canon",
+    "evidence": ["exact quote from the chapter"]
+  }
+]
+
+Include only the fields that apply to the entity type, and for updates only the fields that change.
+If the chapter establishes nothing new, return an empty array [].`;
@@ -25,20 +25,72 @@ export type {
   GenerationTarget,
   GenerationRequest,
   GenerationResponse,
+  GenerationStreamEvent,
 
   // Canon types
   CanonContext,
   CanonCharacterContext,
+  CharacterVoiceProfile,
   CanonLocationContext,
   CanonRuleContext,
   CanonEventContext,
   CanonThemeContext,
   CanonConflict,
+  CanonValidationResult,
   ConflictResolutionRequest,
+  ConflictResolutionResult,
+  CanonEditFailure,
+  CanonEditResult,
+  TrackedCanonConflict,
+  CanonConflictSource,
+  CanonContextEntryType,
+  CanonSelectionReason,
+  CanonSelectionEntry,
+  CanonContextReport,
+  CanonContextSelection,
+  CanonMention,
+  CanonReferenceIndexResult,
+  TimelineChangeKind,
+  CanonFieldChange,
+  TimelineEntryDiff,
+  TimelineDiff,
+  TimelineMergeResult,
+  CanonVersionSummary,
+  CanonVersionDiff,
+  CanonSnapshotEntry,
+  CanonSnapshot,
+  CanonRollbackAction,
+  CanonRollbackResult,
+  CanonSearchMode,
+  CanonSearchOptions,
+  CanonSearchHit,
+  CanonEmbeddingIndexResult,
+  StoryCalendar,
+  StoryDatePrecision,
+  StoryDate,
+  ChronologyItem,
+  ChronologyResult,
+  CanonGraphEdgeType,
+  CanonGraphNode,
+  CanonGraphEdge,
+  CanonGraphIssue,
+  CanonGraph,
+  CanonImportFormat,
+  CanonImportAction,
+  CanonImportOptions,
+  CanonImportItem,
+  CanonImportResult,
+  CanonExtractionEntityType,
+  CanonSuggestionFieldsByType,
+  CanonSuggestionEvidence,
+  CanonSuggestionDraft,
+  CanonSuggestionReview,
+  CanonExtractionResult,
 
   // Semantic types (for Cinema)
   SemanticSceneData,
   CharacterState,
+  SceneContext,
 
   // Writing types
   WritingSession,
@@ -53,5 +105,81 @@ export { DEFAULT_STORYFORGE_CONFIG } from './types';
 // Canon Manager - For direct canon operations in UI
 export { getCanonManager, CanonManager } from './canon/manager';
 
+// Context selector - Fits canon into a prompt token budget
+export { selectCanonContext, HIGH_PRIORITY_RULE_THRESHOLD } from './canon/context-selector';
+export type { CanonSelectionOptions } from './canon/context-selector';
+
+// Reference indexer - Records canon mentions when chapters and scenes are saved
+export {
+  getCanonReferenceIndexer,
+  CanonReferenceIndexer,
+  findCanonMentions,
+} from './canon/reference-indexer';
+export type { CanonTerm, CanonTextMatch } from './canon/reference-indexer';
+
+// Timeline resolution - Fork ancestry, override rules and field diffs
+export { timelineAncestry, overriddenEntryIds, diffCanonFields } from './canon/timeline';
+export type { TimelineScopedEntry, CanonFieldSnapshot } from './canon/timeline';
+
+// Relationship graph - Nodes and typed edges across the canon tables
+export {
+  getCanonGraphService,
+  CanonGraphService,
+  buildCanonGraph,
+  findNeighborhood,
+  validateReciprocity,
+  parseRelationships,
+} from './canon/relationship-graph';
+export type { CanonGraphSource } from './canon/relationship-graph';
+
+// Bulk importer - JSON/YAML/CSV world bibles with dry-run previews
+export {
+  getCanonImporter,
+  CanonImporter,
+  parseImportContent,
+  mapImportRecord,
+  MAX_IMPORT_ENTRIES,
+} from './canon/importer';
+export type { CanonImportRecord } from './canon/importer';
+
+// Canon extraction - Review queue for canon proposed from manuscript chapters
+export {
+  getCanonSuggestionService,
+  CanonSuggestionService,
+  parseExtractedCanon,
+  mergeCanonSuggestions,
+  suggestionEntityData,
+} from './canon/extraction';
+
+// Canon search - Hybrid lexical and embedding search
+export {
+  getCanonSearchService,
+  CanonSearchService,
+  buildCanonSearchDocument,
+  combineSearchScores,
+} from './canon/search';
+export type { CanonScoreInput, CanonScoredEntry } from './canon/search';
+
+// Character voice - Speech profiles for dialogue prompts and voice drift checks
+export { buildVoiceProfile, findAttributedDialogue, checkVoiceDrift } from './canon/voice';
+export type { AttributedLine } from './canon/voice';
+
+// Story chronology - In-world dates, event and scene ordering, timeline conflicts
+export {
+  getChronologyService,
+  ChronologyService,
+  GREGORIAN_CALENDAR,
+  isCalendarRule,
+  parseCalendarRule,
+  resolveCalendar,
+  parseStoryDate,
+  parseDuration,
+  buildChronology,
+} from './canon/chronology';
+export type { ChronologyScene, ChronologyReference, ChronologySource } from './canon/chronology';
+
+// Local validator - Deterministic canon checks (also run inside validateAgainstCanon)
+export { validateCanonLocally } from './canon/local-validator';
+
 // Generator - For direct generation in API routes (NOT for Cinema)
-export { getStoryForgeGenerator, StoryForgeGenerator } from './engine/generator';
+export { getStoryForgeGenerator, StoryForgeGenerator, CANON_VALIDATION_MAX_TOKENS } from './engine/generator';
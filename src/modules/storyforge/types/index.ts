@@ -14,6 +14,10 @@ import type {
   Scene,
   Project,
   ConflictResolution,
+  CanonEntityType,
+  CanonSuggestion,
+  CanonConflictStatus,
+  CanonChangeType,
 } from '@/types/database';
 
 // Generation action types
@@ -29,6 +33,7 @@ export type GenerationAction =
 export type GenerationTarget = 'chapter' | 'scene' | 'paragraph' | 'dialogue';
 
 // Canon context for AI generation
+// Each entry records the timeline it comes from (null = main timeline)
 export interface CanonContext {
   characters: CanonCharacterContext[];
   locations: CanonLocationContext[];
@@ -39,16 +44,41 @@ export interface CanonContext {
 
 export interface CanonCharacterContext {
   id: string;
+  canonEntryId: string;
+  timelineId: string | null;
   name: string;
+  aliases: string[];
   description: string | null;
+  appearance: string | null;
   personality: string | null;
   backstory: string | null;
   relationships: unknown;
+  speechPatterns: string | null; // How they talk ("clipped, never uses contractions")
+  vocabularyLevel: string | null; // e.g. 'simple', 'formal', 'archaic'
+  catchphrases: string[];
   locked: boolean;
 }
 
+// Checkable traits derived from a character's speech profile (see canon/voice)
+export interface CharacterVoiceProfile {
+  characterId: string;
+  canonEntryId: string;
+  name: string;
+  speechPatterns: string | null;
+  vocabularyLevel: string | null;
+  catchphrases: string[];
+  noContractions: boolean;
+  noProfanity: boolean;
+  terse: boolean; // Short sentences
+  formal: boolean; // No slang
+  simpleVocabulary: boolean; // Few long words
+  forbiddenPhrases: string[]; // "never says 'okay'"
+}
+
 export interface CanonLocationContext {
   id: string;
+  canonEntryId: string;
+  timelineId: string | null;
   name: string;
   description: string | null;
   atmosphere: string | null;
@@ -57,8 +87,11 @@ export interface CanonLocationContext {
 
 export interface CanonRuleContext {
   id: string;
+  canonEntryId: string;
+  timelineId: string | null;
   name: string;
   description: string | null;
+  category: string | null; // 'calendar' rules define the in-world calendar (see canon/chronology)
   constraints: string[];
   priority: number;
   locked: boolean;
@@ -66,24 +99,340 @@ export interface CanonRuleContext {
 
 export interface CanonEventContext {
   id: string;
+  canonEntryId: string;
+  timelineId: string | null;
   name: string;
   description: string | null;
   storyDate: string | null;
+  relativeOrder: number | null;
+  duration: string | null; // e.g. '3 days'
   consequences: string[];
+  affectedCharacterIds: string[];
+  affectedLocationIds: string[];
+  eventType: string | null; // 'backstory' | 'current' | 'future' | 'alternate'
   locked: boolean;
 }
 
 export interface CanonThemeContext {
   id: string;
+  canonEntryId: string;
+  timelineId: string | null;
   name: string;
   description: string | null;
   howExpressed: string | null;
   locked: boolean;
 }
 
+// Canon context budgeting
+export type CanonContextEntryType = 'character' | 'location' | 'rule' | 'event' | 'theme';
+
+export type CanonSelectionReason =
+  | 'locked'
+  | 'high_priority'
+  | 'emphasized'
+  | 'mentioned'
+  | 'recently_referenced'
+  | 'ranked'
+  | 'over_budget';
+
+export interface CanonSelectionEntry {
+  id: string;
+  canonEntryId: string;
+  type: CanonContextEntryType;
+  name: string;
+  reason: CanonSelectionReason;
+  estimatedTokens: number;
+}
+
+// Which entries made it into the prompt
+export interface CanonContextReport {
+  tokenBudget: number;
+  estimatedTokens: number; // May exceed the budget when required entries alone do
+  included: CanonSelectionEntry[];
+  dropped: CanonSelectionEntry[];
+}
+
+export interface CanonContextSelection extends CanonContextReport {
+  context: CanonContext;
+}
+
+// Where a canon entry is mentioned in the manuscript
+export interface CanonMention {
+  id: string;
+  canonEntryId: string;
+  chapterId: string | null;
+  chapterTitle: string | null;
+  sceneId: string | null;
+  sceneTitle: string | null;
+  contextSnippet: string | null;
+  positionStart: number | null;
+  positionEnd: number | null;
+  createdAt: string;
+}
+
+export interface CanonReferenceIndexResult {
+  success: boolean;
+  referencesWritten: number;
+  entriesUpdated: number; // Entries whose reference_count was recomputed
+  error?: string;
+}
+
+// Timeline diff and merge (a fork compared with its parent timeline)
+export type TimelineChangeKind = 'added' | 'changed' | 'removed';
+
+export interface CanonFieldChange {
+  path: string; // 'name', 'description' or 'data.<key>' (nested keys joined with '.')
+  before?: unknown; // Absent when the field was added
+  after?: unknown; // Absent when the field was removed
+}
+
+export interface TimelineEntryDiff {
+  kind: TimelineChangeKind;
+  entryId: string; // Entry owned by the fork
+  parentEntryId: string | null; // Entry it overrides in the parent timeline
+  entityType: CanonEntityType;
+  name: string;
+  changes: CanonFieldChange[];
+}
+
+export interface TimelineDiff {
+  timelineId: string;
+  parentTimelineId: string;
+  entries: TimelineEntryDiff[];
+}
+
+export interface TimelineMergeResult {
+  success: boolean;
+  merged: Array<{ entryId: string; kind: TimelineChangeKind; targetEntryId: string }>;
+  failed: Array<{ entryId: string; error: string }>;
+}
+
+// Canon version history and point-in-time snapshots (main timeline)
+export interface CanonVersionSummary {
+  version: number;
+  name: string;
+  createdAt: string;
+  changedBy: string | null;
+  changeReason: string | null;
+  changeType: CanonChangeType | null;
+  isActive: boolean; // false for the version that deleted the entry
+}
+
+export interface CanonVersionDiff {
+  canonEntryId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: CanonFieldChange[];
+}
+
+export interface CanonSnapshotEntry {
+  canonEntryId: string;
+  entityType: CanonEntityType;
+  name: string;
+  description: string | null;
+  data: Record<string, unknown>;
+  version: number;
+  versionedAt: string; // When this version was recorded
+}
+
+export interface CanonSnapshot {
+  projectId: string;
+  asOf: string;
+  entries: CanonSnapshotEntry[]; // Entries that existed and were active at asOf
+}
+
+export type CanonRollbackAction = 'restored' | 'reactivated' | 'deactivated';
+
+export interface CanonRollbackResult {
+  success: boolean;
+  asOf: string;
+  changed: Array<{ entryId: string; name: string; action: CanonRollbackAction }>;
+  failed: Array<{ entryId: string; name: string; error: string }>;
+}
+
+// Hybrid canon search (lexical rank + embedding similarity)
+export type CanonSearchMode = 'hybrid' | 'lexical' | 'semantic';
+
+export interface CanonSearchOptions {
+  mode?: CanonSearchMode; // Default 'hybrid'
+  entityTypes?: CanonEntityType[];
+  limit?: number;
+}
+
+export interface CanonSearchHit {
+  entry: CanonEntry;
+  score: number; // Combined score, 0-1
+  lexicalScore: number; // Rank relative to the best lexical match, 0-1
+  semanticScore: number; // Cosine similarity to the query, 0-1
+}
+
+export interface CanonEmbeddingIndexResult {
+  success: boolean;
+  model: string;
+  embedded: number;
+  unchanged: number;
+  error?: string;
+}
+
+// Story chronology (see canon/chronology)
+export interface StoryCalendar {
+  name: string;
+  months: Array<{ name: string; days: number }>;
+  eras: Array<{ name: string; countsBackwards: boolean }>; // e.g. BC counts backwards, AD forwards
+  daysPerYear: number;
+}
+
+export type StoryDatePrecision = 'day' | 'month' | 'year';
+
+export interface StoryDate {
+  day: number; // Days since the start of year 1 (negative before it)
+  precision: StoryDatePrecision;
+  text: string; // As written in canon
+}
+
+export interface ChronologyItem {
+  kind: 'event' | 'scene';
+  id: string; // canon_events.id or scenes.id
+  canonEntryId: string | null; // Events only
+  chapterId: string | null; // Scenes only
+  name: string;
+  storyDate: string | null;
+  date: StoryDate | null;
+  durationDays: number | null;
+  eventType: string | null; // 'backstory' | 'current' | 'future' | 'alternate'
+  characterIds: string[]; // Canon entry ids
+  locationIds: string[]; // Canon entry ids
+  inferred: boolean; // Placed by relative or narrative order rather than a date
+}
+
+export interface ChronologyResult {
+  calendar: StoryCalendar;
+  items: ChronologyItem[]; // Earliest first
+  conflicts: CanonConflict[]; // All of type 'timeline'
+  unparsedDates: Array<{ kind: 'event' | 'scene'; id: string; name: string; storyDate: string }>;
+}
+
+// Canon relationship graph (node ids are canon entry ids)
+export type CanonGraphEdgeType =
+  | 'relationship' // Character to character (canon_characters.relationships)
+  | 'related' // canon_entries.related_entry_ids
+  | 'parent' // canon_entries.parent_id
+  | 'located_in' // Location to parent location
+  | 'affects' // Event to character
+  | 'occurs_at' // Event to location
+  | 'explores'; // Theme to character
+
+export interface CanonGraphNode {
+  id: string;
+  entityType: CanonEntityType;
+  name: string;
+  timelineId: string | null;
+  locked: boolean;
+}
+
+export interface CanonGraphEdge {
+  id: string;
+  type: CanonGraphEdgeType;
+  source: string;
+  target: string;
+  label: string | null; // Relationship type, e.g. 'mentor'
+}
+
+export interface CanonGraphIssue {
+  kind: 'missing_reciprocal' | 'mismatched_reciprocal' | 'dangling_reference';
+  type: CanonGraphEdgeType;
+  source: string;
+  target: string; // Unresolved id for dangling references
+  message: string;
+}
+
+export interface CanonGraph {
+  nodes: CanonGraphNode[];
+  edges: CanonGraphEdge[];
+  issues: CanonGraphIssue[];
+}
+
+// Bulk canon import
+export type CanonImportFormat = 'json' | 'yaml' | 'csv';
+
+export type CanonImportAction = 'create' | 'update' | 'unchanged' | 'skip';
+
+export interface CanonImportOptions {
+  format: CanonImportFormat;
+  defaultEntityType?: CanonEntityType; // For records without an entity_type column/key
+  mapping?: Record<string, string>; // Source column/key -> field name
+  updateExisting?: boolean; // Update entries whose slug already exists (default true)
+  dryRun?: boolean;
+}
+
+export interface CanonImportItem {
+  row: number; // 1-based record number (CSV: line number)
+  action: CanonImportAction;
+  entityType: CanonEntityType | null;
+  name: string | null;
+  slug: string | null;
+  existingEntryId: string | null;
+  changes: CanonFieldChange[];
+  warnings: string[];
+  error?: string;
+}
+
+export interface CanonImportResult {
+  success: boolean;
+  dryRun: boolean;
+  items: CanonImportItem[];
+  summary: Record<CanonImportAction, number> & { errors: number };
+  error?: string;
+}
+
+// AI canon extraction from manuscript chapters
+export type CanonExtractionEntityType = 'character' | 'location' | 'event' | 'rule';
+
+type SuggestedFields<T> = Partial<Omit<T, 'id' | 'canonEntryId' | 'timelineId' | 'locked'>>;
+
+// Proposed fields use the canon context shape of the entity type
+export interface CanonSuggestionFieldsByType {
+  character: SuggestedFields<CanonCharacterContext>;
+  location: SuggestedFields<CanonLocationContext>;
+  event: SuggestedFields<CanonEventContext>;
+  rule: SuggestedFields<CanonRuleContext>;
+}
+
+export interface CanonSuggestionEvidence {
+  chapterId: string;
+  quote: string;
+  position: { start: number; end: number } | null; // null when the quote isn't verbatim in the chapter
+}
+
+export interface CanonSuggestionDraft {
+  kind: 'create' | 'update';
+  entityType: CanonExtractionEntityType;
+  canonEntryId: string | null; // Entry an update applies to
+  name: string;
+  fields: CanonSuggestionFieldsByType[CanonExtractionEntityType];
+  rationale: string | null;
+  evidence: CanonSuggestionEvidence[];
+}
+
+export interface CanonSuggestionReview {
+  success: boolean;
+  suggestion?: CanonSuggestion;
+  canonEntryId?: string; // Entry created or updated on acceptance
+  error?: string;
+}
+
+export interface CanonExtractionResult {
+  success: boolean;
+  suggestions: CanonSuggestionDraft[];
+  tokensUsed: number;
+  model: string;
+  error?: string;
+}
+
 // Generation request
 export interface GenerationRequest {
   projectId: string;
+  timelineId?: string; // Fork to generate in (defaults to the main timeline)
   action: GenerationAction;
   target: GenerationTarget;
   targetId?: string;
@@ -115,11 +464,20 @@ export interface GenerationResponse {
   success: boolean;
   content?: string;
   tokensUsed: number;
+  model?: string; // Model that produced the content
+  canonSelection?: CanonContextReport;
   canonConflicts?: CanonConflict[];
   suggestions?: string[];
   error?: string;
 }
 
+// Streaming generation events (the last event is always complete, cancelled or error)
+export type GenerationStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'complete'; content: string; tokensUsed: number; model: string; canonConflicts?: CanonConflict[] }
+  | { type: 'cancelled'; content: string; tokensUsed: number; model: string }
+  | { type: 'error'; error: string; tokensUsed: number; model: string };
+
 // Canon conflict detection
 export interface CanonConflict {
   id: string;
@@ -136,15 +494,67 @@ export interface CanonConflict {
   };
 }
 
+export interface CanonValidationResult {
+  conflicts: CanonConflict[];
+  tokensUsed: number; // 0 when no model check ran
+}
+
+// A stored conflict in the review queue (position is within the generated text)
+export interface TrackedCanonConflict extends Omit<CanonConflict, 'conflictingCanonId' | 'position'> {
+  conflictingCanonId: string | null; // null when the conflict names no known entry
+  position: { start: number; end: number } | null;
+  status: CanonConflictStatus;
+  generationId: string | null;
+  timelineId: string | null;
+  targetType: string | null; // 'chapter' | 'scene'
+  targetId: string | null;
+  resolution: ConflictResolution | null;
+  resolutionNote: string | null;
+  resolutionTimelineId: string | null; // Fork created by a 'fork_timeline' resolution
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+// Where recorded conflicts came from
+export interface CanonConflictSource {
+  generationId?: string | null;
+  timelineId?: string | null;
+  targetType?: string | null;
+  targetId?: string | null;
+}
+
 // Canon conflict resolution
 export interface ConflictResolutionRequest {
-  conflictId: string;
+  conflictId: string; // canon_conflicts.id
   resolution: ConflictResolution;
+  note?: string; // Kept with the resolution
   // For 'update_canon'
   updatedCanonData?: unknown;
   // For 'fork_timeline'
   timelineName?: string;
   timelineDescription?: string;
+  parentTimelineId?: string; // Timeline being forked (defaults to the main timeline)
+  forkPointEventId?: string; // canon_events.id the fork diverges at
+}
+
+export interface ConflictResolutionResult {
+  success: boolean;
+  conflict?: TrackedCanonConflict;
+  error?: string;
+}
+
+// Canon edits checked against entry locks
+export type CanonEditFailure =
+  | 'not_found'
+  | 'override_required' // Soft-locked: retry with a lock override reason
+  | 'forbidden' // Hard-locked: only the project owner or an admin may change it
+  | 'failed';
+
+export interface CanonEditResult {
+  success: boolean;
+  failure?: CanonEditFailure;
+  error?: string;
 }
 
 // Semantic scene data (for cinema translation)
@@ -159,6 +569,19 @@ export interface SemanticSceneData {
   pacing: 'slow' | 'normal' | 'fast' | 'frenetic';
 }
 
+// A scene as Cinema sees it (see StoryForgeAdapter.loadSceneContext)
+export interface SceneContext {
+  sceneId: string;
+  chapterId: string;
+  title: string | null;
+  content: string;
+  location: string | null;
+  locationId: string | null;
+  timeOfDay: string | null;
+  characterIds: string[];
+  semanticData: SemanticSceneData | null; // Last stored extraction, if any
+}
+
 export interface CharacterState {
   characterId: string;
   emotion: string;
@@ -208,8 +631,11 @@ export interface StoryForgeAdapter {
   // Scene semantic extraction
   extractSemanticData(sceneContent: string, canonContext: CanonContext): Promise<SemanticSceneData>;
 
+  // Scene operations
+  loadSceneContext(projectId: string, sceneId: string): Promise<SceneContext | null>;
+
   // Canon operations
-  loadCanonContext(projectId: string): Promise<CanonContext>;
+  loadCanonContext(projectId: string, timelineId?: string): Promise<CanonContext>;
   validateAgainstCanon(content: string, canonContext: CanonContext): Promise<CanonConflict[]>;
 
   // Generation operations (for authorized consumers only)
@@ -218,19 +644,20 @@ export interface StoryForgeAdapter {
 
 // Engine configuration
 export interface StoryForgeConfig {
-  model: string;
+  model?: string; // Defaults to the LLM provider's model
   maxTokens: number;
   temperature: number;
   topP: number;
   canonEnforcement: 'strict' | 'moderate' | 'relaxed';
+  canonContextTokenBudget: number; // Prompt budget for canon entries
   autoSaveInterval: number;
 }
 
 export const DEFAULT_STORYFORGE_CONFIG: StoryForgeConfig = {
-  model: 'claude-sonnet-4-20250514',
   maxTokens: 4096,
   temperature: 0.8,
   topP: 0.95,
   canonEnforcement: 'strict',
+  canonContextTokenBudget: 6000,
   autoSaveInterval: 30000,
 };
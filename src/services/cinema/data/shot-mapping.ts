@@ -0,0 +1,64 @@
+/**
+ * Shot Mapping
+ * Conversions between shots rows and ShotDefinition
+ */
+
+import type { ShotDefinition } from '../types';
+import type { Shot, ShotUpdate } from '@/types/database';
+
+/**
+ * A saved shot as a ShotDefinition
+ */
+export function shotFromRow(row: Shot): ShotDefinition {
+  return {
+    id: row.id,
+    sceneId: row.scene_id,
+    orderIndex: row.order_index,
+    shotType: row.shot_type,
+    durationSeconds: row.duration_seconds ?? undefined,
+    description: row.description,
+    composition: row.composition ?? undefined,
+    cameraMovement: row.camera_movement ?? undefined,
+    lighting: row.lighting ?? undefined,
+    visualPrompt: row.visual_prompt ?? undefined,
+    promptTemplate: row.prompt_template ?? undefined,
+    characterIds: row.character_ids || [],
+    locationId: row.location_id ?? undefined,
+    mood: row.mood ?? undefined,
+    emotionalBeat: row.emotional_beat ?? undefined,
+    technicalNotes: row.technical_notes ?? undefined,
+    vfxRequired: row.vfx_required,
+    vfxNotes: row.vfx_notes ?? undefined,
+    previewImageUrl: row.preview_image_url ?? undefined,
+    moodBoardUrls: row.mood_board_urls || [],
+    format: row.format,
+    aspectRatio: row.aspect_ratio,
+    status: row.status,
+  };
+}
+
+/**
+ * Generated content of a shot as column updates. Fields the shot doesn't set are cleared;
+ * order, status, previews and edit tracking are left alone.
+ */
+export function shotContentUpdate(shot: ShotDefinition): ShotUpdate {
+  return {
+    shot_type: shot.shotType,
+    duration_seconds: shot.durationSeconds ?? null,
+    description: shot.description,
+    composition: shot.composition ?? null,
+    camera_movement: shot.cameraMovement ?? null,
+    lighting: shot.lighting ?? null,
+    visual_prompt: shot.visualPrompt ?? null,
+    prompt_template: shot.promptTemplate ?? null,
+    character_ids: shot.characterIds,
+    location_id: shot.locationId ?? null,
+    mood: shot.mood ?? null,
+    emotional_beat: shot.emotionalBeat ?? null,
+    technical_notes: shot.technicalNotes ?? null,
+    vfx_required: shot.vfxRequired,
+    vfx_notes: shot.vfxNotes ?? null,
+    format: shot.format,
+    aspect_ratio: shot.aspectRatio,
+  };
+}
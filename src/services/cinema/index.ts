@@ -3,6 +3,8 @@
  *
  * This service handles all cinematic visualization:
  * - Scene to shot translation
+ * - Re-translation that reconciles with saved shots
+ * - Single-shot regeneration and shot version history
  * - Visual prompt generation
  * - Mood board management
  * - Pitch deck generation
@@ -13,6 +15,16 @@ export type {
   ShotDefinition,
   TranslationRequest,
   TranslationResponse,
+  ShotRegenerationResponse,
+  RetranslationMode,
+  ShotChangeAction,
+  ShotChange,
+  ShotChangeSummary,
+  ShotVersionSummary,
+  ShotFieldChange,
+  ShotVersionDiff,
+  ShotChangeResult,
+  ShotRestoreResult,
   VisualStyle,
   ShotPreferences,
   PromptTemplate,
@@ -30,6 +42,27 @@ export { DEFAULT_CINEMA_CONFIG, SHOT_TYPE_INFO } from './types';
 // Scene Translator
 export { getSceneTranslator, SceneTranslator } from './translator/scene-translator';
 
+// Shot Reconciler
+export { reconcileShots, shotMatchScore, protectionReason } from './translator/shot-reconciler';
+export type { ShotSlot, ShotReconciliation } from './translator/shot-reconciler';
+
+// Shot Preferences
+export {
+  applyShotPreferences,
+  resolveShotLocations,
+  normalizeDurations,
+  shotPreferencePrompt,
+  PREFERRED_SHOT_SHARE,
+} from './translator/shot-preferences';
+export type { ShotPreferenceContext, ShotPreferenceResult } from './translator/shot-preferences';
+
+// Shot data
+export { shotFromRow, shotContentUpdate } from './data/shot-mapping';
+
+// Shot Versions
+export { getShotVersionService, ShotVersionService, snapshotShot, diffSnapshots } from './versions/shot-versions';
+export type { ShotSnapshot, ShotSnapshotField } from './versions/shot-versions';
+
 // Prompt Templates
 export {
   buildVisualPrompt,
@@ -4,15 +4,16 @@
  * IMPORTANT: This service ONLY uses the StoryForge public adapter
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm';
 import { getStoryForgeAdapter } from '@/modules/storyforge';
 import { buildVisualPrompt, getTemplatesByFormat, applyTemplate } from '../prompts/templates';
+import { applyShotPreferences, resolveShotLocations, shotPreferencePrompt } from './shot-preferences';
 import type {
   TranslationRequest,
   TranslationResponse,
+  ShotRegenerationResponse,
   ShotDefinition,
   VisualStyle,
-  ShotPreferences,
   DEFAULT_CINEMA_CONFIG,
 } from '../types';
 import type { ShotType, ProductionFormat } from '@/types/database';
@@ -39,6 +40,7 @@ Output your shot list as a JSON array with this structure:
     "mood": "Emotional mood of the shot",
     "durationSeconds": 3.5,
     "characterIds": ["character-id-1"],
+    "locationId": "location-id",
     "technicalNotes": "Any VFX or special requirements"
   }
 ]
@@ -53,13 +55,11 @@ Guidelines:
 - Respect the production format (film vs TV vs animation)`;
 
 export class SceneTranslator {
-  private client: Anthropic;
+  private provider: LLMProvider;
   private storyforgeAdapter = getStoryForgeAdapter();
 
-  constructor() {
-    this.client = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
+  constructor(provider: LLMProvider = getLLMProvider()) {
+    this.provider = provider;
   }
 
   /**
@@ -82,22 +82,16 @@ export class SceneTranslator {
       const prompt = this.buildTranslationPrompt(request, semanticData);
 
       // Generate shot list via AI
-      const response = await this.client.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4096,
+      const completion = await this.provider.complete({
+        maxTokens: 4096,
         temperature: 0.7,
         system: SHOT_GENERATION_SYSTEM,
         messages: [{ role: 'user', content: prompt }],
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type');
-      }
-
       // Parse shot list from response
       const shots = this.parseShotList(
-        content.text,
+        completion.text,
         request.sceneId,
         request.projectId,
         request.format,
@@ -106,7 +100,10 @@ export class SceneTranslator {
       );
 
       // Apply shot preferences
-      const filteredShots = this.applyPreferences(shots, request.shotPreferences);
+      const { shots: filteredShots, warnings } = this.applyPreferences(
+        resolveShotLocations(shots, request.canonContext.locations, request.sceneLocationId),
+        request
+      );
 
       // Generate visual prompts for each shot
       const shotsWithPrompts = filteredShots.map((shot) =>
@@ -116,15 +113,19 @@ export class SceneTranslator {
       return {
         success: true,
         shots: shotsWithPrompts,
-        tokensUsed: response.usage.input_tokens + response.usage.output_tokens,
+        warnings,
+        tokensUsed: completion.usage.inputTokens + completion.usage.outputTokens,
+        model: completion.model,
       };
     } catch (error) {
       console.error('Scene translation error:', error);
       return {
         success: false,
         shots: [],
+        warnings: [],
         error: error instanceof Error ? error.message : 'Translation failed',
         tokensUsed: 0,
+        model: this.provider.defaultModel,
       };
     }
   }
@@ -172,6 +173,8 @@ export class SceneTranslator {
     parts.push(`\n## PRODUCTION FORMAT: ${request.format.toUpperCase()}`);
     parts.push(`Aspect Ratio: ${request.aspectRatio || '16:9'}`);
 
+    parts.push(...shotPreferencePrompt(request.shotPreferences));
+
     // Instructions
     parts.push(`
 ## TASK
@@ -214,6 +217,7 @@ Return ONLY a JSON array of shots. No other text.`);
         mood?: string;
         durationSeconds?: number;
         characterIds?: string[];
+        locationId?: string;
         technicalNotes?: string;
       }>;
 
@@ -229,6 +233,7 @@ Return ONLY a JSON array of shots. No other text.`);
         mood: raw.mood,
         durationSeconds: raw.durationSeconds,
         characterIds: raw.characterIds || [],
+        locationId: raw.locationId,
         technicalNotes: raw.technicalNotes,
         vfxRequired: !!raw.technicalNotes?.toLowerCase().includes('vfx'),
         vfxNotes: raw.technicalNotes?.toLowerCase().includes('vfx') ? raw.technicalNotes : undefined,
@@ -248,38 +253,17 @@ Return ONLY a JSON array of shots. No other text.`);
    */
   private applyPreferences(
     shots: ShotDefinition[],
-    preferences?: ShotPreferences
-  ): ShotDefinition[] {
-    if (!preferences) return shots;
-
-    let filtered = [...shots];
-
-    // Filter by preferred shot types
-    if (preferences.preferredShotTypes?.length) {
-      // Don't remove shots, but we could reorder or weight them
-    }
-
-    // Filter out avoided shot types
-    if (preferences.avoidShotTypes?.length) {
-      filtered = filtered.filter(
-        (s) => !preferences.avoidShotTypes!.includes(s.shotType)
-      );
-    }
-
-    // Limit max shots
-    if (preferences.maxShotsPerScene && filtered.length > preferences.maxShotsPerScene) {
-      filtered = filtered.slice(0, preferences.maxShotsPerScene);
-    }
-
-    // Add establishing shot if requested and not present
-    if (
-      preferences.includeEstablishingShots &&
-      !filtered.some((s) => s.shotType === 'establishing')
-    ) {
-      // This would need scene context to generate properly
-    }
-
-    return filtered;
+    request: TranslationRequest
+  ): { shots: ShotDefinition[]; warnings: string[] } {
+    if (!request.shotPreferences) return { shots, warnings: [] };
+
+    return applyShotPreferences(shots, request.shotPreferences, {
+      sceneId: request.sceneId,
+      sceneLocationId: request.sceneLocationId,
+      locations: request.canonContext.locations,
+      format: request.format,
+      aspectRatio: request.aspectRatio || '16:9',
+    });
   }
 
   /**
@@ -313,52 +297,91 @@ Return ONLY a JSON array of shots. No other text.`);
   }
 
   /**
-   * Regenerate a single shot
+   * Regenerate a single shot, keeping its id, position and references
    */
   async regenerateShot(
     shot: ShotDefinition,
     instructions: string,
-    canonContext: CanonContext
-  ): Promise<ShotDefinition | null> {
+    canonContext: CanonContext,
+    sceneContent?: string,
+    visualStyle?: VisualStyle
+  ): Promise<ShotRegenerationResponse> {
     try {
-      const prompt = `Regenerate this shot with the following instructions:
+      const parts = [
+        `Regenerate this shot with the following instructions:
 ${instructions}
 
 Current shot:
 - Type: ${shot.shotType}
 - Description: ${shot.description}
-- Mood: ${shot.mood || 'not specified'}
+- Composition: ${shot.composition || 'not specified'}
+- Camera Movement: ${shot.cameraMovement || 'not specified'}
+- Lighting: ${shot.lighting || 'not specified'}
+- Mood: ${shot.mood || 'not specified'}`,
+      ];
+
+      if (sceneContent) {
+        parts.push('## SCENE CONTENT\n' + sceneContent);
+      }
 
-Return a single shot object in JSON format.`;
+      const characters = canonContext.characters.filter((char) => shot.characterIds.includes(char.id));
+      if (characters.length > 0) {
+        parts.push('## CHARACTERS IN SHOT');
+        for (const char of characters) {
+          parts.push(`- ${char.name}: ${char.description || 'No description'}`);
+        }
+      }
+
+      const location = canonContext.locations.find((loc) => loc.id === shot.locationId);
+      if (location) {
+        parts.push(`## LOCATION\n- ${location.name}: ${location.description || 'No description'}`);
+      }
 
-      const response = await this.client.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1024,
+      parts.push('Return a single shot object in JSON format.');
+
+      const completion = await this.provider.complete({
+        maxTokens: 1024,
         temperature: 0.8,
         system: SHOT_GENERATION_SYSTEM,
-        messages: [{ role: 'user', content: prompt }],
+        messages: [{ role: 'user', content: parts.join('\n\n') }],
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') return null;
+      const tokensUsed = completion.usage.inputTokens + completion.usage.outputTokens;
 
-      const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) return null;
+      const jsonMatch = completion.text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        return { success: false, shot: null, error: 'No shot found in response', tokensUsed, model: completion.model };
+      }
 
       const rawShot = JSON.parse(jsonMatch[0]);
 
-      return {
-        ...shot,
-        shotType: rawShot.shotType || shot.shotType,
-        description: rawShot.description || shot.description,
-        composition: rawShot.composition,
-        cameraMovement: rawShot.cameraMovement,
-        lighting: rawShot.lighting,
-        mood: rawShot.mood,
-      };
+      const regenerated = this.generateVisualPrompt(
+        {
+          ...shot,
+          shotType: rawShot.shotType || shot.shotType,
+          description: rawShot.description || shot.description,
+          composition: rawShot.composition,
+          cameraMovement: rawShot.cameraMovement,
+          lighting: rawShot.lighting,
+          mood: rawShot.mood,
+          durationSeconds: rawShot.durationSeconds ?? shot.durationSeconds,
+          technicalNotes: rawShot.technicalNotes ?? shot.technicalNotes,
+        },
+        shot.format,
+        shot.aspectRatio,
+        visualStyle
+      );
+
+      return { success: true, shot: regenerated, tokensUsed, model: completion.model };
     } catch (error) {
       console.error('Shot regeneration error:', error);
-      return null;
+      return {
+        success: false,
+        shot: null,
+        error: error instanceof Error ? error.message : 'Regeneration failed',
+        tokensUsed: 0,
+        model: this.provider.defaultModel,
+      };
     }
   }
 }
@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import type { ShotType } from '@/types/database';
+import type { CanonLocationContext } from '@/modules/storyforge';
+import type { ShotDefinition } from '../types';
+import { applyShotPreferences, normalizeDurations, type ShotPreferenceContext } from './shot-preferences';
+
+function location(id: string, name: string, description: string | null, atmosphere: string | null): CanonLocationContext {
+  return { id, canonEntryId: `entry-${id}`, timelineId: null, name, description, atmosphere, locked: true };
+}
+
+const CONTEXT: ShotPreferenceContext = {
+  sceneId: 'scene-1',
+  sceneLocationId: 'harbor',
+  locations: [
+    location('harbor', 'Saltmarsh Harbor', 'a fishing port below the sea wall', 'Salt wind and gull cries'),
+    location('tower', 'Lamp Tower', null, null),
+  ],
+  format: 'film',
+  aspectRatio: '2.39:1',
+};
+
+function shot(id: string, shotType: ShotType, fields: Partial<ShotDefinition> = {}): ShotDefinition {
+  return {
+    id,
+    sceneId: 'scene-1',
+    orderIndex: 0,
+    shotType,
+    description: `Shot ${id}`,
+    characterIds: [],
+    locationId: 'harbor',
+    vfxRequired: false,
+    moodBoardUrls: [],
+    format: 'film',
+    aspectRatio: '2.39:1',
+    status: 'draft',
+    ...fields,
+  };
+}
+
+const SHOTS = [shot('a', 'wide'), shot('b', 'close_up'), shot('c', 'medium'), shot('d', 'close_up')];
+
+function ids(shots: ShotDefinition[]): string[] {
+  return shots.map((s) => s.id);
+}
+
+describe('applyShotPreferences', () => {
+  describe('shot types', () => {
+    it('warns when too few shots use the preferred types', () => {
+      expect(applyShotPreferences(SHOTS, { preferredShotTypes: ['close_up'] }, CONTEXT).warnings).toEqual([]);
+      expect(applyShotPreferences(SHOTS, { preferredShotTypes: ['pov'] }, CONTEXT).warnings).toEqual([
+        'Only 0 of 4 shots use the preferred shot types (pov)',
+      ]);
+    });
+
+    it('drops avoided types and ignores a type that is both preferred and avoided', () => {
+      const result = applyShotPreferences(SHOTS, { preferredShotTypes: ['wide'], avoidShotTypes: ['wide'] }, CONTEXT);
+
+      expect(ids(result.shots)).toEqual(['b', 'c', 'd']);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('keeps preferred shots when trimming to the shot limit', () => {
+      const result = applyShotPreferences(SHOTS, { preferredShotTypes: ['close_up'], maxShotsPerScene: 3 }, CONTEXT);
+
+      expect(ids(result.shots)).toEqual(['a', 'b', 'd']);
+      expect(result.shots.map((s) => s.orderIndex)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('establishing shots', () => {
+    it('opens with an establishing shot of the scene location', () => {
+      const result = applyShotPreferences(SHOTS, { includeEstablishingShots: true, maxShotsPerScene: 4 }, CONTEXT);
+
+      expect(result.shots).toHaveLength(4);
+      expect(result.shots[0]).toMatchObject({
+        shotType: 'establishing',
+        description: 'Establishing shot of Saltmarsh Harbor, a fishing port below the sea wall',
+        mood: 'Salt wind and gull cries',
+        locationId: 'harbor',
+        orderIndex: 0,
+      });
+      expect(ids(result.shots.slice(1))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('leaves a list that already has one alone', () => {
+      const shots = [shot('a', 'medium'), shot('b', 'establishing')];
+
+      expect(applyShotPreferences(shots, { includeEstablishingShots: true }, CONTEXT).shots).toEqual(
+        shots.map((s, index) => ({ ...s, orderIndex: index }))
+      );
+    });
+
+    it('explains why no establishing shot could be added', () => {
+      const noLocation = { ...CONTEXT, sceneLocationId: undefined };
+      const unplaced = [shot('a', 'medium', { locationId: undefined })];
+
+      expect(applyShotPreferences(unplaced, { includeEstablishingShots: true }, noLocation).warnings).toEqual([
+        'The scene has no canon location, so no establishing shot was added',
+      ]);
+      expect(
+        applyShotPreferences(SHOTS, { includeEstablishingShots: true, avoidShotTypes: ['establishing'] }, CONTEXT).warnings
+      ).toEqual(['Establishing shots are in the avoided shot types, so none was added']);
+      expect(applyShotPreferences(SHOTS, { includeEstablishingShots: true, maxShotsPerScene: 1 }, CONTEXT).warnings).toEqual([
+        'maxShotsPerScene leaves no room for an establishing shot',
+      ]);
+    });
+  });
+
+  describe('transitions', () => {
+    const moving = [
+      shot('a', 'wide'),
+      shot('b', 'medium'),
+      shot('c', 'medium', { locationId: 'tower' }),
+      shot('d', 'close_up', { locationId: 'tower' }),
+    ];
+
+    it('adds a transition shot where the location changes', () => {
+      const result = applyShotPreferences(moving, { includeTransitions: true }, CONTEXT);
+
+      expect(result.shots).toHaveLength(5);
+      expect(result.shots[2]).toMatchObject({
+        shotType: 'establishing',
+        description: 'Transition from Saltmarsh Harbor to Lamp Tower: Lamp Tower',
+        locationId: 'tower',
+        technicalNotes: 'Transition between locations',
+      });
+      expect(ids([...result.shots.slice(0, 2), ...result.shots.slice(3)])).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('uses a wide shot when establishing shots are avoided', () => {
+      const result = applyShotPreferences(moving, { includeTransitions: true, avoidShotTypes: ['establishing'] }, CONTEXT);
+
+      expect(result.shots[2].shotType).toBe('wide');
+    });
+
+    it('does not add one before a shot that establishes the new location', () => {
+      const shots = [shot('a', 'wide'), shot('b', 'establishing', { locationId: 'tower' })];
+
+      expect(ids(applyShotPreferences(shots, { includeTransitions: true }, CONTEXT).shots)).toEqual(['a', 'b']);
+    });
+
+    it('counts transitions against the shot limit', () => {
+      const result = applyShotPreferences(moving, { includeTransitions: true, maxShotsPerScene: 4 }, CONTEXT);
+
+      expect(result.shots).toHaveLength(4);
+      expect(result.shots.filter((s) => s.technicalNotes === 'Transition between locations')).toHaveLength(1);
+    });
+  });
+
+  describe('an empty shot list', () => {
+    it('stays empty without preferences that add shots', () => {
+      expect(applyShotPreferences([], { preferredShotTypes: ['close_up'], averageShotDuration: 4 }, CONTEXT)).toEqual({
+        shots: [],
+        warnings: [],
+      });
+    });
+
+    it('gets only the establishing shot', () => {
+      const result = applyShotPreferences(
+        [],
+        { includeEstablishingShots: true, includeTransitions: true, preferredShotTypes: ['close_up'], averageShotDuration: 4 },
+        CONTEXT
+      );
+
+      expect(result.shots.map((s) => [s.shotType, s.durationSeconds])).toEqual([['establishing', 4]]);
+      expect(result.warnings).toEqual([]);
+    });
+  });
+});
+
+describe('normalizeDurations', () => {
+  const durations = (values: Array<number | undefined>, target: number) =>
+    normalizeDurations(
+      values.map((durationSeconds, index) => shot(`s${index}`, 'medium', { durationSeconds })),
+      target
+    ).map((s) => s.durationSeconds);
+
+  it('scales durations to the target average and fills in missing ones', () => {
+    expect(durations([10, 2], 3)).toEqual([5, 1]);
+    expect(durations([4, 2, undefined], 3)).toEqual([4, 2, 3]);
+  });
+
+  it('rounds to half seconds and gives the drift to the longest shot', () => {
+    expect(durations([1, 1, 1], 2.2)).toEqual([2.5, 2, 2]);
+  });
+
+  it('never shortens a shot below a second', () => {
+    expect(durations([30, 1, 1], 2)).toEqual([4, 1, 1]);
+  });
+
+  it('leaves an empty list or a non-positive target alone', () => {
+    expect(normalizeDurations([], 3)).toEqual([]);
+    expect(durations([4, 2], 0)).toEqual([4, 2]);
+  });
+});
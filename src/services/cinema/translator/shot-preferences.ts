@@ -0,0 +1,281 @@
+/**
+ * Shot Preferences
+ * Enforces a writer's ShotPreferences on a generated shot list
+ *
+ * Preferred and avoided shot types are asked for in the prompt and checked afterwards.
+ * A missing establishing shot is built from the scene's canon location, a transition
+ * shot is added wherever the shot list moves to another location, and durations are
+ * scaled to the target average. When the list is over maxShotsPerScene, shots of
+ * non-preferred types are dropped first and added shots are kept.
+ */
+
+import type { ShotDefinition, ShotPreferences } from '../types';
+import type { ProductionFormat, ShotType } from '@/types/database';
+import type { CanonLocationContext } from '@/modules/storyforge';
+import { generateId } from '@/lib/utils';
+
+// Share of generated shots that should use the preferred types
+export const PREFERRED_SHOT_SHARE = 0.5;
+
+// Durations are rounded to half seconds and never go below this
+const MIN_SHOT_DURATION = 1;
+
+export interface ShotPreferenceContext {
+  sceneId: string;
+  sceneLocationId?: string;
+  locations: CanonLocationContext[];
+  format: ProductionFormat;
+  aspectRatio: string;
+}
+
+export interface ShotPreferenceResult {
+  shots: ShotDefinition[];
+  warnings: string[]; // Preferences that could not be met
+}
+
+/**
+ * Prompt lines asking for the preferences, or an empty list if there are none
+ */
+export function shotPreferencePrompt(preferences?: ShotPreferences): string[] {
+  if (!preferences) return [];
+
+  const lines: string[] = [];
+  if (preferences.preferredShotTypes?.length) {
+    lines.push(
+      `- Favour these shot types: ${preferences.preferredShotTypes.join(', ')}. ` +
+        `Use them for at least ${Math.round(PREFERRED_SHOT_SHARE * 100)}% of the shots.`
+    );
+  }
+  if (preferences.avoidShotTypes?.length) {
+    lines.push(`- Do not use these shot types: ${preferences.avoidShotTypes.join(', ')}.`);
+  }
+  if (preferences.averageShotDuration) {
+    lines.push(`- Aim for an average shot length of ${preferences.averageShotDuration} seconds.`);
+  }
+  if (preferences.maxShotsPerScene) {
+    lines.push(`- Use no more than ${preferences.maxShotsPerScene} shots.`);
+  }
+  if (preferences.includeEstablishingShots) {
+    lines.push('- Open with an establishing shot of the location.');
+  }
+  if (preferences.includeTransitions) {
+    lines.push('- When the scene moves to another location, mark the move with a transition shot.');
+  }
+
+  return lines.length > 0 ? ['\n## SHOT PREFERENCES', ...lines] : [];
+}
+
+/**
+ * Set each shot's location to a canon location. Shots without a known location
+ * stay where the previous shot was, starting from the scene's location.
+ */
+export function resolveShotLocations(
+  shots: ShotDefinition[],
+  locations: CanonLocationContext[],
+  sceneLocationId?: string
+): ShotDefinition[] {
+  const known = new Set(locations.map((location) => location.id));
+  let current = sceneLocationId && known.has(sceneLocationId) ? sceneLocationId : undefined;
+
+  return shots.map((shot) => {
+    if (shot.locationId && known.has(shot.locationId)) {
+      current = shot.locationId;
+      return shot;
+    }
+    return { ...shot, locationId: current };
+  });
+}
+
+/**
+ * Apply preferences to a shot list whose locations have been resolved
+ */
+export function applyShotPreferences(
+  shots: ShotDefinition[],
+  preferences: ShotPreferences,
+  context: ShotPreferenceContext
+): ShotPreferenceResult {
+  const warnings: string[] = [];
+  const avoided = new Set(preferences.avoidShotTypes || []);
+  const preferred = new Set((preferences.preferredShotTypes || []).filter((type) => !avoided.has(type)));
+  const max = preferences.maxShotsPerScene;
+
+  let result = shots.filter((shot) => !avoided.has(shot.shotType));
+
+  // Establishing shot, unless the list already has one or there's no room beside it
+  let establishing: ShotDefinition | null = null;
+  if (preferences.includeEstablishingShots && !result.some((shot) => shot.shotType === 'establishing')) {
+    const location = findLocation(context.sceneLocationId ?? result[0]?.locationId, context.locations);
+
+    if (avoided.has('establishing')) {
+      warnings.push('Establishing shots are in the avoided shot types, so none was added');
+    } else if (!location) {
+      warnings.push('The scene has no canon location, so no establishing shot was added');
+    } else if (max !== undefined && max < 2) {
+      warnings.push('maxShotsPerScene leaves no room for an establishing shot');
+    } else {
+      establishing = buildEstablishingShot(location, context, result[0]);
+    }
+  }
+
+  // Make room for the added shots, dropping non-preferred shots first
+  if (max) {
+    const reserved = establishing ? 1 : 0;
+    result = trimShots(result, max - reserved, preferred);
+    if (preferences.includeTransitions) {
+      while (result.length > 1 && result.length + reserved + locationChanges(result).length > max) {
+        result = trimShots(result, result.length - 1, preferred);
+      }
+    }
+  }
+
+  if (preferences.includeTransitions) {
+    const transitionType: ShotType = avoided.has('establishing') ? 'wide' : 'establishing';
+    result = insertTransitions(result, context, transitionType);
+  }
+
+  if (establishing) result = [establishing, ...result];
+
+  // Check the generated shots against the preferred types
+  if (preferred.size > 0) {
+    const generated = result.filter((shot) => shots.includes(shot));
+    const matching = generated.filter((shot) => preferred.has(shot.shotType)).length;
+    if (generated.length > 0 && matching / generated.length < PREFERRED_SHOT_SHARE) {
+      warnings.push(
+        `Only ${matching} of ${generated.length} shots use the preferred shot types (${Array.from(preferred).join(', ')})`
+      );
+    }
+  }
+
+  if (preferences.averageShotDuration) {
+    result = normalizeDurations(result, preferences.averageShotDuration);
+  }
+
+  return { shots: result.map((shot, index) => ({ ...shot, orderIndex: index })), warnings };
+}
+
+/**
+ * Scale shot durations so they average the target. Shots without a duration get the target first.
+ */
+export function normalizeDurations(shots: ShotDefinition[], target: number): ShotDefinition[] {
+  if (shots.length === 0 || target <= 0) return shots;
+
+  const durations = shots.map((shot) => (shot.durationSeconds && shot.durationSeconds > 0 ? shot.durationSeconds : target));
+  const total = target * shots.length;
+  const scale = total / durations.reduce((sum, duration) => sum + duration, 0);
+  const scaled = durations.map((duration) => Math.max(MIN_SHOT_DURATION, roundToHalf(duration * scale)));
+
+  // Rounding drift goes to the longest shot
+  const drift = total - scaled.reduce((sum, duration) => sum + duration, 0);
+  const longest = scaled.indexOf(Math.max(...scaled));
+  scaled[longest] = Math.max(MIN_SHOT_DURATION, roundToHalf(scaled[longest] + drift));
+
+  return shots.map((shot, index) => ({ ...shot, durationSeconds: scaled[index] }));
+}
+
+/**
+ * Keep at most limit shots in order, dropping non-preferred shots first and later shots before earlier ones
+ */
+function trimShots(shots: ShotDefinition[], limit: number, preferred: Set<ShotType>): ShotDefinition[] {
+  if (shots.length <= limit) return shots;
+
+  const dropped = new Set(
+    shots
+      .map((shot, index) => ({ shot, index }))
+      .sort((a, b) => Number(preferred.has(a.shot.shotType)) - Number(preferred.has(b.shot.shotType)) || b.index - a.index)
+      .slice(0, shots.length - Math.max(0, limit))
+      .map(({ shot }) => shot.id)
+  );
+
+  return shots.filter((shot) => !dropped.has(shot.id));
+}
+
+/**
+ * Indexes of shots that open at a new location (and don't establish it themselves)
+ */
+function locationChanges(shots: ShotDefinition[]): number[] {
+  const changes: number[] = [];
+  for (let i = 1; i < shots.length; i++) {
+    const from = shots[i - 1].locationId;
+    const to = shots[i].locationId;
+    if (from && to && from !== to && shots[i].shotType !== 'establishing') {
+      changes.push(i);
+    }
+  }
+  return changes;
+}
+
+function insertTransitions(
+  shots: ShotDefinition[],
+  context: ShotPreferenceContext,
+  shotType: ShotType
+): ShotDefinition[] {
+  const changes = new Set(locationChanges(shots));
+  const result: ShotDefinition[] = [];
+
+  shots.forEach((shot, index) => {
+    if (changes.has(index)) {
+      const from = findLocation(shots[index - 1].locationId, context.locations);
+      const to = findLocation(shot.locationId, context.locations);
+      if (from && to) {
+        result.push(
+          newShot(context, {
+            shotType,
+            description: `Transition from ${from.name} to ${to.name}: ${describeLocation(to)}`,
+            composition: `Wide view that moves the story to ${to.name}`,
+            mood: to.atmosphere ?? shot.mood,
+            locationId: to.id,
+            technicalNotes: 'Transition between locations',
+          })
+        );
+      }
+    }
+    result.push(shot);
+  });
+
+  return result;
+}
+
+function buildEstablishingShot(
+  location: CanonLocationContext,
+  context: ShotPreferenceContext,
+  firstShot?: ShotDefinition
+): ShotDefinition {
+  return newShot(context, {
+    shotType: 'establishing',
+    description: `Establishing shot of ${describeLocation(location)}`,
+    composition: `Wide framing that sets up ${location.name} and its surroundings`,
+    lighting: firstShot?.lighting,
+    mood: location.atmosphere ?? firstShot?.mood,
+    locationId: location.id,
+  });
+}
+
+function newShot(
+  context: ShotPreferenceContext,
+  fields: Pick<ShotDefinition, 'shotType' | 'description'> & Partial<ShotDefinition>
+): ShotDefinition {
+  return {
+    id: generateId(),
+    sceneId: context.sceneId,
+    orderIndex: 0,
+    characterIds: [],
+    vfxRequired: false,
+    moodBoardUrls: [],
+    format: context.format,
+    aspectRatio: context.aspectRatio,
+    status: 'draft',
+    ...fields,
+  };
+}
+
+function findLocation(id: string | undefined, locations: CanonLocationContext[]): CanonLocationContext | null {
+  return (id && locations.find((location) => location.id === id)) || null;
+}
+
+function describeLocation(location: CanonLocationContext): string {
+  return location.description ? `${location.name}, ${location.description}` : location.name;
+}
+
+function roundToHalf(value: number): number {
+  return Math.round(value * 2) / 2;
+}
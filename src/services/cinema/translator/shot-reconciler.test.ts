@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import type { Shot, ShotType } from '@/types/database';
+import type { ShotDefinition } from '../types';
+import { protectionReason, reconcileShots, shotMatchScore } from './shot-reconciler';
+
+function savedShot(id: string, orderIndex: number, shotType: ShotType, description: string, fields: Partial<Shot> = {}): Shot {
+  return {
+    id,
+    scene_id: 'scene-1',
+    project_id: 'project-1',
+    order_index: orderIndex,
+    shot_type: shotType,
+    duration_seconds: null,
+    description,
+    composition: null,
+    camera_movement: null,
+    lighting: null,
+    visual_prompt: null,
+    prompt_template: null,
+    character_ids: [],
+    location_id: null,
+    mood: null,
+    emotional_beat: null,
+    technical_notes: null,
+    vfx_required: false,
+    vfx_notes: null,
+    preview_image_url: null,
+    mood_board_urls: [],
+    format: 'film',
+    aspect_ratio: '2.39:1',
+    status: 'draft',
+    edited_at: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...fields,
+  };
+}
+
+function newShot(id: string, orderIndex: number, shotType: ShotType, description: string): ShotDefinition {
+  return {
+    id,
+    sceneId: 'scene-1',
+    orderIndex,
+    shotType,
+    description,
+    characterIds: [],
+    vfxRequired: false,
+    moodBoardUrls: [],
+    format: 'film',
+    aspectRatio: '2.39:1',
+    status: 'draft',
+  };
+}
+
+const SAVED = [
+  savedShot('harbor', 0, 'establishing', 'Wide view of the harbor at dawn'),
+  savedShot('stall', 1, 'medium', 'Elena mends a clock at her market stall', { edited_at: '2026-02-01T00:00:00Z' }),
+  savedShot('hands', 2, 'close_up', 'Close on the clock hands ticking', { status: 'final' }),
+  savedShot('gulls', 3, 'medium', 'Gulls wheel over the fishing boats'),
+];
+
+const GENERATED = [
+  newShot('new-harbor', 0, 'establishing', 'Wide view of the harbor at first light'),
+  newShot('new-stall', 1, 'medium', 'Elena mends a clock at her stall in the market'),
+  newShot('new-hands', 2, 'close_up', 'Close on the clock hands ticking'),
+  newShot('new-rain', 3, 'tracking', 'Elena runs through the rain to the tower'),
+];
+
+describe('protectionReason', () => {
+  it('protects final and hand-edited shots only', () => {
+    expect(protectionReason({ status: 'final', edited_at: null })).toBe('Marked final');
+    expect(protectionReason({ status: 'draft', edited_at: '2026-02-01T00:00:00Z' })).toBe('Edited by hand');
+    expect(protectionReason({ status: 'review', edited_at: null })).toBeNull();
+  });
+});
+
+describe('shotMatchScore', () => {
+  it('scores an identical shot at the same position as a full match', () => {
+    expect(shotMatchScore(SAVED[2], 0.5, GENERATED[2], 0.5)).toBeCloseTo(1);
+  });
+
+  it('weighs description over position and shot type', () => {
+    const reworded = shotMatchScore(SAVED[0], 0, GENERATED[0], 0);
+    const moved = shotMatchScore(SAVED[0], 0, GENERATED[0], 1);
+    const unrelated = shotMatchScore(SAVED[3], 1, GENERATED[3], 1);
+
+    expect(reworded).toBeGreaterThan(moved);
+    expect(moved).toBeGreaterThan(unrelated);
+    expect(unrelated).toBeLessThan(0.45);
+  });
+});
+
+describe('reconcileShots', () => {
+  it('updates matches in place, keeps protected shots and removes unmatched ones', () => {
+    const plan = reconcileShots(SAVED, GENERATED, 'reconcile');
+
+    expect(plan.order).toEqual([
+      { existingId: 'harbor' },
+      { existingId: 'stall' },
+      { existingId: 'hands' },
+      { shot: GENERATED[3] },
+    ]);
+    expect(plan.updates).toEqual([{ existingId: 'harbor', shot: GENERATED[0] }]);
+    expect(plan.inserts).toEqual([GENERATED[3]]);
+    expect(plan.removals).toEqual(['gulls']);
+    expect(plan.summary).toMatchObject({ mode: 'reconcile', added: 1, updated: 1, unchanged: 0, kept: 2, removed: 1 });
+    expect(plan.summary.changes.map((change) => [change.shotId, change.action, change.reason])).toEqual([
+      ['harbor', 'updated', undefined],
+      ['stall', 'kept', 'Edited by hand'],
+      ['hands', 'kept', 'Marked final'],
+      ['new-rain', 'added', undefined],
+      ['gulls', 'removed', undefined],
+    ]);
+  });
+
+  it('keeps the saved text of a protected shot', () => {
+    const plan = reconcileShots(SAVED, GENERATED, 'reconcile');
+    const stall = plan.summary.changes.find((change) => change.shotId === 'stall');
+
+    expect(stall?.description).toBe('Elena mends a clock at her market stall');
+    expect(plan.updates.some((update) => update.existingId === 'stall')).toBe(false);
+  });
+
+  it('keeps an unmatched protected shot after the shot it followed', () => {
+    const saved = [...SAVED.slice(0, 3), { ...SAVED[3], edited_at: '2026-02-01T00:00:00Z' }];
+
+    const plan = reconcileShots(saved, GENERATED.slice(0, 2), 'reconcile');
+
+    expect(plan.order).toEqual([
+      { existingId: 'harbor' },
+      { existingId: 'stall' },
+      { existingId: 'hands' },
+      { existingId: 'gulls' },
+    ]);
+    expect(plan.removals).toEqual([]);
+  });
+
+  it('leaves matching shots with unchanged content out of the updates', () => {
+    const generated = SAVED.map((shot, index) => newShot(`new-${shot.id}`, index, shot.shot_type, shot.description));
+
+    const plan = reconcileShots(SAVED, generated, 'reconcile');
+
+    expect(plan.updates).toEqual([]);
+    expect(plan.inserts).toEqual([]);
+    expect(plan.removals).toEqual([]);
+    expect(plan.summary).toMatchObject({ unchanged: 2, kept: 2 });
+  });
+
+  it('replaces every shot, protected or not, in replace mode', () => {
+    const plan = reconcileShots(SAVED, GENERATED, 'replace');
+
+    expect(plan.removals).toEqual(['harbor', 'stall', 'hands', 'gulls']);
+    expect(plan.inserts).toEqual(GENERATED);
+    expect(plan.summary).toMatchObject({ added: 4, removed: 4, kept: 0 });
+  });
+
+  it('adds the new shots after the saved ones in append mode', () => {
+    const plan = reconcileShots(SAVED, GENERATED, 'append');
+
+    expect(plan.order.slice(0, 4)).toEqual(SAVED.map((shot) => ({ existingId: shot.id })));
+    expect(plan.inserts).toEqual(GENERATED);
+    expect(plan.removals).toEqual([]);
+    expect(plan.summary).toMatchObject({ added: 4, unchanged: 4 });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Shot Reconciler
+ * Plans how a fresh shot list for a scene replaces, extends or merges with its saved shots
+ *
+ * Reconcile matches each new shot to a saved one by description, position and shot type.
+ * Saved shots a writer has edited (edited_at) or marked final are never touched: a match
+ * keeps the saved shot and drops the new one. Other matched shots take the new content,
+ * unmatched new shots are added, and unmatched untouched shots are removed.
+ */
+
+import type { ShotDefinition, RetranslationMode, ShotChange, ShotChangeSummary } from '../types';
+import type { Shot } from '@/types/database';
+
+// Share of the match score from description overlap, position and shot type
+const DESCRIPTION_WEIGHT = 0.6;
+const POSITION_WEIGHT = 0.3;
+const SHOT_TYPE_WEIGHT = 0.1;
+
+// Score a pair needs to count as the same shot
+const MATCH_THRESHOLD = 0.45;
+
+export type ShotSlot = { existingId: string } | { shot: ShotDefinition };
+
+export interface ShotReconciliation {
+  order: ShotSlot[]; // Final shot order
+  inserts: ShotDefinition[];
+  updates: Array<{ existingId: string; shot: ShotDefinition }>;
+  removals: string[];
+  summary: ShotChangeSummary;
+}
+
+/**
+ * Why a saved shot must be kept as it is, or null if re-translation may change it
+ */
+export function protectionReason(shot: Pick<Shot, 'edited_at' | 'status'>): string | null {
+  if (shot.status === 'final') return 'Marked final';
+  if (shot.edited_at) return 'Edited by hand';
+  return null;
+}
+
+/**
+ * How alike a saved shot and a new one are (0-1)
+ */
+export function shotMatchScore(
+  existing: Pick<Shot, 'description' | 'shot_type'>,
+  existingPosition: number,
+  shot: Pick<ShotDefinition, 'description' | 'shotType'>,
+  position: number
+): number {
+  const a = descriptionWords(existing.description);
+  const b = descriptionWords(shot.description);
+  const shared = Array.from(a).filter((word) => b.has(word)).length;
+  const union = a.size + b.size - shared;
+  const description = union > 0 ? shared / union : 0;
+
+  const positionScore = 1 - Math.min(1, Math.abs(existingPosition - position));
+  const typeScore = existing.shot_type === shot.shotType ? 1 : 0;
+
+  return DESCRIPTION_WEIGHT * description + POSITION_WEIGHT * positionScore + SHOT_TYPE_WEIGHT * typeScore;
+}
+
+/**
+ * Plan a re-translation. existing must be in order_index order.
+ */
+export function reconcileShots(
+  existing: Shot[],
+  generated: ShotDefinition[],
+  mode: RetranslationMode
+): ShotReconciliation {
+  if (mode === 'replace') {
+    return finish(mode, existing, generated.map((shot) => ({ shot })), [], existing.map((shot) => shot.id), new Map());
+  }
+
+  if (mode === 'append') {
+    const order: ShotSlot[] = [
+      ...existing.map((shot) => ({ existingId: shot.id })),
+      ...generated.map((shot) => ({ shot })),
+    ];
+    return finish(mode, existing, order, [], [], new Map());
+  }
+
+  // Best-scoring pairs first; each shot matches at most once
+  const candidates: Array<{ existingIndex: number; generatedIndex: number; score: number }> = [];
+  existing.forEach((saved, i) => {
+    generated.forEach((shot, j) => {
+      const score = shotMatchScore(saved, relativePosition(i, existing.length), shot, relativePosition(j, generated.length));
+      if (score >= MATCH_THRESHOLD) candidates.push({ existingIndex: i, generatedIndex: j, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score || a.existingIndex - b.existingIndex || a.generatedIndex - b.generatedIndex);
+
+  const matchOfGenerated = new Map<number, number>();
+  const matchedExisting = new Set<number>();
+  for (const candidate of candidates) {
+    if (matchOfGenerated.has(candidate.generatedIndex) || matchedExisting.has(candidate.existingIndex)) continue;
+    matchOfGenerated.set(candidate.generatedIndex, candidate.existingIndex);
+    matchedExisting.add(candidate.existingIndex);
+  }
+
+  const order: ShotSlot[] = [];
+  const updates: ShotReconciliation['updates'] = [];
+  const removals: string[] = [];
+  const protectedReasons = new Map<string, string>();
+
+  generated.forEach((shot, j) => {
+    const match = matchOfGenerated.get(j);
+    if (match === undefined) {
+      order.push({ shot });
+      return;
+    }
+
+    const saved = existing[match];
+    const reason = protectionReason(saved);
+    if (reason) {
+      protectedReasons.set(saved.id, reason);
+    } else {
+      updates.push({ existingId: saved.id, shot });
+    }
+    order.push({ existingId: saved.id });
+  });
+
+  // Unmatched shots: protected ones stay after the saved shot they used to follow
+  existing.forEach((saved, i) => {
+    if (matchedExisting.has(i)) return;
+
+    const reason = protectionReason(saved);
+    if (!reason) {
+      removals.push(saved.id);
+      return;
+    }
+
+    protectedReasons.set(saved.id, reason);
+    const previousIds = new Set(existing.slice(0, i).map((shot) => shot.id));
+    let index = 0;
+    order.forEach((slot, position) => {
+      if ('existingId' in slot && previousIds.has(slot.existingId)) index = position + 1;
+    });
+    order.splice(index, 0, { existingId: saved.id });
+  });
+
+  return finish(mode, existing, order, updates, removals, protectedReasons);
+}
+
+function finish(
+  mode: RetranslationMode,
+  existing: Shot[],
+  order: ShotSlot[],
+  updates: ShotReconciliation['updates'],
+  removals: string[],
+  protectedReasons: Map<string, string>
+): ShotReconciliation {
+  const savedById = new Map(existing.map((shot) => [shot.id, shot]));
+  const updatesById = new Map(updates.map((update) => [update.existingId, update.shot]));
+  const changes: ShotChange[] = [];
+
+  order.forEach((slot, orderIndex) => {
+    if ('shot' in slot) {
+      changes.push({
+        action: 'added',
+        shotId: slot.shot.id,
+        orderIndex,
+        previousOrderIndex: null,
+        description: slot.shot.description,
+      });
+      return;
+    }
+
+    const saved = savedById.get(slot.existingId)!;
+    const update = updatesById.get(saved.id);
+    const reason = protectedReasons.get(saved.id);
+
+    changes.push({
+      action: reason ? 'kept' : update && contentChanged(saved, update) ? 'updated' : 'unchanged',
+      shotId: saved.id,
+      orderIndex,
+      previousOrderIndex: saved.order_index,
+      description: update && !reason ? update.description : saved.description,
+      reason: reason ?? undefined,
+    });
+  });
+
+  for (const id of removals) {
+    const saved = savedById.get(id)!;
+    changes.push({
+      action: 'removed',
+      shotId: id,
+      orderIndex: null,
+      previousOrderIndex: saved.order_index,
+      description: saved.description,
+    });
+  }
+
+  const count = (action: ShotChange['action']) => changes.filter((change) => change.action === action).length;
+
+  return {
+    order,
+    inserts: order.flatMap((slot) => ('shot' in slot ? [slot.shot] : [])),
+    updates: updates.filter((update) => contentChanged(savedById.get(update.existingId)!, update.shot)),
+    removals,
+    summary: {
+      mode,
+      added: count('added'),
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      kept: count('kept'),
+      removed: count('removed'),
+      changes,
+    },
+  };
+}
+
+function contentChanged(saved: Shot, shot: ShotDefinition): boolean {
+  return (
+    saved.shot_type !== shot.shotType ||
+    saved.description !== shot.description ||
+    (saved.composition ?? undefined) !== shot.composition ||
+    (saved.camera_movement ?? undefined) !== shot.cameraMovement ||
+    (saved.lighting ?? undefined) !== shot.lighting ||
+    (saved.mood ?? undefined) !== shot.mood ||
+    (saved.visual_prompt ?? undefined) !== shot.visualPrompt ||
+    (saved.duration_seconds ?? undefined) !== shot.durationSeconds
+  );
+}
+
+// Position as a fraction of the list, so lists of different lengths line up
+function relativePosition(index: number, length: number): number {
+  return length > 1 ? index / (length - 1) : 0;
+}
+
+function descriptionWords(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z0-9']+/g) || []).filter((word) => word.length > 2));
+}
@@ -3,7 +3,7 @@
  * Type definitions for cinematic visualization
  */
 
-import type { ShotType, ProductionFormat, ContentStatus } from '@/types/database';
+import type { ShotType, ProductionFormat, ContentStatus, Shot, ShotChangeType } from '@/types/database';
 import type { SemanticSceneData, CanonContext } from '@/modules/storyforge';
 
 // Shot definition
@@ -55,6 +55,7 @@ export interface TranslationRequest {
   sceneContent: string;
   semanticData: SemanticSceneData;
   canonContext: CanonContext;
+  sceneLocationId?: string; // Canon location the scene is set in
 
   // Format options
   format: ProductionFormat;
@@ -69,10 +70,78 @@ export interface TranslationRequest {
 export interface TranslationResponse {
   success: boolean;
   shots: ShotDefinition[];
+  warnings: string[]; // Shot preferences that could not be met
   error?: string;
   tokensUsed: number;
+  model?: string; // Model that produced the shot list
 }
 
+// Single-shot regeneration response
+export interface ShotRegenerationResponse {
+  success: boolean;
+  shot: ShotDefinition | null;
+  error?: string;
+  tokensUsed: number;
+  model?: string;
+}
+
+// How re-translating a scene treats its existing shots
+// - replace: delete them and save the new list
+// - append: add the new list after them
+// - reconcile: match new shots to existing ones, keeping edited and final shots
+export type RetranslationMode = 'replace' | 'append' | 'reconcile';
+
+export type ShotChangeAction = 'added' | 'updated' | 'unchanged' | 'kept' | 'removed';
+
+export interface ShotChange {
+  action: ShotChangeAction;
+  shotId: string;
+  orderIndex: number | null; // null for removed shots
+  previousOrderIndex: number | null; // null for added shots
+  description: string;
+  reason?: string; // Why a kept shot was left alone
+}
+
+export interface ShotChangeSummary {
+  mode: RetranslationMode;
+  added: number;
+  updated: number;
+  unchanged: number;
+  kept: number;
+  removed: number;
+  changes: ShotChange[];
+}
+
+// Shot version history
+export interface ShotVersionSummary {
+  version: number;
+  description: string;
+  createdAt: string;
+  changedBy: string | null;
+  changeReason: string | null;
+  changeType: ShotChangeType;
+}
+
+export interface ShotFieldChange {
+  field: string; // Shot column, e.g. 'description' or 'visual_prompt'
+  before: unknown;
+  after: unknown;
+}
+
+export interface ShotVersionDiff {
+  shotId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: ShotFieldChange[];
+}
+
+export interface ShotChangeResult {
+  shot: Shot;
+  version: number | null; // null when the versioned content didn't change
+}
+
+export type ShotRestoreResult = ShotChangeResult;
+
 // Visual style configuration
 export interface VisualStyle {
   colorPalette?: string;
@@ -0,0 +1,174 @@
+/**
+ * Shot Versions
+ * History of shots, which are otherwise changed in place
+ *
+ * Each version is a full snapshot of a shot after a change. A shot gets no version when
+ * it is first translated; its first change records the prior state as version 1, so
+ * every change can be compared with (and undone to) what came before. Versions are
+ * numbered by the database in the transaction that changes the shot.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { Json, Shot, ShotChangeType, ShotUpdate } from '@/types/database';
+import type { ShotChangeResult, ShotFieldChange, ShotRestoreResult, ShotVersionDiff, ShotVersionSummary } from '../types';
+
+// Columns captured in a version snapshot (kept in step with the shot_snapshot SQL function)
+const SNAPSHOT_FIELDS = [
+  'shot_type',
+  'duration_seconds',
+  'description',
+  'composition',
+  'camera_movement',
+  'lighting',
+  'visual_prompt',
+  'prompt_template',
+  'character_ids',
+  'location_id',
+  'mood',
+  'emotional_beat',
+  'technical_notes',
+  'vfx_required',
+  'vfx_notes',
+  'preview_image_url',
+  'format',
+  'aspect_ratio',
+  'status',
+] as const;
+
+export type ShotSnapshotField = (typeof SNAPSHOT_FIELDS)[number];
+export type ShotSnapshot = Pick<Shot, ShotSnapshotField>;
+
+/**
+ * The versioned content of a shot
+ */
+export function snapshotShot(shot: Shot): ShotSnapshot {
+  const snapshot = {} as Record<ShotSnapshotField, unknown>;
+  for (const field of SNAPSHOT_FIELDS) {
+    snapshot[field] = shot[field];
+  }
+  return snapshot as ShotSnapshot;
+}
+
+/**
+ * Fields that differ between two snapshots
+ */
+export function diffSnapshots(before: Partial<ShotSnapshot>, after: Partial<ShotSnapshot>): ShotFieldChange[] {
+  const changes: ShotFieldChange[] = [];
+  for (const field of SNAPSHOT_FIELDS) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, before: from, after: to });
+    }
+  }
+  return changes;
+}
+
+export class ShotVersionService {
+  private supabase = createAdminClient();
+
+  /**
+   * Update a shot and record the change as its next version, in one transaction.
+   * version is null if the versioned content didn't change; returns null if the shot doesn't exist.
+   */
+  async updateShot(
+    shotId: string,
+    changes: ShotUpdate,
+    userId: string | null,
+    changeType: ShotChangeType,
+    reason?: string
+  ): Promise<ShotChangeResult | null> {
+    const { data, error } = await this.supabase.rpc('update_shot_versioned', {
+      p_shot_id: shotId,
+      p_changes: changes as Json,
+      p_user_id: userId,
+      p_change_type: changeType,
+      p_reason: reason ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Get version history for a shot, newest first
+   */
+  async getVersionHistory(shotId: string): Promise<ShotVersionSummary[]> {
+    const { data, error } = await this.supabase
+      .from('shot_versions')
+      .select('version, description, created_at, changed_by, change_reason, change_type')
+      .eq('shot_id', shotId)
+      .order('version', { ascending: false });
+
+    if (error || !data) return [];
+
+    return data.map((v) => ({
+      version: v.version,
+      description: v.description,
+      createdAt: v.created_at,
+      changedBy: v.changed_by,
+      changeReason: v.change_reason,
+      changeType: v.change_type,
+    }));
+  }
+
+  /**
+   * Field-level differences between two recorded versions of a shot
+   */
+  async diffVersions(shotId: string, fromVersion: number, toVersion: number): Promise<ShotVersionDiff | null> {
+    const { data, error } = await this.supabase
+      .from('shot_versions')
+      .select('version, data')
+      .eq('shot_id', shotId)
+      .in('version', [fromVersion, toVersion]);
+
+    if (error || !data) return null;
+
+    const from = data.find((v) => v.version === fromVersion);
+    const to = data.find((v) => v.version === toVersion);
+    if (!from || !to) return null;
+
+    return {
+      shotId,
+      fromVersion,
+      toVersion,
+      changes: diffSnapshots(from.data as Partial<ShotSnapshot>, to.data as Partial<ShotSnapshot>),
+    };
+  }
+
+  /**
+   * Restore a shot to a previous version. The restore is recorded as a new version,
+   * so it can itself be undone. Returns null if the shot or version doesn't exist.
+   */
+  async restoreVersion(shotId: string, version: number, userId: string): Promise<ShotRestoreResult | null> {
+    const { data: target } = await this.supabase
+      .from('shot_versions')
+      .select('data')
+      .eq('shot_id', shotId)
+      .eq('version', version)
+      .single();
+
+    if (!target) return null;
+
+    const snapshot = target.data as Partial<ShotSnapshot>;
+    const updates: Record<string, unknown> = {};
+    for (const field of SNAPSHOT_FIELDS) {
+      if (field in snapshot) updates[field] = snapshot[field];
+    }
+
+    // A restored shot counts as hand-tuned, so re-translation keeps it
+    updates.edited_at = new Date().toISOString();
+
+    return this.updateShot(shotId, updates as ShotUpdate, userId, 'rollback', `Restored to version ${version}`);
+  }
+}
+
+// Singleton instance
+let versionServiceInstance: ShotVersionService | null = null;
+
+export function getShotVersionService(): ShotVersionService {
+  if (!versionServiceInstance) {
+    versionServiceInstance = new ShotVersionService();
+  }
+  return versionServiceInstance;
+}
@@ -0,0 +1,83 @@
+/**
+ * Export Input Loader
+ * Builds renderer input for an export record from the project, chapters and author
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { Export } from '@/types/database';
+import type { ExportRenderInput } from '../types';
+import { resolveLayoutOptions } from '../renderers/manuscript';
+import { loadScreenplayData } from './screenplay-loader';
+
+/**
+ * Load everything a renderer needs for an export record
+ */
+export async function loadExportInput(
+  exportRecord: Export,
+  supabase: ReturnType<typeof createAdminClient> = createAdminClient()
+): Promise<ExportRenderInput> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', exportRecord.project_id)
+    .single();
+
+  if (projectError || !project) {
+    throw new Error(`Project not found: ${exportRecord.project_id}`);
+  }
+
+  let chaptersQuery = supabase
+    .from('chapters')
+    .select('id, title, content, order_index')
+    .eq('project_id', exportRecord.project_id)
+    .order('order_index');
+
+  if (exportRecord.chapter_ids && exportRecord.chapter_ids.length > 0) {
+    chaptersQuery = chaptersQuery.in('id', exportRecord.chapter_ids);
+  }
+
+  const { data: chapters, error: chaptersError } = await chaptersQuery;
+
+  if (chaptersError) {
+    throw new Error(`Failed to fetch chapters: ${chaptersError.message}`);
+  }
+
+  // Author name for title pages and running headers
+  const { data: author } = await supabase
+    .from('users')
+    .select('display_name')
+    .eq('id', exportRecord.user_id)
+    .single();
+
+  const chapterData = (chapters || []).map((chapter) => ({
+    id: chapter.id,
+    title: chapter.title,
+    content: chapter.content,
+    orderIndex: chapter.order_index,
+  }));
+
+  // Screenplay exports are built from scenes, shots and canon
+  const screenplay =
+    exportRecord.format === 'fountain'
+      ? await loadScreenplayData(
+          exportRecord.project_id,
+          chapterData.map((chapter) => chapter.id),
+          supabase
+        )
+      : undefined;
+
+  return {
+    project: {
+      id: project.id,
+      title: project.title,
+      subtitle: project.subtitle,
+      description: project.description,
+      genre: project.genre,
+      logline: project.logline,
+      author: author?.display_name,
+    },
+    chapters: chapterData,
+    layout: resolveLayoutOptions(project.settings, exportRecord.options),
+    screenplay,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Screenplay Loader
+ * Loads scenes, shots and canon names needed for screenplay exports
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { Json } from '@/types/database';
+import type {
+  ExportCharacterData,
+  ExportLocationData,
+  ExportSceneData,
+  ExportScreenplayData,
+  ExportShotData,
+} from '../types';
+
+/**
+ * Load screenplay data for the given chapters of a project
+ */
+export async function loadScreenplayData(
+  projectId: string,
+  chapterIds: string[],
+  supabase: ReturnType<typeof createAdminClient> = createAdminClient()
+): Promise<ExportScreenplayData> {
+  if (chapterIds.length === 0) {
+    return { scenes: [], characters: [], locations: [] };
+  }
+
+  const [scenesResult, charactersResult, locationsResult] = await Promise.all([
+    supabase
+      .from('scenes')
+      .select('id, chapter_id, title, content, order_index, location, location_id, time_of_day, semantic_data')
+      .eq('project_id', projectId)
+      .in('chapter_id', chapterIds)
+      .order('order_index'),
+    supabase
+      .from('canon_characters')
+      .select(`
+        id,
+        name,
+        full_name,
+        aliases,
+        canon_entry:canon_entries!inner(is_active)
+      `)
+      .eq('project_id', projectId)
+      .eq('canon_entries.is_active', true),
+    supabase
+      .from('canon_locations')
+      .select(`
+        id,
+        name,
+        type,
+        canon_entry:canon_entries!inner(is_active)
+      `)
+      .eq('project_id', projectId)
+      .eq('canon_entries.is_active', true),
+  ]);
+
+  if (scenesResult.error) {
+    throw new Error(`Failed to load scenes: ${scenesResult.error.message}`);
+  }
+
+  const sceneRows = scenesResult.data || [];
+  const shotsByScene = await loadShotsByScene(
+    supabase,
+    sceneRows.map((scene) => scene.id)
+  );
+
+  const scenes: ExportSceneData[] = sceneRows.map((scene) => {
+    const semantic = readSemanticData(scene.semantic_data);
+    return {
+      id: scene.id,
+      chapterId: scene.chapter_id,
+      title: scene.title,
+      content: scene.content,
+      orderIndex: scene.order_index,
+      location: scene.location,
+      locationId: scene.location_id,
+      timeOfDay: scene.time_of_day,
+      purpose: semantic.purpose,
+      mood: semantic.mood,
+      shots: shotsByScene.get(scene.id) || [],
+    };
+  });
+
+  const characters: ExportCharacterData[] = (charactersResult.data || []).map((char) => ({
+    id: char.id,
+    name: char.name,
+    fullName: char.full_name,
+    aliases: char.aliases || [],
+  }));
+
+  const locations: ExportLocationData[] = (locationsResult.data || []).map((loc) => ({
+    id: loc.id,
+    name: loc.name,
+    type: loc.type,
+  }));
+
+  return { scenes, characters, locations };
+}
+
+/**
+ * Load shots grouped by scene
+ */
+async function loadShotsByScene(
+  supabase: ReturnType<typeof createAdminClient>,
+  sceneIds: string[]
+): Promise<Map<string, ExportShotData[]>> {
+  const shotsByScene = new Map<string, ExportShotData[]>();
+  if (sceneIds.length === 0) return shotsByScene;
+
+  const { data, error } = await supabase
+    .from('shots')
+    .select('scene_id, order_index, description, camera_movement, technical_notes')
+    .in('scene_id', sceneIds)
+    .order('order_index');
+
+  if (error || !data) return shotsByScene;
+
+  for (const shot of data) {
+    const shots = shotsByScene.get(shot.scene_id) || [];
+    shots.push({
+      orderIndex: shot.order_index,
+      description: shot.description,
+      cameraMovement: shot.camera_movement,
+      technicalNotes: shot.technical_notes,
+    });
+    shotsByScene.set(shot.scene_id, shots);
+  }
+
+  return shotsByScene;
+}
+
+/**
+ * Read purpose and mood from scene semantic data
+ */
+function readSemanticData(data: Json): { purpose: string | null; mood: string | null } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { purpose: null, mood: null };
+  }
+
+  const purpose = data.purpose;
+  const mood = data.mood;
+
+  return {
+    purpose: typeof purpose === 'string' && purpose.trim() ? purpose.trim() : null,
+    mood: typeof mood === 'string' && mood.trim() ? mood.trim() : null,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Export Service Public Exports
+ *
+ * This service handles manuscript exports:
+ * - Format renderers (DOCX, PDF, EPUB, Fountain, Markdown, JSON)
+ * - Layout options from project settings
+ * - Screenplay data loading for Fountain exports
+ * - Background job runner and file storage
+ */
+
+// Types
+export type {
+  ExportProjectData,
+  ExportChapterData,
+  ExportSceneData,
+  ExportShotData,
+  ExportCharacterData,
+  ExportLocationData,
+  ExportScreenplayData,
+  ExportLayoutOptions,
+  ExportRenderInput,
+  RenderedExport,
+  ExportRenderer,
+  ExportJobStatus,
+  StoredExportFile,
+  ExportStorage,
+  ExportJobRunnerOptions,
+  ExportJobResult,
+} from './types';
+
+export { DEFAULT_EXPORT_LAYOUT, DEFAULT_EXPORT_JOB_OPTIONS } from './types';
+
+// Renderers
+export { renderExport, getExportRenderer } from './renderers';
+export { resolveLayoutOptions } from './renderers/manuscript';
+
+// Data loading
+export { loadScreenplayData } from './data/screenplay-loader';
+export { loadExportInput } from './data/export-input-loader';
+
+// Job queue
+export { ExportJobRunner, getExportJobRunner } from './queue/job-runner';
+
+// Storage
+export { getExportStorage, LocalExportStorage, SupabaseExportStorage } from './storage';
@@ -0,0 +1,237 @@
+import { describe, expect, it } from 'vitest';
+import { FakeSupabase } from '@/test/fake-supabase';
+import type { Export } from '@/types/database';
+import type { ExportStorage, StoredExportFile } from '../types';
+import { ExportJobRunner } from './job-runner';
+
+class MemoryStorage implements ExportStorage {
+  files = new Map<string, Buffer>();
+
+  async save(path: string, data: Buffer, _contentType: string, expiresInSeconds: number) {
+    this.files.set(path, data);
+    return this.createDownloadUrl(path, expiresInSeconds);
+  }
+
+  async createDownloadUrl(path: string, expiresInSeconds: number): Promise<StoredExportFile> {
+    return {
+      path,
+      url: `memory://${path}?signed=${Date.now()}`,
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  async remove(path: string) {
+    this.files.delete(path);
+  }
+}
+
+const MINUTE = 60 * 1000;
+
+function minutesAgo(minutes: number): string {
+  return new Date(Date.now() - minutes * MINUTE).toISOString();
+}
+
+function exportRow(overrides: Partial<Export> = {}): Export {
+  return {
+    id: 'export-1',
+    user_id: 'user-1',
+    project_id: 'project-1',
+    format: 'markdown',
+    file_name: 'story.md',
+    file_url: null,
+    file_size_bytes: null,
+    export_scope: null,
+    chapter_ids: [],
+    options: {},
+    status: 'pending',
+    error_message: null,
+    created_at: minutesAgo(30),
+    completed_at: null,
+    expires_at: null,
+    claimed_at: null,
+    attempts: 0,
+    storage_path: null,
+    ...overrides,
+  };
+}
+
+function setup(exports: Export[]) {
+  const supabase = new FakeSupabase({ exports });
+  const storage = new MemoryStorage();
+  const runner = new ExportJobRunner(supabase.client, storage, { staleClaimSeconds: 600, maxAttempts: 3 });
+  return { supabase, storage, runner, row: (id = 'export-1') => supabase.tables.exports.find((r) => r.id === id) };
+}
+
+describe('ExportJobRunner', () => {
+  describe('claim', () => {
+    it('claims a pending export and counts the attempt', async () => {
+      const { runner, row } = setup([exportRow()]);
+
+      const claimed = await runner.claim('export-1');
+
+      expect(claimed?.status).toBe('processing');
+      expect(claimed?.attempts).toBe(1);
+      expect(claimed?.claimed_at).toBeTruthy();
+      expect(row()?.status).toBe('processing');
+    });
+
+    it('lets only one of two concurrent runners claim an export', async () => {
+      const { supabase, storage } = setup([exportRow()]);
+      const client = supabase.client;
+      const first = new ExportJobRunner(client, storage);
+      const second = new ExportJobRunner(client, storage);
+
+      const results = await Promise.all([first.claim('export-1'), second.claim('export-1')]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('leaves a fresh claim alone', async () => {
+      const { runner, row } = setup([exportRow({ status: 'processing', claimed_at: minutesAgo(1), attempts: 1 })]);
+
+      expect(await runner.claim('export-1')).toBeNull();
+      expect(row()?.attempts).toBe(1);
+    });
+
+    it('ignores finished exports', async () => {
+      const { runner } = setup([exportRow({ status: 'completed' }), exportRow({ id: 'export-2', status: 'failed' })]);
+
+      expect(await runner.claim('export-1')).toBeNull();
+      expect(await runner.claim('export-2')).toBeNull();
+      expect(await runner.claimNext()).toBeNull();
+    });
+  });
+
+  describe('retry', () => {
+    it('reclaims a stale claim from an abandoned runner', async () => {
+      const { runner } = setup([exportRow({ status: 'processing', claimed_at: minutesAgo(20), attempts: 1 })]);
+
+      const claimed = await runner.claimNext();
+
+      expect(claimed?.id).toBe('export-1');
+      expect(claimed?.attempts).toBe(2);
+      expect(new Date(claimed!.claimed_at!).getTime()).toBeGreaterThan(Date.now() - MINUTE);
+    });
+
+    it('claims the oldest export first across pending and stale jobs', async () => {
+      const { runner } = setup([
+        exportRow({ id: 'pending', created_at: minutesAgo(5) }),
+        exportRow({ id: 'stale', status: 'processing', claimed_at: minutesAgo(20), attempts: 1, created_at: minutesAgo(25) }),
+      ]);
+
+      expect((await runner.claimNext())?.id).toBe('stale');
+      expect((await runner.claimNext())?.id).toBe('pending');
+      expect(await runner.claimNext()).toBeNull();
+    });
+
+    it('fails an export whose data is gone and gives the quota back', async () => {
+      const { runner, supabase, row } = setup([exportRow()]);
+
+      const claimed = await runner.claim('export-1');
+      const result = await runner.process(claimed!);
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('Project not found');
+      expect(row()?.status).toBe('failed');
+      expect(supabase.rpcCalls).toEqual([{ fn: 'release_export_quota', args: { p_user_id: 'user-1' } }]);
+    });
+
+    it('renders, stores and completes a claimed export', async () => {
+      const { runner, supabase, storage, row } = setup([exportRow()]);
+      supabase.tables.projects = [{ id: 'project-1', title: 'The Harbor', settings: {} }];
+      supabase.tables.chapters = [{ id: 'chapter-1', project_id: 'project-1', title: 'One', content: '<p>Waves.</p>', order_index: 0 }];
+      supabase.tables.users = [{ id: 'user-1', display_name: 'A. Writer' }];
+
+      const results = await runner.runPending();
+
+      expect(results).toHaveLength(1);
+      expect(results[0].status).toBe('completed');
+      expect(row()?.status).toBe('completed');
+      expect(storage.files.has('user-1/export-1/story.md')).toBe(true);
+      expect(supabase.rpcCalls).toHaveLength(0);
+    });
+
+    it('does not complete an export another runner reclaimed mid-process', async () => {
+      const { supabase, storage, row } = setup([exportRow()]);
+      supabase.tables.projects = [{ id: 'project-1', title: 'The Harbor', settings: {} }];
+      const slow = new ExportJobRunner(supabase.client, storage, { staleClaimSeconds: 600 });
+      const fresh = new ExportJobRunner(supabase.client, storage, { staleClaimSeconds: 600 });
+
+      const stalled = await slow.claim('export-1');
+      stalled!.claimed_at = minutesAgo(20);
+      row()!.claimed_at = stalled!.claimed_at;
+      const reclaimed = await fresh.claim('export-1');
+      await slow.process(stalled!);
+
+      expect(row()?.status).toBe('processing');
+      expect(row()?.claimed_at).toBe(reclaimed?.claimed_at);
+      expect(row()?.attempts).toBe(2);
+    });
+
+    it('leaves the quota to the new owner when a reclaimed export fails', async () => {
+      const { supabase, storage, row } = setup([exportRow()]);
+      const slow = new ExportJobRunner(supabase.client, storage, { staleClaimSeconds: 600 });
+      const fresh = new ExportJobRunner(supabase.client, storage, { staleClaimSeconds: 600 });
+
+      const stalled = await slow.claim('export-1');
+      stalled!.claimed_at = minutesAgo(20);
+      row()!.claimed_at = stalled!.claimed_at;
+      await fresh.claim('export-1');
+      const result = await slow.process(stalled!);
+
+      expect(result.status).toBe('failed');
+      expect(row()?.status).toBe('processing');
+      expect(supabase.rpcCalls).toHaveLength(0);
+    });
+  });
+
+  describe('expiry', () => {
+    it('abandons an export that used up its attempts and releases the quota once', async () => {
+      const { runner, supabase, row } = setup([exportRow({ status: 'processing', claimed_at: minutesAgo(20), attempts: 3 })]);
+
+      expect(await runner.claimNext()).toBeNull();
+      expect(row()?.status).toBe('failed');
+      expect(row()?.error_message).toBe('Export abandoned after 3 attempts');
+      expect(supabase.rpcCalls).toHaveLength(1);
+    });
+
+    it('does not release the quota when another runner abandoned the export first', async () => {
+      const { supabase, storage, row } = setup([exportRow({ status: 'processing', claimed_at: minutesAgo(20), attempts: 3 })]);
+      const client = supabase.client;
+      const runners = [new ExportJobRunner(client, storage), new ExportJobRunner(client, storage)];
+
+      await Promise.all(runners.map((runner) => runner.claim('export-1')));
+
+      expect(row()?.status).toBe('failed');
+      expect(supabase.rpcCalls).toHaveLength(1);
+    });
+
+    it('re-signs an expired download link', async () => {
+      const expired = exportRow({
+        status: 'completed',
+        storage_path: 'user-1/export-1/story.md',
+        file_url: 'memory://old',
+        expires_at: minutesAgo(1),
+      });
+      const { runner, row } = setup([expired]);
+
+      const refreshed = await runner.refreshDownloadUrl(expired);
+
+      expect(refreshed.file_url).not.toBe('memory://old');
+      expect(new Date(refreshed.expires_at!).getTime()).toBeGreaterThan(Date.now());
+      expect(row()?.file_url).toBe(refreshed.file_url);
+    });
+
+    it('keeps a link that has not expired', async () => {
+      const current = exportRow({
+        status: 'completed',
+        storage_path: 'user-1/export-1/story.md',
+        file_url: 'memory://current',
+        expires_at: new Date(Date.now() + 10 * MINUTE).toISOString(),
+      });
+      const { runner } = setup([current]);
+
+      expect(await runner.refreshDownloadUrl(current)).toBe(current);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Export Job Runner
+ * Claims queued exports, renders them and stores the files
+ *
+ * Jobs are claimed with a conditional update on status/claimed_at, so concurrent
+ * runners never process the same export twice. Processing jobs whose claim is
+ * older than staleClaimSeconds are assumed abandoned and reclaimed.
+ *
+ * The Supabase client and storage can be passed in; they default to the admin
+ * client and the configured storage backend.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getErrorMessage } from '@/lib/utils';
+import { releaseExportQuota } from '@/lib/quota';
+import type { Export } from '@/types/database';
+import {
+  DEFAULT_EXPORT_JOB_OPTIONS,
+  type ExportJobResult,
+  type ExportJobRunnerOptions,
+  type ExportStorage,
+} from '../types';
+import { renderExport } from '../renderers';
+import { loadExportInput } from '../data/export-input-loader';
+import { getExportStorage } from '../storage';
+
+const CLAIM_BATCH_SIZE = 5;
+
+export class ExportJobRunner {
+  private supabase: ReturnType<typeof createAdminClient>;
+  private storage: ExportStorage;
+  private options: ExportJobRunnerOptions;
+
+  constructor(
+    supabase?: ReturnType<typeof createAdminClient>,
+    storage?: ExportStorage,
+    options: Partial<ExportJobRunnerOptions> = {}
+  ) {
+    this.supabase = supabase || createAdminClient();
+    this.storage = storage || getExportStorage();
+    this.options = { ...DEFAULT_EXPORT_JOB_OPTIONS, ...options };
+  }
+
+  /**
+   * Claim a specific export if it is pending or its claim has gone stale
+   */
+  async claim(exportId: string): Promise<Export | null> {
+    const { data } = await this.supabase
+      .from('exports')
+      .select('*')
+      .eq('id', exportId)
+      .single();
+
+    if (!data || !this.isClaimable(data)) return null;
+    return this.tryClaim(data);
+  }
+
+  /**
+   * Claim the oldest claimable export, if any
+   */
+  async claimNext(): Promise<Export | null> {
+    const staleBefore = new Date(Date.now() - this.options.staleClaimSeconds * 1000).toISOString();
+
+    const [{ data: pending }, { data: stale }] = await Promise.all([
+      this.supabase
+        .from('exports')
+        .select('*')
+        .eq('status', 'pending')
+        .order('created_at')
+        .limit(CLAIM_BATCH_SIZE),
+      this.supabase
+        .from('exports')
+        .select('*')
+        .eq('status', 'processing')
+        .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`)
+        .order('created_at')
+        .limit(CLAIM_BATCH_SIZE),
+    ]);
+
+    const candidates = [...(pending || []), ...(stale || [])].sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    );
+
+    for (const candidate of candidates) {
+      const claimed = await this.tryClaim(candidate);
+      if (claimed) return claimed;
+    }
+
+    return null;
+  }
+
+  /**
+   * Render and store a claimed export. The result is only written while our
+   * claim still holds, so a runner that reclaimed a stale job isn't overwritten.
+   */
+  async process(exportRecord: Export): Promise<ExportJobResult> {
+    try {
+      const input = await loadExportInput(exportRecord, this.supabase);
+      const rendered = await renderExport(exportRecord.format, input);
+
+      const storagePath = `${exportRecord.user_id}/${exportRecord.id}/${exportRecord.file_name}`;
+      const stored = await this.storage.save(
+        storagePath,
+        rendered.data,
+        rendered.contentType,
+        this.options.downloadUrlTtlSeconds
+      );
+
+      await this.supabase
+        .from('exports')
+        .update({
+          status: 'completed',
+          storage_path: stored.path,
+          file_url: stored.url,
+          file_size_bytes: rendered.data.byteLength,
+          completed_at: new Date().toISOString(),
+          expires_at: stored.expiresAt,
+          error_message: null,
+        })
+        .eq('id', exportRecord.id)
+        .eq('status', 'processing')
+        .eq('claimed_at', exportRecord.claimed_at!);
+
+      return {
+        exportId: exportRecord.id,
+        status: 'completed',
+        fileUrl: stored.url,
+        expiresAt: stored.expiresAt,
+        rendered,
+      };
+    } catch (error) {
+      console.error(`Export ${exportRecord.id} failed:`, error);
+
+      const message = getErrorMessage(error);
+      const { data: failed } = await this.supabase
+        .from('exports')
+        .update({ status: 'failed', error_message: message })
+        .eq('id', exportRecord.id)
+        .eq('status', 'processing')
+        .eq('claimed_at', exportRecord.claimed_at!)
+        .select('id');
+
+      // Failed exports don't count against the monthly budget. If the claim went
+      // stale and another runner took the export over, that runner settles it.
+      if (failed?.length) {
+        await releaseExportQuota(exportRecord.user_id, this.supabase);
+      }
+
+      return {
+        exportId: exportRecord.id,
+        status: 'failed',
+        fileUrl: null,
+        expiresAt: null,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Process queued exports until the queue is empty or the limit is reached
+   */
+  async runPending(limit = 10): Promise<ExportJobResult[]> {
+    const results: ExportJobResult[] = [];
+
+    while (results.length < limit) {
+      const claimed = await this.claimNext();
+      if (!claimed) break;
+
+      // Drop the rendered buffer - background runs only report status
+      const { rendered: _rendered, ...result } = await this.process(claimed);
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Re-sign the download URL of a completed export whose link has expired
+   */
+  async refreshDownloadUrl(exportRecord: Export): Promise<Export> {
+    if (
+      exportRecord.status !== 'completed' ||
+      !exportRecord.storage_path ||
+      (exportRecord.expires_at && new Date(exportRecord.expires_at) > new Date())
+    ) {
+      return exportRecord;
+    }
+
+    const stored = await this.storage.createDownloadUrl(
+      exportRecord.storage_path,
+      this.options.downloadUrlTtlSeconds
+    );
+
+    await this.supabase
+      .from('exports')
+      .update({ file_url: stored.url, expires_at: stored.expiresAt })
+      .eq('id', exportRecord.id);
+
+    return { ...exportRecord, file_url: stored.url, expires_at: stored.expiresAt };
+  }
+
+  /**
+   * Check whether an export can be claimed
+   */
+  private isClaimable(exportRecord: Export): boolean {
+    if (exportRecord.status === 'pending') return true;
+    if (exportRecord.status !== 'processing') return false;
+    if (!exportRecord.claimed_at) return true;
+
+    const claimAge = Date.now() - new Date(exportRecord.claimed_at).getTime();
+    return claimAge > this.options.staleClaimSeconds * 1000;
+  }
+
+  /**
+   * Atomically claim an export, guarding on the status and claim we observed
+   */
+  private async tryClaim(exportRecord: Export): Promise<Export | null> {
+    if (exportRecord.attempts >= this.options.maxAttempts) {
+      const { data: abandoned } = await this.supabase
+        .from('exports')
+        .update({
+          status: 'failed',
+          error_message: `Export abandoned after ${exportRecord.attempts} attempts`,
+        })
+        .eq('id', exportRecord.id)
+        .eq('status', exportRecord.status)
+        .select('id');
+
+      // Only the runner that abandoned it gives the quota back
+      if (abandoned?.length) {
+        await releaseExportQuota(exportRecord.user_id, this.supabase);
+      }
+      return null;
+    }
+
+    let query = this.supabase
+      .from('exports')
+      .update({
+        status: 'processing',
+        claimed_at: new Date().toISOString(),
+        attempts: exportRecord.attempts + 1,
+      })
+      .eq('id', exportRecord.id)
+      .eq('status', exportRecord.status);
+
+    query = exportRecord.claimed_at
+      ? query.eq('claimed_at', exportRecord.claimed_at)
+      : query.is('claimed_at', null);
+
+    const { data } = await query.select().maybeSingle();
+    return data;
+  }
+}
+
+// Singleton instance
+let jobRunnerInstance: ExportJobRunner | null = null;
+
+export function getExportJobRunner(): ExportJobRunner {
+  if (!jobRunnerInstance) {
+    jobRunnerInstance = new ExportJobRunner();
+  }
+  return jobRunnerInstance;
+}
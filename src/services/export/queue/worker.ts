@@ -0,0 +1,37 @@
+/**
+ * Export Worker
+ * Polls the exports table and processes queued jobs
+ *
+ * Usage: npm run worker:exports [-- --once]
+ */
+
+import { getExportJobRunner } from './job-runner';
+
+const POLL_INTERVAL_MS = Number(process.env.EXPORT_WORKER_POLL_MS) || 5000;
+
+async function runWorker() {
+  const runOnce = process.argv.includes('--once');
+  const runner = getExportJobRunner();
+
+  console.log(`Export worker started${runOnce ? ' (single pass)' : ''}`);
+
+  do {
+    const results = await runner.runPending();
+    for (const result of results) {
+      console.log(
+        result.status === 'completed'
+          ? `✓ ${result.exportId} -> ${result.fileUrl}`
+          : `✗ ${result.exportId}: ${result.error}`
+      );
+    }
+
+    if (!runOnce && results.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } while (!runOnce);
+}
+
+runWorker().catch((error) => {
+  console.error('Export worker failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,136 @@
+/**
+ * DOCX Renderer
+ * Standard manuscript format Word documents
+ */
+
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  TextRun,
+} from 'docx';
+import type { ExportRenderer, ExportRenderInput } from '../types';
+import { chapterHeading, orderChapters, splitParagraphs } from './manuscript';
+
+const MANUSCRIPT_FONT = 'Times New Roman';
+const BODY_SIZE = 24; // Half-points (12pt)
+const FIRST_LINE_INDENT = 720; // Twips (0.5in)
+
+export const docxRenderer: ExportRenderer = {
+  format: 'docx',
+  contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  extension: 'docx',
+
+  async render({ project, chapters, layout }: ExportRenderInput): Promise<Buffer> {
+    const children: Paragraph[] = [];
+
+    // Title page
+    if (layout.includeTitlePage) {
+      children.push(
+        new Paragraph({
+          heading: HeadingLevel.TITLE,
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 2400, after: 240 },
+          children: [new TextRun({ text: project.title, font: MANUSCRIPT_FONT })],
+        })
+      );
+      if (project.subtitle) {
+        children.push(centeredLine(project.subtitle, { italics: true }));
+      }
+      if (project.author) {
+        children.push(centeredLine(`by ${project.author}`));
+      }
+      if (project.description) {
+        children.push(
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            spacing: { before: 480 },
+            children: [new TextRun({ text: project.description, font: MANUSCRIPT_FONT, size: BODY_SIZE })],
+          })
+        );
+      }
+    }
+
+    // Chapters - each starts on a new page
+    orderChapters(chapters).forEach((chapter, index) => {
+      children.push(
+        new Paragraph({
+          heading: HeadingLevel.HEADING_1,
+          alignment: AlignmentType.CENTER,
+          pageBreakBefore: layout.includeTitlePage || index > 0,
+          spacing: { after: 480 },
+          children: [new TextRun({ text: chapterHeading(chapter), font: MANUSCRIPT_FONT })],
+        })
+      );
+
+      for (const paragraph of splitParagraphs(chapter.content)) {
+        children.push(
+          new Paragraph({
+            indent: { firstLine: FIRST_LINE_INDENT },
+            spacing: { line: 480 }, // Double spaced
+            children: [new TextRun({ text: paragraph, font: MANUSCRIPT_FONT, size: BODY_SIZE })],
+          })
+        );
+      }
+    });
+
+    const document = new Document({
+      title: project.title,
+      subject: project.subtitle || undefined,
+      description: project.description || undefined,
+      creator: project.author || 'Halcyon Cinema',
+      sections: [
+        {
+          headers: layout.includeHeader
+            ? {
+                default: new Header({
+                  children: [
+                    new Paragraph({
+                      alignment: AlignmentType.RIGHT,
+                      children: [
+                        new TextRun({
+                          text: [project.author, project.title].filter(Boolean).join(' / '),
+                          font: MANUSCRIPT_FONT,
+                          size: 20,
+                        }),
+                      ],
+                    }),
+                  ],
+                }),
+              }
+            : undefined,
+          footers: layout.includeFooter
+            ? {
+                default: new Footer({
+                  children: [
+                    new Paragraph({
+                      alignment: AlignmentType.CENTER,
+                      children: [
+                        new TextRun({ children: [PageNumber.CURRENT], font: MANUSCRIPT_FONT, size: 20 }),
+                      ],
+                    }),
+                  ],
+                }),
+              }
+            : undefined,
+          children,
+        },
+      ],
+    });
+
+    return Packer.toBuffer(document);
+  },
+};
+
+function centeredLine(text: string, options: { italics?: boolean } = {}): Paragraph {
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 240 },
+    children: [new TextRun({ text, font: MANUSCRIPT_FONT, size: 28, italics: options.italics })],
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * EPUB Renderer
+ * Reflowable EPUB 3 ebooks. Running header/footer settings do not apply to reflowable text.
+ */
+
+import epub from 'epub-gen-memory';
+import type { ExportRenderer, ExportRenderInput } from '../types';
+import { chapterHeading, escapeHtml, orderChapters, splitParagraphs } from './manuscript';
+
+const EPUB_CSS = `
+body { font-family: Georgia, serif; line-height: 1.5; }
+h1, h2 { text-align: center; }
+p { text-indent: 1.5em; margin: 0; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page p { text-indent: 0; margin: 0.75em 0; }
+.subtitle { font-style: italic; }
+`;
+
+export const epubRenderer: ExportRenderer = {
+  format: 'epub',
+  contentType: 'application/epub+zip',
+  extension: 'epub',
+
+  async render({ project, chapters, layout }: ExportRenderInput): Promise<Buffer> {
+    const content: Array<{ title: string; content: string; beforeToc?: boolean; excludeFromToc?: boolean }> = [];
+
+    // Title page
+    if (layout.includeTitlePage) {
+      const parts: string[] = ['<div class="title-page">'];
+      parts.push(`<h1>${escapeHtml(project.title)}</h1>`);
+      if (project.subtitle) parts.push(`<p class="subtitle">${escapeHtml(project.subtitle)}</p>`);
+      if (project.author) parts.push(`<p>by ${escapeHtml(project.author)}</p>`);
+      if (project.description) parts.push(`<p>${escapeHtml(project.description)}</p>`);
+      parts.push('</div>');
+
+      content.push({
+        title: project.title,
+        content: parts.join('\n'),
+        beforeToc: true,
+        excludeFromToc: true,
+      });
+    }
+
+    // Chapters
+    for (const chapter of orderChapters(chapters)) {
+      const paragraphs = splitParagraphs(chapter.content)
+        .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+        .join('\n');
+
+      content.push({
+        title: chapterHeading(chapter),
+        content: `<h2>${escapeHtml(chapterHeading(chapter))}</h2>\n${paragraphs}`,
+      });
+    }
+
+    return epub(
+      {
+        title: project.subtitle ? `${project.title}: ${project.subtitle}` : project.title,
+        author: project.author || undefined,
+        description: project.description || undefined,
+        publisher: 'Halcyon Cinema',
+        css: EPUB_CSS,
+        prependChapterTitles: false,
+        ignoreFailedDownloads: true,
+        verbose: false,
+      },
+      content
+    );
+  },
+};
@@ -0,0 +1,363 @@
+/**
+ * Fountain Renderer
+ * Screenplay export driven by scenes, canon characters/locations and shot data
+ *
+ * Scene headings come from the scene's canon location (or free-text location) and time of day.
+ * Quoted speech is converted to dialogue blocks when it can be attributed to a canon character.
+ * Transitions are taken from the final shot of each scene when its notes name one.
+ */
+
+import type {
+  ExportCharacterData,
+  ExportChapterData,
+  ExportLocationData,
+  ExportRenderer,
+  ExportRenderInput,
+  ExportSceneData,
+} from '../types';
+import { orderChapters, splitParagraphs } from './manuscript';
+
+// Verbs that mark a narration fragment as a dialogue tag ("Elena whispered")
+const SPEECH_VERBS = [
+  'said', 'says', 'asked', 'asks', 'replied', 'replies', 'whispered', 'whispers',
+  'shouted', 'shouts', 'murmured', 'murmurs', 'muttered', 'mutters', 'called', 'calls',
+  'answered', 'answers', 'cried', 'cries', 'added', 'adds', 'repeated', 'repeats',
+  'snapped', 'snaps', 'yelled', 'yells', 'breathed', 'breathes', 'continued', 'continues',
+];
+
+const DIALOGUE_TAG_MAX_WORDS = 6;
+
+// Transition keywords found in shot notes, most specific first
+const TRANSITION_KEYWORDS: Array<{ pattern: RegExp; transition: string }> = [
+  { pattern: /smash\s+cut/i, transition: 'SMASH CUT TO:' },
+  { pattern: /match\s+cut/i, transition: 'MATCH CUT TO:' },
+  { pattern: /jump\s+cut/i, transition: 'JUMP CUT TO:' },
+  { pattern: /dissolve/i, transition: 'DISSOLVE TO:' },
+  { pattern: /fade\s+(out|to\s+black)/i, transition: 'FADE OUT.' },
+  { pattern: /fade\s+to/i, transition: 'FADE TO:' },
+  { pattern: /wipe/i, transition: 'WIPE TO:' },
+  { pattern: /cut\s+to/i, transition: 'CUT TO:' },
+];
+
+interface SpeakerMatcher {
+  cue: string;
+  pattern: RegExp;
+  length: number;
+}
+
+export const fountainRenderer: ExportRenderer = {
+  format: 'fountain',
+  contentType: 'text/plain',
+  extension: 'fountain',
+
+  async render({ project, chapters, layout, screenplay }: ExportRenderInput): Promise<Buffer> {
+    const lines: string[] = [];
+
+    // Title page
+    if (layout.includeTitlePage) {
+      lines.push(`Title: ${project.title}`);
+      if (project.subtitle) lines.push(`    ${project.subtitle}`);
+      if (project.author) {
+        lines.push('Credit: Written by');
+        lines.push(`Author: ${project.author}`);
+      }
+      if (project.genre) lines.push(`Genre: ${project.genre}`);
+      if (project.logline) lines.push(`Logline: ${project.logline}`);
+      lines.push(`Draft date: ${new Date().toISOString().slice(0, 10)}`);
+      lines.push('');
+      lines.push('===');
+      lines.push('');
+    }
+
+    const speakers = buildSpeakerMatchers(screenplay?.characters || []);
+    const locations = new Map((screenplay?.locations || []).map((loc) => [loc.id, loc]));
+    const orderedChapters = orderChapters(chapters);
+
+    for (const chapter of orderedChapters) {
+      const scenes = (screenplay?.scenes || [])
+        .filter((scene) => scene.chapterId === chapter.id)
+        .sort((a, b) => a.orderIndex - b.orderIndex);
+
+      // Chapters become sections (not printed in the script)
+      lines.push(`# ${chapter.title}`);
+      lines.push('');
+
+      if (scenes.length === 0) {
+        // No scene breakdown yet - treat the chapter as a single scene
+        lines.push(...renderScene(chapterAsScene(chapter), chapter, locations, speakers));
+        continue;
+      }
+
+      for (const scene of scenes) {
+        lines.push(...renderScene(scene, chapter, locations, speakers));
+      }
+    }
+
+    return Buffer.from(lines.join('\n'), 'utf-8');
+  },
+};
+
+/**
+ * Render a single scene: heading, synopsis, action/dialogue and closing transition
+ */
+function renderScene(
+  scene: ExportSceneData,
+  chapter: ExportChapterData,
+  locations: Map<string, ExportLocationData>,
+  speakers: SpeakerMatcher[]
+): string[] {
+  const lines: string[] = [];
+
+  lines.push(buildSceneHeading(scene, chapter, locations));
+  lines.push('');
+
+  if (scene.purpose) {
+    lines.push(`= ${scene.purpose}`);
+    lines.push('');
+  }
+  if (scene.mood) {
+    lines.push(`[[Mood: ${scene.mood}]]`);
+    lines.push('');
+  }
+
+  for (const paragraph of splitParagraphs(stripMarkdown(scene.content))) {
+    lines.push(...renderParagraph(paragraph, speakers));
+  }
+
+  const transition = findTransition(scene);
+  if (transition) {
+    lines.push(`> ${transition}`);
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Build a scene heading such as "INT. THORNWOOD ACADEMY - NIGHT"
+ */
+function buildSceneHeading(
+  scene: ExportSceneData,
+  chapter: ExportChapterData,
+  locations: Map<string, ExportLocationData>
+): string {
+  const canonLocation = scene.locationId ? locations.get(scene.locationId) : undefined;
+  const locationName = canonLocation?.name || scene.location || scene.title || chapter.title;
+  const time = (scene.timeOfDay || 'day').trim().toUpperCase();
+
+  return `${interiorPrefix(canonLocation?.type)} ${locationName.toUpperCase()} - ${time}`;
+}
+
+/**
+ * Map canon_locations.type to a scene heading prefix
+ */
+function interiorPrefix(type: string | null | undefined): string {
+  switch (type?.toLowerCase()) {
+    case 'exterior':
+      return 'EXT.';
+    case 'both':
+      return 'INT./EXT.';
+    default:
+      return 'INT.';
+  }
+}
+
+/**
+ * Convert a prose paragraph into action and dialogue elements, in the order they appear.
+ * Quotes separated only by dialogue tags share one dialogue block.
+ */
+function renderParagraph(paragraph: string, speakers: SpeakerMatcher[]): string[] {
+  const segments = splitQuotes(paragraph);
+
+  if (!segments.some((s) => s.quoted)) {
+    return [escapeAction(paragraph), ''];
+  }
+
+  const narration = segments.filter((s) => !s.quoted).map((s) => s.text);
+  const speaker = findSpeaker(narration.join(' '), speakers);
+
+  // Unattributed speech stays in the action line
+  if (!speaker) {
+    return [escapeAction(paragraph), ''];
+  }
+
+  const lines: string[] = [];
+  let speech: string[] = [];
+
+  const flushSpeech = () => {
+    if (speech.length === 0) return;
+    lines.push(speaker.cue);
+    lines.push(speech.join(' '));
+    lines.push('');
+    speech = [];
+  };
+
+  for (const segment of segments) {
+    if (segment.quoted) {
+      speech.push(segment.text.trim().replace(/,$/, '.'));
+      continue;
+    }
+
+    const action = narrationAction(segment.text);
+    if (action && action.split(/\s+/).length > 1) {
+      flushSpeech();
+      lines.push(escapeAction(action));
+      lines.push('');
+    }
+  }
+  flushSpeech();
+
+  return lines;
+}
+
+/**
+ * A narration fragment without its dialogue tags ("Elena said, and left." becomes "and left.")
+ */
+function narrationAction(fragment: string): string {
+  return (fragment.match(/[^.!?]+[.!?]*/g) || [])
+    .map((sentence) => sentence.split(',').filter((clause) => !isDialogueTag(clause)).join(','))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,.;:—-]+|[\s,;:—-]+$/g, '')
+    .trim();
+}
+
+/**
+ * Split text into quoted and unquoted segments (straight and curly quotes)
+ */
+function splitQuotes(text: string): Array<{ text: string; quoted: boolean }> {
+  const segments: Array<{ text: string; quoted: boolean }> = [];
+  const quotePattern = /"([^"]+)"|“([^”]+)”/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = quotePattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index), quoted: false });
+    }
+    segments.push({ text: match[1] ?? match[2], quoted: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), quoted: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Build name/alias matchers for dialogue attribution, longest names first
+ */
+function buildSpeakerMatchers(characters: ExportCharacterData[]): SpeakerMatcher[] {
+  const matchers: SpeakerMatcher[] = [];
+  const firstNameCounts = new Map<string, number>();
+
+  for (const character of characters) {
+    const firstName = character.name.split(/\s+/)[0];
+    firstNameCounts.set(firstName, (firstNameCounts.get(firstName) || 0) + 1);
+  }
+
+  for (const character of characters) {
+    const cue = character.name.toUpperCase();
+    const names = new Set<string>([character.name, ...character.aliases]);
+    if (character.fullName) names.add(character.fullName);
+
+    // First names are only used when they are unambiguous
+    const firstName = character.name.split(/\s+/)[0];
+    if (firstName !== character.name && firstNameCounts.get(firstName) === 1) {
+      names.add(firstName);
+    }
+
+    for (const name of Array.from(names)) {
+      if (!name || name.trim().length < 2) continue;
+      matchers.push({
+        cue,
+        pattern: new RegExp(`\\b${escapeRegExp(name.trim())}\\b`, 'i'),
+        length: name.length,
+      });
+    }
+  }
+
+  return matchers.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Find the speaking character in a paragraph's narration
+ */
+function findSpeaker(narration: string, speakers: SpeakerMatcher[]): SpeakerMatcher | null {
+  let best: { speaker: SpeakerMatcher; index: number } | null = null;
+
+  for (const speaker of speakers) {
+    const match = speaker.pattern.exec(narration);
+    if (match && (!best || match.index < best.index)) {
+      best = { speaker, index: match.index };
+    }
+  }
+
+  return best?.speaker || null;
+}
+
+function isDialogueTag(fragment: string): boolean {
+  const words = fragment.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  if (words.length > DIALOGUE_TAG_MAX_WORDS) return false;
+  return words.some((word) => SPEECH_VERBS.includes(word.toLowerCase().replace(/[^a-z]/g, '')));
+}
+
+/**
+ * Derive the transition out of a scene from its final shot; scenes without one just cut
+ */
+function findTransition(scene: ExportSceneData): string | null {
+  if (scene.shots.length === 0) return null;
+
+  const lastShot = [...scene.shots].sort((a, b) => b.orderIndex - a.orderIndex)[0];
+  const notes = [lastShot.cameraMovement, lastShot.technicalNotes, lastShot.description]
+    .filter(Boolean)
+    .join(' ');
+
+  for (const { pattern, transition } of TRANSITION_KEYWORDS) {
+    if (pattern.test(notes)) return transition;
+  }
+
+  return null;
+}
+
+function chapterAsScene(chapter: ExportChapterData): ExportSceneData {
+  return {
+    id: chapter.id,
+    chapterId: chapter.id,
+    title: chapter.title,
+    content: chapter.content,
+    orderIndex: 0,
+    location: null,
+    locationId: null,
+    timeOfDay: null,
+    purpose: null,
+    mood: null,
+    shots: [],
+  };
+}
+
+/**
+ * Remove markdown headings and emphasis markers from prose
+ */
+function stripMarkdown(content: string | null): string {
+  return (content || '')
+    .replace(/^#+\s+.+$/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2');
+}
+
+/**
+ * Prevent action lines from being parsed as other Fountain elements
+ */
+function escapeAction(text: string): string {
+  const isAllCaps = /[A-Z]/.test(text) && text === text.toUpperCase();
+  const looksLikeHeading = /^(INT|EXT|EST|INT\.\/EXT|I\/E)[.\s]/i.test(text);
+  return isAllCaps || looksLikeHeading ? `!${text}` : text;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
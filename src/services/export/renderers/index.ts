@@ -0,0 +1,49 @@
+/**
+ * Export Renderer Registry
+ * Maps each export format to its renderer
+ */
+
+import type { ExportFormat } from '@/types/database';
+import type { ExportRenderer, ExportRenderInput, RenderedExport } from '../types';
+import { docxRenderer } from './docx-renderer';
+import { pdfRenderer } from './pdf-renderer';
+import { epubRenderer } from './epub-renderer';
+import { fountainRenderer } from './fountain-renderer';
+import { markdownRenderer, jsonRenderer } from './text-renderers';
+
+const RENDERERS: Record<ExportFormat, ExportRenderer> = {
+  docx: docxRenderer,
+  pdf: pdfRenderer,
+  epub: epubRenderer,
+  markdown: markdownRenderer,
+  json: jsonRenderer,
+  fountain: fountainRenderer,
+};
+
+/**
+ * Get the renderer for a format
+ */
+export function getExportRenderer(format: ExportFormat): ExportRenderer {
+  return RENDERERS[format];
+}
+
+/**
+ * Render an export in the requested format
+ */
+export async function renderExport(
+  format: ExportFormat,
+  input: ExportRenderInput
+): Promise<RenderedExport> {
+  const renderer = getExportRenderer(format);
+  if (!renderer) {
+    throw new Error(`No renderer registered for format: ${format}`);
+  }
+
+  const data = await renderer.render(input);
+
+  return {
+    data,
+    contentType: renderer.contentType,
+    extension: renderer.extension,
+  };
+}
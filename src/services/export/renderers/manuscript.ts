@@ -0,0 +1,91 @@
+/**
+ * Manuscript Helpers
+ * Shared layout logic used by every export renderer
+ */
+
+import type { Json } from '@/types/database';
+import type { ExportChapterData, ExportLayoutOptions } from '../types';
+import { DEFAULT_EXPORT_LAYOUT } from '../types';
+
+/**
+ * Sort chapters by their position in the project
+ */
+export function orderChapters(chapters: ExportChapterData[]): ExportChapterData[] {
+  return [...chapters].sort((a, b) => a.orderIndex - b.orderIndex);
+}
+
+/**
+ * Build the display heading for a chapter
+ */
+export function chapterHeading(chapter: ExportChapterData): string {
+  return `Chapter ${chapter.orderIndex + 1}: ${chapter.title}`;
+}
+
+/**
+ * Split chapter prose into paragraphs.
+ * Blank lines separate paragraphs; single line breaks inside a paragraph are kept as spaces.
+ */
+export function splitParagraphs(content: string | null): string[] {
+  if (!content) return [];
+
+  return content
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter((paragraph) => paragraph.length > 0);
+}
+
+/**
+ * Resolve layout options from project settings, with request options taking precedence
+ */
+export function resolveLayoutOptions(
+  projectSettings: Json | null,
+  requestOptions?: Json | null
+): ExportLayoutOptions {
+  const settings = asRecord(projectSettings);
+  const options = asRecord(requestOptions);
+
+  return {
+    includeHeader: pickBoolean(
+      options.includeHeader,
+      settings.export_header,
+      DEFAULT_EXPORT_LAYOUT.includeHeader
+    ),
+    includeFooter: pickBoolean(
+      options.includeFooter,
+      settings.export_footer,
+      DEFAULT_EXPORT_LAYOUT.includeFooter
+    ),
+    includeTitlePage: pickBoolean(
+      options.includeTitlePage,
+      undefined,
+      DEFAULT_EXPORT_LAYOUT.includeTitlePage
+    ),
+  };
+}
+
+/**
+ * Escape text for inclusion in XHTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function asRecord(value: Json | null | undefined): Record<string, Json | undefined> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value;
+  }
+  return {};
+}
+
+function pickBoolean(...values: Array<Json | undefined>): boolean {
+  for (const value of values) {
+    if (typeof value === 'boolean') return value;
+  }
+  return false;
+}
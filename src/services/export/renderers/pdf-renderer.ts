@@ -0,0 +1,128 @@
+/**
+ * PDF Renderer
+ * Paginated manuscript PDF with running header and page-number footer
+ */
+
+import { jsPDF } from 'jspdf';
+import type { ExportRenderer, ExportRenderInput } from '../types';
+import { chapterHeading, orderChapters, splitParagraphs } from './manuscript';
+
+// Page geometry in points (US Letter)
+const MARGIN = 72;
+const HEADER_OFFSET = 36;
+const BODY_FONT_SIZE = 12;
+const LINE_HEIGHT = BODY_FONT_SIZE * 1.6;
+const PARAGRAPH_INDENT = 24;
+
+export const pdfRenderer: ExportRenderer = {
+  format: 'pdf',
+  contentType: 'application/pdf',
+  extension: 'pdf',
+
+  async render({ project, chapters, layout }: ExportRenderInput): Promise<Buffer> {
+    const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const textWidth = pageWidth - MARGIN * 2;
+    const bottomLimit = pageHeight - MARGIN;
+
+    doc.setProperties({
+      title: project.title,
+      subject: project.subtitle || '',
+      author: project.author || '',
+      creator: 'Halcyon Cinema',
+    });
+
+    let y = MARGIN;
+    let hasContent = false;
+
+    // Title page
+    if (layout.includeTitlePage) {
+      y = pageHeight / 3;
+      doc.setFont('times', 'bold');
+      doc.setFontSize(28);
+      y = writeCentered(doc, project.title, y, textWidth, 34);
+
+      if (project.subtitle) {
+        doc.setFont('times', 'italic');
+        doc.setFontSize(16);
+        y = writeCentered(doc, project.subtitle, y + 8, textWidth, 22);
+      }
+      if (project.author) {
+        doc.setFont('times', 'normal');
+        doc.setFontSize(14);
+        y = writeCentered(doc, `by ${project.author}`, y + 24, textWidth, 20);
+      }
+      if (project.description) {
+        doc.setFont('times', 'normal');
+        doc.setFontSize(BODY_FONT_SIZE);
+        writeCentered(doc, project.description, y + 48, textWidth, LINE_HEIGHT);
+      }
+      hasContent = true;
+    }
+
+    // Chapters - each starts on a new page
+    for (const chapter of orderChapters(chapters)) {
+      if (hasContent) doc.addPage();
+      hasContent = true;
+      y = MARGIN + 48;
+
+      doc.setFont('times', 'bold');
+      doc.setFontSize(18);
+      y = writeCentered(doc, chapterHeading(chapter), y, textWidth, 24) + 24;
+
+      doc.setFont('times', 'normal');
+      doc.setFontSize(BODY_FONT_SIZE);
+
+      for (const paragraph of splitParagraphs(chapter.content)) {
+        const lines: string[] = doc.splitTextToSize(paragraph, textWidth - PARAGRAPH_INDENT);
+
+        lines.forEach((line, index) => {
+          if (y + LINE_HEIGHT > bottomLimit) {
+            doc.addPage();
+            y = MARGIN;
+          }
+          doc.text(line, MARGIN + (index === 0 ? PARAGRAPH_INDENT : 0), y);
+          y += LINE_HEIGHT;
+        });
+      }
+    }
+
+    // Running header and footer, skipping the title page
+    const pageCount = doc.getNumberOfPages();
+    const firstBodyPage = layout.includeTitlePage ? 2 : 1;
+    doc.setFont('times', 'normal');
+    doc.setFontSize(10);
+
+    for (let page = firstBodyPage; page <= pageCount; page++) {
+      doc.setPage(page);
+      if (layout.includeHeader) {
+        const headerText = [project.author, project.title].filter(Boolean).join(' / ');
+        doc.text(headerText, pageWidth - MARGIN, HEADER_OFFSET, { align: 'right' });
+      }
+      if (layout.includeFooter) {
+        doc.text(String(page - firstBodyPage + 1), pageWidth / 2, pageHeight - HEADER_OFFSET, {
+          align: 'center',
+        });
+      }
+    }
+
+    return Buffer.from(doc.output('arraybuffer'));
+  },
+};
+
+function writeCentered(
+  doc: jsPDF,
+  text: string,
+  y: number,
+  maxWidth: number,
+  lineHeight: number
+): number {
+  const lines: string[] = doc.splitTextToSize(text, maxWidth);
+  const centerX = doc.internal.pageSize.getWidth() / 2;
+  for (const line of lines) {
+    doc.text(line, centerX, y, { align: 'center' });
+    y += lineHeight;
+  }
+  return y;
+}
@@ -0,0 +1,61 @@
+/**
+ * Text Renderers
+ * Markdown and JSON exports
+ */
+
+import type { ExportRenderer, ExportRenderInput } from '../types';
+import { chapterHeading, orderChapters } from './manuscript';
+
+export const markdownRenderer: ExportRenderer = {
+  format: 'markdown',
+  contentType: 'text/markdown',
+  extension: 'md',
+
+  async render({ project, chapters, layout }: ExportRenderInput): Promise<Buffer> {
+    const lines: string[] = [];
+
+    // Title page
+    if (layout.includeTitlePage) {
+      lines.push(`# ${project.title}`);
+      if (project.subtitle) lines.push(`## ${project.subtitle}`);
+      lines.push('');
+      if (project.author) {
+        lines.push(`*by ${project.author}*`);
+        lines.push('');
+      }
+      if (project.description) {
+        lines.push(project.description);
+        lines.push('');
+      }
+      if (project.genre) {
+        lines.push(`*Genre: ${project.genre}*`);
+        lines.push('');
+      }
+      lines.push('---');
+      lines.push('');
+    }
+
+    // Chapters
+    for (const chapter of orderChapters(chapters)) {
+      lines.push(`## ${chapterHeading(chapter)}`);
+      lines.push('');
+      lines.push(chapter.content || '');
+      lines.push('');
+    }
+
+    return Buffer.from(lines.join('\n'), 'utf-8');
+  },
+};
+
+export const jsonRenderer: ExportRenderer = {
+  format: 'json',
+  contentType: 'application/json',
+  extension: 'json',
+
+  async render({ project, chapters }: ExportRenderInput): Promise<Buffer> {
+    return Buffer.from(
+      JSON.stringify({ project, chapters: orderChapters(chapters) }, null, 2),
+      'utf-8'
+    );
+  },
+};
@@ -0,0 +1,26 @@
+/**
+ * Export Storage
+ * Selects the storage backend for rendered exports
+ *
+ * EXPORT_STORAGE_DRIVER=local writes files under EXPORT_STORAGE_DIR (default: .exports)
+ * instead of Supabase Storage.
+ */
+
+import type { ExportStorage } from '../types';
+import { LocalExportStorage } from './local-storage';
+import { SupabaseExportStorage } from './supabase-storage';
+
+export { LocalExportStorage } from './local-storage';
+export { SupabaseExportStorage } from './supabase-storage';
+
+let storageInstance: ExportStorage | null = null;
+
+export function getExportStorage(): ExportStorage {
+  if (!storageInstance) {
+    storageInstance =
+      process.env.EXPORT_STORAGE_DRIVER === 'local'
+        ? new LocalExportStorage(process.env.EXPORT_STORAGE_DIR || '.exports')
+        : new SupabaseExportStorage();
+  }
+  return storageInstance;
+}
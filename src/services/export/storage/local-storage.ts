@@ -0,0 +1,53 @@
+/**
+ * Local Export Storage
+ * Filesystem stand-in for development and tests. URLs are file:// links.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { ExportStorage, StoredExportFile } from '../types';
+
+export class LocalExportStorage implements ExportStorage {
+  constructor(private rootDir: string) {}
+
+  async save(
+    filePath: string,
+    data: Buffer,
+    _contentType: string,
+    expiresInSeconds: number
+  ): Promise<StoredExportFile> {
+    const target = this.resolve(filePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+
+    return this.createDownloadUrl(filePath, expiresInSeconds);
+  }
+
+  async createDownloadUrl(filePath: string, expiresInSeconds: number): Promise<StoredExportFile> {
+    const target = this.resolve(filePath);
+    await fs.access(target);
+
+    return {
+      path: filePath,
+      url: pathToFileURL(target).toString(),
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  async remove(filePath: string): Promise<void> {
+    await fs.rm(this.resolve(filePath), { force: true });
+  }
+
+  /**
+   * Resolve a storage path inside the root directory
+   */
+  private resolve(filePath: string): string {
+    const root = path.resolve(this.rootDir);
+    const target = path.resolve(root, filePath);
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Invalid export path: ${filePath}`);
+    }
+    return target;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Supabase Export Storage
+ * Stores rendered exports in the private 'exports' bucket with signed download URLs
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { ExportStorage, StoredExportFile } from '../types';
+
+const EXPORT_BUCKET = 'exports';
+
+export class SupabaseExportStorage implements ExportStorage {
+  private supabase = createAdminClient();
+
+  async save(
+    path: string,
+    data: Buffer,
+    contentType: string,
+    expiresInSeconds: number
+  ): Promise<StoredExportFile> {
+    const { error } = await this.supabase.storage
+      .from(EXPORT_BUCKET)
+      .upload(path, data, { contentType, upsert: true });
+
+    if (error) {
+      throw new Error(`Failed to upload export: ${error.message}`);
+    }
+
+    return this.createDownloadUrl(path, expiresInSeconds);
+  }
+
+  async createDownloadUrl(path: string, expiresInSeconds: number): Promise<StoredExportFile> {
+    const { data, error } = await this.supabase.storage
+      .from(EXPORT_BUCKET)
+      .createSignedUrl(path, expiresInSeconds, { download: true });
+
+    if (error || !data) {
+      throw new Error(`Failed to sign export URL: ${error?.message || 'unknown error'}`);
+    }
+
+    return {
+      path,
+      url: data.signedUrl,
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  async remove(path: string): Promise<void> {
+    const { error } = await this.supabase.storage.from(EXPORT_BUCKET).remove([path]);
+    if (error) {
+      throw new Error(`Failed to remove export: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Export Service Types
+ * Type definitions for manuscript rendering
+ */
+
+import type { ExportFormat } from '@/types/database';
+
+// Project data needed to render an export
+export interface ExportProjectData {
+  id: string;
+  title: string;
+  subtitle?: string | null;
+  description?: string | null;
+  genre?: string | null;
+  logline?: string | null;
+  author?: string | null;
+}
+
+// Chapter data needed to render an export
+export interface ExportChapterData {
+  id: string;
+  title: string;
+  content: string | null;
+  orderIndex: number;
+}
+
+// Scene data for screenplay exports
+export interface ExportSceneData {
+  id: string;
+  chapterId: string;
+  title: string | null;
+  content: string | null;
+  orderIndex: number;
+  location: string | null;
+  locationId: string | null;
+  timeOfDay: string | null;
+  purpose: string | null;
+  mood: string | null;
+  shots: ExportShotData[];
+}
+
+// Shot data used to derive screenplay transitions
+export interface ExportShotData {
+  orderIndex: number;
+  description: string;
+  cameraMovement: string | null;
+  technicalNotes: string | null;
+}
+
+// Canon character names used to attribute dialogue
+export interface ExportCharacterData {
+  id: string;
+  name: string;
+  fullName: string | null;
+  aliases: string[];
+}
+
+// Canon location data used for scene headings
+export interface ExportLocationData {
+  id: string;
+  name: string;
+  type: string | null; // 'interior', 'exterior', 'both'
+}
+
+// Screenplay source data loaded from scenes, shots and canon
+export interface ExportScreenplayData {
+  scenes: ExportSceneData[];
+  characters: ExportCharacterData[];
+  locations: ExportLocationData[];
+}
+
+// Layout options derived from project settings and request options
+export interface ExportLayoutOptions {
+  includeHeader: boolean;
+  includeFooter: boolean;
+  includeTitlePage: boolean;
+}
+
+// Full input handed to a renderer
+export interface ExportRenderInput {
+  project: ExportProjectData;
+  chapters: ExportChapterData[];
+  layout: ExportLayoutOptions;
+  screenplay?: ExportScreenplayData;
+}
+
+// Rendered file
+export interface RenderedExport {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+// Renderer contract - one per export format
+export interface ExportRenderer {
+  format: ExportFormat;
+  contentType: string;
+  extension: string;
+  render(input: ExportRenderInput): Promise<Buffer>;
+}
+
+export const DEFAULT_EXPORT_LAYOUT: ExportLayoutOptions = {
+  includeHeader: true,
+  includeFooter: true,
+  includeTitlePage: true,
+};
+
+// Export job lifecycle (exports.status)
+export type ExportJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// File stored by an export storage backend
+export interface StoredExportFile {
+  path: string;
+  url: string;
+  expiresAt: string;
+}
+
+// Storage backend for rendered export files
+export interface ExportStorage {
+  save(path: string, data: Buffer, contentType: string, expiresInSeconds: number): Promise<StoredExportFile>;
+  createDownloadUrl(path: string, expiresInSeconds: number): Promise<StoredExportFile>;
+  remove(path: string): Promise<void>;
+}
+
+// Job runner configuration
+export interface ExportJobRunnerOptions {
+  downloadUrlTtlSeconds: number; // Lifetime of signed download URLs
+  staleClaimSeconds: number; // Processing jobs older than this are reclaimed
+  maxAttempts: number;
+}
+
+// Outcome of processing a single export job
+export interface ExportJobResult {
+  exportId: string;
+  status: ExportJobStatus;
+  fileUrl: string | null;
+  expiresAt: string | null;
+  error?: string;
+  rendered?: RenderedExport;
+}
+
+export const DEFAULT_EXPORT_JOB_OPTIONS: ExportJobRunnerOptions = {
+  downloadUrlTtlSeconds: 60 * 60 * 24, // 24 hours
+  staleClaimSeconds: 60 * 10, // 10 minutes
+  maxAttempts: 3,
+};
@@ -0,0 +1,159 @@
+/**
+ * Fake Supabase Client
+ * In-memory stand-in for service tests, covering the query builder calls services make
+ *
+ * Tables are plain row arrays. Filters, ordering and limits are applied in memory,
+ * updates and upserts change the stored rows, and rpc() calls the registered handler.
+ * Queries run when awaited, so concurrent callers interleave like separate requests.
+ */
+
+import type { createAdminClient } from '@/lib/supabase/admin';
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type RpcHandler = (args: Record<string, unknown>) => unknown;
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  rpcCalls: { fn: string; args: Record<string, unknown> }[] = [];
+  private rpcHandlers: Record<string, RpcHandler> = {};
+
+  // Upsert conflict column per table, when it isn't `id`
+  constructor(tables: Record<string, Row[]> = {}, private primaryKeys: Record<string, string> = {}) {
+    for (const [table, rows] of Object.entries(tables)) {
+      this.tables[table] = rows.map((row) => ({ ...row }));
+    }
+  }
+
+  /**
+   * The fake typed as the admin client services expect
+   */
+  get client(): ReturnType<typeof createAdminClient> {
+    return this as unknown as ReturnType<typeof createAdminClient>;
+  }
+
+  onRpc(fn: string, handler: RpcHandler): this {
+    this.rpcHandlers[fn] = handler;
+    return this;
+  }
+
+  from(table: string) {
+    this.tables[table] ||= [];
+    return new FakeQuery(this.tables[table], this.primaryKeys[table] ?? 'id');
+  }
+
+  async rpc(fn: string, args: Record<string, unknown>) {
+    this.rpcCalls.push({ fn, args });
+    try {
+      return { data: (await this.rpcHandlers[fn]?.(args)) ?? null, error: null };
+    } catch (error) {
+      return { data: null, error: { message: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+}
+
+class FakeQuery {
+  private filters: Filter[] = [];
+  private changes: Row | null = null;
+  private upserts: { rows: Row[]; key: string } | null = null;
+  private sortColumn: string | null = null;
+  private maxRows: number | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(
+    private rows: Row[],
+    private primaryKey: string
+  ) {}
+
+  select() {
+    return this;
+  }
+
+  update(changes: Row) {
+    this.changes = changes;
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.upserts = { rows: Array.isArray(rows) ? rows : [rows], key: options.onConflict ?? this.primaryKey };
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: null) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  // Only the `col.is.null` and `col.lt.value` forms are supported
+  or(expression: string) {
+    const alternatives = expression.split(',').map((part): Filter => {
+      const [column, op, ...rest] = part.split('.');
+      const value = rest.join('.');
+      return op === 'is' ? (row) => row[column] === null : (row) => String(row[column]) < value;
+    });
+    this.filters.push((row) => alternatives.some((matches) => matches(row)));
+    return this;
+  }
+
+  order(column: string) {
+    this.sortColumn = column;
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<T>(resolve: (result: { data: unknown; error: unknown }) => T, reject?: (error: unknown) => T) {
+    return Promise.resolve(this.execute()).then(resolve, reject);
+  }
+
+  private execute() {
+    if (this.upserts) {
+      const { rows, key } = this.upserts;
+      for (const row of rows) {
+        const existing = this.rows.find((stored) => stored[key] === row[key]);
+        if (existing) Object.assign(existing, row);
+        else this.rows.push({ ...row });
+      }
+      return { data: null, error: null };
+    }
+
+    let matched = this.rows.filter((row) => this.filters.every((matches) => matches(row)));
+
+    if (this.changes) {
+      for (const row of matched) Object.assign(row, this.changes);
+    }
+
+    const column = this.sortColumn;
+    if (column) matched = [...matched].sort((a, b) => String(a[column]).localeCompare(String(b[column])));
+    if (this.maxRows !== null) matched = matched.slice(0, this.maxRows);
+
+    const data = matched.map((row) => ({ ...row }));
+    if (this.mode === 'many') return { data, error: null };
+    if (data.length === 1) return { data: data[0], error: null };
+    if (this.mode === 'maybeSingle' && data.length === 0) return { data: null, error: null };
+    return { data: null, error: { message: `Expected one row, found ${data.length}` } };
+  }
+}
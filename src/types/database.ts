@@ -22,6 +22,11 @@ export type ShotType = 'establishing' | 'wide' | 'medium' | 'close_up' | 'extrem
 export type ProductionFormat = 'film' | 'tv' | 'animation' | 'game' | 'web_series' | 'short';
 export type ExportFormat = 'docx' | 'pdf' | 'epub' | 'fountain' | 'markdown' | 'json';
 export type ConflictResolution = 'keep_canon' | 'update_canon' | 'fork_timeline';
+export type CanonChangeType = 'manual' | 'ai_suggestion_accepted' | 'conflict_resolution' | 'rollback';
+export type ShotChangeType = 'translation' | 'regeneration' | 'manual' | 'rollback';
+export type CanonSuggestionKind = 'create' | 'update';
+export type CanonSuggestionStatus = 'pending' | 'accepted' | 'rejected';
+export type CanonConflictStatus = 'open' | 'resolved' | 'dismissed';
 
 export interface Database {
   public: {
@@ -41,10 +46,13 @@ export interface Database {
           monthly_ai_tokens_limit: number;
           monthly_exports_used: number;
           monthly_exports_limit: number;
+          monthly_ai_tokens_reserved: number;
+          usage_period_start: string;
           legacy_user: boolean;
           legacy_import_date: string | null;
           preferred_mode: ProjectMode;
           onboarding_completed: boolean;
+          is_admin: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -62,10 +70,13 @@ export interface Database {
           monthly_ai_tokens_limit?: number;
           monthly_exports_used?: number;
           monthly_exports_limit?: number;
+          monthly_ai_tokens_reserved?: number;
+          usage_period_start?: string;
           legacy_user?: boolean;
           legacy_import_date?: string | null;
           preferred_mode?: ProjectMode;
           onboarding_completed?: boolean;
+          is_admin?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -83,13 +94,17 @@ export interface Database {
           monthly_ai_tokens_limit?: number;
           monthly_exports_used?: number;
           monthly_exports_limit?: number;
+          monthly_ai_tokens_reserved?: number;
+          usage_period_start?: string;
           legacy_user?: boolean;
           legacy_import_date?: string | null;
           preferred_mode?: ProjectMode;
           onboarding_completed?: boolean;
+          is_admin?: boolean;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       projects: {
         Row: {
@@ -176,6 +191,15 @@ export interface Database {
           updated_at?: string;
           last_edited_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'projects_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       chapters: {
         Row: {
@@ -229,6 +253,15 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'chapters_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       scenes: {
         Row: {
@@ -240,6 +273,7 @@ export interface Database {
           order_index: number;
           location: string | null;
           time_of_day: string | null;
+          story_date: string | null;
           semantic_data: Json;
           character_ids: string[];
           location_id: string | null;
@@ -258,6 +292,7 @@ export interface Database {
           order_index: number;
           location?: string | null;
           time_of_day?: string | null;
+          story_date?: string | null;
           semantic_data?: Json;
           character_ids?: string[];
           location_id?: string | null;
@@ -276,6 +311,7 @@ export interface Database {
           order_index?: number;
           location?: string | null;
           time_of_day?: string | null;
+          story_date?: string | null;
           semantic_data?: Json;
           character_ids?: string[];
           location_id?: string | null;
@@ -285,6 +321,22 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'scenes_chapter_id_fkey';
+            columns: ['chapter_id'];
+            isOneToOne: false;
+            referencedRelation: 'chapters';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'scenes_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       canon_entries: {
         Row: {
@@ -351,6 +403,433 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_entries_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_entries_locked_by_fkey';
+            columns: ['locked_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_entries_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_entries_timeline_id_fkey';
+            columns: ['timeline_id'];
+            isOneToOne: false;
+            referencedRelation: 'timelines';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      canon_versions: {
+        Row: {
+          id: string;
+          canon_entry_id: string;
+          version: number;
+          name: string;
+          description: string | null;
+          data: Json;
+          changed_by: string | null;
+          change_reason: string | null;
+          change_type: CanonChangeType | null;
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          canon_entry_id: string;
+          version: number;
+          name: string;
+          description?: string | null;
+          data: Json;
+          changed_by?: string | null;
+          change_reason?: string | null;
+          change_type?: CanonChangeType | null;
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          canon_entry_id?: string;
+          version?: number;
+          name?: string;
+          description?: string | null;
+          data?: Json;
+          changed_by?: string | null;
+          change_reason?: string | null;
+          change_type?: CanonChangeType | null;
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_versions_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_versions_changed_by_fkey';
+            columns: ['changed_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      canon_references: {
+        Row: {
+          id: string;
+          canon_entry_id: string;
+          chapter_id: string | null;
+          scene_id: string | null;
+          context_snippet: string | null;
+          position_start: number | null;
+          position_end: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          canon_entry_id: string;
+          chapter_id?: string | null;
+          scene_id?: string | null;
+          context_snippet?: string | null;
+          position_start?: number | null;
+          position_end?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          canon_entry_id?: string;
+          chapter_id?: string | null;
+          scene_id?: string | null;
+          context_snippet?: string | null;
+          position_start?: number | null;
+          position_end?: number | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_references_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_references_chapter_id_fkey';
+            columns: ['chapter_id'];
+            isOneToOne: false;
+            referencedRelation: 'chapters';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_references_scene_id_fkey';
+            columns: ['scene_id'];
+            isOneToOne: false;
+            referencedRelation: 'scenes';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      canon_conflicts: {
+        Row: {
+          id: string;
+          project_id: string;
+          generation_id: string | null;
+          timeline_id: string | null;
+          target_type: string | null;
+          target_id: string | null;
+          conflict_type: string;
+          severity: 'warning' | 'error';
+          description: string;
+          canon_entry_id: string | null;
+          canon_entry_name: string | null;
+          suggested_resolution: string | null;
+          generated_text: string | null;
+          position_start: number | null;
+          position_end: number | null;
+          status: CanonConflictStatus;
+          resolution: ConflictResolution | null;
+          resolution_note: string | null;
+          resolution_timeline_id: string | null;
+          resolved_by: string | null;
+          resolved_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          generation_id?: string | null;
+          timeline_id?: string | null;
+          target_type?: string | null;
+          target_id?: string | null;
+          conflict_type: string;
+          severity?: 'warning' | 'error';
+          description: string;
+          canon_entry_id?: string | null;
+          canon_entry_name?: string | null;
+          suggested_resolution?: string | null;
+          generated_text?: string | null;
+          position_start?: number | null;
+          position_end?: number | null;
+          status?: CanonConflictStatus;
+          resolution?: ConflictResolution | null;
+          resolution_note?: string | null;
+          resolution_timeline_id?: string | null;
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          generation_id?: string | null;
+          timeline_id?: string | null;
+          target_type?: string | null;
+          target_id?: string | null;
+          conflict_type?: string;
+          severity?: 'warning' | 'error';
+          description?: string;
+          canon_entry_id?: string | null;
+          canon_entry_name?: string | null;
+          suggested_resolution?: string | null;
+          generated_text?: string | null;
+          position_start?: number | null;
+          position_end?: number | null;
+          status?: CanonConflictStatus;
+          resolution?: ConflictResolution | null;
+          resolution_note?: string | null;
+          resolution_timeline_id?: string | null;
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_conflicts_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_conflicts_generation_id_fkey';
+            columns: ['generation_id'];
+            isOneToOne: false;
+            referencedRelation: 'ai_generations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_conflicts_timeline_id_fkey';
+            columns: ['timeline_id'];
+            isOneToOne: false;
+            referencedRelation: 'timelines';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_conflicts_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_conflicts_resolution_timeline_id_fkey';
+            columns: ['resolution_timeline_id'];
+            isOneToOne: false;
+            referencedRelation: 'timelines';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_conflicts_resolved_by_fkey';
+            columns: ['resolved_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      canon_suggestions: {
+        Row: {
+          id: string;
+          project_id: string;
+          canon_entry_id: string | null;
+          kind: CanonSuggestionKind;
+          entity_type: CanonEntityType;
+          name: string;
+          fields: Json;
+          rationale: string | null;
+          evidence: Json;
+          status: CanonSuggestionStatus;
+          created_by: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          canon_entry_id?: string | null;
+          kind: CanonSuggestionKind;
+          entity_type: CanonEntityType;
+          name: string;
+          fields?: Json;
+          rationale?: string | null;
+          evidence?: Json;
+          status?: CanonSuggestionStatus;
+          created_by?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          canon_entry_id?: string | null;
+          kind?: CanonSuggestionKind;
+          entity_type?: CanonEntityType;
+          name?: string;
+          fields?: Json;
+          rationale?: string | null;
+          evidence?: Json;
+          status?: CanonSuggestionStatus;
+          created_by?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_suggestions_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_suggestions_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_suggestions_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_suggestions_reviewed_by_fkey';
+            columns: ['reviewed_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      canon_milestones: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          description: string | null;
+          taken_at: string;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name: string;
+          description?: string | null;
+          taken_at?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          name?: string;
+          description?: string | null;
+          taken_at?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_milestones_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_milestones_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      canon_embeddings: {
+        Row: {
+          canon_entry_id: string;
+          project_id: string;
+          model: string;
+          content_hash: string;
+          embedding: number[];
+          updated_at: string;
+        };
+        Insert: {
+          canon_entry_id: string;
+          project_id: string;
+          model: string;
+          content_hash: string;
+          embedding: number[];
+          updated_at?: string;
+        };
+        Update: {
+          canon_entry_id?: string;
+          project_id?: string;
+          model?: string;
+          content_hash?: string;
+          embedding?: number[];
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_embeddings_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: true;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_embeddings_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       canon_characters: {
         Row: {
@@ -437,6 +916,22 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_characters_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_characters_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       canon_locations: {
         Row: {
@@ -499,6 +994,29 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_locations_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_locations_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_locations_parent_location_id_fkey';
+            columns: ['parent_location_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_locations';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       canon_rules: {
         Row: {
@@ -546,6 +1064,22 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_rules_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_rules_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       canon_events: {
         Row: {
@@ -599,6 +1133,22 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_events_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_events_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       canon_themes: {
         Row: {
@@ -640,6 +1190,22 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'canon_themes_canon_entry_id_fkey';
+            columns: ['canon_entry_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_entries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'canon_themes_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       shots: {
         Row: {
@@ -667,6 +1233,7 @@ export interface Database {
           format: ProductionFormat;
           aspect_ratio: string;
           status: ContentStatus;
+          edited_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -695,6 +1262,7 @@ export interface Database {
           format: ProductionFormat;
           aspect_ratio?: string;
           status?: ContentStatus;
+          edited_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -723,9 +1291,97 @@ export interface Database {
           format?: ProductionFormat;
           aspect_ratio?: string;
           status?: ContentStatus;
+          edited_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'shots_scene_id_fkey';
+            columns: ['scene_id'];
+            isOneToOne: false;
+            referencedRelation: 'scenes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'shots_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'shots_location_id_fkey';
+            columns: ['location_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_locations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      shot_versions: {
+        Row: {
+          id: string;
+          shot_id: string;
+          project_id: string;
+          version: number;
+          description: string;
+          visual_prompt: string | null;
+          data: Json;
+          changed_by: string | null;
+          change_reason: string | null;
+          change_type: ShotChangeType;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shot_id: string;
+          project_id: string;
+          version: number;
+          description: string;
+          visual_prompt?: string | null;
+          data: Json;
+          changed_by?: string | null;
+          change_reason?: string | null;
+          change_type: ShotChangeType;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shot_id?: string;
+          project_id?: string;
+          version?: number;
+          description?: string;
+          visual_prompt?: string | null;
+          data?: Json;
+          changed_by?: string | null;
+          change_reason?: string | null;
+          change_type?: ShotChangeType;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'shot_versions_shot_id_fkey';
+            columns: ['shot_id'];
+            isOneToOne: false;
+            referencedRelation: 'shots';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'shot_versions_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'shot_versions_changed_by_fkey';
+            columns: ['changed_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       ai_generations: {
         Row: {
@@ -788,6 +1444,22 @@ export interface Database {
           error_message?: string | null;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'ai_generations_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ai_generations_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       exports: {
         Row: {
@@ -806,6 +1478,9 @@ export interface Database {
           created_at: string;
           completed_at: string | null;
           expires_at: string | null;
+          claimed_at: string | null;
+          attempts: number;
+          storage_path: string | null;
         };
         Insert: {
           id?: string;
@@ -823,6 +1498,9 @@ export interface Database {
           created_at?: string;
           completed_at?: string | null;
           expires_at?: string | null;
+          claimed_at?: string | null;
+          attempts?: number;
+          storage_path?: string | null;
         };
         Update: {
           id?: string;
@@ -840,7 +1518,26 @@ export interface Database {
           created_at?: string;
           completed_at?: string | null;
           expires_at?: string | null;
+          claimed_at?: string | null;
+          attempts?: number;
+          storage_path?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'exports_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'exports_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       feature_flags: {
         Row: {
@@ -876,6 +1573,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       metrics_events: {
         Row: {
@@ -914,6 +1612,22 @@ export interface Database {
           user_agent?: string | null;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'metrics_events_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'metrics_events_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       timelines: {
         Row: {
@@ -949,8 +1663,34 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'timelines_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'timelines_parent_timeline_id_fkey';
+            columns: ['parent_timeline_id'];
+            isOneToOne: false;
+            referencedRelation: 'timelines';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'timelines_fork_point_event_id_fkey';
+            columns: ['fork_point_event_id'];
+            isOneToOne: false;
+            referencedRelation: 'canon_events';
+            referencedColumns: ['id'];
+          },
+        ];
       };
     };
+    Views: {
+      [_ in never]: never;
+    };
     Functions: {
       get_user_features: {
         Args: { p_user_id: string };
@@ -964,6 +1704,93 @@ export interface Database {
         Args: { p_project_id: string };
         Returns: Json;
       };
+      reserve_ai_tokens: {
+        Args: { p_user_id: string; p_tokens: number; p_limit: number };
+        Returns: { allowed: boolean; tokens_used: number; tokens_reserved: number; period_start: string }[];
+      };
+      reconcile_ai_tokens: {
+        Args: { p_user_id: string; p_reserved: number; p_actual: number };
+        Returns: undefined;
+      };
+      increment_tokens_used: {
+        Args: { p_user_id: string; p_tokens: number };
+        Returns: undefined;
+      };
+      consume_export_quota: {
+        Args: { p_user_id: string; p_limit: number };
+        Returns: { allowed: boolean; exports_used: number; period_start: string }[];
+      };
+      release_export_quota: {
+        Args: { p_user_id: string };
+        Returns: undefined;
+      };
+      sync_canon_reference_counts: {
+        Args: { p_entry_ids: string[] };
+        Returns: undefined;
+      };
+      replace_canon_references: {
+        Args: { p_chapter_id: string; p_scene_id: string | null; p_references: Json };
+        Returns: string[];
+      };
+      get_canon_mentions: {
+        Args: { p_canon_entry_id: string; p_limit: number };
+        Returns: {
+          id: string;
+          canon_entry_id: string;
+          chapter_id: string | null;
+          chapter_title: string | null;
+          scene_id: string | null;
+          scene_title: string | null;
+          context_snippet: string | null;
+          position_start: number | null;
+          position_end: number | null;
+          created_at: string;
+          total_count: number;
+        }[];
+      };
+      import_canon_entries: {
+        Args: { p_project_id: string; p_entries: Json; p_user_id?: string | null };
+        Returns: { created: number; updated: number };
+      };
+      search_canon_lexical: {
+        Args: { p_project_id: string; p_query: string; p_entity_types?: CanonEntityType[] | null; p_limit?: number };
+        Returns: { canon_entry_id: string; rank: number }[];
+      };
+      reorder_shots: {
+        Args: { p_scene_id: string; p_shot_ids: string[] };
+        Returns: Database['public']['Tables']['shots']['Row'][];
+      };
+      apply_shot_reconciliation: {
+        Args: {
+          p_scene_id: string;
+          p_removals: string[];
+          p_updates: Json;
+          p_inserts: Json;
+          p_order: string[];
+          p_keep_edited?: boolean;
+        };
+        Returns: Database['public']['Tables']['shots']['Row'][];
+      };
+      update_shot_versioned: {
+        Args: {
+          p_shot_id: string;
+          p_changes: Json;
+          p_user_id: string | null;
+          p_change_type: ShotChangeType;
+          p_reason?: string | null;
+        };
+        Returns: { shot: Database['public']['Tables']['shots']['Row']; version: number | null } | null;
+      };
+      insert_shot: {
+        Args: { p_shot: Json; p_position?: number | null };
+        Returns: Database['public']['Tables']['shots']['Row'];
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
 }
@@ -989,6 +1816,17 @@ export type CanonEntry = Database['public']['Tables']['canon_entries']['Row'];
 export type CanonEntryInsert = Database['public']['Tables']['canon_entries']['Insert'];
 export type CanonEntryUpdate = Database['public']['Tables']['canon_entries']['Update'];
 
+export type CanonVersion = Database['public']['Tables']['canon_versions']['Row'];
+
+export type CanonReference = Database['public']['Tables']['canon_references']['Row'];
+export type CanonReferenceInsert = Database['public']['Tables']['canon_references']['Insert'];
+
+export type CanonConflictRecord = Database['public']['Tables']['canon_conflicts']['Row'];
+export type CanonConflictInsert = Database['public']['Tables']['canon_conflicts']['Insert'];
+export type CanonSuggestion = Database['public']['Tables']['canon_suggestions']['Row'];
+export type CanonMilestone = Database['public']['Tables']['canon_milestones']['Row'];
+export type CanonEmbedding = Database['public']['Tables']['canon_embeddings']['Row'];
+
 export type CanonCharacter = Database['public']['Tables']['canon_characters']['Row'];
 export type CanonLocation = Database['public']['Tables']['canon_locations']['Row'];
 export type CanonRule = Database['public']['Tables']['canon_rules']['Row'];
@@ -999,6 +1837,8 @@ export type Shot = Database['public']['Tables']['shots']['Row'];
 export type ShotInsert = Database['public']['Tables']['shots']['Insert'];
 export type ShotUpdate = Database['public']['Tables']['shots']['Update'];
 
+export type ShotVersion = Database['public']['Tables']['shot_versions']['Row'];
+
 export type AIGeneration = Database['public']['Tables']['ai_generations']['Row'];
 export type Export = Database['public']['Tables']['exports']['Row'];
 export type FeatureFlag = Database['public']['Tables']['feature_flags']['Row'];
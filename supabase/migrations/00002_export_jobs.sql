@@ -0,0 +1,27 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Export Job Queue
+--
+-- Exports are rendered by a background job runner:
+-- 1. Jobs are claimed from 'pending' (or stale 'processing') rows
+-- 2. Rendered files are stored in the private 'exports' storage bucket
+-- 3. Download URLs are signed and expire (expires_at)
+
+-- ============================================
+-- EXPORT JOB TRACKING
+-- ============================================
+
+ALTER TABLE public.exports
+    ADD COLUMN claimed_at TIMESTAMPTZ, -- When a runner last claimed the job
+    ADD COLUMN attempts INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN storage_path TEXT; -- Object key within the exports bucket
+
+-- Stale claims are picked up again by the runner
+CREATE INDEX idx_exports_processing ON public.exports(claimed_at) WHERE status = 'processing';
+
+-- ============================================
+-- STORAGE
+-- ============================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('exports', 'exports', FALSE)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,12 @@
+-- Rollback script for export job queue
+-- WARNING: This will delete stored export files. Use with caution.
+
+DELETE FROM storage.objects WHERE bucket_id = 'exports';
+DELETE FROM storage.buckets WHERE id = 'exports';
+
+DROP INDEX IF EXISTS public.idx_exports_processing;
+
+ALTER TABLE public.exports
+    DROP COLUMN IF EXISTS storage_path,
+    DROP COLUMN IF EXISTS attempts,
+    DROP COLUMN IF EXISTS claimed_at;
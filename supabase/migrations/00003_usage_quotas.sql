@@ -0,0 +1,128 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Usage Quotas
+--
+-- Monthly AI token and export budgets are enforced before work starts:
+-- 1. AI calls reserve an estimated token amount, then reconcile it with actual usage
+-- 2. Exports consume one unit up front and are released if rendering fails
+-- 3. Counters reset at the start of each calendar month (UTC)
+
+-- ============================================
+-- USAGE TRACKING
+-- ============================================
+
+ALTER TABLE public.users
+    ADD COLUMN monthly_ai_tokens_reserved BIGINT DEFAULT 0 NOT NULL, -- In-flight AI reservations
+    ADD COLUMN usage_period_start TIMESTAMPTZ DEFAULT date_trunc('month', NOW()) NOT NULL;
+
+-- ============================================
+-- QUOTA FUNCTIONS
+-- ============================================
+
+-- Reset monthly counters once a new month has started
+CREATE OR REPLACE FUNCTION reset_monthly_usage_if_due(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.users
+    SET
+        monthly_ai_tokens_used = 0,
+        monthly_ai_tokens_reserved = 0,
+        monthly_exports_used = 0,
+        usage_period_start = date_trunc('month', NOW())
+    WHERE id = p_user_id
+      AND usage_period_start < date_trunc('month', NOW());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reserve AI tokens if the budget allows (p_limit < 0 means unlimited)
+CREATE OR REPLACE FUNCTION reserve_ai_tokens(p_user_id UUID, p_tokens BIGINT, p_limit BIGINT)
+RETURNS TABLE (allowed BOOLEAN, tokens_used BIGINT, tokens_reserved BIGINT, period_start TIMESTAMPTZ) AS $$
+BEGIN
+    PERFORM reset_monthly_usage_if_due(p_user_id);
+
+    RETURN QUERY
+    WITH reserved AS (
+        UPDATE public.users u
+        SET monthly_ai_tokens_reserved = u.monthly_ai_tokens_reserved + p_tokens
+        WHERE u.id = p_user_id
+          AND (p_limit < 0 OR u.monthly_ai_tokens_used + u.monthly_ai_tokens_reserved + p_tokens <= p_limit)
+        RETURNING u.monthly_ai_tokens_used, u.monthly_ai_tokens_reserved, u.usage_period_start
+    )
+    SELECT TRUE, r.monthly_ai_tokens_used, r.monthly_ai_tokens_reserved, r.usage_period_start
+    FROM reserved r;
+
+    IF NOT FOUND THEN
+        RETURN QUERY
+        SELECT FALSE, u.monthly_ai_tokens_used, u.monthly_ai_tokens_reserved, u.usage_period_start
+        FROM public.users u
+        WHERE u.id = p_user_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace a reservation with the tokens actually used
+CREATE OR REPLACE FUNCTION reconcile_ai_tokens(p_user_id UUID, p_reserved BIGINT, p_actual BIGINT)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.users
+    SET
+        monthly_ai_tokens_reserved = GREATEST(monthly_ai_tokens_reserved - p_reserved, 0),
+        monthly_ai_tokens_used = monthly_ai_tokens_used + p_actual
+    WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record token usage without a reservation (CLI and background jobs)
+CREATE OR REPLACE FUNCTION increment_tokens_used(p_user_id UUID, p_tokens BIGINT)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM reset_monthly_usage_if_due(p_user_id);
+
+    UPDATE public.users
+    SET monthly_ai_tokens_used = monthly_ai_tokens_used + p_tokens
+    WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Consume one export if the budget allows (p_limit < 0 means unlimited)
+CREATE OR REPLACE FUNCTION consume_export_quota(p_user_id UUID, p_limit INTEGER)
+RETURNS TABLE (allowed BOOLEAN, exports_used INTEGER, period_start TIMESTAMPTZ) AS $$
+BEGIN
+    PERFORM reset_monthly_usage_if_due(p_user_id);
+
+    RETURN QUERY
+    WITH consumed AS (
+        UPDATE public.users u
+        SET monthly_exports_used = u.monthly_exports_used + 1
+        WHERE u.id = p_user_id
+          AND (p_limit < 0 OR u.monthly_exports_used < p_limit)
+        RETURNING u.monthly_exports_used, u.usage_period_start
+    )
+    SELECT TRUE, c.monthly_exports_used, c.usage_period_start
+    FROM consumed c;
+
+    IF NOT FOUND THEN
+        RETURN QUERY
+        SELECT FALSE, u.monthly_exports_used, u.usage_period_start
+        FROM public.users u
+        WHERE u.id = p_user_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Give back an export that failed to render
+CREATE OR REPLACE FUNCTION release_export_quota(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.users
+    SET monthly_exports_used = GREATEST(monthly_exports_used - 1, 0)
+    WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Quota counters are only changed server-side
+REVOKE EXECUTE ON FUNCTION reset_monthly_usage_if_due(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_ai_tokens(UUID, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_ai_tokens(UUID, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION increment_tokens_used(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION consume_export_quota(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_export_quota(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,12 @@
+-- Rollback script for usage quotas
+
+DROP FUNCTION IF EXISTS release_export_quota(UUID);
+DROP FUNCTION IF EXISTS consume_export_quota(UUID, INTEGER);
+DROP FUNCTION IF EXISTS increment_tokens_used(UUID, BIGINT);
+DROP FUNCTION IF EXISTS reconcile_ai_tokens(UUID, BIGINT, BIGINT);
+DROP FUNCTION IF EXISTS reserve_ai_tokens(UUID, BIGINT, BIGINT);
+DROP FUNCTION IF EXISTS reset_monthly_usage_if_due(UUID);
+
+ALTER TABLE public.users
+    DROP COLUMN IF EXISTS usage_period_start,
+    DROP COLUMN IF EXISTS monthly_ai_tokens_reserved;
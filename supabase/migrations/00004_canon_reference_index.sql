@@ -0,0 +1,38 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Canon Reference Index
+--
+-- Chapter and scene saves re-index canon mentions into canon_references.
+-- reference_count and last_referenced_at on canon_entries are derived from
+-- those rows and recomputed for every entry an indexing pass touches.
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+-- Latest references per entry (mention lists, context ranking)
+CREATE INDEX idx_canon_refs_entry_recent ON public.canon_references(canon_entry_id, created_at DESC);
+
+-- ============================================
+-- REFERENCE COUNT SYNC
+-- ============================================
+
+-- Recompute reference_count and last_referenced_at from canon_references
+CREATE OR REPLACE FUNCTION sync_canon_reference_counts(p_entry_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.canon_entries e
+    SET
+        reference_count = COALESCE(r.reference_count, 0),
+        last_referenced_at = r.last_referenced_at
+    FROM (
+        SELECT ids.id, COUNT(cr.id)::INTEGER AS reference_count, MAX(cr.created_at) AS last_referenced_at
+        FROM unnest(p_entry_ids) AS ids(id)
+        LEFT JOIN public.canon_references cr ON cr.canon_entry_id = ids.id
+        GROUP BY ids.id
+    ) r
+    WHERE e.id = r.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reference counts are only changed server-side
+REVOKE EXECUTE ON FUNCTION sync_canon_reference_counts(UUID[]) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,5 @@
+-- Rollback script for canon reference index
+
+DROP FUNCTION IF EXISTS sync_canon_reference_counts(UUID[]);
+
+DROP INDEX IF EXISTS public.idx_canon_refs_entry_recent;
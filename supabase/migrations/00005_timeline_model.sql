@@ -0,0 +1,68 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Timeline Model
+--
+-- Every project gets a main timeline when it is created (existing projects are
+-- backfilled). Canon entries with timeline_id NULL belong to the main timeline;
+-- a fork stores its overrides as entries with timeline_id set to the fork and
+-- parent_id pointing at the entry they replace. Entries without an override are
+-- inherited from the parent timeline.
+
+-- ============================================
+-- CANON ENTRY TIMELINE SCOPE
+-- ============================================
+
+-- Removing a fork removes its overrides
+ALTER TABLE public.canon_entries
+    ADD CONSTRAINT canon_entries_timeline_id_fkey
+    FOREIGN KEY (timeline_id) REFERENCES public.timelines(id) ON DELETE CASCADE;
+
+-- Deleting a timeline looks up its entries by timeline_id alone
+CREATE INDEX idx_canon_entries_timeline_id ON public.canon_entries(timeline_id) WHERE timeline_id IS NOT NULL;
+
+-- Slugs are unique per timeline so a fork can override an entry under the same slug
+DROP INDEX IF EXISTS public.idx_canon_project_slug;
+CREATE UNIQUE INDEX idx_canon_project_slug ON public.canon_entries(
+    project_id,
+    COALESCE(timeline_id, '00000000-0000-0000-0000-000000000000'::UUID),
+    slug
+) WHERE is_active = TRUE;
+
+CREATE INDEX idx_timelines_parent ON public.timelines(parent_timeline_id) WHERE parent_timeline_id IS NOT NULL;
+
+-- ============================================
+-- MAIN TIMELINE BOOTSTRAP
+-- ============================================
+
+-- Create the main timeline for a new project
+CREATE OR REPLACE FUNCTION create_main_timeline()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.timelines (project_id, name, is_main)
+    VALUES (NEW.id, 'Main Timeline', TRUE)
+    ON CONFLICT DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only fired by the projects trigger
+REVOKE EXECUTE ON FUNCTION create_main_timeline() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER create_project_main_timeline AFTER INSERT ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION create_main_timeline();
+
+-- Backfill projects created before this migration
+INSERT INTO public.timelines (project_id, name, is_main)
+SELECT p.id, 'Main Timeline', TRUE
+FROM public.projects p
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.timelines t WHERE t.project_id = p.id AND t.is_main = TRUE
+);
+
+-- Forks created before this migration had no parent
+UPDATE public.timelines fork
+SET parent_timeline_id = main.id
+FROM public.timelines main
+WHERE fork.project_id = main.project_id
+    AND main.is_main = TRUE
+    AND fork.is_main = FALSE
+    AND fork.parent_timeline_id IS NULL;
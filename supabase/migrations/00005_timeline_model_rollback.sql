@@ -0,0 +1,13 @@
+-- Rollback script for timeline model
+-- Timelines created by the trigger or backfill are left in place
+
+DROP TRIGGER IF EXISTS create_project_main_timeline ON public.projects;
+DROP FUNCTION IF EXISTS create_main_timeline();
+
+DROP INDEX IF EXISTS public.idx_timelines_parent;
+
+DROP INDEX IF EXISTS public.idx_canon_project_slug;
+CREATE UNIQUE INDEX idx_canon_project_slug ON public.canon_entries(project_id, slug) WHERE is_active = TRUE;
+
+DROP INDEX IF EXISTS public.idx_canon_entries_timeline_id;
+ALTER TABLE public.canon_entries DROP CONSTRAINT IF EXISTS canon_entries_timeline_id_fkey;
@@ -0,0 +1,132 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Canon Bulk Import
+--
+-- Applies a planned import (creates and updates of main timeline entries,
+-- including their type-specific rows) in a single transaction: any failing
+-- entry rolls back the whole import. Planning, slug deduplication and the
+-- dry-run preview happen in the application.
+
+-- ============================================
+-- IMPORT
+-- ============================================
+
+-- p_entries: [{ action: 'create' | 'update', entry_id?, entity_type, name, slug,
+--              description, data, fields }] where fields are type table columns
+CREATE OR REPLACE FUNCTION import_canon_entries(p_project_id UUID, p_entries JSONB, p_user_id UUID DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+    v_item JSONB;
+    v_entry_id UUID;
+    v_version INTEGER;
+    v_table TEXT;
+    v_columns TEXT;
+    v_changed_by UUID;
+    v_created INTEGER := 0;
+    v_updated INTEGER := 0;
+BEGIN
+    -- Users may only import into their own projects; the service role acts for p_user_id
+    IF auth.role() = 'service_role' THEN
+        v_changed_by := p_user_id;
+    ELSE
+        v_changed_by := auth.uid();
+        IF NOT EXISTS (
+            SELECT 1 FROM public.projects WHERE id = p_project_id AND user_id = v_changed_by
+        ) THEN
+            RAISE EXCEPTION 'Project not found';
+        END IF;
+    END IF;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_entries) LOOP
+        v_entry_id := NULL;
+        v_table := CASE v_item->>'entity_type'
+            WHEN 'character' THEN 'canon_characters'
+            WHEN 'location' THEN 'canon_locations'
+            WHEN 'rule' THEN 'canon_rules'
+            WHEN 'event' THEN 'canon_events'
+            WHEN 'theme' THEN 'canon_themes'
+        END;
+
+        -- Only real columns of the type table, never the keys set here
+        SELECT string_agg(quote_ident(c.column_name), ', ') INTO v_columns
+        FROM information_schema.columns c
+        WHERE c.table_schema = 'public'
+            AND c.table_name = v_table
+            AND c.column_name NOT IN ('id', 'canon_entry_id', 'project_id', 'created_at', 'updated_at')
+            AND COALESCE(v_item->'fields', '{}'::JSONB) ? c.column_name;
+
+        IF v_item->>'action' = 'create' THEN
+            INSERT INTO public.canon_entries (project_id, entity_type, name, slug, description, data)
+            VALUES (
+                p_project_id,
+                (v_item->>'entity_type')::canon_entity_type,
+                v_item->>'name',
+                v_item->>'slug',
+                v_item->>'description',
+                COALESCE(v_item->'data', '{}'::JSONB)
+            )
+            RETURNING id, version INTO v_entry_id, v_version;
+
+            IF v_table IS NOT NULL THEN
+                EXECUTE format(
+                    'INSERT INTO public.%I (canon_entry_id, project_id%s) SELECT $1, $2%s FROM jsonb_populate_record(NULL::public.%I, $3)',
+                    v_table,
+                    COALESCE(', ' || v_columns, ''),
+                    COALESCE(', ' || v_columns, ''),
+                    v_table
+                ) USING v_entry_id, p_project_id, v_item->'fields';
+            END IF;
+
+            v_created := v_created + 1;
+        ELSIF v_item->>'action' = 'update' THEN
+            UPDATE public.canon_entries
+            SET
+                name = v_item->>'name',
+                description = v_item->>'description',
+                data = COALESCE(v_item->'data', '{}'::JSONB),
+                version = version + 1
+            WHERE id = (v_item->>'entry_id')::UUID
+                AND project_id = p_project_id
+                AND lock_status <> 'hard_locked'
+            RETURNING id, version INTO v_entry_id, v_version;
+
+            IF v_entry_id IS NULL THEN
+                RAISE EXCEPTION 'Canon entry % cannot be updated', v_item->>'entry_id';
+            END IF;
+
+            IF v_table IS NOT NULL AND v_columns IS NOT NULL THEN
+                EXECUTE format(
+                    'UPDATE public.%I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)) WHERE canon_entry_id = $2',
+                    v_table,
+                    v_columns,
+                    v_columns,
+                    v_table
+                ) USING v_item->'fields', v_entry_id;
+            END IF;
+
+            v_updated := v_updated + 1;
+        ELSE
+            RAISE EXCEPTION 'Unknown import action %', v_item->>'action';
+        END IF;
+
+        INSERT INTO public.canon_versions (
+            canon_entry_id, version, name, description, data, changed_by, change_reason, change_type
+        )
+        VALUES (
+            v_entry_id,
+            v_version,
+            v_item->>'name',
+            v_item->>'description',
+            COALESCE(v_item->'data', '{}'::JSONB),
+            v_changed_by,
+            'Bulk import',
+            'manual'
+        );
+    END LOOP;
+
+    RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Signed-in users (CLI) and the service role (API) only; ownership is checked inside
+REVOKE EXECUTE ON FUNCTION import_canon_entries(UUID, JSONB, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_canon_entries(UUID, JSONB, UUID) TO authenticated;
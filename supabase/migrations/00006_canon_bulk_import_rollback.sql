@@ -0,0 +1,3 @@
+-- Rollback script for canon bulk import
+
+DROP FUNCTION IF EXISTS import_canon_entries(UUID, JSONB, UUID);
@@ -0,0 +1,45 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Canon Suggestions
+--
+-- Canon proposed by AI extraction from manuscript chapters, held for review:
+-- 1. 'create' suggestions propose a new entry; 'update' suggestions target canon_entry_id
+-- 2. Evidence records the supporting quotes and their chapter positions
+-- 3. Accepting writes through the canon manager (change_type 'ai_suggestion_accepted')
+
+-- ============================================
+-- CANON SUGGESTIONS
+-- ============================================
+
+CREATE TABLE public.canon_suggestions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    canon_entry_id UUID REFERENCES public.canon_entries(id) ON DELETE CASCADE, -- Entry an update applies to
+
+    -- Proposal
+    kind TEXT NOT NULL CHECK (kind IN ('create', 'update')),
+    entity_type canon_entity_type NOT NULL,
+    name TEXT NOT NULL,
+    fields JSONB DEFAULT '{}' NOT NULL, -- Proposed fields (canon context shape)
+    rationale TEXT,
+    evidence JSONB DEFAULT '[]' NOT NULL, -- [{ chapterId, quote, position: { start, end } }]
+
+    -- Review
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'accepted', 'rejected')),
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+    CHECK (kind = 'create' OR canon_entry_id IS NOT NULL)
+);
+
+CREATE INDEX idx_canon_suggestions_project ON public.canon_suggestions(project_id, status);
+CREATE INDEX idx_canon_suggestions_entry ON public.canon_suggestions(canon_entry_id);
+
+ALTER TABLE public.canon_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage canon suggestions in own projects" ON public.canon_suggestions
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.projects WHERE id = canon_suggestions.project_id AND user_id = auth.uid())
+    );
@@ -0,0 +1,4 @@
+-- Rollback script for canon suggestions
+-- WARNING: This will delete all pending and reviewed suggestions.
+
+DROP TABLE IF EXISTS public.canon_suggestions CASCADE;
@@ -0,0 +1,56 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Canon Conflict Queue
+--
+-- Conflicts found while generating are stored so they can be reviewed later:
+-- 1. Each conflict records the generation, target chapter/scene and text range it came from
+-- 2. Open conflicts are resolved (keep canon, update canon, fork timeline) or dismissed
+-- 3. The chosen resolution, resolver and time are kept as the audit trail
+
+CREATE TYPE canon_conflict_status AS ENUM ('open', 'resolved', 'dismissed');
+
+-- ============================================
+-- CANON CONFLICTS
+-- ============================================
+
+CREATE TABLE public.canon_conflicts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    generation_id UUID REFERENCES public.ai_generations(id) ON DELETE SET NULL,
+    timeline_id UUID REFERENCES public.timelines(id) ON DELETE CASCADE, -- NULL = main timeline
+
+    -- Where the conflicting text was written
+    target_type TEXT, -- 'chapter', 'scene'
+    target_id UUID,
+
+    -- Conflict
+    conflict_type TEXT NOT NULL, -- 'character', 'location', 'rule', 'event', 'theme', 'timeline'
+    severity TEXT DEFAULT 'warning' NOT NULL CHECK (severity IN ('warning', 'error')),
+    description TEXT NOT NULL,
+    canon_entry_id UUID REFERENCES public.canon_entries(id) ON DELETE SET NULL,
+    canon_entry_name TEXT,
+    suggested_resolution TEXT,
+    generated_text TEXT,
+    position_start INTEGER, -- Offsets within the generated text
+    position_end INTEGER,
+
+    -- Review
+    status canon_conflict_status DEFAULT 'open' NOT NULL,
+    resolution conflict_resolution,
+    resolution_note TEXT,
+    resolution_timeline_id UUID REFERENCES public.timelines(id) ON DELETE SET NULL, -- Fork created by 'fork_timeline'
+    resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_canon_conflicts_project ON public.canon_conflicts(project_id, status);
+CREATE INDEX idx_canon_conflicts_target ON public.canon_conflicts(target_id) WHERE status = 'open';
+CREATE INDEX idx_canon_conflicts_entry ON public.canon_conflicts(canon_entry_id);
+
+ALTER TABLE public.canon_conflicts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage canon conflicts in own projects" ON public.canon_conflicts
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.projects WHERE id = canon_conflicts.project_id AND user_id = auth.uid())
+    );
@@ -0,0 +1,5 @@
+-- Rollback script for the canon conflict queue
+-- WARNING: This will delete all recorded conflicts and their resolution history.
+
+DROP TABLE IF EXISTS public.canon_conflicts CASCADE;
+DROP TYPE IF EXISTS canon_conflict_status;
@@ -0,0 +1,28 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Canon Lock Permissions
+--
+-- Canon locks are enforced by the application:
+-- 1. Soft-locked entries change only with an override reason, kept in canon_versions
+-- 2. Hard-locked entries change only for the project owner or a platform admin
+-- 3. Admins are flagged on users; only the service role can grant the flag
+
+-- ============================================
+-- ADMIN FLAG
+-- ============================================
+
+ALTER TABLE public.users
+    ADD COLUMN is_admin BOOLEAN DEFAULT FALSE NOT NULL;
+
+-- Users may update their own profile, but never their admin flag
+CREATE OR REPLACE FUNCTION protect_user_admin_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_admin IS DISTINCT FROM OLD.is_admin AND auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'is_admin can only be changed by the service role';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_users_admin_flag BEFORE UPDATE ON public.users
+    FOR EACH ROW EXECUTE FUNCTION protect_user_admin_flag();
@@ -0,0 +1,7 @@
+-- Rollback script for canon lock permissions
+
+DROP TRIGGER IF EXISTS protect_users_admin_flag ON public.users;
+DROP FUNCTION IF EXISTS protect_user_admin_flag();
+
+ALTER TABLE public.users
+    DROP COLUMN IF EXISTS is_admin;
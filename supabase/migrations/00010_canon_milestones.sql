@@ -0,0 +1,45 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Canon Milestones
+--
+-- Point-in-time views of the canon vault, rebuilt from canon_versions:
+-- 1. Versions record whether the entry was active, so deletions show up in history
+-- 2. Milestones tag a moment (e.g. a finished draft) the vault can be viewed at or rolled back to
+
+-- ============================================
+-- VERSION ACTIVITY
+-- ============================================
+
+ALTER TABLE public.canon_versions
+    ADD COLUMN is_active BOOLEAN DEFAULT TRUE NOT NULL; -- FALSE for versions that retired the entry
+
+-- Deletions and merge removals recorded before this column existed
+UPDATE public.canon_versions
+SET is_active = FALSE
+WHERE change_reason = 'Deleted' OR change_reason LIKE 'Deleted (%' OR change_reason LIKE 'Removed: %';
+
+CREATE INDEX idx_canon_versions_entry_created ON public.canon_versions(canon_entry_id, created_at DESC);
+
+-- ============================================
+-- CANON MILESTONES
+-- ============================================
+
+CREATE TABLE public.canon_milestones (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    taken_at TIMESTAMPTZ DEFAULT NOW() NOT NULL, -- Moment the canon is viewed at
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+    UNIQUE(project_id, name)
+);
+
+CREATE INDEX idx_canon_milestones_project ON public.canon_milestones(project_id, taken_at DESC);
+
+ALTER TABLE public.canon_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage canon milestones in own projects" ON public.canon_milestones
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.projects WHERE id = canon_milestones.project_id AND user_id = auth.uid())
+    );
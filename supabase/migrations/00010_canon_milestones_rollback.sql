@@ -0,0 +1,9 @@
+-- Rollback script for canon milestones
+-- WARNING: This will delete all milestones and the active flag on canon versions.
+
+DROP TABLE IF EXISTS public.canon_milestones CASCADE;
+
+DROP INDEX IF EXISTS idx_canon_versions_entry_created;
+
+ALTER TABLE public.canon_versions
+    DROP COLUMN IF EXISTS is_active;
@@ -0,0 +1,135 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Canon Hybrid Search
+--
+-- Canon search combines lexical and embedding similarity:
+-- 1. search_vector also covers type-specific fields (appearance, constraints, symbols, history...)
+--    and string values in data, weighted below name and description
+-- 2. canon_embeddings holds one vector per entry, refreshed when its content hash changes
+-- 3. search_canon_lexical ranks entries for a web-style query; scores are combined in the application
+
+-- ============================================
+-- LEXICAL INDEX
+-- ============================================
+
+-- Text of an entry's type-specific row (all columns except keys and timestamps)
+CREATE OR REPLACE FUNCTION canon_type_search_text(p_entry_id UUID, p_entity_type canon_entity_type)
+RETURNS TEXT AS $$
+DECLARE
+    v_table TEXT;
+    v_text TEXT;
+BEGIN
+    v_table := CASE p_entity_type
+        WHEN 'character' THEN 'canon_characters'
+        WHEN 'location' THEN 'canon_locations'
+        WHEN 'rule' THEN 'canon_rules'
+        WHEN 'event' THEN 'canon_events'
+        WHEN 'theme' THEN 'canon_themes'
+    END;
+
+    IF v_table IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    EXECUTE format(
+        'SELECT string_agg(f.value, '' '') FROM public.%I t,
+            jsonb_each_text(to_jsonb(t) - ''id'' - ''canon_entry_id'' - ''project_id'' - ''created_at'' - ''updated_at'') f
+         WHERE t.canon_entry_id = $1',
+        v_table
+    ) INTO v_text USING p_entry_id;
+
+    RETURN v_text;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION build_canon_search_vector(
+    p_entry_id UUID,
+    p_entity_type canon_entity_type,
+    p_name TEXT,
+    p_description TEXT,
+    p_data JSONB
+)
+RETURNS TSVECTOR AS $$
+    SELECT
+        setweight(to_tsvector('english', COALESCE(p_name, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(p_description, '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(canon_type_search_text(p_entry_id, p_entity_type), '')), 'C') ||
+        setweight(jsonb_to_tsvector('english', COALESCE(p_data, '{}'::JSONB), '["string"]'), 'D');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION update_canon_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector := build_canon_search_vector(NEW.id, NEW.entity_type, NEW.name, NEW.description, NEW.data);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_canon_search ON public.canon_entries;
+CREATE TRIGGER update_canon_search BEFORE INSERT OR UPDATE OF name, description, data ON public.canon_entries
+    FOR EACH ROW EXECUTE FUNCTION update_canon_search_vector();
+
+-- Type rows are written after their entry, so they refresh the entry's vector themselves
+CREATE OR REPLACE FUNCTION refresh_canon_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.canon_entries e
+    SET search_vector = build_canon_search_vector(e.id, e.entity_type, e.name, e.description, e.data)
+    WHERE e.id = NEW.canon_entry_id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_canon_search_characters AFTER INSERT OR UPDATE ON public.canon_characters
+    FOR EACH ROW EXECUTE FUNCTION refresh_canon_search_vector();
+CREATE TRIGGER refresh_canon_search_locations AFTER INSERT OR UPDATE ON public.canon_locations
+    FOR EACH ROW EXECUTE FUNCTION refresh_canon_search_vector();
+CREATE TRIGGER refresh_canon_search_rules AFTER INSERT OR UPDATE ON public.canon_rules
+    FOR EACH ROW EXECUTE FUNCTION refresh_canon_search_vector();
+CREATE TRIGGER refresh_canon_search_events AFTER INSERT OR UPDATE ON public.canon_events
+    FOR EACH ROW EXECUTE FUNCTION refresh_canon_search_vector();
+CREATE TRIGGER refresh_canon_search_themes AFTER INSERT OR UPDATE ON public.canon_themes
+    FOR EACH ROW EXECUTE FUNCTION refresh_canon_search_vector();
+
+-- Rebuild existing vectors
+UPDATE public.canon_entries
+SET search_vector = build_canon_search_vector(id, entity_type, name, description, data);
+
+-- Ranked lexical matches for a web-style query ("sword that sings", "-ghost", "\"iron crown\"")
+CREATE OR REPLACE FUNCTION search_canon_lexical(
+    p_project_id UUID,
+    p_query TEXT,
+    p_entity_types canon_entity_type[] DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (canon_entry_id UUID, rank REAL) AS $$
+    SELECT e.id, ts_rank(e.search_vector, q)
+    FROM public.canon_entries e, websearch_to_tsquery('english', p_query) q
+    WHERE e.project_id = p_project_id
+        AND e.is_active = TRUE
+        AND e.search_vector @@ q
+        AND (p_entity_types IS NULL OR e.entity_type = ANY(p_entity_types))
+    ORDER BY 2 DESC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- EMBEDDINGS
+-- ============================================
+
+CREATE TABLE public.canon_embeddings (
+    canon_entry_id UUID PRIMARY KEY REFERENCES public.canon_entries(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    model TEXT NOT NULL, -- Provider model; vectors of different models are not compared
+    content_hash TEXT NOT NULL, -- Hash of the embedded text, to skip unchanged entries
+    embedding REAL[] NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_canon_embeddings_project ON public.canon_embeddings(project_id, model);
+
+ALTER TABLE public.canon_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view canon embeddings in own projects" ON public.canon_embeddings
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.projects WHERE id = canon_embeddings.project_id AND user_id = auth.uid())
+    );
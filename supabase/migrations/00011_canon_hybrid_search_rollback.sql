@@ -0,0 +1,32 @@
+-- Rollback script for canon hybrid search
+-- WARNING: This will delete all stored canon embeddings.
+
+DROP TABLE IF EXISTS public.canon_embeddings CASCADE;
+
+DROP FUNCTION IF EXISTS search_canon_lexical(UUID, TEXT, canon_entity_type[], INTEGER);
+
+DROP TRIGGER IF EXISTS refresh_canon_search_characters ON public.canon_characters;
+DROP TRIGGER IF EXISTS refresh_canon_search_locations ON public.canon_locations;
+DROP TRIGGER IF EXISTS refresh_canon_search_rules ON public.canon_rules;
+DROP TRIGGER IF EXISTS refresh_canon_search_events ON public.canon_events;
+DROP TRIGGER IF EXISTS refresh_canon_search_themes ON public.canon_themes;
+DROP FUNCTION IF EXISTS refresh_canon_search_vector();
+
+-- Restore the name and description index
+CREATE OR REPLACE FUNCTION update_canon_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector := to_tsvector('english', COALESCE(NEW.name, '') || ' ' || COALESCE(NEW.description, ''));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_canon_search ON public.canon_entries;
+CREATE TRIGGER update_canon_search BEFORE INSERT OR UPDATE OF name, description ON public.canon_entries
+    FOR EACH ROW EXECUTE FUNCTION update_canon_search_vector();
+
+UPDATE public.canon_entries
+SET search_vector = to_tsvector('english', COALESCE(name, '') || ' ' || COALESCE(description, ''));
+
+DROP FUNCTION IF EXISTS build_canon_search_vector(UUID, canon_entity_type, TEXT, TEXT, JSONB);
+DROP FUNCTION IF EXISTS canon_type_search_text(UUID, canon_entity_type);
@@ -0,0 +1,13 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Scene Story Dates
+--
+-- In-world dates for scenes, so the chronology engine can interleave scenes with canon events:
+-- 1. Scenes carry a free-text story date, parsed against the project calendar (canon rule with category 'calendar')
+-- 2. Undated scenes fall back to their place in the narrative order
+
+-- ============================================
+-- SCENE DATES
+-- ============================================
+
+ALTER TABLE public.scenes
+    ADD COLUMN IF NOT EXISTS story_date TEXT;
@@ -0,0 +1,4 @@
+-- Rollback script for scene story dates
+-- WARNING: This will delete all scene story dates.
+
+ALTER TABLE public.scenes DROP COLUMN IF EXISTS story_date;
@@ -0,0 +1,99 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Shot Ordering
+--
+-- Shot board edits (create, delete, drag-and-drop reorder) keep each scene's shots consistent:
+-- 1. scenes.shot_count is recomputed whenever shots are added, removed or moved between scenes
+-- 2. Deleting shots closes the gaps they leave in order_index
+-- 3. reorder_shots rewrites a scene's order_index in one transaction
+
+-- ============================================
+-- SHOT COUNT AND ORDER SYNC
+-- ============================================
+
+-- Renumber a scene's shots 0..n-1, keeping their current order
+CREATE OR REPLACE FUNCTION renumber_scene_shots(p_scene_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.shots s
+    SET order_index = ordered.position
+    FROM (
+        SELECT id, (ROW_NUMBER() OVER (ORDER BY order_index, created_at) - 1)::INTEGER AS position
+        FROM public.shots
+        WHERE scene_id = p_scene_id
+    ) ordered
+    WHERE s.id = ordered.id AND s.order_index <> ordered.position;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_scene_shots()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('DELETE', 'UPDATE') THEN
+        PERFORM renumber_scene_shots(OLD.scene_id);
+        UPDATE public.scenes
+        SET shot_count = (SELECT COUNT(*) FROM public.shots WHERE scene_id = OLD.scene_id)
+        WHERE id = OLD.scene_id;
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        UPDATE public.scenes
+        SET shot_count = (SELECT COUNT(*) FROM public.shots WHERE scene_id = NEW.scene_id)
+        WHERE id = NEW.scene_id;
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_scene_shots_on_insert AFTER INSERT ON public.shots
+    FOR EACH ROW EXECUTE FUNCTION sync_scene_shots();
+CREATE TRIGGER sync_scene_shots_on_delete AFTER DELETE ON public.shots
+    FOR EACH ROW EXECUTE FUNCTION sync_scene_shots();
+CREATE TRIGGER sync_scene_shots_on_move AFTER UPDATE OF scene_id ON public.shots
+    FOR EACH ROW WHEN (OLD.scene_id IS DISTINCT FROM NEW.scene_id)
+    EXECUTE FUNCTION sync_scene_shots();
+
+-- ============================================
+-- ATOMIC REORDER
+-- ============================================
+
+-- Set a scene's shot order; p_shot_ids must list every shot in the scene exactly once.
+-- Runs with the caller's permissions, so RLS limits it to the caller's own projects.
+CREATE OR REPLACE FUNCTION reorder_shots(p_scene_id UUID, p_shot_ids UUID[])
+RETURNS SETOF public.shots AS $$
+DECLARE
+    v_requested INTEGER := COALESCE(array_length(p_shot_ids, 1), 0);
+BEGIN
+    -- Lock the scene's shots so concurrent reorders apply one after the other
+    PERFORM 1 FROM public.shots WHERE scene_id = p_scene_id FOR UPDATE;
+
+    IF (SELECT COUNT(*) FROM public.shots WHERE scene_id = p_scene_id) <> v_requested
+        OR (SELECT COUNT(DISTINCT id) FROM public.shots WHERE scene_id = p_scene_id AND id = ANY(p_shot_ids)) <> v_requested
+    THEN
+        RAISE EXCEPTION 'Shot order must list every shot in scene % exactly once', p_scene_id
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE public.shots s
+    SET order_index = (ordered.position - 1)::INTEGER
+    FROM unnest(p_shot_ids) WITH ORDINALITY AS ordered(id, position)
+    WHERE s.id = ordered.id AND s.order_index <> (ordered.position - 1)::INTEGER;
+
+    RETURN QUERY SELECT * FROM public.shots WHERE scene_id = p_scene_id ORDER BY order_index;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+
+UPDATE public.shots s
+SET order_index = ordered.position
+FROM (
+    SELECT id, (ROW_NUMBER() OVER (PARTITION BY scene_id ORDER BY order_index, created_at) - 1)::INTEGER AS position
+    FROM public.shots
+) ordered
+WHERE s.id = ordered.id AND s.order_index <> ordered.position;
+
+UPDATE public.scenes s
+SET shot_count = (SELECT COUNT(*) FROM public.shots WHERE scene_id = s.id);
@@ -0,0 +1,10 @@
+-- Rollback script for shot ordering
+-- Shot counts and order indexes keep their current values.
+
+DROP FUNCTION IF EXISTS reorder_shots(UUID, UUID[]);
+
+DROP TRIGGER IF EXISTS sync_scene_shots_on_insert ON public.shots;
+DROP TRIGGER IF EXISTS sync_scene_shots_on_delete ON public.shots;
+DROP TRIGGER IF EXISTS sync_scene_shots_on_move ON public.shots;
+DROP FUNCTION IF EXISTS sync_scene_shots();
+DROP FUNCTION IF EXISTS renumber_scene_shots(UUID);
@@ -0,0 +1,15 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Shot Edit Tracking
+--
+-- Re-translating a scene reconciles the new shot list with the saved one:
+-- 1. edited_at records when a writer last changed a shot by hand
+-- 2. Shots with edited_at set (or marked final) are kept as they are
+
+-- ============================================
+-- EDIT TRACKING
+-- ============================================
+
+ALTER TABLE public.shots
+    ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.shots.edited_at IS 'Last manual edit; re-translation keeps shots that have one';
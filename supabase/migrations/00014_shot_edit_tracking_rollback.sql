@@ -0,0 +1,4 @@
+-- Rollback script for shot edit tracking
+-- WARNING: Re-translation will no longer know which shots were edited by hand.
+
+ALTER TABLE public.shots DROP COLUMN IF EXISTS edited_at;
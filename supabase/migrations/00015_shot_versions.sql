@@ -0,0 +1,45 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Shot Versions
+--
+-- Shots are changed in place, so their history is kept alongside them:
+-- 1. Each version is a full snapshot of the shot after a change
+-- 2. The first change to a shot also records how it looked before
+
+-- ============================================
+-- SHOT VERSIONS
+-- ============================================
+
+CREATE TABLE public.shot_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    shot_id UUID NOT NULL REFERENCES public.shots(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+
+    -- Snapshot of the shot at this version
+    description TEXT NOT NULL,
+    visual_prompt TEXT,
+    data JSONB NOT NULL,
+
+    -- Change metadata
+    changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    change_reason TEXT,
+    change_type TEXT NOT NULL, -- 'translation', 'regeneration', 'manual', 'rollback'
+
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+    UNIQUE(shot_id, version)
+);
+
+CREATE INDEX idx_shot_versions_shot_version ON public.shot_versions(shot_id, version DESC);
+
+ALTER TABLE public.shot_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shot versions in own projects" ON public.shot_versions
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.projects WHERE id = shot_versions.project_id AND user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can create shot versions in own projects" ON public.shot_versions
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM public.projects WHERE id = shot_versions.project_id AND user_id = auth.uid())
+    );
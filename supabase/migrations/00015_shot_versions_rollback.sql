@@ -0,0 +1,4 @@
+-- Rollback script for shot versions
+-- WARNING: This will delete all shot version history.
+
+DROP TABLE IF EXISTS public.shot_versions CASCADE;
@@ -0,0 +1,101 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Canon Reference Swap
+--
+-- Re-indexing a chapter or scene replaces its references in one transaction,
+-- so a failed insert can't leave it with none. Mention lists are ordered by
+-- manuscript position before they are limited.
+
+-- ============================================
+-- REFERENCE SWAP
+-- ============================================
+
+-- Replace the references of a scene, or of a chapter's own text when p_scene_id is null.
+-- Returns every entry whose references changed, after syncing their counts.
+CREATE OR REPLACE FUNCTION replace_canon_references(
+    p_chapter_id UUID,
+    p_scene_id UUID,
+    p_references JSONB
+)
+RETURNS UUID[] AS $$
+DECLARE
+    v_affected UUID[];
+BEGIN
+    -- Concurrent saves of the same text run one after the other
+    IF p_scene_id IS NOT NULL THEN
+        PERFORM 1 FROM public.scenes WHERE id = p_scene_id FOR UPDATE;
+    ELSE
+        PERFORM 1 FROM public.chapters WHERE id = p_chapter_id FOR UPDATE;
+    END IF;
+
+    WITH removed AS (
+        DELETE FROM public.canon_references
+        WHERE (p_scene_id IS NOT NULL AND scene_id = p_scene_id)
+           OR (p_scene_id IS NULL AND chapter_id = p_chapter_id AND scene_id IS NULL)
+        RETURNING canon_entry_id
+    ),
+    added AS (
+        INSERT INTO public.canon_references (
+            canon_entry_id, chapter_id, scene_id, context_snippet, position_start, position_end
+        )
+        SELECT r.canon_entry_id, p_chapter_id, p_scene_id, r.context_snippet, r.position_start, r.position_end
+        FROM jsonb_to_recordset(COALESCE(p_references, '[]'::JSONB)) AS r(
+            canon_entry_id UUID,
+            context_snippet TEXT,
+            position_start INTEGER,
+            position_end INTEGER
+        )
+        RETURNING canon_entry_id
+    )
+    SELECT COALESCE(array_agg(DISTINCT canon_entry_id), '{}')
+    INTO v_affected
+    FROM (SELECT canon_entry_id FROM removed UNION SELECT canon_entry_id FROM added) changed;
+
+    IF cardinality(v_affected) > 0 THEN
+        PERFORM sync_canon_reference_counts(v_affected);
+    END IF;
+
+    RETURN v_affected;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION replace_canon_references(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- MENTIONS IN MANUSCRIPT ORDER
+-- ============================================
+
+-- References to an entry ordered by chapter, scene (chapter text first) and position.
+-- total_count is the number of references before the limit.
+CREATE OR REPLACE FUNCTION get_canon_mentions(p_canon_entry_id UUID, p_limit INTEGER)
+RETURNS TABLE (
+    id UUID,
+    canon_entry_id UUID,
+    chapter_id UUID,
+    chapter_title TEXT,
+    scene_id UUID,
+    scene_title TEXT,
+    context_snippet TEXT,
+    position_start INTEGER,
+    position_end INTEGER,
+    created_at TIMESTAMPTZ,
+    total_count BIGINT
+) AS $$
+    SELECT
+        cr.id,
+        cr.canon_entry_id,
+        cr.chapter_id,
+        c.title,
+        cr.scene_id,
+        s.title,
+        cr.context_snippet,
+        cr.position_start,
+        cr.position_end,
+        cr.created_at,
+        COUNT(*) OVER ()
+    FROM public.canon_references cr
+    LEFT JOIN public.chapters c ON c.id = cr.chapter_id
+    LEFT JOIN public.scenes s ON s.id = cr.scene_id
+    WHERE cr.canon_entry_id = p_canon_entry_id
+    ORDER BY COALESCE(c.order_index, 0), s.order_index NULLS FIRST, COALESCE(cr.position_start, 0), cr.id
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
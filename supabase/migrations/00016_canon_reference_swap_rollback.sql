@@ -0,0 +1,4 @@
+-- Rollback script for canon reference swap
+
+DROP FUNCTION IF EXISTS get_canon_mentions(UUID, INTEGER);
+DROP FUNCTION IF EXISTS replace_canon_references(UUID, UUID, JSONB);
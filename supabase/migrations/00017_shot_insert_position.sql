@@ -0,0 +1,51 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Shot Insert Position
+--
+-- Adding a shot mid-scene shifts the later shots and inserts the new one in a
+-- single transaction, so a failed insert can't leave a gap or a shot out of place.
+
+-- ============================================
+-- POSITIONED INSERT
+-- ============================================
+
+-- Insert a shot at p_position in its scene (clamped to 0..shot count; NULL appends).
+-- p_shot holds the column values; columns it leaves out get their defaults.
+-- Runs with the caller's permissions, so RLS limits it to the caller's own projects.
+CREATE OR REPLACE FUNCTION insert_shot(p_shot JSONB, p_position INTEGER DEFAULT NULL)
+RETURNS public.shots AS $$
+DECLARE
+    v_scene_id UUID := (p_shot->>'scene_id')::UUID;
+    v_count INTEGER;
+    v_columns TEXT;
+    v_shot public.shots;
+BEGIN
+    -- Lock the scene and its shots so concurrent inserts and reorders apply one after the other
+    PERFORM 1 FROM public.scenes WHERE id = v_scene_id FOR UPDATE;
+    PERFORM 1 FROM public.shots WHERE scene_id = v_scene_id FOR UPDATE;
+
+    SELECT COUNT(*) INTO v_count FROM public.shots WHERE scene_id = v_scene_id;
+    p_position := LEAST(GREATEST(COALESCE(p_position, v_count), 0), v_count);
+
+    UPDATE public.shots
+    SET order_index = order_index + 1
+    WHERE scene_id = v_scene_id AND order_index >= p_position;
+
+    SELECT string_agg(quote_ident(attname), ', ')
+    INTO v_columns
+    FROM pg_attribute
+    WHERE attrelid = 'public.shots'::regclass
+        AND attnum > 0
+        AND NOT attisdropped
+        AND attname <> 'order_index'
+        AND p_shot ? attname;
+
+    EXECUTE format(
+        'INSERT INTO public.shots (order_index, %1$s) SELECT $2, %1$s FROM jsonb_populate_record(NULL::public.shots, $1) RETURNING *',
+        v_columns
+    )
+    INTO v_shot
+    USING p_shot, p_position;
+
+    RETURN v_shot;
+END;
+$$ LANGUAGE plpgsql;
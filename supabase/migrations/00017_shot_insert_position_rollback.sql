@@ -0,0 +1,3 @@
+-- Rollback script for shot insert position
+
+DROP FUNCTION IF EXISTS insert_shot(JSONB, INTEGER);
@@ -0,0 +1,3 @@
+-- Rollback script for shot reconciliation
+
+DROP FUNCTION IF EXISTS apply_shot_reconciliation(UUID, UUID[], JSONB, JSONB, UUID[], BOOLEAN);
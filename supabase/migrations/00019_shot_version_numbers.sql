@@ -0,0 +1,231 @@
+-- Halcyon Cinema + StoryForge Unified Platform
+-- Shot Version Numbers
+--
+-- Version numbers are assigned in the database, in the transaction that changes the shot:
+-- 1. record_shot_change numbers versions while the shot's row is locked
+-- 2. update_shot_versioned updates a shot and records the change together
+-- 3. Re-translation records versions for the shots it updates
+
+-- ============================================
+-- SNAPSHOTS
+-- ============================================
+
+-- Versioned content of a shot (SNAPSHOT_FIELDS in services/cinema/versions/shot-versions.ts)
+CREATE OR REPLACE FUNCTION shot_snapshot(p_shot public.shots)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'shot_type', p_shot.shot_type,
+        'duration_seconds', p_shot.duration_seconds,
+        'description', p_shot.description,
+        'composition', p_shot.composition,
+        'camera_movement', p_shot.camera_movement,
+        'lighting', p_shot.lighting,
+        'visual_prompt', p_shot.visual_prompt,
+        'prompt_template', p_shot.prompt_template,
+        'character_ids', p_shot.character_ids,
+        'location_id', p_shot.location_id,
+        'mood', p_shot.mood,
+        'emotional_beat', p_shot.emotional_beat,
+        'technical_notes', p_shot.technical_notes,
+        'vfx_required', p_shot.vfx_required,
+        'vfx_notes', p_shot.vfx_notes,
+        'preview_image_url', p_shot.preview_image_url,
+        'format', p_shot.format,
+        'aspect_ratio', p_shot.aspect_ratio,
+        'status', p_shot.status
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- VERSION RECORDING
+-- ============================================
+
+-- Record a change to a shot: the state before it (if the shot has no history yet) and after it.
+-- Returns the new version number, or NULL if the versioned content didn't change.
+-- Callers hold the shot's row lock, so concurrent changes can't take the same number.
+CREATE OR REPLACE FUNCTION record_shot_change(
+    p_before public.shots,
+    p_after public.shots,
+    p_user_id UUID,
+    p_change_type TEXT,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_version INTEGER;
+BEGIN
+    IF shot_snapshot(p_before) = shot_snapshot(p_after) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COALESCE(MAX(version), 0) INTO v_version FROM public.shot_versions WHERE shot_id = p_after.id;
+
+    IF v_version = 0 THEN
+        v_version := 1;
+        INSERT INTO public.shot_versions (
+            shot_id, project_id, version, description, visual_prompt, data, changed_by, change_reason, change_type
+        ) VALUES (
+            p_before.id, p_before.project_id, v_version, p_before.description, p_before.visual_prompt,
+            shot_snapshot(p_before), p_user_id, 'Before first change',
+            CASE WHEN p_before.edited_at IS NOT NULL THEN 'manual' ELSE 'translation' END
+        );
+    END IF;
+
+    v_version := v_version + 1;
+    INSERT INTO public.shot_versions (
+        shot_id, project_id, version, description, visual_prompt, data, changed_by, change_reason, change_type
+    ) VALUES (
+        p_after.id, p_after.project_id, v_version, p_after.description, p_after.visual_prompt,
+        shot_snapshot(p_after), p_user_id, p_reason, p_change_type
+    );
+
+    RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Update a shot's content columns from p_changes and record the change as its next version.
+-- Returns { shot, version }, or NULL if the shot doesn't exist.
+CREATE OR REPLACE FUNCTION update_shot_versioned(
+    p_shot_id UUID,
+    p_changes JSONB,
+    p_user_id UUID,
+    p_change_type TEXT,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_before public.shots;
+    v_after public.shots;
+    v_columns TEXT;
+BEGIN
+    SELECT * INTO v_before FROM public.shots WHERE id = p_shot_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Placement and keys change through their own functions
+    SELECT string_agg(quote_ident(attname), ', ')
+    INTO v_columns
+    FROM pg_attribute
+    WHERE attrelid = 'public.shots'::regclass
+        AND attnum > 0
+        AND NOT attisdropped
+        AND attname NOT IN ('id', 'scene_id', 'project_id', 'order_index', 'created_at', 'updated_at')
+        AND p_changes ? attname;
+
+    IF v_columns IS NULL THEN
+        v_after := v_before;
+    ELSE
+        EXECUTE format(
+            'UPDATE public.shots s SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(s, $1)) WHERE id = $2 RETURNING *',
+            v_columns
+        )
+        INTO v_after
+        USING p_changes, p_shot_id;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'shot', to_jsonb(v_after),
+        'version', record_shot_change(v_before, v_after, p_user_id, p_change_type, p_reason)
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Takes a user ID to credit, so only the server calls it
+REVOKE EXECUTE ON FUNCTION update_shot_versioned(UUID, JSONB, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- RE-TRANSLATION VERSIONS
+-- ============================================
+
+-- As in 00018, plus a version for each updated shot, credited to the caller
+CREATE OR REPLACE FUNCTION apply_shot_reconciliation(
+    p_scene_id UUID,
+    p_removals UUID[],
+    p_updates JSONB,
+    p_inserts JSONB,
+    p_order UUID[],
+    p_keep_edited BOOLEAN DEFAULT TRUE
+)
+RETURNS SETOF public.shots AS $$
+DECLARE
+    v_changed UUID[] := p_removals || ARRAY(SELECT (u->>'id')::UUID FROM jsonb_array_elements(p_updates) u);
+    v_expected UUID[];
+    v_before public.shots;
+    v_after public.shots;
+    v_updated public.shots[];
+BEGIN
+    -- Lock the scene and its shots so edits made meanwhile wait for the plan or fail it
+    PERFORM 1 FROM public.scenes WHERE id = p_scene_id FOR UPDATE;
+    PERFORM 1 FROM public.shots WHERE scene_id = p_scene_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1
+        FROM unnest(v_changed) AS target(id)
+        LEFT JOIN public.shots s ON s.id = target.id AND s.scene_id = p_scene_id
+        WHERE s.id IS NULL OR (p_keep_edited AND (s.edited_at IS NOT NULL OR s.status = 'final'))
+    ) THEN
+        RAISE EXCEPTION 'Shots in scene % changed since the re-translation was planned', p_scene_id
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_expected := ARRAY(SELECT id FROM public.shots WHERE scene_id = p_scene_id AND id <> ALL(p_removals))
+        || ARRAY(SELECT (i->>'id')::UUID FROM jsonb_array_elements(p_inserts) i);
+
+    IF cardinality(p_order) <> cardinality(v_expected)
+        OR (SELECT COUNT(DISTINCT id) FROM unnest(p_order) AS ordered(id) WHERE id = ANY(v_expected)) <> cardinality(v_expected)
+    THEN
+        RAISE EXCEPTION 'Shot order must list every kept and added shot in scene % exactly once', p_scene_id
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    DELETE FROM public.shots WHERE id = ANY(p_removals);
+
+    v_updated := ARRAY(
+        SELECT s FROM public.shots s
+        WHERE s.id IN (SELECT (u->>'id')::UUID FROM jsonb_array_elements(p_updates) u)
+    );
+
+    UPDATE public.shots s
+    SET shot_type = u.shot_type,
+        duration_seconds = u.duration_seconds,
+        description = u.description,
+        composition = u.composition,
+        camera_movement = u.camera_movement,
+        lighting = u.lighting,
+        visual_prompt = u.visual_prompt,
+        prompt_template = u.prompt_template,
+        character_ids = u.character_ids,
+        location_id = u.location_id,
+        mood = u.mood,
+        emotional_beat = u.emotional_beat,
+        technical_notes = u.technical_notes,
+        vfx_required = u.vfx_required,
+        vfx_notes = u.vfx_notes,
+        format = u.format,
+        aspect_ratio = u.aspect_ratio
+    FROM jsonb_populate_recordset(NULL::public.shots, p_updates) u
+    WHERE s.id = u.id;
+
+    -- Updated shots keep their previous content in version history
+    FOREACH v_before IN ARRAY v_updated LOOP
+        SELECT * INTO v_after FROM public.shots WHERE id = v_before.id;
+        PERFORM record_shot_change(v_before, v_after, auth.uid(), 'translation', 'Scene re-translated');
+    END LOOP;
+
+    INSERT INTO public.shots (
+        id, scene_id, project_id, order_index, shot_type, duration_seconds, description,
+        composition, camera_movement, lighting, visual_prompt, prompt_template, character_ids,
+        location_id, mood, emotional_beat, technical_notes, vfx_required, vfx_notes,
+        format, aspect_ratio, status
+    )
+    SELECT
+        i.id, p_scene_id, i.project_id, array_position(p_order, i.id) - 1, i.shot_type, i.duration_seconds, i.description,
+        i.composition, i.camera_movement, i.lighting, i.visual_prompt, i.prompt_template, COALESCE(i.character_ids, '{}'),
+        i.location_id, i.mood, i.emotional_beat, i.technical_notes, COALESCE(i.vfx_required, FALSE), i.vfx_notes,
+        i.format, COALESCE(i.aspect_ratio, '16:9'), COALESCE(i.status, 'draft')
+    FROM jsonb_populate_recordset(NULL::public.shots, p_inserts) i;
+
+    RETURN QUERY SELECT * FROM reorder_shots(p_scene_id, p_order);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,84 @@
+-- Rollback script for shot version numbers
+-- Versions already recorded are kept.
+
+-- Restore re-translation without version recording
+CREATE OR REPLACE FUNCTION apply_shot_reconciliation(
+    p_scene_id UUID,
+    p_removals UUID[],
+    p_updates JSONB,
+    p_inserts JSONB,
+    p_order UUID[],
+    p_keep_edited BOOLEAN DEFAULT TRUE
+)
+RETURNS SETOF public.shots AS $$
+DECLARE
+    v_changed UUID[] := p_removals || ARRAY(SELECT (u->>'id')::UUID FROM jsonb_array_elements(p_updates) u);
+    v_expected UUID[];
+BEGIN
+    -- Lock the scene and its shots so edits made meanwhile wait for the plan or fail it
+    PERFORM 1 FROM public.scenes WHERE id = p_scene_id FOR UPDATE;
+    PERFORM 1 FROM public.shots WHERE scene_id = p_scene_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1
+        FROM unnest(v_changed) AS target(id)
+        LEFT JOIN public.shots s ON s.id = target.id AND s.scene_id = p_scene_id
+        WHERE s.id IS NULL OR (p_keep_edited AND (s.edited_at IS NOT NULL OR s.status = 'final'))
+    ) THEN
+        RAISE EXCEPTION 'Shots in scene % changed since the re-translation was planned', p_scene_id
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_expected := ARRAY(SELECT id FROM public.shots WHERE scene_id = p_scene_id AND id <> ALL(p_removals))
+        || ARRAY(SELECT (i->>'id')::UUID FROM jsonb_array_elements(p_inserts) i);
+
+    IF cardinality(p_order) <> cardinality(v_expected)
+        OR (SELECT COUNT(DISTINCT id) FROM unnest(p_order) AS ordered(id) WHERE id = ANY(v_expected)) <> cardinality(v_expected)
+    THEN
+        RAISE EXCEPTION 'Shot order must list every kept and added shot in scene % exactly once', p_scene_id
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    DELETE FROM public.shots WHERE id = ANY(p_removals);
+
+    UPDATE public.shots s
+    SET shot_type = u.shot_type,
+        duration_seconds = u.duration_seconds,
+        description = u.description,
+        composition = u.composition,
+        camera_movement = u.camera_movement,
+        lighting = u.lighting,
+        visual_prompt = u.visual_prompt,
+        prompt_template = u.prompt_template,
+        character_ids = u.character_ids,
+        location_id = u.location_id,
+        mood = u.mood,
+        emotional_beat = u.emotional_beat,
+        technical_notes = u.technical_notes,
+        vfx_required = u.vfx_required,
+        vfx_notes = u.vfx_notes,
+        format = u.format,
+        aspect_ratio = u.aspect_ratio
+    FROM jsonb_populate_recordset(NULL::public.shots, p_updates) u
+    WHERE s.id = u.id;
+
+    INSERT INTO public.shots (
+        id, scene_id, project_id, order_index, shot_type, duration_seconds, description,
+        composition, camera_movement, lighting, visual_prompt, prompt_template, character_ids,
+        location_id, mood, emotional_beat, technical_notes, vfx_required, vfx_notes,
+        format, aspect_ratio, status
+    )
+    SELECT
+        i.id, p_scene_id, i.project_id, array_position(p_order, i.id) - 1, i.shot_type, i.duration_seconds, i.description,
+        i.composition, i.camera_movement, i.lighting, i.visual_prompt, i.prompt_template, COALESCE(i.character_ids, '{}'),
+        i.location_id, i.mood, i.emotional_beat, i.technical_notes, COALESCE(i.vfx_required, FALSE), i.vfx_notes,
+        i.format, COALESCE(i.aspect_ratio, '16:9'), COALESCE(i.status, 'draft')
+    FROM jsonb_populate_recordset(NULL::public.shots, p_inserts) i;
+
+    RETURN QUERY SELECT * FROM reorder_shots(p_scene_id, p_order);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP FUNCTION IF EXISTS update_shot_versioned(UUID, JSONB, UUID, TEXT, TEXT);
+DROP FUNCTION IF EXISTS record_shot_change(public.shots, public.shots, UUID, TEXT, TEXT);
+DROP FUNCTION IF EXISTS shot_snapshot(public.shots);